@@ -1,12 +1,24 @@
 console.log('===== MAIN PROCESS STARTING =====');
 
-import { app, BrowserWindow, session, Menu, MenuItem } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  session,
+  Menu,
+  MenuItem,
+  DownloadItem,
+  Event,
+  WebContents,
+} from 'electron';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { databaseService } from './services/database';
 import { ollamaService } from './services/ollama';
 import { downloadService } from './services/download';
-import { tabWindowManager } from './services/tabWindowManager';
+import { tabWindowManager, PRIVATE_PARTITION } from './services/tabWindowManager';
+import { sitePermissionService } from './services/sitePermissions';
+import { contentBlockerService } from './services/contentBlocker';
+import { containerService } from './services/containers';
 import { registerIpcHandlers } from './ipc/handlers';
 
 // Polyfill __dirname for ESM
@@ -218,6 +230,9 @@ app.whenReady().then(async () => {
   // Set flag to indicate app is running - used for crash detection
   databaseService.setSetting('app-running', 'true');
 
+  // Point Ollama at the saved server before anything talks to it
+  ollamaService.loadEndpoint();
+
   // Register IPC handlers
   console.log('Registering IPC handlers...');
   try {
@@ -250,7 +265,12 @@ app.whenReady().then(async () => {
 
   // Setup download handling with the download service
   // Handler function for downloads
-  const handleDownload = (_event: any, item: any, webContents: any) => {
+  const handleDownload = (
+    _event: Event,
+    item: DownloadItem,
+    webContents: WebContents,
+    isPrivate = false
+  ) => {
     console.log('[Download] Download started:', item.getFilename(), 'from', item.getURL());
 
     // Check if there's a custom save path for this URL (e.g., from Save Image As)
@@ -269,8 +289,12 @@ app.whenReady().then(async () => {
 
     console.log('[Download] Saving to:', savePath);
 
-    // Handle the download with the service
-    downloadService.handleDownload(item, savePath, webContents);
+    // Handle the download with the service; private tabs keep no download records
+    if (isPrivate) {
+      downloadService.handlePrivateDownload(item, savePath);
+    } else {
+      downloadService.handleDownload(item, savePath, webContents);
+    }
   };
 
   // Setup download handler for default session
@@ -286,11 +310,30 @@ app.whenReady().then(async () => {
     handleDownload(event, item, webContents);
   });
 
-  // Set permissions for webview session to allow downloads
-  webviewSession.setPermissionRequestHandler((webContents, permission, callback) => {
-    console.log('[Webview] Permission requested:', permission);
-    // Allow all permissions for now (downloads, media, notifications, etc.)
-    callback(true);
+  // Private tabs use an in-memory session
+  const privateSession = session.fromPartition(PRIVATE_PARTITION);
+  privateSession.on('will-download', (event, item, webContents) => {
+    handleDownload(event, item, webContents, true);
+  });
+
+  // Ask the user before sites get camera, microphone, location, notifications, etc.
+  // Tabs use the default session; the webview and private partitions get the same rules
+  sitePermissionService.attachToSession(session.defaultSession);
+  sitePermissionService.attachToSession(webviewSession);
+  sitePermissionService.attachToSession(privateSession);
+
+  // Block ads and trackers from the filter lists in every session. Normal tabs
+  // load in the default session, so it is filtered too; the app's own windows
+  // in it are skipped by the blocker.
+  contentBlockerService.attachToSession(session.defaultSession);
+  contentBlockerService.attachToSession(webviewSession);
+  contentBlockerService.attachToSession(privateSession);
+
+  // Container sessions are created when their first tab opens and get the same setup
+  containerService.initialize((containerSession) => {
+    containerSession.on('will-download', handleDownload);
+    sitePermissionService.attachToSession(containerSession);
+    contentBlockerService.attachToSession(containerSession);
   });
 
   // Also log when webContents are created to verify webviews are using the right session
@@ -305,6 +348,10 @@ app.whenReady().then(async () => {
   // Initialize tab window manager after main window is created
   if (mainWindow) {
     tabWindowManager.initialize(mainWindow);
+    sitePermissionService.initialize(mainWindow);
+    contentBlockerService.initialize(mainWindow).catch((error) => {
+      console.error('[Main] Failed to load filter lists:', error);
+    });
     console.log('[Main] TabWindowManager initialized');
   }
 
@@ -430,7 +477,8 @@ app.on('web-contents-created', (event, contents) => {
     // - Popup spam
     // - Phishing attempts via new windows
     // - Bypassing navigation guards
-    // Links that try to open new windows will be handled by the webview's new-window event
+    // Tab views replace this handler with TabWindowManager's, which opens
+    // user-initiated pop-ups as new tabs and reports the blocked ones
     return { action: 'deny' };
   });
 
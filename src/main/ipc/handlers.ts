@@ -1,25 +1,68 @@
 import { ipcMain, BrowserWindow, webContents, dialog, shell, app } from 'electron';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { databaseService, HistoryEntry, Bookmark, Tab } from '../services/database';
 import {
   validateUrl,
   validatePositiveInteger,
   validateString,
   validateBoolean,
+  validateObject,
+  validateOrigin,
 } from '../utils/validation';
 import { ollamaService } from '../services/ollama';
 import { captureService } from '../services/capture';
 import { downloadService } from '../services/download';
 import { tabWindowManager } from '../services/tabWindowManager';
+import { browserActionService, ScrollOptions } from '../services/browserActions';
+import { webSearchService } from '../services/webSearch';
+import { historyIndexService } from '../services/historyIndex';
+import { bookmarkIndexService } from '../services/bookmarkIndex';
+import { llmProviderService } from '../services/llmProvider';
+import { sitePermissionService } from '../services/sitePermissions';
+import { contentBlockerService } from '../services/contentBlocker';
+import { aiPrivacyService } from '../services/aiPrivacy';
+import { containerService } from '../services/containers';
 import { createDownloadManagerWindow } from '../index';
 import type {
   GenerateOptions,
   ChatOptions,
+  ContainerColor,
+  Conversation,
+  LLMProviderSettings,
+  OllamaEndpoint,
+  StreamReasoningEvent,
+  StreamStatsEvent,
+  StreamTokenEvent,
+  StreamToolCallsEvent,
   PersonalitiesConfig,
   Personality,
+  SearchEngine,
+  SitePermissionDecision,
+  SitePermissionType,
+  StoredMessage,
+  SavedSessionTab,
+  SummarizeOptions,
+  TabGroup,
 } from '../../shared/types';
+import { isValidSearchTemplate } from '../../shared/searchEngines';
+import { SITE_PERMISSION_TYPES } from '../../shared/sitePermissions';
+import {
+  MAX_SESSION_NAME_LENGTH,
+  MAX_SESSION_TABS,
+  MAX_TAB_GROUP_NAME_LENGTH,
+  TAB_GROUP_COLOR_NAMES,
+} from '../../shared/tabGroups';
+import { WITHHELD_MESSAGE } from '../../shared/aiPrivacy';
+import {
+  REDACTION_SETTING,
+  parseRedactionSettings,
+  redactPageCapture,
+} from '../../shared/redaction';
 import personalitiesConfigData from '../../shared/personalities/personalities.json';
 
+const SCROLL_DIRECTIONS: ScrollOptions['direction'][] = ['up', 'down', 'top', 'bottom'];
+
 // Load personalities configuration
 let personalitiesConfig: PersonalitiesConfig | null = null;
 try {
@@ -39,6 +82,24 @@ function getPersonalityById(personalityId: string): Personality | null {
   return null;
 }
 
+// Helper function to validate tab groups sent with the tab session or a saved session
+function validateTabGroups(groups: TabGroup[]) {
+  if (!Array.isArray(groups)) {
+    throw new Error('Tab groups must be an array');
+  }
+  for (const group of groups) {
+    if (!group || typeof group !== 'object') {
+      throw new Error('Invalid tab group object');
+    }
+    validateString(group.id, 'Tab group ID', 256);
+    validateString(group.name, 'Tab group name', MAX_TAB_GROUP_NAME_LENGTH);
+    validateBoolean(group.collapsed, 'Tab group collapsed');
+    if (!TAB_GROUP_COLOR_NAMES.includes(group.color)) {
+      throw new Error(`Invalid tab group color: ${group.color}`);
+    }
+  }
+}
+
 export function registerIpcHandlers() {
   console.log('registerIpcHandlers called');
 
@@ -111,6 +172,50 @@ export function registerIpcHandlers() {
     }
   });
 
+  ipcMain.handle('history:semanticSearch', async (_event, query: string, limit?: number) => {
+    try {
+      validateString(query, 'Search query', 1000);
+      if (limit !== undefined) {
+        validatePositiveInteger(limit, 'Limit');
+      }
+      return await historyIndexService.semanticSearch(query, limit);
+    } catch (error) {
+      console.error(
+        'history:semanticSearch error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('history:getIndexStatus', async () => {
+    try {
+      return historyIndexService.getStatus();
+    } catch (error) {
+      console.error(
+        'history:getIndexStatus error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('history:setEmbeddingModel', async (_event, model: string | null) => {
+    try {
+      if (model !== null) {
+        validateString(model, 'Embedding model', 256);
+      }
+      historyIndexService.setEmbeddingModel(model);
+      return historyIndexService.getStatus();
+    } catch (error) {
+      console.error(
+        'history:setEmbeddingModel error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
   // Bookmark handlers
   ipcMain.handle('bookmark:add', async (event, bookmark: Bookmark) => {
     try {
@@ -123,7 +228,9 @@ export function registerIpcHandlers() {
       validatePositiveInteger(bookmark.createdAt, 'Created at timestamp');
       validatePositiveInteger(bookmark.updatedAt, 'Updated at timestamp');
 
-      return databaseService.addBookmark(bookmark);
+      const id = databaseService.addBookmark(bookmark);
+      bookmarkIndexService.queueBookmark(id);
+      return id;
     } catch (error: any) {
       console.error('bookmark:add validation error:', error.message);
       throw error;
@@ -204,20 +311,48 @@ export function registerIpcHandlers() {
         validateString(updates.title, 'Title', 1024);
       }
 
-      return databaseService.updateBookmark(id, updates);
+      databaseService.updateBookmark(id, updates);
+      if (updates.url !== undefined) {
+        bookmarkIndexService.queueBookmark(id);
+      }
     } catch (error: any) {
       console.error('bookmark:update validation error:', error.message);
       throw error;
     }
   });
 
+  ipcMain.handle('bookmark:retrieve', async (_event, question: string, limit?: number) => {
+    try {
+      validateString(question, 'Question', 10000);
+      if (limit !== undefined) {
+        validatePositiveInteger(limit, 'Limit');
+      }
+      return await bookmarkIndexService.retrieve(question, limit);
+    } catch (error) {
+      console.error('bookmark:retrieve error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   // AI context handlers
   ipcMain.handle('browsing:getContext', async (event, limit?: number) => {
     try {
       if (limit !== undefined) {
         validatePositiveInteger(limit, 'Limit');
       }
-      return databaseService.getBrowsingContext(limit);
+      // Every tab visit is recorded, so excluded pages can fill the most recent
+      // history; keep reading until the limit is made of allowed ones
+      const contextLimit = limit ?? 100;
+      return {
+        history: await aiPrivacyService.fetchAllowed(
+          (fetchLimit) => databaseService.getHistory(fetchLimit),
+          contextLimit
+        ),
+        bookmarks: await aiPrivacyService.fetchAllowed(
+          (fetchLimit) => databaseService.getBookmarks(fetchLimit),
+          contextLimit
+        ),
+      };
     } catch (error: any) {
       console.error('browsing:getContext validation error:', error.message);
       throw error;
@@ -262,11 +397,12 @@ export function registerIpcHandlers() {
   });
 
   // Tab session handlers
-  ipcMain.handle('tabs:save', async (event, tabs: Tab[]) => {
+  ipcMain.handle('tabs:save', async (event, tabs: Tab[], groups: TabGroup[] = []) => {
     try {
       if (!Array.isArray(tabs)) {
         throw new Error('Tabs must be an array');
       }
+      validateTabGroups(groups);
 
       // Validate each tab
       for (const tab of tabs) {
@@ -278,9 +414,15 @@ export function registerIpcHandlers() {
         validateString(tab.title, 'Tab title', 1024);
         validateBoolean(tab.isActive, 'Tab isActive');
         validatePositiveInteger(tab.position, 'Tab position');
+        if (tab.containerId !== undefined && tab.containerId !== null) {
+          validatePositiveInteger(tab.containerId, 'Tab container ID');
+        }
+        if (tab.groupId !== undefined && tab.groupId !== null) {
+          validateString(tab.groupId, 'Tab group ID', 256);
+        }
       }
 
-      return databaseService.saveTabs(tabs);
+      return databaseService.saveTabs(tabs, groups);
     } catch (error: any) {
       console.error('tabs:save validation error:', error.message);
       throw error;
@@ -291,10 +433,86 @@ export function registerIpcHandlers() {
     return databaseService.loadTabs();
   });
 
+  ipcMain.handle('tabs:loadGroups', async () => {
+    return databaseService.loadTabGroups();
+  });
+
   ipcMain.handle('tabs:clear', async () => {
     return databaseService.clearTabs();
   });
 
+  // Saved tab session handlers
+  ipcMain.handle('tabSessions:list', async () => {
+    try {
+      return databaseService.getTabSessions();
+    } catch (error) {
+      console.error('tabSessions:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tabSessions:get', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Session ID');
+      const tabSession = databaseService.getTabSession(id);
+      if (!tabSession) throw new Error('Session not found');
+      return tabSession;
+    } catch (error) {
+      console.error('tabSessions:get error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'tabSessions:save',
+    async (_event, name: string, groups: TabGroup[], tabs: SavedSessionTab[]) => {
+      try {
+        validateString(name, 'Session name', MAX_SESSION_NAME_LENGTH);
+        if (!name.trim()) throw new Error('Give the session a name');
+        validateTabGroups(groups);
+        if (!Array.isArray(tabs) || tabs.length === 0) {
+          throw new Error('There are no tabs to save');
+        }
+        if (tabs.length > MAX_SESSION_TABS) {
+          throw new Error(`Sessions can have at most ${MAX_SESSION_TABS} tabs`);
+        }
+        for (const tab of tabs) {
+          if (!tab || typeof tab !== 'object') {
+            throw new Error('Invalid tab object');
+          }
+          validateString(tab.url, 'Tab URL', 2048);
+          validateString(tab.title, 'Tab title', 1024);
+          if (tab.favicon !== undefined) {
+            validateString(tab.favicon, 'Tab favicon');
+          }
+          if (tab.containerId !== undefined) {
+            validatePositiveInteger(tab.containerId, 'Tab container ID');
+          }
+          if (tab.groupId !== undefined && !groups.some((g) => g.id === tab.groupId)) {
+            throw new Error('Tab belongs to a group that is not in the session');
+          }
+        }
+
+        const id = databaseService.saveTabSession(name.trim(), groups, tabs);
+        return { success: true, id };
+      } catch (error) {
+        console.error('tabSessions:save error:', error instanceof Error ? error.message : error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle('tabSessions:delete', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Session ID');
+      databaseService.deleteTabSession(id);
+      return { success: true };
+    } catch (error) {
+      console.error('tabSessions:delete error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('tabs:wasCrash', async () => {
     // If app-running is "true", it means the app crashed (didn't cleanly exit)
     const wasRunning = databaseService.getSetting('app-running');
@@ -338,6 +556,10 @@ export function registerIpcHandlers() {
         throw new Error('No active page to capture');
       }
 
+      if (aiPrivacyService.isWithheld(focusedWebContents.getURL())) {
+        return { url: '', title: '', withheld: true };
+      }
+
       const captureOptions = {
         includeScreenshot: options?.includeScreenshot ?? true,
         extractReadable: options?.extractReadable ?? true,
@@ -363,6 +585,10 @@ export function registerIpcHandlers() {
         throw new Error('No active browser tab to capture screenshot');
       }
 
+      if (aiPrivacyService.isWithheld(webviewContents.getURL())) {
+        throw new Error('This page is excluded from AI context in AI Privacy settings');
+      }
+
       const captureOptions = {
         maxWidth: options?.maxWidth ?? 1280,
         maxHeight: options?.maxHeight ?? 720,
@@ -392,7 +618,15 @@ export function registerIpcHandlers() {
         return null;
       }
 
-      return await captureService.captureForVision(tabWebContents);
+      // Let the chat show that the page was left out instead of sending nothing
+      if (aiPrivacyService.isWithheld(tabWebContents.getURL())) {
+        return { url: '', title: '', withheld: true };
+      }
+
+      return await captureService.captureForVision(
+        tabWebContents,
+        contentBlockerService.getHiddenSelectors(tabWebContents)
+      );
     } catch (error: any) {
       console.error('capture:forVision error:', error.message);
       // Return null instead of throwing - let the chat continue without context
@@ -416,7 +650,15 @@ export function registerIpcHandlers() {
         return null;
       }
 
-      return await captureService.captureForText(tabWebContents);
+      // Let the chat show that the page was left out instead of sending nothing
+      if (aiPrivacyService.isWithheld(tabWebContents.getURL())) {
+        return { url: '', title: '', withheld: true };
+      }
+
+      return await captureService.captureForText(
+        tabWebContents,
+        contentBlockerService.getHiddenSelectors(tabWebContents)
+      );
     } catch (error: any) {
       console.error('capture:forText error:', error.message);
       // Return null instead of throwing - let the chat continue without context
@@ -427,7 +669,7 @@ export function registerIpcHandlers() {
   // Ollama/LLM handlers
   ipcMain.handle('ollama:isRunning', async () => {
     try {
-      return await ollamaService.isRunning();
+      return await llmProviderService.getProvider().isAvailable();
     } catch (error: any) {
       console.error('ollama:isRunning error:', error.message);
       throw error;
@@ -444,15 +686,144 @@ export function registerIpcHandlers() {
     }
   });
 
+  ipcMain.handle('ollama:getEndpoint', async () => {
+    try {
+      return ollamaService.getEndpoint();
+    } catch (error) {
+      console.error('ollama:getEndpoint error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('ollama:setEndpoint', async (_event, endpoint: OllamaEndpoint) => {
+    try {
+      if (!endpoint || typeof endpoint !== 'object') {
+        throw new Error('Invalid endpoint');
+      }
+      validateString(endpoint.host, 'Host', 255);
+      validatePositiveInteger(endpoint.port, 'Port');
+      validateBoolean(endpoint.useTls, 'Use TLS');
+      validateString(endpoint.authHeader, 'Authorization header', 4096);
+
+      const host = endpoint.host.trim();
+      // Host name, IPv4 address or bracketed IPv6 address, without scheme or path
+      if (!/^([a-z0-9.-]+|\[[0-9a-f:]+\])$/i.test(host)) {
+        throw new Error('Host must be a host name or IP address, without http:// or a path');
+      }
+      if (endpoint.port < 1 || endpoint.port > 65535) {
+        throw new Error('Port must be between 1 and 65535');
+      }
+      if (/[\r\n]/.test(endpoint.authHeader)) {
+        throw new Error('Authorization header cannot contain line breaks');
+      }
+
+      await ollamaService.setEndpoint({
+        host,
+        port: endpoint.port,
+        useTls: endpoint.useTls,
+        authHeader: endpoint.authHeader.trim(),
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('ollama:setEndpoint error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('ollama:listModels', async () => {
     try {
-      return await ollamaService.listModels();
+      return await llmProviderService.getProvider().listModels();
     } catch (error: any) {
       console.error('ollama:listModels error:', error.message);
       throw error;
     }
   });
 
+  // Chat backend (Ollama or an OpenAI-compatible server)
+  ipcMain.handle('llm:getProviderSettings', async () => {
+    try {
+      return llmProviderService.getSettings();
+    } catch (error) {
+      console.error(
+        'llm:getProviderSettings error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('llm:setProviderSettings', async (_event, settings: LLMProviderSettings) => {
+    try {
+      if (!settings || typeof settings !== 'object') {
+        throw new Error('Invalid provider settings');
+      }
+      if (!['ollama', 'openai-compatible'].includes(settings.provider)) {
+        throw new Error('Invalid provider');
+      }
+      validateString(settings.baseUrl, 'Server address', 2048);
+      validateString(settings.apiKey, 'API key', 1024);
+
+      const baseUrl = settings.baseUrl.trim();
+      if (settings.provider === 'openai-compatible' && !/^https?:\/\/[^/\s]+/i.test(baseUrl)) {
+        throw new Error('Server address must be an http:// or https:// URL');
+      }
+
+      llmProviderService.setSettings({
+        provider: settings.provider,
+        baseUrl,
+        apiKey: settings.apiKey.trim(),
+      });
+      return { success: true };
+    } catch (error) {
+      console.error(
+        'llm:setProviderSettings error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  // Condense older chat turns into the conversation's memory summary
+  ipcMain.handle('llm:summarize', async (_event, options: SummarizeOptions) => {
+    try {
+      if (!options || typeof options !== 'object') {
+        throw new Error('Invalid summarize options');
+      }
+      validateString(options.model, 'Model name', 256);
+      if (!Array.isArray(options.messages) || options.messages.length === 0) {
+        throw new Error('Messages must be a non-empty array');
+      }
+      for (const msg of options.messages) {
+        if (!msg || typeof msg !== 'object') {
+          throw new Error('Invalid message object');
+        }
+        validateString(msg.content, 'Message content', 50000);
+        if (!['system', 'user', 'assistant', 'tool'].includes(msg.role)) {
+          throw new Error('Invalid message role');
+        }
+      }
+      const previousSummary = validateString(
+        options.previousSummary ?? '',
+        'Previous summary',
+        20000
+      );
+      const requestId = options.requestId
+        ? validateString(options.requestId, 'Request ID', 128)
+        : randomUUID();
+
+      const messages = options.messages.map(({ role, content }) => ({ role, content }));
+      return await llmProviderService.summarize(
+        options.model,
+        messages,
+        previousSummary,
+        requestId
+      );
+    } catch (error) {
+      console.error('llm:summarize error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   ipcMain.handle('ollama:pullModel', async (event, modelName: string) => {
     try {
       validateString(modelName, 'Model name', 256);
@@ -505,21 +876,27 @@ export function registerIpcHandlers() {
         }
       }
 
+      const requestId = options.requestId
+        ? validateString(options.requestId, 'Request ID', 128)
+        : randomUUID();
+
       // Stream response tokens back to renderer
-      const generator = ollamaService.generate({
+      const generator = llmProviderService.getProvider().generate({
         model: options.model,
         prompt: options.prompt,
         images: options.images,
         system: options.system,
         context: options.context,
         stream: true,
+        requestId,
       });
 
       for await (const token of generator) {
-        event.sender.send('ollama:generateToken', token);
+        const payload: StreamTokenEvent = { requestId, token };
+        event.sender.send('ollama:generateToken', payload);
       }
 
-      return { success: true };
+      return { success: true, requestId };
     } catch (error: any) {
       console.error('ollama:generate error:', error.message);
       throw error;
@@ -538,6 +915,9 @@ export function registerIpcHandlers() {
         }
 
         validateString(options.model, 'Model name', 256);
+        const requestId = options.requestId
+          ? validateString(options.requestId, 'Request ID', 128)
+          : randomUUID();
 
         if (!Array.isArray(options.messages)) {
           throw new Error('Messages must be an array');
@@ -563,6 +943,9 @@ export function registerIpcHandlers() {
             validateString(options.context.page.title, 'Page title', 1024);
           }
         }
+        if (options.memory !== undefined) {
+          validateString(options.memory, 'Conversation memory', 20000);
+        }
 
         const messages = [...options.messages];
 
@@ -584,7 +967,14 @@ When Planning Mode is enabled, you have access to these tools:
 - **get_page_metadata**: Get metadata like title, URL, description, etc.
 - **search_history**: Search through the user's browsing history
 - **get_bookmarks**: Access the user's saved bookmarks
-- **web_search**: Perform a Google search and retrieve results
+- **web_search**: Search the web and get a list of results (title, URL, snippet)
+- **open_url**: Open a URL in the current tab or a new tab
+- **click_element**: Click a link or button by CSS selector or visible text
+- **fill_input**: Type into a form field, optionally submitting the form
+- **scroll**: Scroll the current page up, down, to the top or to the bottom
+- **wait_for_selector**: Wait for an element to appear after navigation or a click
+- **extract_links**: List the links on the current page
+- **switch_tab**: Switch to another open tab
 
 ## How to Help Users
 1. **Context First**: If the user's message includes "## Current Page Context" with page content, USE THAT CONTEXT DIRECTLY - you don't need to call tools to get what you already have. Only call tools when:
@@ -605,12 +995,14 @@ When Planning Mode is enabled, you have access to these tools:
    - **search_history**: When user asks about past browsing or finding previously visited pages
    - **get_bookmarks**: When user asks about their saved bookmarks
    - **web_search**: When user asks you to search for new information online
+   - **open_url**, **click_element**, **fill_input**, **scroll**, **switch_tab**: When user asks you to do something on a website. Use extract_links to find where to go, and wait_for_selector before interacting with content that loads after navigation
+   - The user is asked to approve actions that change pages. If an action is denied, do not retry it
 
 4. **Be Specific**: Reference specific content from pages, use exact quotes, cite URLs
 
 5. **Research Mode**: When asked to research or find information:
    - Use search_history to see if the user has already visited relevant pages
-   - Use web_search to find new information
+   - Use web_search to find new information, then read the most relevant results
    - Combine multiple sources for comprehensive answers
 
 6. **Accuracy**: Always verify information when possible by checking multiple sources
@@ -669,6 +1061,11 @@ When Planning Mode is enabled, you have access to these tools:
             fullSystemMessage += `\n\n## Custom Instructions\n${customInstructions}`;
           }
 
+          // Earlier turns that were condensed and are no longer sent
+          if (options.memory && options.memory.trim()) {
+            fullSystemMessage += `\n\n## Conversation Memory\nSummary of the earlier part of this conversation:\n${options.memory}`;
+          }
+
           // Add system message as the first message
           messages.unshift({
             role: 'system',
@@ -677,7 +1074,7 @@ When Planning Mode is enabled, you have access to these tools:
         }
 
         // Stream response tokens back to renderer
-        const generator = ollamaService.chat({
+        const generator = llmProviderService.getProvider().chat({
           model: options.model,
           messages,
           context: options.context,
@@ -685,22 +1082,30 @@ When Planning Mode is enabled, you have access to these tools:
           planningMode: options.planningMode,
           tools: options.tools,
           think: options.think,
+          requestId,
         });
 
         for await (const token of generator) {
           // Handle both string tokens and special objects (tool calls, thinking)
           if (typeof token === 'string') {
-            event.sender.send('ollama:chatToken', token);
+            const payload: StreamTokenEvent = { requestId, token };
+            event.sender.send('ollama:chatToken', payload);
           } else if (token.type === 'tool_calls') {
             // Send tool calls to renderer for display
-            event.sender.send('ollama:toolCalls', token.tool_calls);
+            const payload: StreamToolCallsEvent = { requestId, toolCalls: token.tool_calls };
+            event.sender.send('ollama:toolCalls', payload);
           } else if (token.type === 'thinking') {
             // Send thinking tokens separately to renderer (using 'reasoning' to avoid reserved word)
-            event.sender.send('ollama:reasoning', token.content);
+            const payload: StreamReasoningEvent = { requestId, content: token.content };
+            event.sender.send('ollama:reasoning', payload);
+          } else if (token.type === 'stats') {
+            // Token counts and speed, sent once the response is complete
+            const payload: StreamStatsEvent = { requestId, stats: token.stats };
+            event.sender.send('ollama:stats', payload);
           }
         }
 
-        return { success: true };
+        return { success: true, requestId };
       } catch (error: any) {
         console.error('ollama:chat error:', error.message);
         throw error;
@@ -712,12 +1117,49 @@ When Planning Mode is enabled, you have access to these tools:
   ipcMain.handle('tool:search_history', async (event, args: any) => {
     try {
       const { query = '', limit = 10 } = args || {};
-      const history = await databaseService.searchHistory(query, limit);
-      return history.map((h) => ({
-        title: h.title,
-        url: h.url,
-        visitTime: h.visitTime,
-      }));
+      // Excluded pages don't count toward the limit
+      const history = await aiPrivacyService.fetchAllowed(
+        (fetchLimit) => databaseService.searchHistory(query, fetchLimit),
+        limit
+      );
+      const results: Array<{ title: string; url: string; visitTime: number; excerpt?: string }> =
+        history.map((h) => ({
+          title: h.title,
+          url: h.url,
+          visitTime: h.visitTime,
+        }));
+
+      if (!query.trim() || !historyIndexService.getEmbeddingModel()) {
+        return results;
+      }
+
+      // Add pages whose content matches by meaning, even when the title doesn't.
+      // Title matches keep at least half of the slots.
+      try {
+        const seen = new Set(results.map((r) => r.url));
+        const matches = (
+          await aiPrivacyService.fetchAllowed(
+            (fetchLimit) => historyIndexService.semanticSearch(query, fetchLimit),
+            limit
+          )
+        ).filter((match) => !seen.has(match.url));
+        const titleSlots = Math.max(limit - matches.length, Math.ceil(limit / 2));
+        return [
+          ...results.slice(0, titleSlots),
+          ...matches.map((match) => ({
+            title: match.title,
+            url: match.url,
+            visitTime: match.visitTime,
+            excerpt: match.excerpt,
+          })),
+        ].slice(0, limit);
+      } catch (error) {
+        console.warn(
+          'tool:search_history semantic search failed:',
+          error instanceof Error ? error.message : error
+        );
+        return results;
+      }
     } catch (error: any) {
       console.error('tool:search_history error:', error.message);
       throw error;
@@ -727,7 +1169,7 @@ When Planning Mode is enabled, you have access to these tools:
   ipcMain.handle('tool:get_bookmarks', async (event, args: any) => {
     try {
       const { query = '' } = args || {};
-      const bookmarks = await databaseService.getBookmarks();
+      const bookmarks = aiPrivacyService.filter(await databaseService.getBookmarks());
       // Filter by query if provided
       if (query) {
         const lowerQuery = query.toLowerCase();
@@ -762,16 +1204,26 @@ When Planning Mode is enabled, you have access to these tools:
         throw new Error('Could not access tab contents');
       }
 
+      if (aiPrivacyService.isWithheld(tabWebContents.getURL())) {
+        return { withheld: true, message: WITHHELD_MESSAGE };
+      }
+
       const capture = await captureService.capturePage(tabWebContents, {
         includeScreenshot: false,
         extractReadable: true,
+        hiddenSelectors: contentBlockerService.getHiddenSelectors(tabWebContents),
       });
+      const { capture: redacted, redactions } = redactPageCapture(
+        capture,
+        parseRedactionSettings(databaseService.getSetting(REDACTION_SETTING))
+      );
 
       return {
-        url: capture.url,
-        title: capture.title,
-        content: capture.readable?.textContent || '',
-        excerpt: capture.readable?.excerpt || '',
+        url: redacted.url,
+        title: redacted.title,
+        content: redacted.readable?.textContent || '',
+        excerpt: redacted.readable?.excerpt || '',
+        redactions: redactions.length ? redactions : undefined,
       };
     } catch (error: any) {
       console.error('tool:analyze_page_content error:', error.message);
@@ -794,6 +1246,10 @@ When Planning Mode is enabled, you have access to these tools:
         throw new Error('Could not access tab contents');
       }
 
+      if (aiPrivacyService.isWithheld(tabWebContents.getURL())) {
+        return { withheld: true, message: WITHHELD_MESSAGE };
+      }
+
       const screenshot = await captureService.captureScreenshot(tabWebContents);
       return { screenshot };
     } catch (error: any) {
@@ -814,6 +1270,10 @@ When Planning Mode is enabled, you have access to these tools:
       }
 
       const url = focusedWebContents.getURL();
+      if (aiPrivacyService.isWithheld(url)) {
+        return { withheld: true, message: WITHHELD_MESSAGE };
+      }
+
       const title = focusedWebContents.getTitle();
 
       return {
@@ -828,29 +1288,259 @@ When Planning Mode is enabled, you have access to these tools:
     }
   });
 
-  ipcMain.handle('tool:web_search', async (event, args: any) => {
+  ipcMain.handle('tool:web_search', async (_event, args: unknown) => {
     try {
-      const query = args.query;
+      const { query, engine, limit = 8 } = validateObject(args ?? {}, 'Arguments');
       if (!query) {
         throw new Error('Search query is required');
       }
 
-      validateString(query, 'Search query', 2048);
+      const maxResults = Math.min(validatePositiveInteger(Number(limit), 'Limit') || 8, 20);
+
+      return await webSearchService.search(validateString(query, 'Search query', 2048), {
+        engine: engine !== undefined ? validateString(engine, 'Search engine', 64) : undefined,
+        limit: maxResults,
+      });
+    } catch (error) {
+      console.error('tool:web_search error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // Browser action tool handlers
+  ipcMain.handle('tool:open_url', async (_event, args: unknown) => {
+    try {
+      const { url, new_tab = false } = validateObject(args ?? {}, 'Arguments');
+      const target = validateString(url, 'URL', 2048).trim();
 
-      const captureScreenshot = args.capture_screenshot !== false; // Default to true
+      // Models often omit the protocol
+      const fullUrl = /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : `https://${target}`;
+      validateUrl(fullUrl, 'open_url');
 
-      // This is a placeholder - the actual implementation will be handled
-      // by the renderer process since it needs to coordinate with the tab system
-      // and webview. We return instructions for the renderer to execute.
-      return {
-        action: 'open_search_tab',
-        query,
-        url: `https://www.google.com/search?q=${encodeURIComponent(query)}`,
-        captureScreenshot,
-        message: `Opening Google search for: "${query}"`,
-      };
-    } catch (error: any) {
-      console.error('tool:web_search error:', error.message);
+      return await browserActionService.openUrl(fullUrl, new_tab === true);
+    } catch (error) {
+      console.error('tool:open_url error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:click_element', async (_event, args: unknown) => {
+    try {
+      const { selector, text } = validateObject(args ?? {}, 'Arguments');
+
+      return await browserActionService.clickElement({
+        selector: selector !== undefined ? validateString(selector, 'Selector', 1024) : undefined,
+        text: text !== undefined ? validateString(text, 'Element text', 512) : undefined,
+      });
+    } catch (error) {
+      console.error('tool:click_element error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:fill_input', async (_event, args: unknown) => {
+    try {
+      const { selector, value, submit = false } = validateObject(args ?? {}, 'Arguments');
+
+      return await browserActionService.fillInput(
+        validateString(selector, 'Selector', 1024),
+        validateString(value, 'Input value', 10000),
+        submit === true
+      );
+    } catch (error) {
+      console.error('tool:fill_input error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:scroll', async (_event, args: unknown) => {
+    try {
+      const { direction = 'down', amount } = validateObject(args ?? {}, 'Arguments');
+      const scrollDirection = SCROLL_DIRECTIONS.find((d) => d === direction);
+      if (!scrollDirection) {
+        throw new Error('Scroll direction must be one of: up, down, top, bottom');
+      }
+      const pixels = amount !== undefined ? validatePositiveInteger(Number(amount), 'Amount') : 0;
+
+      return await browserActionService.scroll({
+        direction: scrollDirection,
+        amount: pixels || undefined,
+      });
+    } catch (error) {
+      console.error('tool:scroll error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:wait_for_selector', async (_event, args: unknown) => {
+    try {
+      const { selector, timeout_ms } = validateObject(args ?? {}, 'Arguments');
+      const timeout =
+        timeout_ms !== undefined
+          ? validatePositiveInteger(Number(timeout_ms), 'Timeout')
+          : undefined;
+
+      return await browserActionService.waitForSelector(
+        validateString(selector, 'Selector', 1024),
+        timeout
+      );
+    } catch (error) {
+      console.error(
+        'tool:wait_for_selector error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:extract_links', async (_event, args: unknown) => {
+    try {
+      const { filter = '', limit = 50 } = validateObject(args ?? {}, 'Arguments');
+
+      return await browserActionService.extractLinks(
+        validateString(filter, 'Filter', 512),
+        validatePositiveInteger(Number(limit), 'Limit')
+      );
+    } catch (error) {
+      console.error('tool:extract_links error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('tool:switch_tab', async (_event, args: unknown) => {
+    try {
+      const { tab_id, query } = validateObject(args ?? {}, 'Arguments');
+
+      return browserActionService.switchTab({
+        tabId: tab_id !== undefined ? validateString(tab_id, 'Tab ID', 256) : undefined,
+        query: query !== undefined ? validateString(query, 'Query', 512) : undefined,
+      });
+    } catch (error) {
+      console.error('tool:switch_tab error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // Conversation handlers
+  ipcMain.handle('conversation:create', async (_event, conversation: Conversation) => {
+    try {
+      if (!conversation || typeof conversation !== 'object') {
+        throw new Error('Invalid conversation');
+      }
+      validateString(conversation.id, 'Conversation ID', 128);
+      validateString(conversation.title, 'Conversation title', 512);
+      if (conversation.model !== undefined) {
+        validateString(conversation.model, 'Model name', 256);
+      }
+      return databaseService.createConversation(conversation);
+    } catch (error) {
+      console.error('conversation:create error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('conversation:list', async (_event, limit?: number, offset?: number) => {
+    try {
+      if (limit !== undefined) {
+        validatePositiveInteger(limit, 'Limit');
+      }
+      if (offset !== undefined) {
+        validatePositiveInteger(offset, 'Offset');
+      }
+      return databaseService.getConversations(limit, offset);
+    } catch (error) {
+      console.error('conversation:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('conversation:get', async (_event, id: string) => {
+    try {
+      validateString(id, 'Conversation ID', 128);
+      return databaseService.getConversation(id);
+    } catch (error) {
+      console.error('conversation:get error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('conversation:search', async (_event, query: string, limit?: number) => {
+    try {
+      validateString(query, 'Search query', 1024);
+      if (limit !== undefined) {
+        validatePositiveInteger(limit, 'Limit');
+      }
+      return databaseService.searchConversations(query, limit);
+    } catch (error) {
+      console.error('conversation:search error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('conversation:searchMessages', async (_event, query: string, limit?: number) => {
+    try {
+      validateString(query, 'Search query', 1024);
+      if (limit !== undefined) {
+        validatePositiveInteger(limit, 'Limit');
+      }
+      return databaseService.searchMessages(query, limit);
+    } catch (error) {
+      console.error(
+        'conversation:searchMessages error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'conversation:saveMessages',
+    async (_event, conversationId: string, messages: StoredMessage[]) => {
+      try {
+        validateString(conversationId, 'Conversation ID', 128);
+        if (!Array.isArray(messages)) {
+          throw new Error('Messages must be an array');
+        }
+        for (const message of messages) {
+          if (!message || typeof message !== 'object') {
+            throw new Error('Invalid message');
+          }
+          validateString(message.id, 'Message ID', 128);
+          if (!['system', 'user', 'assistant', 'tool'].includes(message.role)) {
+            throw new Error('Invalid message role');
+          }
+          if (typeof message.content !== 'string') {
+            throw new Error('Message content must be a string');
+          }
+        }
+        return databaseService.saveMessages(conversationId, messages);
+      } catch (error) {
+        console.error(
+          'conversation:saveMessages error:',
+          error instanceof Error ? error.message : error
+        );
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle('conversation:rename', async (_event, id: string, title: string) => {
+    try {
+      validateString(id, 'Conversation ID', 128);
+      validateString(title, 'Conversation title', 512);
+      return databaseService.renameConversation(id, title.trim());
+    } catch (error) {
+      console.error('conversation:rename error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('conversation:delete', async (_event, id: string) => {
+    try {
+      validateString(id, 'Conversation ID', 128);
+      return databaseService.deleteConversation(id);
+    } catch (error) {
+      console.error('conversation:delete error:', error instanceof Error ? error.message : error);
       throw error;
     }
   });
@@ -891,6 +1581,405 @@ When Planning Mode is enabled, you have access to these tools:
     }
   });
 
+  // Search engine handlers
+  const validateSearchEngine = (engine: Partial<SearchEngine>, partial: boolean) => {
+    if (!engine || typeof engine !== 'object') {
+      throw new Error('Invalid search engine');
+    }
+    if (!partial || engine.name !== undefined) {
+      validateString(engine.name, 'Search engine name', 128);
+      if (!engine.name!.trim()) throw new Error('Search engine name is required');
+    }
+    if (!partial || engine.keyword !== undefined) {
+      validateString(engine.keyword, 'Keyword', 32);
+      if (/\s/.test(engine.keyword!)) throw new Error('Keyword cannot contain spaces');
+    }
+    if (!partial || engine.searchUrl !== undefined) {
+      validateString(engine.searchUrl, 'Search URL', 2048);
+      if (!isValidSearchTemplate(engine.searchUrl!)) {
+        throw new Error('Search URL must be an http(s) URL containing %s for the query');
+      }
+    }
+    if (engine.suggestUrl) {
+      validateString(engine.suggestUrl, 'Suggestion URL', 2048);
+      if (!isValidSearchTemplate(engine.suggestUrl)) {
+        throw new Error('Suggestion URL must be an http(s) URL containing %s for the query');
+      }
+    }
+  };
+
+  ipcMain.handle('searchEngine:list', async () => {
+    try {
+      return databaseService.getSearchEngines();
+    } catch (error) {
+      console.error('searchEngine:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('searchEngine:add', async (_event, engine: SearchEngine) => {
+    try {
+      validateSearchEngine(engine, false);
+      return databaseService.addSearchEngine({
+        name: engine.name.trim(),
+        keyword: engine.keyword.trim(),
+        searchUrl: engine.searchUrl.trim(),
+        suggestUrl: engine.suggestUrl?.trim() || undefined,
+      });
+    } catch (error) {
+      console.error('searchEngine:add error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'searchEngine:update',
+    async (_event, id: number, updates: Partial<SearchEngine>) => {
+      try {
+        validatePositiveInteger(id, 'Search engine ID');
+        validateSearchEngine(updates, true);
+        return databaseService.updateSearchEngine(id, {
+          name: updates.name?.trim(),
+          keyword: updates.keyword?.trim(),
+          searchUrl: updates.searchUrl?.trim(),
+          suggestUrl: updates.suggestUrl !== undefined ? updates.suggestUrl.trim() : undefined,
+        });
+      } catch (error) {
+        console.error('searchEngine:update error:', error instanceof Error ? error.message : error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle('searchEngine:delete', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Search engine ID');
+      return databaseService.deleteSearchEngine(id);
+    } catch (error) {
+      console.error('searchEngine:delete error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('searchEngine:setDefault', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Search engine ID');
+      return databaseService.setDefaultSearchEngine(id);
+    } catch (error) {
+      console.error(
+        'searchEngine:setDefault error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('searchEngine:suggest', async (_event, query: string, engineId?: number) => {
+    try {
+      validateString(query, 'Search query', 512);
+      if (engineId !== undefined) {
+        validatePositiveInteger(engineId, 'Search engine ID');
+      }
+      return await webSearchService.getSuggestions(query, engineId);
+    } catch (error) {
+      console.error('searchEngine:suggest error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // Tool permission policy handlers
+  ipcMain.handle('toolPolicy:getAllowed', async (_event, origin: string) => {
+    try {
+      validateOrigin(origin);
+      return databaseService.getAllowedTools(origin);
+    } catch (error) {
+      console.error('toolPolicy:getAllowed error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('toolPolicy:allow', async (_event, origin: string, toolName: string) => {
+    try {
+      validateOrigin(origin);
+      validateString(toolName, 'Tool name', 128);
+      return databaseService.allowTool(origin, toolName);
+    } catch (error) {
+      console.error('toolPolicy:allow error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('toolPolicy:revoke', async (_event, origin: string, toolName: string) => {
+    try {
+      validateOrigin(origin);
+      validateString(toolName, 'Tool name', 128);
+      return databaseService.revokeTool(origin, toolName);
+    } catch (error) {
+      console.error('toolPolicy:revoke error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('toolPolicy:list', async () => {
+    try {
+      return databaseService.getToolPolicies();
+    } catch (error) {
+      console.error('toolPolicy:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // Site permission handlers
+  const validatePermissionType = (permission: unknown): SitePermissionType => {
+    const type = SITE_PERMISSION_TYPES.find((t) => t === permission);
+    if (!type) {
+      throw new Error('Invalid permission');
+    }
+    return type;
+  };
+
+  ipcMain.handle('sitePermissions:getPending', async () => {
+    try {
+      return sitePermissionService.getPending();
+    } catch (error) {
+      console.error(
+        'sitePermissions:getPending error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'sitePermissions:respond',
+    async (_event, promptId: string, decision: SitePermissionDecision | 'dismiss') => {
+      try {
+        validateString(promptId, 'Prompt ID', 128);
+        if (!['allow', 'block', 'dismiss'].includes(decision)) {
+          throw new Error('Invalid decision');
+        }
+        sitePermissionService.respond(promptId, decision);
+        return { success: true };
+      } catch (error) {
+        console.error(
+          'sitePermissions:respond error:',
+          error instanceof Error ? error.message : error
+        );
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle('sitePermissions:list', async () => {
+    try {
+      return databaseService.getSitePermissions();
+    } catch (error) {
+      console.error('sitePermissions:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'sitePermissions:set',
+    async (
+      _event,
+      origin: string,
+      permission: SitePermissionType,
+      decision: SitePermissionDecision,
+      tabId?: string
+    ) => {
+      try {
+        validateOrigin(origin);
+        validatePermissionType(permission);
+        if (!['allow', 'block'].includes(decision)) {
+          throw new Error('Invalid decision');
+        }
+        // Decisions made from a private tab are forgotten with the private session
+        const isPrivate = tabId !== undefined && tabWindowManager.isPrivateTab(tabId);
+        tabWindowManager.setSitePermission(origin, permission, decision, isPrivate);
+        return { success: true };
+      } catch (error) {
+        console.error('sitePermissions:set error:', error instanceof Error ? error.message : error);
+        throw error;
+      }
+    }
+  );
+
+  // Without a permission every decision for the origin is forgotten
+  ipcMain.handle(
+    'sitePermissions:revoke',
+    async (_event, origin: string, permission?: SitePermissionType) => {
+      try {
+        validateOrigin(origin);
+        if (permission !== undefined) {
+          validatePermissionType(permission);
+        }
+        databaseService.deleteSitePermission(origin, permission);
+        return { success: true };
+      } catch (error) {
+        console.error(
+          'sitePermissions:revoke error:',
+          error instanceof Error ? error.message : error
+        );
+        throw error;
+      }
+    }
+  );
+
+  // Content blocker handlers
+  ipcMain.handle('contentBlocker:getStatus', async () => {
+    try {
+      return contentBlockerService.getStatus();
+    } catch (error) {
+      console.error(
+        'contentBlocker:getStatus error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('contentBlocker:setEnabled', async (_event, enabled: boolean) => {
+    try {
+      validateBoolean(enabled, 'Enabled');
+      contentBlockerService.setEnabled(enabled);
+      return { success: true };
+    } catch (error) {
+      console.error(
+        'contentBlocker:setEnabled error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('contentBlocker:reloadLists', async () => {
+    try {
+      return await contentBlockerService.reloadLists();
+    } catch (error) {
+      console.error(
+        'contentBlocker:reloadLists error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('contentBlocker:openListsFolder', async () => {
+    try {
+      await contentBlockerService.openListsFolder();
+      return { success: true };
+    } catch (error) {
+      console.error(
+        'contentBlocker:openListsFolder error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  // AI privacy handlers
+  ipcMain.handle('aiPrivacy:list', async () => {
+    try {
+      return aiPrivacyService.getRules();
+    } catch (error) {
+      console.error('aiPrivacy:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('aiPrivacy:add', async (_event, pattern: string) => {
+    try {
+      validateString(pattern, 'Pattern', 512);
+      const id = aiPrivacyService.addRule(pattern);
+      return { success: true, id };
+    } catch (error) {
+      console.error('aiPrivacy:add error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('aiPrivacy:remove', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Rule ID');
+      aiPrivacyService.removeRule(id);
+      return { success: true };
+    } catch (error) {
+      console.error('aiPrivacy:remove error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('aiPrivacy:isWithheld', async (_event, url: string) => {
+    try {
+      validateString(url, 'URL', 2048);
+      return aiPrivacyService.isWithheld(url);
+    } catch (error) {
+      console.error('aiPrivacy:isWithheld error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // Container handlers
+  ipcMain.handle('containers:list', async () => {
+    try {
+      return containerService.getContainers();
+    } catch (error) {
+      console.error('containers:list error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('containers:add', async (_event, name: string, color: ContainerColor) => {
+    try {
+      validateString(name, 'Container name', 256);
+      validateString(color, 'Container color', 32);
+      const id = containerService.addContainer(name, color);
+      return { success: true, id };
+    } catch (error) {
+      console.error('containers:add error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    'containers:update',
+    async (_event, id: number, updates: { name?: string; color?: ContainerColor }) => {
+      try {
+        validatePositiveInteger(id, 'Container ID');
+        if (!updates || typeof updates !== 'object') {
+          throw new Error('Container updates must be an object');
+        }
+        if (updates.name !== undefined) {
+          validateString(updates.name, 'Container name', 256);
+        }
+        if (updates.color !== undefined) {
+          validateString(updates.color, 'Container color', 32);
+        }
+        containerService.updateContainer(id, { name: updates.name, color: updates.color });
+        return { success: true };
+      } catch (error) {
+        console.error('containers:update error:', error instanceof Error ? error.message : error);
+        throw error;
+      }
+    }
+  );
+
+  ipcMain.handle('containers:delete', async (_event, id: number) => {
+    try {
+      validatePositiveInteger(id, 'Container ID');
+      // Its session is cleared, which would sign the open tabs out under the user
+      if (tabWindowManager.hasContainerTabs(id)) {
+        throw new Error('Close the tabs in this container first');
+      }
+      await containerService.deleteContainer(id);
+      return { success: true };
+    } catch (error) {
+      console.error('containers:delete error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   // Personality handlers
   ipcMain.handle('personalities:getAll', async () => {
     try {
@@ -931,6 +2020,16 @@ When Planning Mode is enabled, you have access to these tools:
     }
   });
 
+  // Per-model speed and context use, from the token stats stored with chat messages
+  ipcMain.handle('models:getPerformance', async () => {
+    try {
+      return databaseService.getModelPerformance();
+    } catch (error) {
+      console.error('models:getPerformance error:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   // Models folder handlers
   ipcMain.handle('models:getFolder', async () => {
     try {
@@ -995,9 +2094,27 @@ When Planning Mode is enabled, you have access to these tools:
   });
 
   // Chat control handlers
-  ipcMain.handle('ollama:cancelChat', async () => {
+  // Context window the model runs with, so the renderer can budget what it sends
+  ipcMain.handle('ollama:getContextLength', async (_event, model: string) => {
     try {
-      ollamaService.cancelChat();
+      validateString(model, 'Model name', 256);
+      return await llmProviderService.getProvider().getContextLength(model);
+    } catch (error) {
+      console.error(
+        'ollama:getContextLength error:',
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+  });
+
+  ipcMain.handle('ollama:cancelChat', async (_event, requestId?: string) => {
+    try {
+      if (requestId !== undefined) {
+        validateString(requestId, 'Request ID', 128);
+      }
+      // Without an ID every running request is canceled
+      llmProviderService.getProvider().cancelChat(requestId);
       return { success: true };
     } catch (error: any) {
       console.error('ollama:cancelChat error:', error.message);
@@ -1257,24 +2374,41 @@ When Planning Mode is enabled, you have access to these tools:
   });
 
   // Tab window handlers (BrowserWindow-based tabs)
-  ipcMain.handle('tabWindow:create', async (_event, tabId: string, url: string) => {
-    try {
-      validateString(tabId, 'Tab ID', 256);
-      if (url) {
-        validateUrl(url, 'URL');
+  ipcMain.handle(
+    'tabWindow:create',
+    async (
+      _event,
+      tabId: string,
+      url: string,
+      options?: { isPrivate?: boolean; containerId?: number }
+    ) => {
+      try {
+        validateString(tabId, 'Tab ID', 256);
+        if (url) {
+          validateUrl(url, 'URL');
+        }
+        if (options?.isPrivate !== undefined) {
+          validateBoolean(options.isPrivate, 'isPrivate');
+        }
+        if (options?.containerId !== undefined) {
+          validatePositiveInteger(options.containerId, 'Container ID');
+        }
+        const tab = tabWindowManager.createTab(tabId, url, {
+          isPrivate: options?.isPrivate,
+          containerId: options?.containerId,
+        });
+        return {
+          id: tab.id,
+          url: tab.url,
+          title: tab.title,
+          favicon: tab.favicon,
+        };
+      } catch (error) {
+        console.error('tabWindow:create error:', error instanceof Error ? error.message : error);
+        throw error;
       }
-      const tab = tabWindowManager.createTab(tabId, url);
-      return {
-        id: tab.id,
-        url: tab.url,
-        title: tab.title,
-        favicon: tab.favicon,
-      };
-    } catch (error: any) {
-      console.error('tabWindow:create error:', error.message);
-      throw error;
     }
-  });
+  );
 
   ipcMain.handle('tabWindow:close', async (_event, tabId: string) => {
     try {
@@ -1420,7 +2554,10 @@ When Planning Mode is enabled, you have access to these tools:
         const currentUrl = webContents.getURL();
         try {
           const origin = new URL(currentUrl).origin;
-          databaseService.setZoomLevel(origin, newZoom);
+          // Zoom levels of private tabs aren't remembered
+          if (!tabWindowManager.isPrivateTab(tabId)) {
+            databaseService.setZoomLevel(origin, newZoom);
+          }
         } catch (_err) {
           console.warn('[Zoom] Invalid URL, cannot save zoom preference:', currentUrl);
         }
@@ -1457,7 +2594,9 @@ When Planning Mode is enabled, you have access to these tools:
         const currentUrl = webContents.getURL();
         try {
           const origin = new URL(currentUrl).origin;
-          databaseService.setZoomLevel(origin, newZoom);
+          if (!tabWindowManager.isPrivateTab(tabId)) {
+            databaseService.setZoomLevel(origin, newZoom);
+          }
         } catch (_err) {
           console.warn('[Zoom] Invalid URL, cannot save zoom preference:', currentUrl);
         }
@@ -1492,7 +2631,9 @@ When Planning Mode is enabled, you have access to these tools:
         const currentUrl = webContents.getURL();
         try {
           const origin = new URL(currentUrl).origin;
-          databaseService.setZoomLevel(origin, 0);
+          if (!tabWindowManager.isPrivateTab(tabId)) {
+            databaseService.setZoomLevel(origin, 0);
+          }
         } catch (_err) {
           console.warn('[Zoom] Invalid URL, cannot save zoom preference:', currentUrl);
         }
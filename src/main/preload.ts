@@ -7,6 +7,9 @@ const ALLOWED_INVOKE_CHANNELS = [
   'history:get',
   'history:delete',
   'history:clear',
+  'history:semanticSearch',
+  'history:getIndexStatus',
+  'history:setEmbeddingModel',
   'bookmark:add',
   'bookmark:get',
   'bookmark:search',
@@ -14,11 +17,17 @@ const ALLOWED_INVOKE_CHANNELS = [
   'bookmark:delete',
   'bookmark:deleteByUrl',
   'bookmark:update',
+  'bookmark:retrieve',
   'browsing:getContext',
   'page:getContext',
   'tabs:save',
   'tabs:load',
+  'tabs:loadGroups',
   'tabs:clear',
+  'tabSessions:list',
+  'tabSessions:get',
+  'tabSessions:save',
+  'tabSessions:delete',
   'webview:openDevTools',
   'webview:print',
   'webview:viewSource',
@@ -39,6 +48,12 @@ const ALLOWED_INVOKE_CHANNELS = [
   'ollama:stop',
   'ollama:cancelPull',
   'ollama:cancelChat',
+  'ollama:getContextLength',
+  'ollama:getEndpoint',
+  'ollama:setEndpoint',
+  'llm:getProviderSettings',
+  'llm:setProviderSettings',
+  'llm:summarize',
   'tabs:wasCrash',
   'tool:search_history',
   'tool:get_bookmarks',
@@ -46,12 +61,55 @@ const ALLOWED_INVOKE_CHANNELS = [
   'tool:capture_screenshot',
   'tool:get_page_metadata',
   'tool:web_search',
+  'tool:open_url',
+  'tool:click_element',
+  'tool:fill_input',
+  'tool:scroll',
+  'tool:wait_for_selector',
+  'tool:extract_links',
+  'tool:switch_tab',
+  'conversation:create',
+  'conversation:list',
+  'conversation:get',
+  'conversation:search',
+  'conversation:searchMessages',
+  'conversation:saveMessages',
+  'conversation:rename',
+  'conversation:delete',
   'settings:get',
   'settings:set',
+  'searchEngine:list',
+  'searchEngine:add',
+  'searchEngine:update',
+  'searchEngine:delete',
+  'searchEngine:setDefault',
+  'searchEngine:suggest',
+  'toolPolicy:getAllowed',
+  'toolPolicy:allow',
+  'toolPolicy:revoke',
+  'toolPolicy:list',
+  'sitePermissions:getPending',
+  'sitePermissions:respond',
+  'sitePermissions:list',
+  'sitePermissions:set',
+  'sitePermissions:revoke',
+  'contentBlocker:getStatus',
+  'contentBlocker:setEnabled',
+  'contentBlocker:reloadLists',
+  'contentBlocker:openListsFolder',
+  'aiPrivacy:list',
+  'aiPrivacy:add',
+  'aiPrivacy:remove',
+  'aiPrivacy:isWithheld',
+  'containers:list',
+  'containers:add',
+  'containers:update',
+  'containers:delete',
   'personalities:getAll',
   'personalities:getCurrent',
   'personalities:select',
   'models:getFolder',
+  'models:getPerformance',
   'models:list',
   'models:pull-progress',
   'models:openFolder',
@@ -97,6 +155,7 @@ const ALLOWED_LISTEN_CHANNELS = [
   'ollama:chatToken',
   'ollama:toolCalls',
   'ollama:reasoning',
+  'ollama:stats',
   'ollama:getStatus',
   'ai-ask-about-selection',
   'ai-explain-selection',
@@ -111,6 +170,7 @@ const ALLOWED_LISTEN_CHANNELS = [
   'tab-did-navigate',
   'tab-did-navigate-in-page',
   'tab-request-new',
+  'tab-request-activate',
   'tab-load-error',
   'tab-activated',
   'tab-crashed',
@@ -119,6 +179,10 @@ const ALLOWED_LISTEN_CHANNELS = [
   'tab-certificate-error',
   'tab-context-menu',
   'tab-zoom-changed',
+  'tab-popup-blocked',
+  'tab-blocked-count',
+  'sitePermissions:prompt',
+  'sitePermissions:promptClosed',
 ];
 
 // Expose protected methods that allow the renderer process to use
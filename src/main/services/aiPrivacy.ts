@@ -0,0 +1,94 @@
+import { databaseService } from './database';
+import {
+  isValidPrivacyPattern,
+  isWithheldFromAI,
+  matchesPrivacyRule,
+  normalizePrivacyPattern,
+} from '../../shared/aiPrivacy';
+import type { AIPrivacyRule } from '../../shared/types';
+
+// fetchAllowed stops asking for more rows here, even if most were excluded
+const MAX_FETCH_ROWS = 1000;
+
+/**
+ * AIPrivacyService
+ * Keeps the pages the user excluded (banking, internal HR tools, ...) out of
+ * page captures, browsing context and tool results sent to the AI
+ */
+class AIPrivacyService {
+  // Checked for every capture and history entry, so kept in memory
+  private rules: AIPrivacyRule[] | null = null;
+
+  getRules(): AIPrivacyRule[] {
+    if (!this.rules) {
+      this.rules = databaseService.getAIPrivacyRules();
+    }
+    return this.rules;
+  }
+
+  addRule(pattern: string): number {
+    if (!isValidPrivacyPattern(pattern)) {
+      throw new Error(
+        'Enter an origin like https://bank.example.com or a URL pattern like *://hr.*'
+      );
+    }
+
+    const normalized = normalizePrivacyPattern(pattern);
+    const id = databaseService.addAIPrivacyRule(normalized);
+    this.rules = null;
+
+    // Pages indexed for semantic history search and bookmark chat before the rule existed
+    const covered = databaseService
+      .getPageSnapshotUrls()
+      .filter((url) => matchesPrivacyRule(url, normalized));
+    if (covered.length > 0) {
+      databaseService.deletePageSnapshots(covered);
+    }
+    databaseService
+      .getIndexedBookmarks()
+      .filter((bookmark) => matchesPrivacyRule(bookmark.url, normalized))
+      .forEach((bookmark) => databaseService.deleteBookmarkChunks(bookmark.id));
+    return id;
+  }
+
+  removeRule(id: number) {
+    databaseService.deleteAIPrivacyRule(id);
+    this.rules = null;
+  }
+
+  isWithheld(url: string | undefined): boolean {
+    return isWithheldFromAI(url, this.getRules());
+  }
+
+  /**
+   * Drop the entries (history, bookmarks, search results) on excluded pages
+   */
+  filter<T extends { url: string }>(entries: T[]): T[] {
+    const rules = this.getRules();
+    if (rules.length === 0) return entries;
+    return entries.filter((entry) => !isWithheldFromAI(entry.url, rules));
+  }
+
+  /**
+   * Run a query that takes a row limit and return up to limit entries that
+   * aren't excluded, asking for more rows when excluded ones were dropped
+   */
+  async fetchAllowed<T extends { url: string }>(
+    fetch: (limit: number) => T[] | Promise<T[]>,
+    limit: number
+  ): Promise<T[]> {
+    let fetchLimit = limit;
+    for (;;) {
+      const rows = await fetch(fetchLimit);
+      const allowed = this.filter(rows);
+      // Enough rows, or the query has no more
+      if (allowed.length >= limit || rows.length < fetchLimit || fetchLimit >= MAX_FETCH_ROWS) {
+        return allowed.slice(0, limit);
+      }
+      fetchLimit = Math.min(fetchLimit * 4, MAX_FETCH_ROWS);
+    }
+  }
+}
+
+// Export singleton instance
+export const aiPrivacyService = new AIPrivacyService();
@@ -0,0 +1,163 @@
+import { net } from 'electron';
+import { databaseService } from './database';
+import { captureService } from './capture';
+import { ollamaService } from './ollama';
+import { historyIndexService } from './historyIndex';
+import { aiPrivacyService } from './aiPrivacy';
+import { chunkText, rankBySimilarity } from '../../shared/embeddings';
+import type { BookmarkSource } from '../../shared/types';
+
+const FETCH_TIMEOUT_MS = 15000;
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+// Long pages are cut off so a single bookmark can't take over the index
+const MAX_CHUNKS_PER_BOOKMARK = 40;
+const MAX_CHUNKS_PER_SOURCE = 2;
+const MIN_SIMILARITY = 0.3;
+
+/**
+ * BookmarkIndexService
+ * Splits bookmarked pages into embedded passages and retrieves the ones most
+ * relevant to a question, so chat can answer from the user's bookmarks
+ */
+export class BookmarkIndexService {
+  // Indexing runs one bookmark at a time in the background
+  private queue: Promise<void> = Promise.resolve();
+  private queued = new Set<number>();
+  // Bookmarks whose content couldn't be read this session, so they aren't refetched on every question
+  private failed = new Set<number>();
+
+  /**
+   * Bookmark chat uses the same local embedding model as semantic history search
+   */
+  private getEmbeddingModel(): string | null {
+    return historyIndexService.getEmbeddingModel();
+  }
+
+  /**
+   * Index a bookmark in the background (no-op until an embedding model is chosen).
+   * Pages excluded from AI context are never fetched or embedded.
+   */
+  queueBookmark(bookmarkId: number): void {
+    if (!this.getEmbeddingModel() || this.queued.has(bookmarkId)) return;
+    const bookmark = databaseService.getBookmark(bookmarkId);
+    if (!bookmark || aiPrivacyService.isWithheld(bookmark.url)) return;
+    this.queued.add(bookmarkId);
+    this.failed.delete(bookmarkId);
+
+    this.queue = this.queue
+      .then(() => this.indexBookmark(bookmarkId))
+      .catch((error) => {
+        this.failed.add(bookmarkId);
+        console.error(`[BookmarkIndex] Failed to index bookmark ${bookmarkId}:`, error.message);
+      })
+      .finally(() => this.queued.delete(bookmarkId));
+  }
+
+  /**
+   * Readable text of a bookmarked page: the history snapshot if there is one, otherwise fetched
+   */
+  private async getPageText(url: string): Promise<string> {
+    const snapshot = databaseService.getPageSnapshot(url);
+    if (snapshot) return snapshot.textContent;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const response = await Promise.race([
+        net.fetch(url),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Page took too long to load')),
+            FETCH_TIMEOUT_MS
+          );
+        }),
+      ]);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const html = await response.text();
+      const readable = captureService.extractReadableContent(html, url);
+      return readable?.textContent || '';
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async indexBookmark(bookmarkId: number): Promise<void> {
+    const model = this.getEmbeddingModel();
+    const bookmark = databaseService.getBookmark(bookmarkId);
+    // A rule may have been added while the bookmark waited in the queue
+    if (!model || !bookmark || aiPrivacyService.isWithheld(bookmark.url)) return;
+
+    const text = await this.getPageText(bookmark.url);
+    const chunks = chunkText(text, CHUNK_SIZE, CHUNK_OVERLAP).slice(0, MAX_CHUNKS_PER_BOOKMARK);
+    if (chunks.length === 0) {
+      throw new Error('No readable content');
+    }
+
+    // The title is prepended so passages stay tied to what the page is about
+    const embeddings = await ollamaService.embed(
+      model,
+      chunks.map((chunk) => `${bookmark.title}\n\n${chunk}`)
+    );
+    databaseService.saveBookmarkChunks(
+      bookmarkId,
+      model,
+      chunks.map((chunk, index) => ({ text: chunk, embedding: embeddings[index] }))
+    );
+    console.log(`[BookmarkIndex] Indexed "${bookmark.title}" (${chunks.length} passages)`);
+  }
+
+  /**
+   * Find the passages from bookmarked pages that best answer a question.
+   * Bookmarks that aren't indexed yet are queued and show up in later questions.
+   */
+  async retrieve(question: string, limit = 5): Promise<BookmarkSource[]> {
+    const model = this.getEmbeddingModel();
+    if (!model) {
+      throw new Error('Choose an embedding model under History > Semantic search first');
+    }
+
+    databaseService
+      .getBookmarksMissingChunks(model)
+      .filter((id) => !this.failed.has(id))
+      .forEach((id) => this.queueBookmark(id));
+
+    const [queryEmbedding] = await ollamaService.embed(model, question);
+    if (!queryEmbedding) return [];
+
+    const chunks = databaseService.getBookmarkChunks(model);
+    const ranked = rankBySimilarity(queryEmbedding, chunks, chunks.length, MIN_SIMILARITY);
+
+    // Keep a few passages per bookmark so one long page doesn't crowd out the rest
+    const perBookmark = new Map<number, number>();
+    const sourceNumbers = new Map<number, number>();
+    const sources: BookmarkSource[] = [];
+    for (const { item, score } of ranked) {
+      if (sources.length >= limit) break;
+      if (aiPrivacyService.isWithheld(item.url)) continue;
+      const count = perBookmark.get(item.bookmarkId) || 0;
+      if (count >= MAX_CHUNKS_PER_SOURCE) continue;
+      perBookmark.set(item.bookmarkId, count + 1);
+
+      // Passages from the same bookmark share a citation number
+      if (!sourceNumbers.has(item.bookmarkId)) {
+        sourceNumbers.set(item.bookmarkId, sourceNumbers.size + 1);
+      }
+      sources.push({
+        index: sourceNumbers.get(item.bookmarkId)!,
+        bookmarkId: item.bookmarkId,
+        title: item.title,
+        url: item.url,
+        text: item.text,
+        score,
+      });
+    }
+
+    return sources;
+  }
+}
+
+// Export singleton instance
+export const bookmarkIndexService = new BookmarkIndexService();
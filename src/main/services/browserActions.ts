@@ -0,0 +1,401 @@
+import { WebContents } from 'electron';
+import { tabWindowManager } from './tabWindowManager';
+import { aiPrivacyService } from './aiPrivacy';
+import { WITHHELD_MESSAGE } from '../../shared/aiPrivacy';
+
+export interface ScrollOptions {
+  direction: 'up' | 'down' | 'top' | 'bottom';
+  /**
+   * Pixels to scroll for up/down (defaults to most of the viewport)
+   */
+  amount?: number;
+}
+
+export interface ExtractedLink {
+  text: string;
+  url: string;
+}
+
+export interface TabSummary {
+  id: string;
+  title: string;
+  url: string;
+  isActive: boolean;
+}
+
+const NAVIGATION_TIMEOUT_MS = 15000;
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+const MAX_WAIT_TIMEOUT_MS = 30000;
+const MAX_LINKS = 200;
+
+/**
+ * BrowserActionService
+ * Lets AI tools act on the open tabs (navigate, click, type, scroll)
+ * Page interactions run as scripts inside the active tab's webContents
+ */
+export class BrowserActionService {
+  /**
+   * Get the active tab's webContents or fail with a message the model can act on
+   */
+  private getActiveWebContents(): WebContents {
+    const activeTabId = tabWindowManager.getActiveTabId();
+    if (!activeTabId) {
+      throw new Error(
+        'No browser tab is currently open. Please open a webpage first, then try again.'
+      );
+    }
+
+    const webContents = tabWindowManager.getTabWebContents(activeTabId);
+    if (!webContents || webContents.isDestroyed()) {
+      throw new Error('Could not access tab contents');
+    }
+
+    return webContents;
+  }
+
+  /**
+   * Get the active tab's webContents to read or act on the page, which isn't
+   * allowed on pages the user excluded from AI context
+   */
+  private getPageWebContents(): WebContents {
+    const webContents = this.getActiveWebContents();
+    if (aiPrivacyService.isWithheld(webContents.getURL())) {
+      throw new Error(WITHHELD_MESSAGE);
+    }
+    return webContents;
+  }
+
+  /**
+   * Run a script in the page. Arguments are serialized as JSON so they are never
+   * interpreted as code.
+   */
+  private async runInPage<T>(webContents: WebContents, body: string, args: unknown): Promise<T> {
+    const script = `(async (args) => {\n${body}\n})(${JSON.stringify(args)})`;
+    return webContents.executeJavaScript(script, true);
+  }
+
+  /**
+   * Resolve once the page stops loading (or the timeout elapses)
+   */
+  private waitForLoad(webContents: WebContents, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, timeoutMs);
+      function done() {
+        clearTimeout(timer);
+        webContents.removeListener('did-stop-loading', done);
+        resolve();
+      }
+      webContents.once('did-stop-loading', done);
+    });
+  }
+
+  /**
+   * Open a URL in the active tab, or ask the renderer for a new tab
+   */
+  async openUrl(
+    url: string,
+    newTab = false
+  ): Promise<{ url: string; title: string; newTab: boolean }> {
+    const activeTabId = tabWindowManager.getActiveTabId();
+
+    if (newTab || !activeTabId) {
+      // The renderer owns the tab list, so it creates the tab and its view.
+      // It opens in the active tab's session, so a private tab's browsing stays private.
+      const activeTab = activeTabId ? tabWindowManager.getTabInfo(activeTabId) : null;
+      tabWindowManager.requestNewTab(url, {
+        isPrivate: activeTab?.isPrivate,
+        containerId: activeTab?.containerId ?? undefined,
+      });
+      return { url, title: '', newTab: true };
+    }
+
+    const webContents = this.getActiveWebContents();
+    const loaded = this.waitForLoad(webContents, NAVIGATION_TIMEOUT_MS);
+    tabWindowManager.navigateTab(activeTabId, url);
+    await loaded;
+
+    // The model chose the URL, but the title of an excluded page is still withheld
+    const title = aiPrivacyService.isWithheld(webContents.getURL()) ? '' : webContents.getTitle();
+    return { url: webContents.getURL(), title, newTab: false };
+  }
+
+  /**
+   * Click an element found by CSS selector or by its visible text
+   */
+  async clickElement(options: {
+    selector?: string;
+    text?: string;
+  }): Promise<{ clicked: boolean; tag: string; text: string }> {
+    if (!options.selector && !options.text) {
+      throw new Error('Either a selector or the element text is required');
+    }
+
+    const webContents = this.getPageWebContents();
+    const result = await this.runInPage<{ error?: string; tag?: string; text?: string }>(
+      webContents,
+      `
+      const isVisible = (el) => {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+      };
+      const labelOf = (el) =>
+        (el.innerText || el.value || el.getAttribute('aria-label') || el.title || '').trim();
+
+      let target = null;
+      if (args.selector) {
+        try {
+          target = document.querySelector(args.selector);
+        } catch (e) {
+          return { error: 'Invalid selector: ' + args.selector };
+        }
+        if (!target) return { error: 'No element matches selector: ' + args.selector };
+      } else {
+        const wanted = args.text.trim().toLowerCase();
+        const candidates = Array.from(
+          document.querySelectorAll(
+            'a, button, input[type="button"], input[type="submit"], [role="button"], [role="link"], [role="tab"], [role="menuitem"], summary, label, [onclick]'
+          )
+        ).filter(isVisible);
+        target =
+          candidates.find((el) => labelOf(el).toLowerCase() === wanted) ||
+          candidates.find((el) => labelOf(el).toLowerCase().includes(wanted)) ||
+          null;
+        if (!target) return { error: 'No clickable element with text: ' + args.text };
+      }
+
+      target.scrollIntoView({ block: 'center', inline: 'center' });
+      if (typeof target.focus === 'function') target.focus();
+      target.click();
+      return { tag: target.tagName.toLowerCase(), text: labelOf(target).slice(0, 200) };
+      `,
+      options
+    );
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    return { clicked: true, tag: result.tag || '', text: result.text || '' };
+  }
+
+  /**
+   * Type a value into an input, textarea or contenteditable element
+   */
+  async fillInput(
+    selector: string,
+    value: string,
+    submit = false
+  ): Promise<{ filled: boolean; submitted: boolean }> {
+    const webContents = this.getPageWebContents();
+    const result = await this.runInPage<{ error?: string; submitted?: boolean }>(
+      webContents,
+      `
+      let el;
+      try {
+        el = document.querySelector(args.selector);
+      } catch (e) {
+        return { error: 'Invalid selector: ' + args.selector };
+      }
+      if (!el) return { error: 'No element matches selector: ' + args.selector };
+
+      el.scrollIntoView({ block: 'center' });
+      el.focus();
+
+      if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+        // Use the native setter so frameworks tracking the value see the change
+        const proto = Object.getPrototypeOf(el);
+        const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+        if (setter) setter.call(el, args.value);
+        else el.value = args.value;
+      } else if (el instanceof HTMLSelectElement) {
+        el.value = args.value;
+      } else if (el.isContentEditable) {
+        el.textContent = args.value;
+      } else {
+        return { error: 'Element is not an editable field: ' + args.selector };
+      }
+
+      el.dispatchEvent(new Event('input', { bubbles: true }));
+      el.dispatchEvent(new Event('change', { bubbles: true }));
+
+      if (!args.submit) return { submitted: false };
+
+      const form = el.form || el.closest('form');
+      if (form) {
+        if (typeof form.requestSubmit === 'function') form.requestSubmit();
+        else form.submit();
+      } else {
+        const init = { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true };
+        el.dispatchEvent(new KeyboardEvent('keydown', init));
+        el.dispatchEvent(new KeyboardEvent('keypress', init));
+        el.dispatchEvent(new KeyboardEvent('keyup', init));
+      }
+      return { submitted: true };
+      `,
+      { selector, value, submit }
+    );
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    return { filled: true, submitted: !!result.submitted };
+  }
+
+  /**
+   * Scroll the page and report the new position
+   */
+  async scroll(
+    options: ScrollOptions
+  ): Promise<{ scrollY: number; scrollHeight: number; viewportHeight: number; atBottom: boolean }> {
+    const webContents = this.getPageWebContents();
+    return this.runInPage(
+      webContents,
+      `
+      const root = document.scrollingElement || document.documentElement;
+      const step = args.amount || Math.round(window.innerHeight * 0.8);
+      switch (args.direction) {
+        case 'top':
+          window.scrollTo({ top: 0 });
+          break;
+        case 'bottom':
+          window.scrollTo({ top: root.scrollHeight });
+          break;
+        case 'up':
+          window.scrollBy({ top: -step });
+          break;
+        default:
+          window.scrollBy({ top: step });
+      }
+      await new Promise((resolve) => requestAnimationFrame(() => resolve()));
+      return {
+        scrollY: Math.round(window.scrollY),
+        scrollHeight: root.scrollHeight,
+        viewportHeight: window.innerHeight,
+        atBottom: window.scrollY + window.innerHeight >= root.scrollHeight - 2,
+      };
+      `,
+      options
+    );
+  }
+
+  /**
+   * Wait until an element matching the selector exists in the page
+   */
+  async waitForSelector(
+    selector: string,
+    timeoutMs = DEFAULT_WAIT_TIMEOUT_MS
+  ): Promise<{ found: boolean; elapsedMs: number }> {
+    const timeout = Math.min(Math.max(timeoutMs, 0), MAX_WAIT_TIMEOUT_MS);
+    const webContents = this.getPageWebContents();
+    const result = await this.runInPage<{ error?: string; found: boolean; elapsedMs: number }>(
+      webContents,
+      `
+      const started = Date.now();
+      const find = () => {
+        try {
+          return document.querySelector(args.selector);
+        } catch (e) {
+          return undefined;
+        }
+      };
+      if (find() === undefined) {
+        return { error: 'Invalid selector: ' + args.selector, found: false, elapsedMs: 0 };
+      }
+      while (Date.now() - started < args.timeout) {
+        if (find()) return { found: true, elapsedMs: Date.now() - started };
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      return { found: !!find(), elapsedMs: Date.now() - started };
+      `,
+      { selector, timeout }
+    );
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    return { found: result.found, elapsedMs: result.elapsedMs };
+  }
+
+  /**
+   * List the links on the current page, optionally filtered by text or URL
+   */
+  async extractLinks(filter = '', limit = 50): Promise<ExtractedLink[]> {
+    const webContents = this.getPageWebContents();
+    return this.runInPage(
+      webContents,
+      `
+      const filter = args.filter.toLowerCase();
+      const seen = new Set();
+      const links = [];
+      for (const a of Array.from(document.querySelectorAll('a[href]'))) {
+        const url = a.href;
+        if (!/^https?:/i.test(url) || seen.has(url)) continue;
+        const text = (a.innerText || a.getAttribute('aria-label') || a.title || '')
+          .replace(/\\s+/g, ' ')
+          .trim()
+          .slice(0, 200);
+        if (filter && !text.toLowerCase().includes(filter) && !url.toLowerCase().includes(filter)) {
+          continue;
+        }
+        seen.add(url);
+        links.push({ text, url });
+        if (links.length >= args.limit) break;
+      }
+      return links;
+      `,
+      { filter, limit: Math.min(Math.max(limit, 1), MAX_LINKS) }
+    );
+  }
+
+  /**
+   * List the open tabs
+   */
+  listTabs(): TabSummary[] {
+    // Private tabs and tabs on excluded pages aren't shown to the model
+    return aiPrivacyService.filter(
+      tabWindowManager
+        .getAllTabs()
+        .filter((tab) => !tab.isPrivate)
+        .map((tab) => ({
+          id: tab.id,
+          title: tab.title,
+          url: tab.url,
+          isActive: tab.isActive,
+        }))
+    );
+  }
+
+  /**
+   * Switch to a tab by ID, or to the first tab whose title or URL contains the query.
+   * Only the tabs listTabs shows can be switched to.
+   */
+  switchTab(options: { tabId?: string; query?: string }): TabSummary {
+    const tabs = this.listTabs();
+    let target: TabSummary | undefined;
+
+    if (options.tabId) {
+      target = tabs.find((tab) => tab.id === options.tabId);
+    } else if (options.query) {
+      const query = options.query.toLowerCase();
+      target = tabs.find(
+        (tab) => tab.title.toLowerCase().includes(query) || tab.url.toLowerCase().includes(query)
+      );
+    } else {
+      throw new Error('Either a tab ID or a search query is required');
+    }
+
+    if (!target) {
+      const available = tabs.map((tab) => `${tab.id}: ${tab.title || tab.url}`).join('\n');
+      throw new Error(`No matching tab found. Open tabs:\n${available || '(none)'}`);
+    }
+
+    tabWindowManager.activateTab(target.id);
+    return { ...target, isActive: true };
+  }
+}
+
+// Export singleton instance
+export const browserActionService = new BrowserActionService();
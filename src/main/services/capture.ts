@@ -12,6 +12,9 @@ try {
   console.warn('Sharp module not available. Screenshots will use PNG format without optimization.');
 }
 
+// Hidden-element selectors removed per querySelectorAll call
+const HIDDEN_SELECTOR_BATCH = 500;
+
 export interface CaptureOptions {
   /**
    * Maximum width for the captured image
@@ -33,6 +36,11 @@ export interface CaptureOptions {
    * Whether to capture a screenshot
    */
   includeScreenshot?: boolean;
+  /**
+   * CSS selectors of elements to leave out of the page text, e.g. ads the
+   * content blocker hides
+   */
+  hiddenSelectors?: string[];
 }
 
 export interface PageCapture {
@@ -66,6 +74,10 @@ export interface PageCapture {
     textContent: string;
     excerpt: string;
   };
+  /**
+   * The page matched an AI privacy rule, so url, title and content are left empty
+   */
+  withheld?: boolean;
 }
 
 export class CaptureService {
@@ -115,7 +127,7 @@ export class CaptureService {
   /**
    * Extract readable content from HTML using Mozilla Readability
    */
-  private extractReadableContent(html: string, url: string): PageCapture['readable'] | null {
+  extractReadableContent(html: string, url: string): PageCapture['readable'] | null {
     try {
       const dom = new JSDOM(html, { url });
       const reader = new Readability(dom.window.document);
@@ -152,11 +164,37 @@ export class CaptureService {
   }
 
   /**
-   * Get page HTML content
+   * Get page HTML content, without the elements matching hiddenSelectors
    */
-  private async getPageHTML(webContents: WebContents): Promise<string> {
+  private async getPageHTML(
+    webContents: WebContents,
+    hiddenSelectors: string[] = []
+  ): Promise<string> {
     try {
-      return await webContents.executeJavaScript('document.documentElement.outerHTML');
+      if (hiddenSelectors.length === 0) {
+        return await webContents.executeJavaScript('document.documentElement.outerHTML');
+      }
+
+      // Elements are removed from a copy so the page itself is untouched. Selectors are
+      // tried in batches, and one by one when a batch has a selector the page can't parse.
+      return await webContents.executeJavaScript(`(() => {
+        const root = document.documentElement.cloneNode(true);
+        const selectors = ${JSON.stringify(hiddenSelectors)};
+        const remove = (selector) => root.querySelectorAll(selector).forEach((el) => el.remove());
+        for (let i = 0; i < selectors.length; i += ${HIDDEN_SELECTOR_BATCH}) {
+          const batch = selectors.slice(i, i + ${HIDDEN_SELECTOR_BATCH});
+          try {
+            remove(batch.join(','));
+          } catch {
+            batch.forEach((selector) => {
+              try {
+                remove(selector);
+              } catch {}
+            });
+          }
+        }
+        return root.outerHTML;
+      })()`);
     } catch (error) {
       console.error('Failed to get page HTML:', error);
       return '';
@@ -184,7 +222,7 @@ export class CaptureService {
     const selectedText = await this.getSelectedText(webContents);
 
     // Get page HTML
-    const html = await this.getPageHTML(webContents);
+    const html = await this.getPageHTML(webContents, options.hiddenSelectors);
 
     // Extract readable content if requested
     let readable: PageCapture['readable'] | undefined;
@@ -206,13 +244,17 @@ export class CaptureService {
    * Capture page with optimized settings for vision models
    * Includes screenshot and readable text content
    */
-  async captureForVision(webContents: WebContents): Promise<PageCapture> {
+  async captureForVision(
+    webContents: WebContents,
+    hiddenSelectors: string[] = []
+  ): Promise<PageCapture> {
     return this.capturePage(webContents, {
       includeScreenshot: true,
       extractReadable: true,
       maxWidth: 1280,
       maxHeight: 720,
       quality: 80,
+      hiddenSelectors,
     });
   }
 
@@ -220,10 +262,14 @@ export class CaptureService {
    * Capture page with text-only content (no screenshot)
    * Useful for text-only models
    */
-  async captureForText(webContents: WebContents): Promise<PageCapture> {
+  async captureForText(
+    webContents: WebContents,
+    hiddenSelectors: string[] = []
+  ): Promise<PageCapture> {
     return this.capturePage(webContents, {
       includeScreenshot: false,
       extractReadable: true,
+      hiddenSelectors,
     });
   }
 
@@ -0,0 +1,81 @@
+import { Session, session } from 'electron';
+import { databaseService } from './database';
+import { CONTAINER_COLOR_NAMES, MAX_CONTAINER_NAME_LENGTH } from '../../shared/containers';
+import type { Container, ContainerColor } from '../../shared/types';
+
+/**
+ * ContainerService
+ * Containers let the same sites be used with different accounts side by side:
+ * each one has its own persistent session, so cookies and storage never mix
+ */
+class ContainerService {
+  // Sets up a new session like the built-in ones (downloads, permissions, blocking)
+  private setupSession: ((containerSession: Session) => void) | null = null;
+  private preparedSessions = new Set<number>();
+
+  initialize(setupSession: (containerSession: Session) => void) {
+    this.setupSession = setupSession;
+  }
+
+  getContainers(): Container[] {
+    return databaseService.getContainers();
+  }
+
+  addContainer(name: string, color: ContainerColor): number {
+    return databaseService.addContainer(this.validateName(name), this.validateColor(color));
+  }
+
+  updateContainer(id: number, updates: { name?: string; color?: ContainerColor }) {
+    databaseService.updateContainer(id, {
+      name: updates.name !== undefined ? this.validateName(updates.name) : undefined,
+      color: updates.color !== undefined ? this.validateColor(updates.color) : undefined,
+    });
+  }
+
+  /**
+   * Delete a container along with its cookies and site data
+   */
+  async deleteContainer(id: number) {
+    databaseService.deleteContainer(id);
+    this.preparedSessions.delete(id);
+    await session.fromPartition(this.getPartition(id)).clearStorageData();
+  }
+
+  /**
+   * The session of a container, or null when it doesn't exist (e.g. deleted
+   * after its tabs were saved)
+   */
+  getSession(id: number): Session | null {
+    if (!databaseService.getContainer(id)) return null;
+
+    const containerSession = session.fromPartition(this.getPartition(id));
+    if (!this.preparedSessions.has(id)) {
+      this.preparedSessions.add(id);
+      this.setupSession?.(containerSession);
+    }
+    return containerSession;
+  }
+
+  private getPartition(id: number): string {
+    return `persist:container-${id}`;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Give the container a name');
+    if (trimmed.length > MAX_CONTAINER_NAME_LENGTH) {
+      throw new Error(`Container names can be at most ${MAX_CONTAINER_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private validateColor(color: ContainerColor): ContainerColor {
+    if (!CONTAINER_COLOR_NAMES.includes(color)) {
+      throw new Error(`Invalid container color: ${color}`);
+    }
+    return color;
+  }
+}
+
+// Export singleton instance
+export const containerService = new ContainerService();
@@ -0,0 +1,242 @@
+import { app, BrowserWindow, Session, WebContents, shell } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { databaseService } from './database';
+import { tabWindowManager } from './tabWindowManager';
+import { FilterEngine, FilterRequestType } from '../utils/filterList';
+import type { ContentBlockerStatus, FilterListInfo } from '../../shared/types';
+
+const ENABLED_SETTING = 'content-blocker-enabled';
+const LISTS_FOLDER = 'filter-lists';
+// Blocked counts are sent to the renderer at most this often per tab
+const COUNT_NOTIFY_MS = 500;
+
+// Electron resource types by the filter option that targets them.
+// Top-level pages are never blocked, only what they load.
+const RESOURCE_TYPES: Record<string, FilterRequestType> = {
+  subFrame: 'subdocument',
+  stylesheet: 'stylesheet',
+  script: 'script',
+  image: 'image',
+  font: 'font',
+  object: 'object',
+  xhr: 'xmlhttprequest',
+  ping: 'ping',
+  cspReport: 'other',
+  media: 'media',
+  webSocket: 'websocket',
+  other: 'other',
+};
+
+/**
+ * ContentBlockerService
+ * Blocks ads and trackers with EasyList-format filter lists read from the
+ * user data folder: network rules cancel requests, element hiding rules are
+ * injected as CSS. Sites can be allowed from the site settings.
+ */
+// The app's own windows share the default session with tabs. Pages can't open
+// windows (new windows become tabs), so any window is the browser UI, which
+// must not be filtered; in development it is served over http.
+function isAppWindow(contents: WebContents | undefined): boolean {
+  return contents?.getType() === 'window';
+}
+
+class ContentBlockerService {
+  private mainWindow: BrowserWindow | null = null;
+  private engine = new FilterEngine();
+  private lists: FilterListInfo[] = [];
+  private enabled = true;
+  // Requests blocked on the current page, by web contents ID
+  private blockedCounts = new Map<number, number>();
+  private notifyTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  /**
+   * Load the filter lists and start hiding elements on new pages
+   */
+  async initialize(mainWindow: BrowserWindow) {
+    this.mainWindow = mainWindow;
+    this.enabled = databaseService.getSetting(ENABLED_SETTING) !== 'false';
+
+    app.on('web-contents-created', (_event, contents) => this.watchContents(contents));
+    await this.reloadLists();
+  }
+
+  /**
+   * Cancel blocked requests made in a session
+   */
+  attachToSession(session: Session) {
+    const isPrivate = tabWindowManager.isPrivateSession(session);
+
+    session.webRequest.onBeforeRequest((details, callback) => {
+      const type = RESOURCE_TYPES[details.resourceType];
+      if (
+        !type ||
+        !this.enabled ||
+        !/^(https?|wss?):/.test(details.url) ||
+        isAppWindow(details.webContents)
+      ) {
+        callback({});
+        return;
+      }
+
+      const pageUrl = details.webContents?.getURL() || details.referrer;
+      if (!this.isActiveOn(pageUrl, isPrivate)) {
+        callback({});
+        return;
+      }
+
+      const rule = this.engine.match({ url: details.url, type, pageUrl });
+      if (rule && details.webContents) {
+        this.countBlocked(details.webContents);
+      }
+      callback({ cancel: rule !== null });
+    });
+  }
+
+  getStatus(): ContentBlockerStatus {
+    return {
+      enabled: this.enabled,
+      folder: this.getListsFolder(),
+      lists: this.lists,
+    };
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    databaseService.setSetting(ENABLED_SETTING, String(enabled));
+  }
+
+  /**
+   * Read every .txt file in the lists folder again, e.g. after the user added one
+   */
+  async reloadLists(): Promise<ContentBlockerStatus> {
+    const folder = this.getListsFolder();
+    await fs.promises.mkdir(folder, { recursive: true });
+
+    const files = (await fs.promises.readdir(folder))
+      .filter((file) => file.toLowerCase().endsWith('.txt'))
+      .sort();
+
+    const engine = new FilterEngine();
+    const lists: FilterListInfo[] = [];
+    for (const file of files) {
+      try {
+        const text = await fs.promises.readFile(path.join(folder, file), 'utf-8');
+        lists.push({ name: file, ...engine.addList(text) });
+      } catch (error) {
+        console.error(`[ContentBlocker] Failed to read ${file}:`, error);
+      }
+    }
+
+    // Swap in the new rules at once so requests never see a half-loaded engine
+    this.engine = engine;
+    this.lists = lists;
+    console.log(
+      `[ContentBlocker] Loaded ${lists.length} filter lists:`,
+      lists.map((list) => `${list.name} (${list.networkRules + list.cosmeticRules})`).join(', ')
+    );
+    return this.getStatus();
+  }
+
+  async openListsFolder() {
+    const folder = this.getListsFolder();
+    await fs.promises.mkdir(folder, { recursive: true });
+    const error = await shell.openPath(folder);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * Selectors of the elements hidden on the page a web contents shows, empty
+   * when blocking is off there
+   */
+  getHiddenSelectors(contents: WebContents): string[] {
+    const pageUrl = contents.getURL();
+    const isPrivate = tabWindowManager.isPrivateSession(contents.session);
+    if (!this.enabled || !this.isActiveOn(pageUrl, isPrivate)) return [];
+
+    const exceptions = this.engine.getPageExceptions(pageUrl);
+    if (exceptions.elemhide) return [];
+    return this.engine.getHiddenSelectors(pageUrl, !exceptions.generichide);
+  }
+
+  private getListsFolder(): string {
+    return path.join(app.getPath('userData'), LISTS_FOLDER);
+  }
+
+  /**
+   * Whether blocking applies on a page: web pages only, and not on sites the
+   * user allowed or the lists make an exception for
+   */
+  private isActiveOn(pageUrl: string, isPrivate: boolean): boolean {
+    let origin: string;
+    try {
+      const url = new URL(pageUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+      origin = url.origin;
+    } catch {
+      return false;
+    }
+
+    if (tabWindowManager.getSitePermission(origin, 'ads', isPrivate) === 'allow') return false;
+    return !this.engine.getPageExceptions(pageUrl).document;
+  }
+
+  private watchContents(contents: WebContents) {
+    if (isAppWindow(contents)) return;
+    const id = contents.id;
+
+    contents.on('did-navigate', () => this.resetCount(id));
+    contents.on('destroyed', () => this.resetCount(id));
+
+    // Hide elements as soon as the document is parsed
+    contents.on('dom-ready', () => {
+      const selectors = this.getHiddenSelectors(contents);
+      if (selectors.length === 0) return;
+
+      // One rule per selector, so a selector the engine doesn't know can't void the others
+      const css = selectors.map((selector) => `${selector} { display: none !important; }`);
+      contents.insertCSS(css.join('\n'), { cssOrigin: 'user' }).catch((error) => {
+        console.error('[ContentBlocker] Failed to hide elements:', error);
+      });
+    });
+  }
+
+  private countBlocked(webContents: WebContents) {
+    const id = webContents.id;
+    this.blockedCounts.set(id, (this.blockedCounts.get(id) || 0) + 1);
+    if (this.notifyTimers.has(id)) return;
+
+    this.notifyTimers.set(
+      id,
+      setTimeout(() => {
+        this.notifyTimers.delete(id);
+        const tabId = webContents.isDestroyed()
+          ? null
+          : tabWindowManager.getTabIdByWebContents(webContents);
+        if (tabId) {
+          this.notifyMainWindow('tab-blocked-count', {
+            tabId,
+            count: this.blockedCounts.get(id) || 0,
+          });
+        }
+      }, COUNT_NOTIFY_MS)
+    );
+  }
+
+  private resetCount(id: number) {
+    this.blockedCounts.delete(id);
+    clearTimeout(this.notifyTimers.get(id));
+    this.notifyTimers.delete(id);
+  }
+
+  private notifyMainWindow(channel: string, data: unknown) {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send(channel, data);
+    }
+  }
+}
+
+// Export singleton instance
+export const contentBlockerService = new ContentBlockerService();
@@ -2,6 +2,28 @@ import Database from 'better-sqlite3';
 import { app } from 'electron';
 import path from 'path';
 import { validateUrl } from '../utils/validation';
+import type {
+  AIPrivacyRule,
+  Container,
+  ContainerColor,
+  Conversation,
+  MessageSearchResult,
+  ModelPerformance,
+  PageSnapshot,
+  SearchEngine,
+  SitePermission,
+  SitePermissionDecision,
+  SitePermissionType,
+  SavedSessionTab,
+  StoredMessage,
+  TabGroup,
+  TabSession,
+  TabSessionSummary,
+  ToolPolicy,
+} from '../../shared/types';
+import { DEFAULT_SEARCH_ENGINES } from '../../shared/searchEngines';
+
+const TOOL_POLICY_PREFIX = 'tool-policy:';
 
 export interface HistoryEntry {
   id?: number;
@@ -30,6 +52,28 @@ export interface Tab {
   favicon?: string;
   isActive: boolean;
   position: number;
+  containerId?: number;
+  groupId?: string;
+}
+
+// An embedded page snapshot joined with its latest history visit
+export interface PageEmbedding {
+  url: string;
+  title: string;
+  textContent: string; // Start of the snapshot text
+  embedding: Float32Array;
+  historyId: number;
+  visitTime: number;
+  visitCount: number;
+}
+
+// An embedded passage of a bookmarked page
+export interface BookmarkChunk {
+  bookmarkId: number;
+  title: string;
+  url: string;
+  text: string;
+  embedding: Float32Array;
 }
 
 export interface Download {
@@ -46,6 +90,50 @@ export interface Download {
   error?: string;
 }
 
+// A row of the messages table
+interface MessageRow {
+  id: string;
+  role: StoredMessage['role'];
+  content: string;
+  images: string | null;
+  thinking: string | null;
+  tool_call: string | null;
+  tool_result: string | null;
+  is_tool_execution: number;
+  context_info: string | null;
+  timing: string | null;
+  stats: string | null;
+  is_memory: number;
+  condensed: number;
+  created_at: number;
+}
+
+// A row of the search_engines table, with columns aliased to SearchEngine fields
+interface SearchEngineRow extends Omit<SearchEngine, 'suggestUrl' | 'isDefault'> {
+  suggestUrl: string | null;
+  isDefault: number;
+}
+
+// A row with an embedding, which SQLite returns as a Buffer
+type EmbeddingRow<T extends { embedding: Float32Array }> = Omit<T, 'embedding'> & {
+  embedding: Buffer;
+};
+
+// A row of the tab_groups table
+interface TabGroupRow extends Omit<TabGroup, 'collapsed'> {
+  collapsed: number;
+}
+
+// A row of the tab_sessions table, with the groups and tabs stored as JSON
+interface TabSessionRow {
+  id: number;
+  name: string;
+  groups: string;
+  tabs: string;
+  created_at: number;
+  updated_at: number;
+}
+
 class DatabaseService {
   private db: Database.Database | null = null;
 
@@ -156,6 +244,43 @@ class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_tabs_position ON tabs(position);
     `);
 
+    // Tabs can be restored into a container since containers were added
+    this.ensureColumn('tabs', 'container_id', 'INTEGER');
+    this.ensureColumn('tabs', 'group_id', 'TEXT');
+
+    // Tab groups of the current session, restored with the tabs after a crash
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tab_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL,
+        collapsed INTEGER DEFAULT 0,
+        position INTEGER NOT NULL
+      );
+    `);
+
+    // Named sessions the user saved to reopen later, tabs and groups stored as JSON
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tab_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        groups TEXT NOT NULL,
+        tabs TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+
+    // Containers, each with its own cookies and site storage
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS containers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        color TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
     // Settings table for app preferences (window state, etc.)
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS settings (
@@ -196,6 +321,162 @@ class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_zoom_updated ON zoom_preferences(updated_at DESC);
     `);
 
+    // Permission decisions per origin (camera, geolocation, notifications, ...)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS site_permissions (
+        origin TEXT NOT NULL,
+        permission TEXT NOT NULL,
+        decision TEXT NOT NULL CHECK(decision IN ('allow', 'block')),
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (origin, permission)
+      );
+    `);
+
+    // Origins and URL patterns kept out of everything sent to the AI
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_privacy_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pattern TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
+    // Chat conversations and their messages
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        model TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        images TEXT,
+        thinking TEXT,
+        tool_call TEXT,
+        tool_result TEXT,
+        is_tool_execution INTEGER DEFAULT 0,
+        context_info TEXT,
+        timing TEXT,
+        stats TEXT,
+        is_memory INTEGER DEFAULT 0,
+        condensed INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, position);
+    `);
+
+    // Token usage was added after the messages table was first released
+    this.ensureColumn('messages', 'stats', 'TEXT');
+    // So were conversation memory summaries and the turns they condense
+    this.ensureColumn('messages', 'is_memory', 'INTEGER DEFAULT 0');
+    this.ensureColumn('messages', 'condensed', 'INTEGER DEFAULT 0');
+
+    // Full-text search over chat message content
+    const hasMessagesFts = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'")
+      .get();
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content,
+        content='messages',
+        content_rowid='rowid'
+      );
+
+      -- Triggers to keep FTS table in sync (the 'delete' command needs the old values)
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, content)
+        VALUES ('delete', old.rowid, old.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, content)
+        VALUES ('delete', old.rowid, old.content);
+        INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+    `);
+
+    // Index messages saved before the FTS table existed
+    if (!hasMessagesFts) {
+      this.db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')");
+    }
+
+    // Search engines table (address bar keywords and web_search)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS search_engines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        keyword TEXT NOT NULL DEFAULT '',
+        search_url TEXT NOT NULL,
+        suggest_url TEXT,
+        is_default INTEGER DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
+    const engineCount = this.db.prepare('SELECT COUNT(*) as count FROM search_engines').get() as {
+      count: number;
+    };
+    if (engineCount.count === 0) {
+      const insertEngine = this.db.prepare(
+        'INSERT INTO search_engines (name, keyword, search_url, suggest_url, is_default, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      const now = Date.now();
+      for (const engine of DEFAULT_SEARCH_ENGINES) {
+        insertEngine.run(
+          engine.name,
+          engine.keyword,
+          engine.searchUrl,
+          engine.suggestUrl || null,
+          engine.isDefault ? 1 : 0,
+          now
+        );
+      }
+    }
+
+    // Page snapshots table (readable text and embeddings for semantic history search)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS page_snapshots (
+        url TEXT PRIMARY KEY,
+        title TEXT,
+        text_content TEXT NOT NULL,
+        embedding BLOB,
+        embedding_model TEXT,
+        captured_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_page_snapshots_model ON page_snapshots(embedding_model);
+    `);
+
+    // Bookmark chunks table (embedded passages of bookmarked pages for bookmark chat)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS bookmark_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bookmark_id INTEGER NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        embedding_model TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_bookmark_chunks_bookmark ON bookmark_chunks(bookmark_id);
+      CREATE INDEX IF NOT EXISTS idx_bookmark_chunks_model ON bookmark_chunks(embedding_model);
+    `);
+
     // Initialize default system prompt if not exists
     const systemPrompt = this.getSetting('system-prompt');
     if (!systemPrompt) {
@@ -234,6 +515,16 @@ class DatabaseService {
     }
   }
 
+  // Add a column that databases created by older versions don't have yet
+  private ensureColumn(table: string, column: string, definition: string): void {
+    if (!this.db) return;
+
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   // History operations
   addHistory(entry: HistoryEntry): number {
     if (!this.db) throw new Error('Database not initialized');
@@ -317,9 +608,9 @@ class DatabaseService {
       .prepare(
         `
       SELECT h.id, h.url, h.title, h.visit_time as visitTime,
-             h.visit_count as visitCount, h.favicon
+             grouped.total_visits as visitCount, h.favicon
       FROM (
-        SELECT h.url, MAX(h.id) as max_id
+        SELECT h.url, MAX(h.id) as max_id, SUM(h.visit_count) as total_visits
         FROM history_fts fts
         JOIN history h ON h.id = fts.rowid
         WHERE history_fts MATCH ?
@@ -351,6 +642,7 @@ class DatabaseService {
   deleteHistory(id: number): void {
     if (!this.db) throw new Error('Database not initialized');
     this.db.prepare('DELETE FROM history WHERE id = ?').run(id);
+    this.pruneOrphanSnapshots();
   }
 
   clearHistory(olderThan?: number): void {
@@ -361,6 +653,136 @@ class DatabaseService {
     } else {
       this.db.prepare('DELETE FROM history').run();
     }
+    this.pruneOrphanSnapshots();
+  }
+
+  // Page snapshot operations (semantic history search)
+  savePageSnapshot(snapshot: Pick<PageSnapshot, 'url' | 'title' | 'textContent'>): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Keep the embedding when the text is unchanged, otherwise it has to be recomputed
+    this.db
+      .prepare(
+        `
+      INSERT INTO page_snapshots (url, title, text_content, captured_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(url) DO UPDATE SET
+        title = excluded.title,
+        captured_at = excluded.captured_at,
+        embedding = CASE WHEN text_content = excluded.text_content THEN embedding ELSE NULL END,
+        embedding_model = CASE WHEN text_content = excluded.text_content THEN embedding_model ELSE NULL END,
+        text_content = excluded.text_content
+    `
+      )
+      .run(snapshot.url, snapshot.title, snapshot.textContent, Date.now());
+  }
+
+  getPageSnapshot(url: string): PageSnapshot | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db
+      .prepare(
+        `
+      SELECT url, title, text_content as textContent, embedding_model as embeddingModel,
+             captured_at as capturedAt
+      FROM page_snapshots
+      WHERE url = ?
+    `
+      )
+      .get(url) as PageSnapshot | undefined;
+    return row || null;
+  }
+
+  setPageEmbedding(url: string, model: string, embedding: number[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const blob = Buffer.from(new Float32Array(embedding).buffer);
+    this.db
+      .prepare('UPDATE page_snapshots SET embedding = ?, embedding_model = ? WHERE url = ?')
+      .run(blob, model, url);
+  }
+
+  /**
+   * Embedded pages for a model, with the latest visit from history
+   */
+  getPageEmbeddings(model: string): PageEmbedding[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT s.url, s.title, substr(s.text_content, 1, 500) as textContent, s.embedding,
+             MAX(h.id) as historyId, MAX(h.visit_time) as visitTime,
+             SUM(h.visit_count) as visitCount
+      FROM page_snapshots s
+      JOIN history h ON h.url = s.url
+      WHERE s.embedding_model = ? AND s.embedding IS NOT NULL
+      GROUP BY s.url
+    `
+      )
+      .all(model) as EmbeddingRow<PageEmbedding>[];
+
+    // Copy each blob so the float view is aligned regardless of the Buffer's offset
+    return rows.map((row) => ({
+      ...row,
+      embedding: new Float32Array(new Uint8Array(row.embedding).buffer),
+    }));
+  }
+
+  /**
+   * URLs of snapshots that have no embedding from the given model yet
+   */
+  getPagesMissingEmbedding(model: string, limit = 500): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT url FROM page_snapshots
+      WHERE embedding_model IS NULL OR embedding_model != ?
+      ORDER BY captured_at DESC
+      LIMIT ?
+    `
+      )
+      .all(model, limit) as Array<{ url: string }>;
+    return rows.map((row) => row.url);
+  }
+
+  countPageEmbeddings(model: string): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db
+      .prepare('SELECT COUNT(*) as count FROM page_snapshots WHERE embedding_model = ?')
+      .get(model) as { count: number };
+    return row.count;
+  }
+
+  clearPageSnapshots(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db.prepare('DELETE FROM page_snapshots').run();
+  }
+
+  getPageSnapshotUrls(): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare('SELECT url FROM page_snapshots').all() as Array<{ url: string }>;
+    return rows.map((row) => row.url);
+  }
+
+  // Removes the embeddings too, they are stored with the snapshot
+  deletePageSnapshots(urls: string[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db
+      .prepare('DELETE FROM page_snapshots WHERE url IN (SELECT value FROM json_each(?))')
+      .run(JSON.stringify(urls));
+  }
+
+  // Snapshots only live as long as the page is in history
+  private pruneOrphanSnapshots(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db
+      .prepare('DELETE FROM page_snapshots WHERE url NOT IN (SELECT DISTINCT url FROM history)')
+      .run();
   }
 
   // Bookmark operations
@@ -469,6 +891,7 @@ class DatabaseService {
   deleteBookmark(id: number): void {
     if (!this.db) throw new Error('Database not initialized');
     this.db.prepare('DELETE FROM bookmarks WHERE id = ?').run(id);
+    this.pruneOrphanChunks();
   }
 
   deleteBookmarkByUrl(url: string): void {
@@ -478,6 +901,7 @@ class DatabaseService {
     validateUrl(url, 'Bookmark deletion URL');
 
     this.db.prepare('DELETE FROM bookmarks WHERE url = ?').run(url);
+    this.pruneOrphanChunks();
   }
 
   updateBookmark(id: number, updates: Partial<Bookmark>): void {
@@ -507,10 +931,123 @@ class DatabaseService {
     // Build the query safely - fields array only contains whitelisted field names
     const query = `UPDATE bookmarks SET ${fields.join(', ')} WHERE id = ?`;
     this.db.prepare(query).run(...values);
+
+    // A new URL means new content, so the old passages no longer apply
+    if (updates.url !== undefined) {
+      this.deleteBookmarkChunks(id);
+    }
+  }
+
+  getBookmark(id: number): Bookmark | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db
+      .prepare(
+        `
+      SELECT id, url, title, favicon, tags, notes, created_at as createdAt, updated_at as updatedAt
+      FROM bookmarks
+      WHERE id = ?
+    `
+      )
+      .get(id) as Bookmark | undefined;
+    return row || null;
+  }
+
+  // Bookmark chunk operations (bookmark chat)
+  saveBookmarkChunks(
+    bookmarkId: number,
+    model: string,
+    chunks: Array<{ text: string; embedding: number[] }>
+  ): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const insert = this.db.prepare(
+      'INSERT INTO bookmark_chunks (bookmark_id, chunk_index, text, embedding, embedding_model) VALUES (?, ?, ?, ?, ?)'
+    );
+    const replaceChunks = this.db.transaction(() => {
+      this.deleteBookmarkChunks(bookmarkId);
+      chunks.forEach((chunk, index) => {
+        const blob = Buffer.from(new Float32Array(chunk.embedding).buffer);
+        insert.run(bookmarkId, index, chunk.text, blob, model);
+      });
+    });
+    replaceChunks();
+  }
+
+  deleteBookmarkChunks(bookmarkId: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db.prepare('DELETE FROM bookmark_chunks WHERE bookmark_id = ?').run(bookmarkId);
+  }
+
+  /**
+   * Bookmarks that have embedded passages, from any model
+   */
+  getIndexedBookmarks(): Array<{ id: number; url: string }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        `
+      SELECT id, url FROM bookmarks
+      WHERE id IN (SELECT DISTINCT bookmark_id FROM bookmark_chunks)
+    `
+      )
+      .all() as Array<{ id: number; url: string }>;
+  }
+
+  /**
+   * All embedded passages for a model, with their bookmark's title and URL
+   */
+  getBookmarkChunks(model: string): BookmarkChunk[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT c.bookmark_id as bookmarkId, b.title, b.url, c.text, c.embedding
+      FROM bookmark_chunks c
+      JOIN bookmarks b ON b.id = c.bookmark_id
+      WHERE c.embedding_model = ?
+      ORDER BY c.bookmark_id, c.chunk_index
+    `
+      )
+      .all(model) as EmbeddingRow<BookmarkChunk>[];
+
+    // Copy each blob so the float view is aligned regardless of the Buffer's offset
+    return rows.map((row) => ({
+      ...row,
+      embedding: new Float32Array(new Uint8Array(row.embedding).buffer),
+    }));
+  }
+
+  /**
+   * IDs of bookmarks without passages from the given model
+   */
+  getBookmarksMissingChunks(model: string): number[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT id FROM bookmarks
+      WHERE id NOT IN (SELECT DISTINCT bookmark_id FROM bookmark_chunks WHERE embedding_model = ?)
+      ORDER BY created_at DESC
+    `
+      )
+      .all(model) as Array<{ id: number }>;
+    return rows.map((row) => row.id);
+  }
+
+  // Passages only live as long as their bookmark
+  private pruneOrphanChunks(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db
+      .prepare('DELETE FROM bookmark_chunks WHERE bookmark_id NOT IN (SELECT id FROM bookmarks)')
+      .run();
   }
 
   // Tab session operations
-  saveTabs(tabs: Tab[]): void {
+  saveTabs(tabs: Tab[], groups: TabGroup[] = []): void {
     if (!this.db) throw new Error('Database not initialized');
 
     // Validate all tab URLs for security
@@ -520,26 +1057,40 @@ class DatabaseService {
       }
     }
 
-    // Clear existing tabs and save new ones
-    this.db.prepare('DELETE FROM tabs').run();
-
     const insertStmt = this.db.prepare(`
-      INSERT INTO tabs (id, url, title, favicon, is_active, position, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tabs (id, url, title, favicon, is_active, position, container_id, group_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertGroupStmt = this.db.prepare(`
+      INSERT INTO tab_groups (id, name, color, collapsed, position)
+      VALUES (?, ?, ?, ?, ?)
     `);
 
-    const now = Date.now();
-    for (const tab of tabs) {
-      insertStmt.run(
-        tab.id,
-        tab.url,
-        tab.title,
-        tab.favicon || null,
-        tab.isActive ? 1 : 0,
-        tab.position,
-        now
-      );
-    }
+    // Clear existing tabs and save new ones
+    const save = this.db.transaction(() => {
+      this.db!.prepare('DELETE FROM tabs').run();
+      this.db!.prepare('DELETE FROM tab_groups').run();
+
+      const now = Date.now();
+      for (const tab of tabs) {
+        insertStmt.run(
+          tab.id,
+          tab.url,
+          tab.title,
+          tab.favicon || null,
+          tab.isActive ? 1 : 0,
+          tab.position,
+          tab.containerId ?? null,
+          tab.groupId ?? null,
+          now
+        );
+      }
+      groups.forEach((group, index) => {
+        insertGroupStmt.run(group.id, group.name, group.color, group.collapsed ? 1 : 0, index);
+      });
+    });
+
+    save();
   }
 
   loadTabs(): Tab[] {
@@ -548,7 +1099,7 @@ class DatabaseService {
     const rows = this.db
       .prepare(
         `
-      SELECT id, url, title, favicon, is_active, position
+      SELECT id, url, title, favicon, is_active, position, container_id, group_id
       FROM tabs
       ORDER BY position ASC
     `
@@ -563,34 +1114,121 @@ class DatabaseService {
       favicon: row.favicon,
       isActive: Boolean(row.is_active),
       position: row.position,
+      containerId: row.container_id ?? undefined,
+      groupId: row.group_id ?? undefined,
     }));
   }
 
-  clearTabs(): void {
+  loadTabGroups(): TabGroup[] {
     if (!this.db) throw new Error('Database not initialized');
-    this.db.prepare('DELETE FROM tabs').run();
-  }
 
-  // AI-friendly: Get browsing context
-  getBrowsingContext(limit = 100): { history: HistoryEntry[]; bookmarks: Bookmark[] } {
-    return {
-      history: this.getHistory(limit),
-      bookmarks: this.getBookmarks(limit),
-    };
+    const rows = this.db
+      .prepare('SELECT id, name, color, collapsed FROM tab_groups ORDER BY position ASC')
+      .all() as TabGroupRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      collapsed: Boolean(row.collapsed),
+    }));
   }
 
-  // Settings operations
-  getSetting(key: string): string | null {
+  clearTabs(): void {
     if (!this.db) throw new Error('Database not initialized');
-
-    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
-      | { value: string }
-      | undefined;
-
-    return row ? row.value : null;
+    this.db.prepare('DELETE FROM tabs').run();
+    this.db.prepare('DELETE FROM tab_groups').run();
   }
 
-  setSetting(key: string, value: string): void {
+  // Saved tab session operations
+  getTabSessions(): TabSessionSummary[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        `
+      SELECT id, name,
+             json_array_length(tabs) as tabCount,
+             json_array_length(groups) as groupCount,
+             updated_at as updatedAt
+      FROM tab_sessions
+      ORDER BY updated_at DESC
+    `
+      )
+      .all() as TabSessionSummary[];
+  }
+
+  getTabSession(id: number): TabSession | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db
+      .prepare(
+        `
+      SELECT id, name, groups, tabs, created_at, updated_at
+      FROM tab_sessions
+      WHERE id = ?
+    `
+      )
+      .get(id) as TabSessionRow | undefined;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      name: row.name,
+      groups: JSON.parse(row.groups),
+      tabs: JSON.parse(row.tabs),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Saving under an existing name replaces that session
+  saveTabSession(name: string, groups: TabGroup[], tabs: SavedSessionTab[]): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const tab of tabs) {
+      if (tab.url) {
+        validateUrl(tab.url, 'Tab URL');
+      }
+    }
+
+    const now = Date.now();
+    this.db
+      .prepare(
+        `
+      INSERT INTO tab_sessions (name, groups, tabs, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        groups = excluded.groups,
+        tabs = excluded.tabs,
+        updated_at = excluded.updated_at
+    `
+      )
+      .run(name, JSON.stringify(groups), JSON.stringify(tabs), now, now);
+
+    const row = this.db.prepare('SELECT id FROM tab_sessions WHERE name = ?').get(name) as {
+      id: number;
+    };
+    return row.id;
+  }
+
+  deleteTabSession(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db.prepare('DELETE FROM tab_sessions WHERE id = ?').run(id);
+  }
+
+  // Settings operations
+  getSetting(key: string): string | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+
+    return row ? row.value : null;
+  }
+
+  setSetting(key: string, value: string): void {
     if (!this.db) throw new Error('Database not initialized');
 
     this.db
@@ -606,6 +1244,175 @@ class DatabaseService {
       .run(key, value, Date.now());
   }
 
+  // Tool permission policies (stored in settings as 'tool-policy:<origin>' -> JSON tool names)
+  getAllowedTools(origin: string): string[] {
+    const value = this.getSetting(`${TOOL_POLICY_PREFIX}${origin}`);
+    if (!value) return [];
+
+    try {
+      const tools = JSON.parse(value);
+      return Array.isArray(tools) ? tools : [];
+    } catch {
+      return [];
+    }
+  }
+
+  allowTool(origin: string, toolName: string): void {
+    const tools = this.getAllowedTools(origin);
+    if (tools.includes(toolName)) return;
+
+    this.setSetting(`${TOOL_POLICY_PREFIX}${origin}`, JSON.stringify([...tools, toolName]));
+  }
+
+  revokeTool(origin: string, toolName: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const tools = this.getAllowedTools(origin).filter((t) => t !== toolName);
+    if (tools.length === 0) {
+      this.db.prepare('DELETE FROM settings WHERE key = ?').run(`${TOOL_POLICY_PREFIX}${origin}`);
+    } else {
+      this.setSetting(`${TOOL_POLICY_PREFIX}${origin}`, JSON.stringify(tools));
+    }
+  }
+
+  getToolPolicies(): ToolPolicy[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(`SELECT key FROM settings WHERE key LIKE '${TOOL_POLICY_PREFIX}%' ORDER BY key`)
+      .all() as { key: string }[];
+
+    return rows
+      .map((row) => {
+        const origin = row.key.substring(TOOL_POLICY_PREFIX.length);
+        return { origin, allowedTools: this.getAllowedTools(origin) };
+      })
+      .filter((policy) => policy.allowedTools.length > 0);
+  }
+
+  // Search engine operations
+  getSearchEngines(): SearchEngine[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT id, name, keyword, search_url as searchUrl, suggest_url as suggestUrl,
+        is_default as isDefault, created_at as createdAt
+      FROM search_engines
+      ORDER BY is_default DESC, name COLLATE NOCASE
+    `
+      )
+      .all() as SearchEngineRow[];
+
+    return rows.map((row) => ({
+      ...row,
+      suggestUrl: row.suggestUrl || undefined,
+      isDefault: Boolean(row.isDefault),
+    }));
+  }
+
+  getDefaultSearchEngine(): SearchEngine | null {
+    return this.getSearchEngines().find((e) => e.isDefault) || null;
+  }
+
+  // Keywords are matched case-insensitively, so they must be unique that way too
+  private assertKeywordAvailable(keyword: string, excludeId?: number) {
+    if (!keyword) return;
+    const existing = this.getSearchEngines().find(
+      (e) => e.keyword.toLowerCase() === keyword.toLowerCase() && e.id !== excludeId
+    );
+    if (existing) {
+      throw new Error(`Keyword "${keyword}" is already used by ${existing.name}`);
+    }
+  }
+
+  addSearchEngine(engine: Omit<SearchEngine, 'id' | 'createdAt' | 'isDefault'>): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.assertKeywordAvailable(engine.keyword);
+
+    const result = this.db
+      .prepare(
+        'INSERT INTO search_engines (name, keyword, search_url, suggest_url, is_default, created_at) VALUES (?, ?, ?, ?, 0, ?)'
+      )
+      .run(engine.name, engine.keyword, engine.searchUrl, engine.suggestUrl || null, Date.now());
+
+    return result.lastInsertRowid as number;
+  }
+
+  updateSearchEngine(
+    id: number,
+    updates: Partial<Omit<SearchEngine, 'id' | 'createdAt' | 'isDefault'>>
+  ): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (updates.keyword !== undefined) {
+      this.assertKeywordAvailable(updates.keyword, id);
+    }
+
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.keyword !== undefined) {
+      fields.push('keyword = ?');
+      values.push(updates.keyword);
+    }
+    if (updates.searchUrl !== undefined) {
+      fields.push('search_url = ?');
+      values.push(updates.searchUrl);
+    }
+    if (updates.suggestUrl !== undefined) {
+      fields.push('suggest_url = ?');
+      values.push(updates.suggestUrl || null);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+    this.db.prepare(`UPDATE search_engines SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  }
+
+  setDefaultSearchEngine(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const setDefault = this.db.transaction((engineId: number) => {
+      const exists = this.db!.prepare('SELECT id FROM search_engines WHERE id = ?').get(engineId);
+      if (!exists) throw new Error('Search engine not found');
+
+      this.db!.prepare('UPDATE search_engines SET is_default = 0').run();
+      this.db!.prepare('UPDATE search_engines SET is_default = 1 WHERE id = ?').run(engineId);
+    });
+
+    setDefault(id);
+  }
+
+  deleteSearchEngine(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const engines = this.getSearchEngines();
+    const engine = engines.find((e) => e.id === id);
+    if (!engine) return;
+    if (engines.length === 1) {
+      throw new Error('At least one search engine is required');
+    }
+
+    const remove = this.db.transaction(() => {
+      this.db!.prepare('DELETE FROM search_engines WHERE id = ?').run(id);
+      // Keep a default engine around
+      if (engine.isDefault) {
+        const next = engines.find((e) => e.id !== id)!;
+        this.db!.prepare('UPDATE search_engines SET is_default = 1 WHERE id = ?').run(next.id);
+      }
+    });
+
+    remove();
+  }
+
   // Download operations
   addDownload(download: Download): number {
     if (!this.db) throw new Error('Database not initialized');
@@ -761,6 +1568,427 @@ class DatabaseService {
     this.db.prepare('DELETE FROM zoom_preferences').run();
   }
 
+  // Site permission operations
+  getSitePermission(origin: string, permission: SitePermissionType): SitePermissionDecision | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db
+      .prepare('SELECT decision FROM site_permissions WHERE origin = ? AND permission = ?')
+      .get(origin, permission) as { decision: SitePermissionDecision } | undefined;
+
+    return result ? result.decision : null;
+  }
+
+  setSitePermission(
+    origin: string,
+    permission: SitePermissionType,
+    decision: SitePermissionDecision
+  ): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO site_permissions (origin, permission, decision, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(origin, permission) DO UPDATE SET
+        decision = excluded.decision,
+        updated_at = excluded.updated_at
+    `
+      )
+      .run(origin, permission, decision, Date.now());
+  }
+
+  getSitePermissions(): SitePermission[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        `
+      SELECT origin, permission, decision, updated_at as updatedAt
+      FROM site_permissions
+      ORDER BY origin, permission
+    `
+      )
+      .all() as SitePermission[];
+  }
+
+  // Forget one decision, or every decision for the origin when no permission is given
+  deleteSitePermission(origin: string, permission?: SitePermissionType): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (permission) {
+      this.db
+        .prepare('DELETE FROM site_permissions WHERE origin = ? AND permission = ?')
+        .run(origin, permission);
+    } else {
+      this.db.prepare('DELETE FROM site_permissions WHERE origin = ?').run(origin);
+    }
+  }
+
+  // AI privacy rule operations
+  getAIPrivacyRules(): AIPrivacyRule[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        'SELECT id, pattern, created_at as createdAt FROM ai_privacy_rules ORDER BY pattern COLLATE NOCASE'
+      )
+      .all() as AIPrivacyRule[];
+  }
+
+  addAIPrivacyRule(pattern: string): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const existing = this.db
+      .prepare('SELECT id FROM ai_privacy_rules WHERE pattern = ?')
+      .get(pattern) as { id: number } | undefined;
+    if (existing) {
+      throw new Error(`"${pattern}" is already excluded`);
+    }
+
+    const result = this.db
+      .prepare('INSERT INTO ai_privacy_rules (pattern, created_at) VALUES (?, ?)')
+      .run(pattern, Date.now());
+
+    return result.lastInsertRowid as number;
+  }
+
+  deleteAIPrivacyRule(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare('DELETE FROM ai_privacy_rules WHERE id = ?').run(id);
+  }
+
+  // Container operations
+  getContainers(): Container[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare('SELECT id, name, color, created_at as createdAt FROM containers ORDER BY id')
+      .all() as Container[];
+  }
+
+  getContainer(id: number): Container | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db
+      .prepare('SELECT id, name, color, created_at as createdAt FROM containers WHERE id = ?')
+      .get(id) as Container | undefined;
+    return row || null;
+  }
+
+  addContainer(name: string, color: ContainerColor): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.assertContainerNameFree(name);
+    const result = this.db
+      .prepare('INSERT INTO containers (name, color, created_at) VALUES (?, ?, ?)')
+      .run(name, color, Date.now());
+
+    return result.lastInsertRowid as number;
+  }
+
+  updateContainer(id: number, updates: { name?: string; color?: ContainerColor }): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const container = this.getContainer(id);
+    if (!container) throw new Error('Container not found');
+
+    if (updates.name !== undefined) {
+      this.assertContainerNameFree(updates.name, id);
+    }
+    this.db
+      .prepare('UPDATE containers SET name = ?, color = ? WHERE id = ?')
+      .run(updates.name ?? container.name, updates.color ?? container.color, id);
+  }
+
+  deleteContainer(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Saved tabs of the container are restored without one
+    this.db.prepare('UPDATE tabs SET container_id = NULL WHERE container_id = ?').run(id);
+    this.db.prepare('DELETE FROM containers WHERE id = ?').run(id);
+  }
+
+  private assertContainerNameFree(name: string, exceptId?: number): void {
+    if (!this.db) return;
+
+    const statement = this.db.prepare('SELECT id FROM containers WHERE name = ?');
+    const existing = statement.get(name) as { id: number } | undefined;
+    if (existing && existing.id !== exceptId) {
+      throw new Error(`A container named "${name}" already exists`);
+    }
+  }
+
+  // Conversation operations
+  createConversation(conversation: Conversation): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    this.db
+      .prepare(
+        `
+      INSERT INTO conversations (id, title, model, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        conversation.id,
+        conversation.title,
+        conversation.model || null,
+        conversation.createdAt || now,
+        conversation.updatedAt || now
+      );
+  }
+
+  getConversations(limit = 100, offset = 0): Conversation[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        `
+      SELECT c.id, c.title, c.model, c.created_at as createdAt, c.updated_at as updatedAt,
+             (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) as messageCount
+      FROM conversations c
+      ORDER BY c.updated_at DESC
+      LIMIT ? OFFSET ?
+    `
+      )
+      .all(limit, offset) as Conversation[];
+  }
+
+  getConversation(id: string): Conversation | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conversation = this.db
+      .prepare(
+        `
+      SELECT id, title, model, created_at as createdAt, updated_at as updatedAt
+      FROM conversations
+      WHERE id = ?
+    `
+      )
+      .get(id) as Conversation | undefined;
+
+    if (!conversation) return null;
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT * FROM messages
+      WHERE conversation_id = ?
+      ORDER BY position ASC
+    `
+      )
+      .all(id) as MessageRow[];
+
+    const messages = rows.map((row) => this.mapMessageRow(row));
+    return { ...conversation, messages, messageCount: messages.length };
+  }
+
+  searchConversations(query: string, limit = 50): Conversation[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (!query.trim()) {
+      return this.getConversations(limit);
+    }
+
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    const ftsQuery = this.buildMessageFtsQuery(query);
+
+    return this.db
+      .prepare(
+        `
+      SELECT c.id, c.title, c.model, c.created_at as createdAt, c.updated_at as updatedAt,
+             (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) as messageCount
+      FROM conversations c
+      WHERE c.title LIKE ? ESCAPE '\\'
+         OR c.id IN (
+           SELECT m.conversation_id
+           FROM messages_fts fts
+           JOIN messages m ON m.rowid = fts.rowid
+           WHERE messages_fts MATCH ?
+         )
+      ORDER BY c.updated_at DESC
+      LIMIT ?
+    `
+      )
+      .all(pattern, ftsQuery, limit) as Conversation[];
+  }
+
+  searchMessages(query: string, limit = 50): MessageSearchResult[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (!query.trim()) return [];
+
+    return this.db
+      .prepare(
+        `
+      SELECT m.id as messageId, m.conversation_id as conversationId,
+             c.title as conversationTitle, m.role, m.created_at as createdAt,
+             snippet(messages_fts, 0, '', '', '...', 16) as snippet
+      FROM messages_fts fts
+      JOIN messages m ON m.rowid = fts.rowid
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE messages_fts MATCH ? AND m.is_tool_execution = 0
+      ORDER BY fts.rank
+      LIMIT ?
+    `
+      )
+      .all(this.buildMessageFtsQuery(query), limit) as MessageSearchResult[];
+  }
+
+  // Quote each term so FTS5 operators are treated literally; the last term matches as a prefix
+  private buildMessageFtsQuery(query: string): string {
+    const terms = query
+      .trim()
+      .split(/\s+/)
+      .map((term) => '"' + term.replace(/"/g, '""') + '"');
+    terms[terms.length - 1] += '*';
+    return terms.join(' ');
+  }
+
+  // Insert or update messages of a conversation, keeping their order
+  saveMessages(conversationId: string, messages: StoredMessage[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const upsertStmt = this.db.prepare(`
+      INSERT INTO messages (
+        id, conversation_id, position, role, content, images, thinking,
+        tool_call, tool_result, is_tool_execution, context_info, timing, stats,
+        is_memory, condensed, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        position = excluded.position,
+        content = excluded.content,
+        images = excluded.images,
+        thinking = excluded.thinking,
+        tool_call = excluded.tool_call,
+        tool_result = excluded.tool_result,
+        is_tool_execution = excluded.is_tool_execution,
+        context_info = excluded.context_info,
+        timing = excluded.timing,
+        stats = excluded.stats,
+        is_memory = excluded.is_memory,
+        condensed = excluded.condensed
+    `);
+
+    const toJson = (value: unknown) =>
+      value === undefined || value === null ? null : JSON.stringify(value);
+
+    const save = this.db.transaction((items: StoredMessage[]) => {
+      items.forEach((message, index) => {
+        upsertStmt.run(
+          message.id,
+          conversationId,
+          index,
+          message.role,
+          message.content,
+          message.images?.length ? JSON.stringify(message.images) : null,
+          message.thinking || null,
+          toJson(message.toolCall),
+          toJson(message.toolResult),
+          message.isToolExecution ? 1 : 0,
+          toJson(message.contextInfo),
+          toJson(message.timing),
+          toJson(message.stats),
+          message.isMemory ? 1 : 0,
+          message.condensed ? 1 : 0,
+          message.timestamp || Date.now()
+        );
+      });
+
+      // Messages no longer in the conversation (regenerated or condensed turns)
+      // would otherwise come back on reload and in search
+      this.db!.prepare(
+        'DELETE FROM messages WHERE conversation_id = ? AND id NOT IN (SELECT value FROM json_each(?))'
+      ).run(conversationId, JSON.stringify(items.map((message) => message.id)));
+
+      this.db!.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?').run(
+        Date.now(),
+        conversationId
+      );
+    });
+
+    save(messages);
+  }
+
+  renameConversation(id: string, title: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+    this.db
+      .prepare('UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?')
+      .run(title, Date.now(), id);
+  }
+
+  deleteConversation(id: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const remove = this.db.transaction((conversationId: string) => {
+      this.db!.prepare('DELETE FROM messages WHERE conversation_id = ?').run(conversationId);
+      this.db!.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+    });
+
+    remove(id);
+  }
+
+  // Average speed and context use per model, over every response with token stats
+  getModelPerformance(): ModelPerformance[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db
+      .prepare(
+        `
+      SELECT json_extract(stats, '$.model') as model,
+             COUNT(*) as responses,
+             AVG(json_extract(stats, '$.tokensPerSecond')) as avgTokensPerSecond,
+             AVG(json_extract(stats, '$.promptEvalMs')) as avgPromptEvalMs,
+             AVG(json_extract(stats, '$.promptTokens')) as avgPromptTokens,
+             AVG(json_extract(timing, '$.ttft')) as avgTtftMs,
+             AVG(
+               (COALESCE(json_extract(stats, '$.promptTokens'), 0) +
+                COALESCE(json_extract(stats, '$.completionTokens'), 0)) * 1.0 /
+               NULLIF(json_extract(stats, '$.contextLength'), 0)
+             ) as avgContextFill,
+             MAX(created_at) as lastUsed
+      FROM messages
+      WHERE stats IS NOT NULL AND json_extract(stats, '$.model') IS NOT NULL
+      GROUP BY json_extract(stats, '$.model')
+      ORDER BY lastUsed DESC
+    `
+      )
+      .all() as ModelPerformance[];
+  }
+
+  private mapMessageRow(row: MessageRow): StoredMessage {
+    const parseJson = (value: string | null) => {
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    };
+
+    return {
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      images: parseJson(row.images),
+      thinking: row.thinking || undefined,
+      toolCall: parseJson(row.tool_call),
+      toolResult: parseJson(row.tool_result),
+      isToolExecution: Boolean(row.is_tool_execution),
+      contextInfo: parseJson(row.context_info),
+      timing: parseJson(row.timing),
+      stats: parseJson(row.stats),
+      isMemory: Boolean(row.is_memory),
+      condensed: Boolean(row.condensed),
+      timestamp: row.created_at,
+    };
+  }
+
   close() {
     this.db?.close();
   }
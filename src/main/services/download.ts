@@ -220,6 +220,16 @@ class DownloadService {
     return dbId;
   }
 
+  /**
+   * Save a download from a private tab without keeping a record of it
+   */
+  handlePrivateDownload(item: DownloadItem, savePath: string): void {
+    item.setSavePath(savePath);
+    item.once('done', (_event, state) => {
+      console.log(`[Download] Private download ${state}: ${path.basename(savePath)}`);
+    });
+  }
+
   /**
    * Pause a download
    */
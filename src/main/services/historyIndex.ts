@@ -0,0 +1,166 @@
+import { WebContents } from 'electron';
+import { databaseService } from './database';
+import { captureService } from './capture';
+import { ollamaService } from './ollama';
+import { aiPrivacyService } from './aiPrivacy';
+import { rankBySimilarity } from '../../shared/embeddings';
+import type { HistoryIndexStatus, SemanticHistoryResult } from '../../shared/types';
+
+const EMBEDDING_MODEL_SETTING = 'history-embedding-model';
+const MAX_SNAPSHOT_CHARS = 20000;
+// Pages with less readable text than this (login screens, app shells) aren't worth indexing
+const MIN_SNAPSHOT_CHARS = 200;
+// Embedding models have small context windows, so only the start of the page is embedded
+const MAX_EMBED_INPUT_CHARS = 2000;
+const MIN_SIMILARITY = 0.3;
+const EXCERPT_LENGTH = 200;
+
+/**
+ * HistoryIndexService
+ * Records visits and keeps a readable-text snapshot plus an embedding of each page,
+ * so history can be searched by meaning rather than only by title and URL
+ */
+export class HistoryIndexService {
+  // Embedding requests run one at a time so browsing doesn't flood Ollama
+  private queue: Promise<void> = Promise.resolve();
+  private pending = new Set<string>();
+
+  /**
+   * Embedding model used for semantic search, or null when the feature is off
+   */
+  getEmbeddingModel(): string | null {
+    return databaseService.getSetting(EMBEDDING_MODEL_SETTING) || null;
+  }
+
+  /**
+   * Turn semantic search on with the given model (or off with null).
+   * Pages that were embedded with another model are re-embedded in the background.
+   */
+  setEmbeddingModel(model: string | null): void {
+    databaseService.setSetting(EMBEDDING_MODEL_SETTING, model || '');
+
+    if (model) {
+      databaseService.getPagesMissingEmbedding(model).forEach((url) => this.queueEmbedding(url));
+    } else {
+      // Snapshots are only kept while the feature is on
+      databaseService.clearPageSnapshots();
+    }
+  }
+
+  getStatus(): HistoryIndexStatus {
+    const model = this.getEmbeddingModel();
+    return {
+      model,
+      indexedPages: model ? databaseService.countPageEmbeddings(model) : 0,
+      pendingPages: this.pending.size,
+    };
+  }
+
+  /**
+   * Record a finished page load in history and, when semantic search is on, index its text
+   */
+  async recordVisit(webContents: WebContents): Promise<void> {
+    const url = webContents.getURL();
+    if (!/^https?:\/\//.test(url)) return;
+
+    try {
+      databaseService.addHistory({
+        url,
+        title: webContents.getTitle() || url,
+        visitTime: Date.now(),
+      });
+    } catch (error) {
+      console.error(
+        '[HistoryIndex] Failed to record visit:',
+        error instanceof Error ? error.message : error
+      );
+      return;
+    }
+
+    // Pages excluded from AI context are kept in history but never read or embedded
+    if (this.getEmbeddingModel() && !aiPrivacyService.isWithheld(url)) {
+      await this.snapshotPage(webContents, url);
+    }
+  }
+
+  /**
+   * Store the page's readable text and queue it for embedding
+   */
+  private async snapshotPage(webContents: WebContents, url: string): Promise<void> {
+    try {
+      const html: string = await webContents.executeJavaScript(
+        'document.documentElement.outerHTML'
+      );
+      // The tab may have navigated away, or the page been excluded, while the HTML was being read
+      if (webContents.isDestroyed() || webContents.getURL() !== url) return;
+      if (aiPrivacyService.isWithheld(url)) return;
+
+      const readable = captureService.extractReadableContent(html, url);
+      const text = (readable?.textContent || '').replace(/\s+/g, ' ').trim();
+      if (text.length < MIN_SNAPSHOT_CHARS) return;
+
+      databaseService.savePageSnapshot({
+        url,
+        title: readable?.title || webContents.getTitle() || url,
+        textContent: text.slice(0, MAX_SNAPSHOT_CHARS),
+      });
+      this.queueEmbedding(url);
+    } catch (error) {
+      console.error(
+        '[HistoryIndex] Failed to snapshot page:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private queueEmbedding(url: string): void {
+    if (this.pending.has(url)) return;
+    this.pending.add(url);
+
+    this.queue = this.queue
+      .then(() => this.embedPage(url))
+      .catch((error) => console.error('[HistoryIndex] Failed to embed page:', error.message))
+      .finally(() => this.pending.delete(url));
+  }
+
+  private async embedPage(url: string): Promise<void> {
+    const model = this.getEmbeddingModel();
+    const snapshot = databaseService.getPageSnapshot(url);
+    if (!model || !snapshot || snapshot.embeddingModel === model) return;
+
+    const input = `${snapshot.title}\n\n${snapshot.textContent.slice(0, MAX_EMBED_INPUT_CHARS)}`;
+    const [embedding] = await ollamaService.embed(model, input);
+    if (embedding) {
+      databaseService.setPageEmbedding(url, model, embedding);
+    }
+  }
+
+  /**
+   * Find visited pages whose content is closest in meaning to the query
+   */
+  async semanticSearch(query: string, limit = 10): Promise<SemanticHistoryResult[]> {
+    const model = this.getEmbeddingModel();
+    if (!model) {
+      throw new Error('Semantic history search is not enabled');
+    }
+
+    const [queryEmbedding] = await ollamaService.embed(model, query);
+    if (!queryEmbedding) return [];
+
+    const pages = databaseService.getPageEmbeddings(model);
+    return rankBySimilarity(queryEmbedding, pages, limit, MIN_SIMILARITY).map(
+      ({ item, score }) => ({
+        id: item.historyId,
+        url: item.url,
+        title: item.title,
+        visitTime: item.visitTime,
+        visitCount: item.visitCount,
+        excerpt: item.textContent.slice(0, EXCERPT_LENGTH),
+        score,
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const historyIndexService = new HistoryIndexService();
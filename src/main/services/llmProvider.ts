@@ -0,0 +1,505 @@
+import http from 'http';
+import https from 'https';
+import { randomUUID } from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import { databaseService } from './database';
+import {
+  ollamaService,
+  ChatMessage,
+  ChatRequest,
+  ChatStreamChunk,
+  GenerateRequest,
+  OllamaModel,
+} from './ollama';
+import type { LLMProviderId, LLMProviderSettings } from '../../shared/types';
+
+const PROVIDER_SETTING = 'llm-provider';
+const BASE_URL_SETTING = 'llm-base-url';
+const API_KEY_SETTING = 'llm-api-key';
+const AVAILABILITY_TIMEOUT_MS = 5000;
+
+const SUMMARY_SYSTEM_PROMPT = `You condense chat transcripts into a memory for the assistant that took part in them.
+Write a concise summary in plain prose or short bullet points. Keep facts about the user, decisions, open questions, names, numbers, URLs and anything the assistant promised to do. Leave out greetings and small talk. Do not add anything that is not in the transcript.`;
+
+const SUMMARY_ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool result',
+};
+
+// The parts of the chat completions API used here
+type OpenAIContentPart =
+  { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: ChatMessage['role'];
+  content: string | OpenAIContentPart[];
+}
+
+interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  stream: boolean;
+  stream_options: { include_usage: boolean };
+  tools?: ChatRequest['tools'];
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      reasoning_content?: string;
+      tool_calls?: Array<{ index?: number; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  timings?: { prompt_ms?: number; predicted_ms?: number; predicted_n?: number };
+}
+
+/**
+ * A backend that chat and generation requests are sent to.
+ * Models are listed in Ollama's shape and tool calls are yielded in Ollama's
+ * format, so the renderer doesn't need to know which backend answered.
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  isAvailable(): Promise<boolean>;
+  listModels(): Promise<OllamaModel[]>;
+  chat(request: ChatRequest): AsyncGenerator<ChatStreamChunk>;
+  generate(request: GenerateRequest): AsyncGenerator<string>;
+  cancelChat(requestId?: string): void;
+  getContextLength(model: string): Promise<number | null>;
+}
+
+// The Ollama server managed by OllamaService
+const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  isAvailable: () => ollamaService.isRunning(),
+  listModels: () => ollamaService.listModels(),
+  chat: (request) => ollamaService.chat(request),
+  generate: (request) => ollamaService.generate(request),
+  cancelChat: (requestId) => ollamaService.cancelChat(requestId),
+  getContextLength: (model) => ollamaService.getContextLength(model),
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API
+ * (llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai-compatible' as const;
+  private baseUrl: string;
+  private apiKey: string;
+  // In-flight requests by request ID, so each can be canceled on its own
+  private activeRequests = new Map<string, http.ClientRequest>();
+  // Context window per model from the last model list (null when not reported)
+  private contextLengths = new Map<string, number | null>();
+
+  constructor(baseUrl: string, apiKey = '') {
+    // Accept the server address with or without the /v1 suffix
+    this.baseUrl = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Send a request to the server and resolve with the response once the status is known
+   */
+  private send(
+    path: string,
+    body: unknown,
+    timeout: number,
+    requestId?: string
+  ): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(`${this.baseUrl}/v1${path}`);
+      const data = body === undefined ? undefined : JSON.stringify(body);
+      const headers: Record<string, string | number> = {
+        Accept: data ? 'text/event-stream' : 'application/json',
+      };
+      if (data) {
+        headers['Content-Type'] = 'application/json';
+        headers['Content-Length'] = Buffer.byteLength(data);
+      }
+      if (this.apiKey) {
+        headers.Authorization = `Bearer ${this.apiKey}`;
+      }
+
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.request(
+        url,
+        { method: data ? 'POST' : 'GET', headers, timeout },
+        (res) => {
+          if (!res.statusCode || res.statusCode >= 300) {
+            let errorBody = '';
+            res.on('data', (chunk) => (errorBody += chunk));
+            res.on('end', () =>
+              reject(new Error(`HTTP ${res.statusCode}: ${errorBody.substring(0, 500)}`))
+            );
+            return;
+          }
+          resolve(res);
+        }
+      );
+
+      req.on('error', reject);
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new Error('Request timeout'));
+      });
+
+      // Store the request so it can be canceled
+      if (requestId) {
+        this.activeRequests.set(requestId, req);
+      }
+
+      if (data) {
+        req.write(data);
+      }
+      req.end();
+    });
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.fetchModels(AVAILABILITY_TIMEOUT_MS);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<OllamaModel[]> {
+    try {
+      return await this.fetchModels(30000);
+    } catch (error) {
+      console.error('Failed to list models:', error);
+      throw new Error(
+        `Failed to list models from ${this.baseUrl}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private async fetchModels(timeout: number): Promise<OllamaModel[]> {
+    const res = await this.send('/models', undefined, timeout);
+    // A character split across chunks must not turn into replacement characters
+    const decoder = new StringDecoder('utf8');
+    let body = '';
+    for await (const chunk of res) {
+      body += decoder.write(chunk);
+    }
+    body += decoder.end();
+
+    const data: { data?: Array<{ id: string; created?: number; max_model_len?: number }> } =
+      JSON.parse(body);
+    this.contextLengths = new Map(
+      (data.data || []).map((model) => [model.id, model.max_model_len || null])
+    );
+    return (data.data || []).map((model) => ({
+      name: model.id,
+      size: 0,
+      digest: '',
+      modified_at: model.created ? new Date(model.created * 1000).toISOString() : '',
+    }));
+  }
+
+  /**
+   * Convert chat messages to the chat completions format
+   */
+  private toOpenAIMessages(request: ChatRequest): OpenAIMessage[] {
+    const messages = [...request.messages];
+
+    // Context goes in front of the first user message, as it does for Ollama
+    if (request.context) {
+      const contextualSystem = ollamaService.buildContextualSystemPrompt('', request.context);
+      const firstUserIndex = messages.findIndex((m) => m.role === 'user');
+      if (contextualSystem && firstUserIndex >= 0) {
+        messages[firstUserIndex] = {
+          ...messages[firstUserIndex],
+          content: contextualSystem + '\n\n' + messages[firstUserIndex].content,
+        };
+      }
+    }
+
+    return messages.map((message): OpenAIMessage => {
+      // Tool results aren't linked to a tool call id, so they go back as user text
+      if (message.role === 'tool') {
+        return { role: 'user', content: `Tool result:\n${message.content}` };
+      }
+
+      if (message.images && message.images.length > 0) {
+        return {
+          role: message.role,
+          content: [
+            { type: 'text', text: message.content },
+            ...message.images.map((image): OpenAIContentPart => ({
+              type: 'image_url',
+              image_url: { url: toImageDataUrl(image) },
+            })),
+          ],
+        };
+      }
+
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  async *chat(request: ChatRequest): AsyncGenerator<ChatStreamChunk> {
+    const body: OpenAIChatRequest = {
+      model: request.model,
+      messages: this.toOpenAIMessages(request),
+      stream: true,
+      // Ask for token counts in the last chunk
+      stream_options: { include_usage: true },
+    };
+    if (request.planningMode && request.tools && request.tools.length > 0) {
+      // Ollama's tool definitions already use the OpenAI function format
+      body.tools = request.tools;
+    }
+
+    const hasImages = request.messages.some((m) => m.images && m.images.length > 0);
+    const requestTimeout = hasImages ? 300000 : 60000;
+
+    // Tool call names and arguments arrive in fragments, keyed by the call's index
+    const toolCalls = new Map<number, { name: string; arguments: string }>();
+    const requestId = request.requestId || randomUUID();
+
+    // Token counts, and llama.cpp's own timings when it sends them
+    const startTime = Date.now();
+    let firstTokenTime: number | undefined;
+    let usage: OpenAIStreamChunk['usage'];
+    let timings: OpenAIStreamChunk['timings'];
+
+    try {
+      const stream = await this.send('/chat/completions', body, requestTimeout, requestId);
+
+      const decoder = new StringDecoder('utf8');
+      let buffer = '';
+      let done = false;
+      for await (const chunk of stream) {
+        buffer += decoder.write(chunk);
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          // Server-sent events: "data: {...}", ending with "data: [DONE]"
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.substring(5).trim();
+          if (payload === '[DONE]') {
+            done = true;
+            break;
+          }
+
+          let data: OpenAIStreamChunk;
+          try {
+            data = JSON.parse(payload);
+          } catch (_e) {
+            console.warn('[LLM] Failed to parse line:', payload.substring(0, 50));
+            continue;
+          }
+
+          usage = data.usage || usage;
+          timings = data.timings || timings;
+
+          const delta = data.choices?.[0]?.delta;
+          if (!delta) continue;
+          if (!firstTokenTime && (delta.content || delta.reasoning_content || delta.tool_calls)) {
+            firstTokenTime = Date.now();
+          }
+
+          // llama.cpp and vLLM stream reasoning separately from the answer
+          if (delta.reasoning_content && request.think) {
+            yield { type: 'thinking', content: delta.reasoning_content };
+          }
+
+          if (delta.content) {
+            yield delta.content;
+          }
+
+          for (const call of delta.tool_calls || []) {
+            const index = call.index ?? toolCalls.size;
+            const existing = toolCalls.get(index) || { name: '', arguments: '' };
+            existing.name += call.function?.name || '';
+            existing.arguments += call.function?.arguments || '';
+            toolCalls.set(index, existing);
+          }
+        }
+
+        if (done) break;
+      }
+
+      if (toolCalls.size > 0) {
+        yield {
+          type: 'tool_calls',
+          tool_calls: Array.from(toolCalls.values()).map((call) => ({
+            function: { name: call.name, arguments: parseToolArguments(call.arguments) },
+          })),
+        };
+      }
+
+      // Without server timings, measure from the first token
+      const endTime = Date.now();
+      const completionTokens = usage?.completion_tokens ?? timings?.predicted_n;
+      const evalMs = timings?.predicted_ms ?? (firstTokenTime && endTime - firstTokenTime);
+      yield {
+        type: 'stats',
+        stats: {
+          model: request.model,
+          promptTokens: usage?.prompt_tokens,
+          completionTokens,
+          promptEvalMs: timings?.prompt_ms ?? (firstTokenTime && firstTokenTime - startTime),
+          evalMs: evalMs || undefined,
+          totalMs: endTime - startTime,
+          tokensPerSecond:
+            completionTokens && evalMs ? completionTokens / (evalMs / 1000) : undefined,
+        },
+      };
+    } catch (error) {
+      console.error('Failed to chat:', error);
+      throw new Error(
+        `Failed to chat with ${this.baseUrl}: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      this.activeRequests.delete(requestId);
+    }
+  }
+
+  async *generate(request: GenerateRequest): AsyncGenerator<string> {
+    const system = ollamaService.buildContextualSystemPrompt(request.system, request.context);
+    const messages: ChatMessage[] = [];
+    if (system) {
+      messages.push({ role: 'system', content: system });
+    }
+    messages.push({ role: 'user', content: request.prompt, images: request.images });
+
+    const chatRequest = { model: request.model, messages, requestId: request.requestId };
+    for await (const chunk of this.chat(chatRequest)) {
+      if (typeof chunk === 'string') {
+        yield chunk;
+      }
+    }
+  }
+
+  cancelChat(requestId?: string): void {
+    for (const [id, request] of this.activeRequests) {
+      if (requestId && id !== requestId) continue;
+      console.log(`[LLM] Canceling request ${id}`);
+      request.destroy();
+      this.activeRequests.delete(id);
+    }
+  }
+
+  /**
+   * Context window as listed by the server. Only some servers (vLLM) report it
+   * in the model list; null means unknown.
+   */
+  async getContextLength(model: string): Promise<number | null> {
+    if (!this.contextLengths.has(model)) {
+      try {
+        await this.fetchModels(AVAILABILITY_TIMEOUT_MS);
+      } catch (error) {
+        console.warn(
+          `[LLM] Failed to read context length of ${model}:`,
+          error instanceof Error ? error.message : error
+        );
+        return null;
+      }
+    }
+    return this.contextLengths.get(model) ?? null;
+  }
+}
+
+// Images are stored as bare base64; the chat completions API wants data URLs
+function toImageDataUrl(image: string): string {
+  if (image.startsWith('data:')) return image;
+  const mimeType = image.startsWith('iVBOR') ? 'image/png' : 'image/jpeg';
+  return `data:${mimeType};base64,${image}`;
+}
+
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch (_e) {
+    console.warn('[LLM] Failed to parse tool arguments:', args.substring(0, 100));
+    return {};
+  }
+}
+
+/**
+ * LLMProviderService
+ * Picks the backend for chat and generation from the user's settings
+ */
+export class LLMProviderService {
+  private provider: LLMProvider | null = null;
+
+  getSettings(): LLMProviderSettings {
+    return {
+      provider:
+        databaseService.getSetting(PROVIDER_SETTING) === 'openai-compatible'
+          ? 'openai-compatible'
+          : 'ollama',
+      baseUrl: databaseService.getSetting(BASE_URL_SETTING) || '',
+      apiKey: databaseService.getSetting(API_KEY_SETTING) || '',
+    };
+  }
+
+  setSettings(settings: LLMProviderSettings): void {
+    // Don't leave responses streaming from the backend being replaced
+    this.provider?.cancelChat();
+
+    databaseService.setSetting(PROVIDER_SETTING, settings.provider);
+    databaseService.setSetting(BASE_URL_SETTING, settings.baseUrl);
+    databaseService.setSetting(API_KEY_SETTING, settings.apiKey);
+    this.provider = null;
+  }
+
+  /**
+   * Condense chat turns into a summary, folding in the summary of the turns before them
+   */
+  async summarize(
+    model: string,
+    messages: ChatMessage[],
+    previousSummary = '',
+    requestId?: string
+  ): Promise<string> {
+    const transcript = messages
+      .map((m) => `${SUMMARY_ROLE_LABELS[m.role]}: ${m.content}`)
+      .join('\n\n');
+    const prompt = previousSummary
+      ? `Summary of the conversation so far:\n${previousSummary}\n\nLater messages:\n${transcript}\n\nUpdate the summary so it also covers the later messages.`
+      : `Conversation:\n${transcript}\n\nSummarize this conversation.`;
+
+    let summary = '';
+    for await (const token of this.getProvider().generate({
+      model,
+      prompt,
+      system: SUMMARY_SYSTEM_PROMPT,
+      stream: true,
+      requestId,
+    })) {
+      summary += token;
+    }
+
+    // Reasoning models may think out loud before the summary
+    return summary.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+  }
+
+  /**
+   * The backend requests should go to (Ollama unless another server is configured)
+   */
+  getProvider(): LLMProvider {
+    if (!this.provider) {
+      const settings = this.getSettings();
+      this.provider =
+        settings.provider === 'openai-compatible' && settings.baseUrl
+          ? new OpenAICompatibleProvider(settings.baseUrl, settings.apiKey)
+          : ollamaProvider;
+    }
+    return this.provider;
+  }
+}
+
+// Export singleton instance
+export const llmProviderService = new LLMProviderService();
@@ -5,6 +5,29 @@ import path from 'path';
 import fs from 'fs';
 import http from 'http';
 import https from 'https';
+import { randomUUID } from 'crypto';
+import { databaseService } from './database';
+import { JsonStreamDecoder } from '../utils/jsonStream';
+import type { ModelToolCall, OllamaEndpoint, ResponseStats } from '../../shared/types';
+
+const ENDPOINT_SETTINGS = {
+  host: 'ollama-host',
+  port: 'ollama-port',
+  useTls: 'ollama-tls',
+  authHeader: 'ollama-auth-header',
+};
+
+const DEFAULT_ENDPOINT: OllamaEndpoint = {
+  host: 'localhost',
+  port: 11434,
+  useTls: false,
+  authHeader: '',
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]', '0.0.0.0'];
+
+// Context window Ollama loads a model with when its Modelfile doesn't set num_ctx
+const DEFAULT_NUM_CTX = parseInt(process.env.OLLAMA_CONTEXT_LENGTH || '', 10) || 4096;
 
 export interface OllamaModel {
   name: string;
@@ -33,6 +56,7 @@ export interface AIContext {
   page?: PageContext;
   browsingHistory?: any[];
   bookmarks?: any[];
+  sources?: Array<{ index: number; title: string; url: string; text: string }>;
 }
 
 export interface GenerateRequest {
@@ -42,6 +66,7 @@ export interface GenerateRequest {
   stream?: boolean;
   system?: string;
   context?: AIContext;
+  requestId?: string; // Lets the caller cancel this request alone
 }
 
 export interface GenerateResponse {
@@ -50,10 +75,18 @@ export interface GenerateResponse {
   response: string;
   done: boolean;
   context?: number[];
+  // Durations are in nanoseconds
   total_duration?: number;
   load_duration?: number;
   prompt_eval_count?: number;
+  prompt_eval_duration?: number;
   eval_count?: number;
+  eval_duration?: number;
+}
+
+// One message of a streamed /api/chat response; the last one carries the stats
+export interface ChatResponse extends Omit<GenerateResponse, 'response' | 'context'> {
+  message?: { role: string; content: string; thinking?: string; tool_calls?: ModelToolCall[] };
 }
 
 export interface ChatMessage {
@@ -70,8 +103,16 @@ export interface ChatRequest {
   tools?: any[]; // Tool definitions in Ollama format
   planningMode?: boolean; // Enable tool calling behavior
   think?: boolean; // Enable thinking/reasoning mode (Qwen models)
+  requestId?: string; // Lets the caller cancel this request alone
 }
 
+// A piece of a streamed chat response
+export type ChatStreamChunk =
+  | string
+  | { type: 'tool_calls'; tool_calls: ModelToolCall[] }
+  | { type: 'thinking'; content: string }
+  | { type: 'stats'; stats: ResponseStats };
+
 export interface ProcessStats {
   pid: number;
   memory: {
@@ -88,31 +129,100 @@ export interface OllamaServiceStatus {
   isRunning: boolean;
   processStats?: ProcessStats;
   error?: string;
+  remote: boolean; // Server runs on another machine, so there is no process to manage
+  baseURL: string;
 }
 
 export class OllamaService {
-  private baseURL: string;
-  private client: AxiosInstance;
+  private endpoint: OllamaEndpoint = DEFAULT_ENDPOINT;
+  private baseURL = '';
+  private client!: AxiosInstance;
   private process: ChildProcess | null = null;
   private isServerRunning = false;
   private activePulls: Map<string, boolean> = new Map();
-  private activeRequest: http.ClientRequest | null = null;
+  // Context window per model, read once from /api/show (null when not reported)
+  private contextLengths = new Map<string, number | null>();
+  // In-flight chat and generate requests by request ID, so each can be canceled on its own
+  private activeRequests = new Map<string, { destroy: () => void }>();
   private processStartTime: number = 0;
   private isStarting = false;
   private isStopping = false;
 
-  constructor(baseURL = 'http://localhost:11434') {
-    this.baseURL = baseURL;
+  constructor() {
+    this.applyEndpoint(DEFAULT_ENDPOINT);
+  }
+
+  /**
+   * Point the HTTP client (and the streaming chat requests) at an endpoint
+   */
+  private applyEndpoint(endpoint: OllamaEndpoint): void {
+    this.endpoint = endpoint;
+    this.baseURL = `${endpoint.useTls ? 'https' : 'http'}://${endpoint.host}:${endpoint.port}`;
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 120000, // 2 minutes for model operations
       decompress: false, // Disable automatic decompression to match curl behavior
       headers: {
         'Accept-Encoding': 'identity', // Disable compression to match curl
+        ...this.getAuthHeaders(),
       },
     });
   }
 
+  private getAuthHeaders(): Record<string, string> {
+    return this.endpoint.authHeader ? { Authorization: this.endpoint.authHeader } : {};
+  }
+
+  /**
+   * Load the saved endpoint (call once the database is initialized)
+   */
+  loadEndpoint(): void {
+    const port = parseInt(databaseService.getSetting(ENDPOINT_SETTINGS.port) || '', 10);
+    this.applyEndpoint({
+      host: databaseService.getSetting(ENDPOINT_SETTINGS.host) || DEFAULT_ENDPOINT.host,
+      port: Number.isInteger(port) ? port : DEFAULT_ENDPOINT.port,
+      useTls: databaseService.getSetting(ENDPOINT_SETTINGS.useTls) === 'true',
+      authHeader: databaseService.getSetting(ENDPOINT_SETTINGS.authHeader) || '',
+    });
+    console.log('[Ollama] Using endpoint:', this.baseURL);
+  }
+
+  getEndpoint(): OllamaEndpoint {
+    return { ...this.endpoint };
+  }
+
+  /**
+   * Save and switch to a new endpoint. A server we started ourselves is stopped
+   * when switching to a remote one, since nothing will use it anymore.
+   */
+  async setEndpoint(endpoint: OllamaEndpoint): Promise<void> {
+    this.cancelChat();
+    if (this.process && !this.isLocalHost(endpoint.host)) {
+      await this.stop();
+    }
+
+    databaseService.setSetting(ENDPOINT_SETTINGS.host, endpoint.host);
+    databaseService.setSetting(ENDPOINT_SETTINGS.port, String(endpoint.port));
+    databaseService.setSetting(ENDPOINT_SETTINGS.useTls, String(endpoint.useTls));
+    databaseService.setSetting(ENDPOINT_SETTINGS.authHeader, endpoint.authHeader);
+    this.applyEndpoint(endpoint);
+    this.contextLengths.clear();
+    this.isServerRunning = false;
+    console.log('[Ollama] Switched endpoint to:', this.baseURL);
+  }
+
+  private isLocalHost(host: string): boolean {
+    return LOCAL_HOSTS.includes(host.toLowerCase());
+  }
+
+  /**
+   * Whether the server runs on another machine, in which case the app
+   * doesn't start, stop or inspect any Ollama process
+   */
+  isRemote(): boolean {
+    return !this.isLocalHost(this.endpoint.host);
+  }
+
   /**
    * Check if an error is retryable
    */
@@ -154,9 +264,9 @@ export class OllamaService {
   }
 
   /**
-   * Build context-aware system prompt
+   * Build context-aware system prompt (shared with the other LLM providers)
    */
-  private buildContextualSystemPrompt(baseSystem: string | undefined, context?: AIContext): string {
+  buildContextualSystemPrompt(baseSystem: string | undefined, context?: AIContext): string {
     if (!context) {
       return baseSystem || '';
     }
@@ -186,10 +296,8 @@ export class OllamaService {
       }
 
       if (content) {
-        // Limit content to first 5000 characters to avoid token limits
-        const truncatedContent =
-          content.length > 5000 ? content.substring(0, 5000) + '...' : content;
-        contextParts.push(`\nPage Content:\n${truncatedContent}`);
+        // Already trimmed to the model's context budget by the renderer
+        contextParts.push(`\nPage Content:\n${content}`);
       }
     }
 
@@ -211,6 +319,17 @@ export class OllamaService {
       contextParts.push(bookmarkItems.join('\n'));
     }
 
+    // Add passages retrieved from bookmarked pages
+    if (context.sources && context.sources.length > 0) {
+      contextParts.push("\n## Sources From the User's Bookmarks");
+      contextParts.push(
+        'Answer from these sources when they are relevant and cite them inline by number, like [1] or [2]. If they do not answer the question, say so.'
+      );
+      for (const source of context.sources) {
+        contextParts.push(`\n[${source.index}] ${source.title} (${source.url})\n${source.text}`);
+      }
+    }
+
     return contextParts.join('\n');
   }
 
@@ -312,6 +431,14 @@ export class OllamaService {
     const isRunning = await this.isRunning();
     console.log('[Ollama] isRunning check:', isRunning);
 
+    // A remote server can't be started from here, only waited for
+    if (this.isRemote()) {
+      if (!isRunning) {
+        throw new Error(`Ollama server at ${this.baseURL} is not reachable`);
+      }
+      return;
+    }
+
     if (isRunning) {
       console.log('[Ollama] Server is already running, not starting new process');
 
@@ -351,6 +478,9 @@ export class OllamaService {
         // Enable GPU acceleration if available
         // Ollama will automatically detect and use CUDA (NVIDIA) or ROCm (AMD) if installed
         // These environment variables ensure optimal GPU usage
+        // Serve on the configured port
+        env.OLLAMA_HOST = `${this.endpoint.host}:${this.endpoint.port}`;
+
         env.OLLAMA_NUM_PARALLEL = '1'; // Number of parallel requests (1 for better single-request performance)
         env.OLLAMA_MAX_LOADED_MODELS = '1'; // Keep only 1 model in memory for better performance
 
@@ -468,6 +598,11 @@ export class OllamaService {
    * Kill any orphan Ollama processes left from previous sessions
    */
   async killOrphanProcesses(): Promise<void> {
+    if (this.isRemote()) {
+      console.log('[Ollama] Remote server configured, skipping orphan process cleanup');
+      return;
+    }
+
     console.log('[Ollama] Checking for orphan Ollama processes...');
 
     if (process.platform === 'win32') {
@@ -573,6 +708,11 @@ export class OllamaService {
    * Stop Ollama server process with force
    */
   async stop(): Promise<void> {
+    if (this.isRemote() && !this.process) {
+      console.log('[Ollama] Remote server configured, nothing to stop');
+      return;
+    }
+
     if (this.isStopping) {
       throw new Error('Ollama is already stopping');
     }
@@ -704,6 +844,11 @@ export class OllamaService {
    * Get process statistics for the Ollama server
    */
   async getProcessStats(): Promise<ProcessStats | null> {
+    // The process of a remote server isn't visible from here
+    if (this.isRemote()) {
+      return null;
+    }
+
     let pid: number | undefined;
 
     // If we have a reference to the process, use its PID
@@ -830,7 +975,11 @@ export class OllamaService {
     if (!isRunning) {
       return {
         isRunning: false,
-        error: 'Ollama service is not running',
+        error: this.isRemote()
+          ? `Ollama server at ${this.baseURL} is not reachable`
+          : 'Ollama service is not running',
+        remote: this.isRemote(),
+        baseURL: this.baseURL,
       };
     }
 
@@ -840,6 +989,8 @@ export class OllamaService {
     return {
       isRunning: true,
       processStats: processStats || undefined,
+      remote: this.isRemote(),
+      baseURL: this.baseURL,
     };
   }
 
@@ -1006,7 +1157,7 @@ export class OllamaService {
           );
 
           const stream = response.data;
-          let buffer = '';
+          const decoder = new JsonStreamDecoder<PullProgress>();
           let lastProgressTime = Date.now();
           const heartbeatTimeout = 120000; // 2 minutes without progress = stalled
 
@@ -1022,31 +1173,21 @@ export class OllamaService {
           try {
             for await (const chunk of stream) {
               lastProgressTime = Date.now(); // Update heartbeat
-              buffer += chunk.toString();
-              const lines = buffer.split('\n');
-              buffer = lines.pop() || '';
-
-              for (const line of lines) {
-                if (line.trim()) {
-                  try {
-                    const progress: PullProgress = JSON.parse(line);
-                    yield progress;
-
-                    // Check if pull is complete
-                    if (progress.status === 'success' || progress.status === 'complete') {
-                      clearInterval(heartbeatInterval);
-                      this.activePulls.delete(modelName);
-                      return;
-                    }
-
-                    // Check for error status
-                    if (progress.status === 'error') {
-                      clearInterval(heartbeatInterval);
-                      throw new Error(progress.error || 'Unknown error during download');
-                    }
-                  } catch (_parseError) {
-                    console.warn('Failed to parse progress line:', line);
-                  }
+
+              for (const progress of decoder.push(chunk)) {
+                yield progress;
+
+                // Check if pull is complete
+                if (progress.status === 'success' || progress.status === 'complete') {
+                  clearInterval(heartbeatInterval);
+                  this.activePulls.delete(modelName);
+                  return;
+                }
+
+                // Check for error status
+                if (progress.status === 'error') {
+                  clearInterval(heartbeatInterval);
+                  throw new Error(progress.error || 'Unknown error during download');
                 }
               }
             }
@@ -1121,13 +1262,14 @@ export class OllamaService {
   }
 
   /**
-   * Cancel the active chat request
+   * Cancel one chat or generate request, or all of them when no ID is given
    */
-  cancelChat(): void {
-    if (this.activeRequest) {
-      console.log('[Ollama] Canceling active chat request');
-      this.activeRequest.destroy();
-      this.activeRequest = null;
+  cancelChat(requestId?: string): void {
+    for (const [id, request] of this.activeRequests) {
+      if (requestId && id !== requestId) continue;
+      console.log(`[Ollama] Canceling request ${id}`);
+      request.destroy();
+      this.activeRequests.delete(id);
     }
   }
 
@@ -1147,6 +1289,80 @@ export class OllamaService {
     }
   }
 
+  /**
+   * Context window a model runs with: num_ctx from its Modelfile if set, otherwise
+   * Ollama's default, capped at the length the model was trained for.
+   * Null when the server can't be asked.
+   */
+  async getContextLength(model: string): Promise<number | null> {
+    if (this.contextLengths.has(model)) {
+      return this.contextLengths.get(model)!;
+    }
+
+    try {
+      const response = await this.client.post<{
+        parameters?: string;
+        model_info?: Record<string, unknown>;
+      }>('/api/show', { model });
+
+      const numCtx = response.data.parameters?.match(/^num_ctx\s+(\d+)/m);
+      const info = response.data.model_info || {};
+      const trainedKey = Object.keys(info).find((key) => key.endsWith('.context_length'));
+      const trained = trainedKey ? Number(info[trainedKey]) || DEFAULT_NUM_CTX : DEFAULT_NUM_CTX;
+      const length = numCtx ? parseInt(numCtx[1], 10) : Math.min(trained, DEFAULT_NUM_CTX);
+
+      this.contextLengths.set(model, length);
+      return length;
+    } catch (error) {
+      console.warn(
+        `[Ollama] Failed to read context length of ${model}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Token counts and speeds from the final message of a response
+   */
+  private async toResponseStats(
+    model: string,
+    data: ChatResponse | GenerateResponse
+  ): Promise<ResponseStats> {
+    const toMs = (ns?: number) => (ns ? ns / 1e6 : undefined);
+    const evalMs = toMs(data.eval_duration);
+
+    return {
+      model,
+      promptTokens: data.prompt_eval_count,
+      completionTokens: data.eval_count,
+      promptEvalMs: toMs(data.prompt_eval_duration),
+      evalMs,
+      loadMs: toMs(data.load_duration),
+      totalMs: toMs(data.total_duration),
+      tokensPerSecond: data.eval_count && evalMs ? data.eval_count / (evalMs / 1000) : undefined,
+      contextLength: (await this.getContextLength(model)) ?? undefined,
+    };
+  }
+
+  /**
+   * Create embedding vectors for one or more inputs with an embedding model
+   */
+  async embed(model: string, input: string | string[]): Promise<number[][]> {
+    await this.ensureRunning();
+
+    try {
+      const response = await this.client.post<{ embeddings: number[][] }>('/api/embed', {
+        model,
+        input,
+      });
+      return response.data.embeddings || [];
+    } catch (error) {
+      console.error('Failed to create embeddings:', error);
+      throw new Error(`Failed to create embeddings with ${model}`);
+    }
+  }
+
   /**
    * Generate text with optional vision input and context awareness
    * Returns an async generator for streaming responses
@@ -1154,6 +1370,8 @@ export class OllamaService {
   async *generate(request: GenerateRequest): AsyncGenerator<string> {
     await this.ensureRunning();
 
+    const requestId = request.requestId || randomUUID();
+
     try {
       // Build contextual system prompt
       const contextualSystem = this.buildContextualSystemPrompt(request.system, request.context);
@@ -1173,30 +1391,30 @@ export class OllamaService {
       });
 
       const stream = response.data;
-      let buffer = '';
-
-      for await (const chunk of stream) {
-        buffer += chunk.toString();
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+      const decoder = new JsonStreamDecoder<GenerateResponse>();
 
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const data: GenerateResponse = JSON.parse(line);
-
-              if (data.response) {
-                yield data.response;
-              }
+      // Store the stream so it can be canceled
+      this.activeRequests.set(requestId, stream);
+      try {
+        for await (const chunk of stream) {
+          for (const data of decoder.push(chunk)) {
+            if (data.response) {
+              yield data.response;
+            }
 
-              if (data.done) {
-                return;
-              }
-            } catch (_e) {
-              console.warn('Failed to parse response line:', line);
+            if (data.done) {
+              return;
             }
           }
         }
+
+        for (const data of decoder.end()) {
+          if (data.response) {
+            yield data.response;
+          }
+        }
+      } finally {
+        this.activeRequests.delete(requestId);
       }
     } catch (error) {
       console.error('Failed to generate:', error);
@@ -1208,13 +1426,11 @@ export class OllamaService {
    * Chat completion with conversation history and context awareness
    * Returns an async generator for streaming responses
    */
-  async *chat(
-    request: ChatRequest
-  ): AsyncGenerator<
-    string | { type: 'tool_calls'; tool_calls: any[] } | { type: 'thinking'; content: string }
-  > {
+  async *chat(request: ChatRequest): AsyncGenerator<ChatStreamChunk> {
     await this.ensureRunning();
 
+    const requestId = request.requestId || randomUUID();
+
     // Track if thinking mode is enabled
     const thinkingEnabled = request.think === true;
 
@@ -1268,11 +1484,12 @@ export class OllamaService {
       const stream = await new Promise<any>((resolve, reject) => {
         const data = JSON.stringify(ollamaRequest);
         const options = {
-          hostname: 'localhost',
-          port: 11434,
+          hostname: this.endpoint.host.replace(/^\[|\]$/g, ''), // No brackets around IPv6
+          port: this.endpoint.port,
           path: '/api/chat',
           method: 'POST',
           headers: {
+            ...this.getAuthHeaders(),
             'Content-Type': 'application/json',
             'Content-Length': Buffer.byteLength(data),
             Connection: 'keep-alive', // Keep connection alive for streaming
@@ -1282,7 +1499,8 @@ export class OllamaService {
           timeout: requestTimeout,
         };
 
-        const req = http.request(options, (res) => {
+        const client = this.endpoint.useTls ? https : http;
+        const req = client.request(options, (res) => {
           console.log('[Ollama] Got response:', res.statusCode, res.statusMessage);
 
           // Handle non-200 responses
@@ -1290,7 +1508,7 @@ export class OllamaService {
             let errorBody = '';
             res.on('data', (chunk) => (errorBody += chunk));
             res.on('end', () => {
-              this.activeRequest = null;
+              this.activeRequests.delete(requestId);
               reject(new Error(`HTTP ${res.statusCode}: ${errorBody}`));
             });
             return;
@@ -1301,35 +1519,28 @@ export class OllamaService {
 
         req.on('error', (error) => {
           console.error('[Ollama] Request error:', error);
-          this.activeRequest = null;
+          this.activeRequests.delete(requestId);
           reject(error);
         });
 
         req.on('timeout', () => {
           console.error('[Ollama] Request timeout');
           req.destroy();
-          this.activeRequest = null;
+          this.activeRequests.delete(requestId);
           reject(new Error('Request timeout'));
         });
 
         // Store the request so it can be canceled
-        this.activeRequest = req;
+        this.activeRequests.set(requestId, req);
 
         req.write(data);
         req.end();
       });
 
-      // Determine parsing strategy based on model
-      const modelName = request.model.toLowerCase();
-      const useAggressiveParsing = modelName.includes('qwen');
-
-      let buffer = '';
+      const decoder = new JsonStreamDecoder<ChatResponse>();
       let chunkCount = 0;
       let tokenCount = 0;
 
-      console.log(
-        `[Ollama] Using ${useAggressiveParsing ? 'aggressive' : 'standard'} parsing for model: ${request.model}`
-      );
       console.log('[Ollama] Waiting for stream data...');
 
       const streamStartTime = Date.now();
@@ -1345,215 +1556,63 @@ export class OllamaService {
           console.log(`[Ollama] First chunk received after ${waitTime}ms`);
         }
 
-        const chunkStr = chunk.toString();
-        buffer += chunkStr;
-
         // Log periodically to show stream is alive
         if (chunkCount % 100 === 0) {
-          console.log(
-            `[Ollama] Received ${chunkCount} chunks, ${tokenCount} tokens, buffer size: ${buffer.length}`
-          );
-          // Debug: Show buffer content if no tokens are being extracted
-          if (tokenCount === 0 && chunkCount >= 100) {
-            console.log('[Ollama] DEBUG - Buffer sample:', buffer.substring(0, 200));
-          }
+          console.log(`[Ollama] Received ${chunkCount} chunks, ${tokenCount} tokens`);
         }
 
-        // Aggressive parsing for models that concatenate JSON without newlines (e.g., Qwen)
-        if (useAggressiveParsing) {
-          let processedSomething = true;
-          while (processedSomething && buffer.length > 0) {
-            processedSomething = false;
-
-            // Strategy 1: Try to parse buffer as complete JSON (for small chunks)
-            if (
-              buffer.length < 500 &&
-              buffer.trim().startsWith('{') &&
-              buffer.trim().endsWith('}')
-            ) {
-              try {
-                const data = JSON.parse(buffer);
-                processedSomething = true;
-                buffer = '';
-
-                if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
-                  yield { type: 'tool_calls', tool_calls: data.message.tool_calls };
-                }
-
-                // Qwen sends 'thinking' field (internal reasoning) - only yield if thinking mode is enabled
-                if (data.message?.thinking && thinkingEnabled) {
-                  yield { type: 'thinking', content: data.message.thinking };
-                }
-
-                if (data.message?.content) {
-                  tokenCount++;
-                  yield data.message.content;
-                }
-
-                if (data.done) {
-                  console.log(
-                    `[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}`
-                  );
-                  this.activeRequest = null;
-                  return;
-                }
-                continue; // Skip other strategies if this worked
-              } catch (_e) {
-                // Not valid JSON yet, try other strategies
-              }
-            }
-
-            // Strategy 2: Try to find concatenated JSON objects (}{)
-            if (buffer.includes('}{')) {
-              const parts = buffer.split(/(?<=\})(?=\{)/);
-              if (parts.length > 1) {
-                buffer = parts.pop() || '';
-
-                for (const part of parts) {
-                  if (part.trim()) {
-                    try {
-                      const data = JSON.parse(part);
-                      processedSomething = true;
-
-                      if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
-                        yield { type: 'tool_calls', tool_calls: data.message.tool_calls };
-                      }
-
-                      // Yield thinking separately from content - only if thinking mode is enabled
-                      if (data.message?.thinking && thinkingEnabled) {
-                        yield { type: 'thinking', content: data.message.thinking };
-                      }
-
-                      if (data.message?.content) {
-                        tokenCount++;
-                        yield data.message.content;
-                      }
-
-                      if (data.done) {
-                        console.log(
-                          `[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}`
-                        );
-                        this.activeRequest = null;
-                        return;
-                      }
-                    } catch (_e) {
-                      // Invalid JSON, skip
-                    }
-                  }
-                }
-              }
-            }
-
-            // Strategy 3: Line-based parsing (in case format changes)
-            if (buffer.includes('\n')) {
-              const lines = buffer.split('\n');
-              buffer = lines.pop() || '';
-
-              for (const line of lines) {
-                if (line.trim()) {
-                  try {
-                    const data = JSON.parse(line);
-                    processedSomething = true;
-
-                    if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
-                      yield { type: 'tool_calls', tool_calls: data.message.tool_calls };
-                    }
-
-                    // Yield thinking separately from content - only if thinking mode is enabled
-                    if (data.message?.thinking && thinkingEnabled) {
-                      yield { type: 'thinking', content: data.message.thinking };
-                    }
-
-                    if (data.message?.content) {
-                      tokenCount++;
-                      yield data.message.content;
-                    }
-
-                    if (data.done) {
-                      console.log(
-                        `[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}`
-                      );
-                      this.activeRequest = null;
-                      return;
-                    }
-                  } catch (_e) {
-                    // Invalid JSON, skip
-                  }
-                }
-              }
-            }
-          }
-        } else {
-          // Standard line-based parsing for most models (LLaMA, Mistral, etc.)
-          if (buffer.includes('\n')) {
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-              if (line.trim()) {
-                try {
-                  const data = JSON.parse(line);
-
-                  if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
-                    yield { type: 'tool_calls', tool_calls: data.message.tool_calls };
-                  }
-
-                  // Yield thinking separately from content - only if thinking mode is enabled
-                  if (data.message?.thinking && thinkingEnabled) {
-                    yield { type: 'thinking', content: data.message.thinking };
-                  }
-
-                  if (data.message?.content) {
-                    tokenCount++;
-                    yield data.message.content;
-                  }
-
-                  if (data.done) {
-                    console.log(
-                      `[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}`
-                    );
-                    this.activeRequest = null;
-                    return;
-                  }
-                } catch (_e) {
-                  console.warn('[Ollama] Failed to parse line:', line.substring(0, 50));
-                }
-              }
-            }
-          }
-        }
-      }
-
-      // Process any remaining buffer
-      if (buffer.trim()) {
-        try {
-          const data = JSON.parse(buffer);
-          if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
-            yield { type: 'tool_calls', tool_calls: data.message.tool_calls };
-          }
-          // Yield thinking separately from content
-          if (data.message?.thinking) {
-            yield { type: 'thinking', content: data.message.thinking };
-          }
-
+        for (const data of decoder.push(chunk)) {
           if (data.message?.content) {
             tokenCount++;
-            yield data.message.content;
           }
+          yield* this.toChatChunks(data, thinkingEnabled);
+
           if (data.done) {
-            console.log(`[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}`);
-            this.activeRequest = null;
+            const stats = await this.toResponseStats(request.model, data);
+            console.log(
+              `[Ollama] Stream completed. Chunks: ${chunkCount}, Tokens: ${tokenCount}, ` +
+                `${stats.tokensPerSecond?.toFixed(1) ?? '?'} tokens/s`
+            );
+            this.activeRequests.delete(requestId);
+            yield { type: 'stats', stats };
+            return;
           }
-        } catch (_e) {
-          // Ignore parse errors for final buffer
         }
       }
+
+      // The server closed the stream without a final "done" message
+      for (const data of decoder.end()) {
+        yield* this.toChatChunks(data, thinkingEnabled);
+      }
+      this.activeRequests.delete(requestId);
     } catch (error) {
       console.error('Failed to chat:', error);
-      this.activeRequest = null;
+      this.activeRequests.delete(requestId);
       throw new Error('Failed to chat with Ollama');
     }
   }
+
+  /**
+   * Turn one streamed /api/chat message into tool calls, thinking and content chunks
+   */
+  private toChatChunks(data: ChatResponse, thinkingEnabled: boolean): ChatStreamChunk[] {
+    const chunks: ChatStreamChunk[] = [];
+
+    if (data.message?.tool_calls && data.message.tool_calls.length > 0) {
+      chunks.push({ type: 'tool_calls', tool_calls: data.message.tool_calls });
+    }
+
+    // Yield thinking separately from content - only if thinking mode is enabled
+    if (data.message?.thinking && thinkingEnabled) {
+      chunks.push({ type: 'thinking', content: data.message.thinking });
+    }
+
+    if (data.message?.content) {
+      chunks.push(data.message.content);
+    }
+
+    return chunks;
+  }
 }
 
 // Export singleton instance
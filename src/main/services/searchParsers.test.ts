@@ -0,0 +1,110 @@
+import { readFileSync } from 'node:fs';
+import { JSDOM } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { parseSearchResults } from './searchParsers';
+
+// Trimmed copies of real results pages, saved from each engine
+const loadFixture = (name: string) => {
+  const html = readFileSync(new URL(`./__fixtures__/serp/${name}.html`, import.meta.url), 'utf-8');
+  return new JSDOM(html).window.document;
+};
+
+describe('parseSearchResults', () => {
+  it('parses DuckDuckGo, unwrapping redirect links and skipping ads', () => {
+    const { parser, results } = parseSearchResults(
+      loadFixture('duckduckgo'),
+      'https://html.duckduckgo.com/html/?q=typescript+handbook'
+    );
+
+    expect(parser).toBe('duckduckgo');
+    expect(results).toEqual([
+      {
+        title: 'TypeScript: Handbook - The TypeScript Handbook',
+        url: 'https://www.typescriptlang.org/docs/handbook/intro.html',
+        snippet:
+          'The TypeScript Handbook is intended to be a comprehensive document that explains TypeScript to everyday programmers.',
+      },
+      {
+        title: 'GitHub - microsoft/TypeScript',
+        url: 'https://github.com/microsoft/TypeScript',
+        snippet: 'TypeScript is a superset of JavaScript that compiles to clean JavaScript output.',
+      },
+    ]);
+  });
+
+  it('parses Bing, decoding tracking links and skipping ads', () => {
+    const { parser, results } = parseSearchResults(
+      loadFixture('bing'),
+      'https://www.bing.com/search?q=typescript+handbook'
+    );
+
+    expect(parser).toBe('bing');
+    expect(results).toEqual([
+      {
+        title: 'TypeScript: Documentation',
+        url: 'https://www.typescriptlang.org/docs/',
+        snippet:
+          'Jun 3, 2025 · Find TypeScript starter projects: from Angular to React or Node.js and CLIs.',
+      },
+      {
+        title: 'TypeScript - Wikipedia',
+        url: 'https://en.wikipedia.org/wiki/TypeScript',
+        snippet:
+          'TypeScript is a free and open-source high-level programming language developed by Microsoft.',
+      },
+    ]);
+  });
+
+  it('parses Google, following /url?q= links and ignoring links back to Google', () => {
+    const { parser, results } = parseSearchResults(
+      loadFixture('google'),
+      'https://www.google.com/search?q=typescript+handbook'
+    );
+
+    expect(parser).toBe('google');
+    expect(results).toEqual([
+      {
+        title: 'The TypeScript Handbook',
+        url: 'https://www.typescriptlang.org/docs/handbook/intro.html',
+        snippet:
+          'The TypeScript Handbook is intended to be a comprehensive document that explains TypeScript to everyday programmers.',
+      },
+      {
+        title: 'GitHub - microsoft/TypeScript',
+        url: 'https://github.com/microsoft/TypeScript',
+        snippet: 'TypeScript is a superset of JavaScript that compiles to clean JavaScript output.',
+      },
+    ]);
+  });
+
+  it('detects SearXNG on any host and drops non-web links', () => {
+    const { parser, results } = parseSearchResults(
+      loadFixture('searxng'),
+      'https://searx.example.org/search?q=typescript+handbook'
+    );
+
+    expect(parser).toBe('searxng');
+    expect(results).toEqual([
+      {
+        title: 'TypeScript: Handbook - The TypeScript Handbook',
+        url: 'https://www.typescriptlang.org/docs/handbook/intro.html',
+        snippet: 'The TypeScript Handbook is intended to be a comprehensive document.',
+      },
+      {
+        title: 'GitHub - microsoft/TypeScript',
+        url: 'https://github.com/microsoft/TypeScript',
+        snippet: 'TypeScript is a superset of JavaScript that compiles to clean JavaScript output.',
+      },
+    ]);
+  });
+
+  it('stops at the limit', () => {
+    const { results } = parseSearchResults(
+      loadFixture('duckduckgo'),
+      'https://html.duckduckgo.com/html/?q=typescript+handbook',
+      1
+    );
+
+    expect(results).toHaveLength(1);
+  });
+});
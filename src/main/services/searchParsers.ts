@@ -0,0 +1,248 @@
+import type { JSDOM } from 'jsdom';
+import type { WebSearchResult } from '../../shared/types';
+
+// Results pages are parsed with JSDOM in the main process
+type SearchDocument = JSDOM['window']['document'];
+
+/**
+ * Search result page parsers
+ * Each parser turns a rendered results page (as a DOM document) into structured results.
+ * They only depend on the DOM, so they can run against saved HTML loaded into JSDOM.
+ */
+export interface SearchResultParser {
+  id: string;
+  name: string;
+  /**
+   * Whether this parser understands the given results page
+   */
+  matches(pageUrl: URL, document: SearchDocument): boolean;
+  parse(document: SearchDocument, pageUrl: URL): WebSearchResult[];
+}
+
+const cleanText = (text: string | null | undefined): string =>
+  (text || '').replace(/\s+/g, ' ').trim();
+
+// Resolve relative links and keep only http(s) results
+const toAbsoluteUrl = (href: string | null, pageUrl: URL): string | null => {
+  if (!href) return null;
+  try {
+    const url = new URL(href, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Drop duplicates and results that point back at the engine itself
+const dedupe = (results: WebSearchResult[], pageUrl: URL): WebSearchResult[] => {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    if (!result.title || seen.has(result.url)) return false;
+    if (new URL(result.url).hostname === pageUrl.hostname) return false;
+    seen.add(result.url);
+    return true;
+  });
+};
+
+/**
+ * DuckDuckGo, both the HTML endpoint (html.duckduckgo.com) and the script-rendered page
+ */
+export const duckDuckGoParser: SearchResultParser = {
+  id: 'duckduckgo',
+  name: 'DuckDuckGo',
+  matches: (pageUrl) => /(^|\.)duckduckgo\.com$/.test(pageUrl.hostname),
+  parse: (document, pageUrl) => {
+    const results: WebSearchResult[] = [];
+
+    document.querySelectorAll('.result, article[data-testid="result"]').forEach((element) => {
+      if (element.classList.contains('result--ad')) return;
+
+      const link = element.querySelector('a.result__a, a[data-testid="result-title-a"]');
+      let url = toAbsoluteUrl(link?.getAttribute('href') ?? null, pageUrl);
+      if (!link || !url) return;
+
+      // Links go through a redirect: //duckduckgo.com/l/?uddg=<encoded target>
+      const target = new URL(url).searchParams.get('uddg');
+      if (target) {
+        url = toAbsoluteUrl(target, pageUrl);
+        if (!url) return;
+      }
+
+      results.push({
+        title: cleanText(link.textContent),
+        url,
+        snippet: cleanText(
+          element.querySelector('.result__snippet, [data-result="snippet"]')?.textContent
+        ),
+      });
+    });
+
+    return dedupe(results, pageUrl);
+  },
+};
+
+/**
+ * Bing web results
+ */
+export const bingParser: SearchResultParser = {
+  id: 'bing',
+  name: 'Bing',
+  matches: (pageUrl) => /(^|\.)bing\.com$/.test(pageUrl.hostname),
+  parse: (document, pageUrl) => {
+    const results: WebSearchResult[] = [];
+
+    document.querySelectorAll('#b_results > li.b_algo').forEach((element) => {
+      const link = element.querySelector('h2 a');
+      let url = toAbsoluteUrl(link?.getAttribute('href') ?? null, pageUrl);
+      if (!link || !url) return;
+
+      // Tracking links carry the target as base64 in the "u" parameter, prefixed with "a1"
+      const parsed = new URL(url);
+      const encoded = parsed.searchParams.get('u');
+      if (parsed.hostname.endsWith('bing.com') && encoded?.startsWith('a1')) {
+        try {
+          const base64 = encoded.slice(2).replace(/-/g, '+').replace(/_/g, '/');
+          url = toAbsoluteUrl(Buffer.from(base64, 'base64').toString('utf-8'), pageUrl);
+        } catch {
+          url = null;
+        }
+        if (!url) return;
+      }
+
+      results.push({
+        title: cleanText(link.textContent),
+        url,
+        snippet: cleanText(
+          element.querySelector('.b_caption p, .b_lineclamp2, .b_lineclamp3, .b_lineclamp4')
+            ?.textContent
+        ),
+      });
+    });
+
+    return dedupe(results, pageUrl);
+  },
+};
+
+/**
+ * Google web results. Class names change often, so this keys off the stable
+ * structure: a result is a link wrapping an <h3> title.
+ */
+export const googleParser: SearchResultParser = {
+  id: 'google',
+  name: 'Google',
+  matches: (pageUrl) => /(^|\.)google\.[a-z.]+$/.test(pageUrl.hostname),
+  parse: (document, pageUrl) => {
+    const results: WebSearchResult[] = [];
+    const root = document.querySelector('#search') || document.body;
+
+    root?.querySelectorAll('a h3').forEach((heading) => {
+      const link = heading.closest('a');
+      let url = toAbsoluteUrl(link?.getAttribute('href') ?? null, pageUrl);
+      if (!url) return;
+
+      // Non-JS result pages link through /url?q=<target>
+      const parsed = new URL(url);
+      if (parsed.hostname === pageUrl.hostname && parsed.pathname === '/url') {
+        url = toAbsoluteUrl(
+          parsed.searchParams.get('q') || parsed.searchParams.get('url'),
+          pageUrl
+        );
+        if (!url) return;
+      }
+
+      // The snippet lives in the closest result container, next to the title link
+      const container = heading.closest('div.g, div[data-hveid], div[data-sokoban-container]');
+      const snippet = container?.querySelector(
+        '.VwiC3b, [data-sncf], [style*="-webkit-line-clamp"]'
+      );
+
+      results.push({
+        title: cleanText(heading.textContent),
+        url,
+        snippet: cleanText(snippet?.textContent),
+      });
+    });
+
+    return dedupe(results, pageUrl);
+  },
+};
+
+/**
+ * SearXNG instances. They are self-hosted on any domain, so detection uses the
+ * generator meta tag instead of the hostname.
+ */
+export const searxngParser: SearchResultParser = {
+  id: 'searxng',
+  name: 'SearXNG',
+  matches: (_pageUrl, document) =>
+    !!document.querySelector('meta[name="generator"][content^="searxng" i]') ||
+    !!document.querySelector('#urls article.result'),
+  parse: (document, pageUrl) => {
+    const results: WebSearchResult[] = [];
+
+    document.querySelectorAll('article.result').forEach((element) => {
+      const link = element.querySelector('h3 a, a.url_header, a.url_wrapper');
+      const url = toAbsoluteUrl(link?.getAttribute('href') ?? null, pageUrl);
+      if (!link || !url) return;
+
+      results.push({
+        title: cleanText(element.querySelector('h3')?.textContent || link.textContent),
+        url,
+        snippet: cleanText(element.querySelector('p.content')?.textContent),
+      });
+    });
+
+    return dedupe(results, pageUrl);
+  },
+};
+
+/**
+ * Last resort for unknown engines: treat links inside headings as results
+ */
+export const genericParser: SearchResultParser = {
+  id: 'generic',
+  name: 'Generic',
+  matches: () => true,
+  parse: (document, pageUrl) => {
+    const results: WebSearchResult[] = [];
+
+    document.querySelectorAll('h2 a[href], h3 a[href], a[href] h2, a[href] h3').forEach((node) => {
+      const link = node.tagName === 'A' ? node : node.closest('a');
+      const url = toAbsoluteUrl(link?.getAttribute('href') ?? null, pageUrl);
+      if (!link || !url) return;
+
+      const container = link.closest('li, article, div');
+      const title = cleanText(node.textContent);
+      const snippet = cleanText(container?.querySelector('p')?.textContent);
+
+      results.push({ title, url, snippet: snippet === title ? '' : snippet });
+    });
+
+    return dedupe(results, pageUrl);
+  },
+};
+
+/**
+ * Registered parsers, tried in order. The generic parser always matches, so keep it last.
+ */
+export const SEARCH_RESULT_PARSERS: SearchResultParser[] = [
+  duckDuckGoParser,
+  bingParser,
+  googleParser,
+  searxngParser,
+  genericParser,
+];
+
+/**
+ * Parse a search results page with the first parser that understands it
+ */
+export function parseSearchResults(
+  document: SearchDocument,
+  pageUrl: string,
+  limit = 10
+): { parser: string; results: WebSearchResult[] } {
+  const url = new URL(pageUrl);
+  const parser = SEARCH_RESULT_PARSERS.find((p) => p.matches(url, document)) || genericParser;
+
+  return { parser: parser.id, results: parser.parse(document, url).slice(0, limit) };
+}
@@ -0,0 +1,241 @@
+import { BrowserWindow, Session, WebContents } from 'electron';
+import { randomUUID } from 'crypto';
+import { tabWindowManager } from './tabWindowManager';
+import type {
+  SitePermissionDecision,
+  SitePermissionPrompt,
+  SitePermissionType,
+} from '../../shared/types';
+
+// Electron permissions the user is asked about, by the setting they are saved under.
+// 'media' is split into camera and microphone by the requested media types.
+const PROMPTED_PERMISSIONS: Record<string, SitePermissionType> = {
+  geolocation: 'geolocation',
+  notifications: 'notifications',
+  midi: 'midi',
+  midiSysex: 'midi',
+  'clipboard-read': 'clipboard-read',
+  'display-capture': 'display-capture',
+  'idle-detection': 'idle-detection',
+  'window-management': 'window-management',
+  openExternal: 'open-external',
+};
+
+// Harmless permissions every site gets without asking. File system access
+// only covers files the user picked in a native dialog.
+const ALWAYS_ALLOWED = [
+  'fullscreen',
+  'pointerLock',
+  'keyboardLock',
+  'clipboard-sanitized-write',
+  'mediaKeySystem',
+  'fileSystem',
+];
+
+interface PendingPrompt extends SitePermissionPrompt {
+  webContents: WebContents;
+  isPrivate: boolean; // Answers are kept in memory only
+  callbacks: Array<(granted: boolean) => void>;
+  detach: () => void;
+}
+
+/**
+ * SitePermissionService
+ * Asks the user before a site gets camera, microphone, location and other
+ * sensitive capabilities, and remembers the answer per origin.
+ * Anything not asked about and not harmless is denied.
+ */
+class SitePermissionService {
+  private mainWindow: BrowserWindow | null = null;
+  private pending = new Map<string, PendingPrompt>();
+
+  /**
+   * Set the window prompts are shown in
+   */
+  initialize(mainWindow: BrowserWindow) {
+    this.mainWindow = mainWindow;
+  }
+
+  /**
+   * Enforce the saved decisions for a session, for both permission requests
+   * and the permission checks pages make (e.g. Notification.permission)
+   */
+  attachToSession(session: Session) {
+    const isPrivate = tabWindowManager.isPrivateSession(session);
+
+    session.setPermissionRequestHandler((webContents, permission, callback, details) => {
+      if (ALWAYS_ALLOWED.includes(permission)) {
+        callback(true);
+        return;
+      }
+
+      const types = this.toPermissionTypes(
+        permission,
+        'mediaTypes' in details ? details.mediaTypes : undefined
+      );
+      const origin = this.getOrigin(details.requestingUrl || webContents.getURL());
+      if (types.length === 0 || !origin) {
+        console.log(`[Permissions] Denied ${permission} for ${origin || 'unknown origin'}`);
+        callback(false);
+        return;
+      }
+
+      const decisions = types.map((type) =>
+        tabWindowManager.getSitePermission(origin, type, isPrivate)
+      );
+      if (decisions.includes('block')) {
+        callback(false);
+        return;
+      }
+      if (decisions.every((decision) => decision === 'allow')) {
+        callback(true);
+        return;
+      }
+
+      // Only tabs can show a prompt; other web contents get nothing they weren't given
+      const tabId = tabWindowManager.getTabIdByWebContents(webContents);
+      if (!tabId) {
+        callback(false);
+        return;
+      }
+
+      const undecided = types.filter((_type, i) => decisions[i] === null);
+      this.prompt(webContents, tabId, origin, undecided, isPrivate, callback);
+    });
+
+    session.setPermissionCheckHandler((_webContents, permission, requestingOrigin, details) => {
+      if (ALWAYS_ALLOWED.includes(permission)) return true;
+
+      const mediaType = details.mediaType;
+      const types = this.toPermissionTypes(
+        permission,
+        mediaType && mediaType !== 'unknown' ? [mediaType] : undefined
+      );
+      const origin = this.getOrigin(requestingOrigin);
+      if (types.length === 0 || !origin) return false;
+
+      return types.every(
+        (type) => tabWindowManager.getSitePermission(origin, type, isPrivate) === 'allow'
+      );
+    });
+  }
+
+  /**
+   * Prompts still waiting for an answer
+   */
+  getPending(): SitePermissionPrompt[] {
+    return Array.from(this.pending.values()).map((prompt) => this.toPrompt(prompt));
+  }
+
+  /**
+   * Answer a prompt. Allow and block are saved for the origin (in private tabs,
+   * only until the private session ends); dismiss denies this request only, so
+   * the site can ask again later.
+   */
+  respond(promptId: string, decision: SitePermissionDecision | 'dismiss') {
+    const prompt = this.pending.get(promptId);
+    if (!prompt) {
+      throw new Error('Permission request not found');
+    }
+
+    if (decision !== 'dismiss') {
+      for (const permission of prompt.permissions) {
+        tabWindowManager.setSitePermission(prompt.origin, permission, decision, prompt.isPrivate);
+      }
+    }
+    console.log(`[Permissions] ${prompt.origin}: ${prompt.permissions.join(', ')} -> ${decision}`);
+    this.resolve(prompt, decision === 'allow');
+  }
+
+  private prompt(
+    webContents: WebContents,
+    tabId: string,
+    origin: string,
+    permissions: SitePermissionType[],
+    isPrivate: boolean,
+    callback: (granted: boolean) => void
+  ) {
+    // The same request made again while the prompt is open shares its answer
+    const key = permissions.join(',');
+    for (const prompt of this.pending.values()) {
+      if (
+        prompt.webContents === webContents &&
+        prompt.origin === origin &&
+        prompt.permissions.join(',') === key
+      ) {
+        prompt.callbacks.push(callback);
+        return;
+      }
+    }
+
+    const id = randomUUID();
+    // A prompt doesn't outlive the page that asked
+    const cancel = () => {
+      const prompt = this.pending.get(id);
+      if (prompt) this.resolve(prompt, false);
+    };
+    webContents.once('destroyed', cancel);
+    webContents.once('did-navigate', cancel);
+
+    const prompt: PendingPrompt = {
+      id,
+      tabId,
+      origin,
+      permissions,
+      webContents,
+      isPrivate,
+      callbacks: [callback],
+      detach: () => {
+        webContents.removeListener('destroyed', cancel);
+        webContents.removeListener('did-navigate', cancel);
+      },
+    };
+    this.pending.set(id, prompt);
+
+    this.notifyMainWindow('sitePermissions:prompt', this.toPrompt(prompt));
+  }
+
+  private resolve(prompt: PendingPrompt, granted: boolean) {
+    this.pending.delete(prompt.id);
+    if (!prompt.webContents.isDestroyed()) {
+      prompt.detach();
+    }
+    prompt.callbacks.forEach((callback) => callback(granted));
+    this.notifyMainWindow('sitePermissions:promptClosed', { id: prompt.id });
+  }
+
+  private toPrompt({ id, tabId, origin, permissions }: PendingPrompt): SitePermissionPrompt {
+    return { id, tabId, origin, permissions };
+  }
+
+  private toPermissionTypes(permission: string, mediaTypes?: string[]): SitePermissionType[] {
+    if (permission === 'media') {
+      // Without media types the page asked about devices in general
+      const types = mediaTypes?.length ? mediaTypes : ['video', 'audio'];
+      return [
+        ...(types.includes('video') ? ['camera' as const] : []),
+        ...(types.includes('audio') ? ['microphone' as const] : []),
+      ];
+    }
+    const type = PROMPTED_PERMISSIONS[permission];
+    return type ? [type] : [];
+  }
+
+  private getOrigin(url: string): string | null {
+    try {
+      const { origin, protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:' ? origin : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private notifyMainWindow(channel: string, data: unknown) {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send(channel, data);
+    }
+  }
+}
+
+// Export singleton instance
+export const sitePermissionService = new SitePermissionService();
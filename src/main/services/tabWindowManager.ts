@@ -1,12 +1,26 @@
-import { BrowserWindow, WebContents, WebContentsView } from 'electron';
+import { BrowserWindow, Session, WebContents, WebContentsView, session } from 'electron';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { databaseService } from './database';
+import { historyIndexService } from './historyIndex';
+import { containerService } from './containers';
+import type { SitePermissionDecision, SitePermissionType } from '../../shared/types';
 
 // Polyfill __dirname for ESM
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// A pop-up opened within this long after a click or key press counts as
+// user-initiated (Chromium's transient activation lasts as long)
+const USER_ACTIVATION_MS = 5000;
+
+// Input that gives the page a user activation
+const ACTIVATION_INPUTS = new Set(['mouseDown', 'rawKeyDown', 'keyDown', 'touchStart']);
+
+// Private tabs share an in-memory session (no "persist:" prefix), so nothing
+// they store reaches the disk
+export const PRIVATE_PARTITION = 'private';
+
 export interface TabWindow {
   id: string;
   view: WebContentsView | null; // Null until URL is loaded
@@ -14,6 +28,13 @@ export interface TabWindow {
   title: string;
   favicon: string;
   isActive: boolean;
+  isPrivate: boolean;
+  containerId: number | null; // Containers are ignored for private tabs
+}
+
+export interface CreateTabOptions {
+  isPrivate?: boolean;
+  containerId?: number;
 }
 
 /**
@@ -26,6 +47,9 @@ class TabWindowManager {
   private tabWindows: Map<string, TabWindow> = new Map();
   private mainWindow: BrowserWindow | null = null;
   private activeTabId: string | null = null;
+  // Site decisions made in private tabs, by "origin permission". Never saved,
+  // and forgotten with the rest of the private data
+  private privateSitePermissions = new Map<string, SitePermissionDecision>();
 
   /**
    * Initialize the manager with the main window reference
@@ -50,12 +74,21 @@ class TabWindowManager {
   /**
    * Create a new tab view
    */
-  createTab(tabId: string, url: string): TabWindow {
+  createTab(tabId: string, url: string, options: CreateTabOptions = {}): TabWindow {
     if (!this.mainWindow) {
       throw new Error('TabWindowManager not initialized with main window');
     }
 
-    console.log(`[TabWindowManager] Creating tab view for tab: ${tabId}, URL: ${url}`);
+    const isPrivate = options.isPrivate ?? false;
+    // A container deleted since the tab was saved falls back to the default session
+    const containerSession =
+      !isPrivate && options.containerId !== undefined
+        ? containerService.getSession(options.containerId)
+        : null;
+
+    console.log(
+      `[TabWindowManager] Creating ${isPrivate ? 'private ' : ''}tab view for tab: ${tabId}, URL: ${url}`
+    );
 
     // Create a new WebContentsView for this tab
     const tabView = new WebContentsView({
@@ -66,6 +99,8 @@ class TabWindowManager {
         sandbox: true, // Full sandbox for security
         webSecurity: true,
         allowRunningInsecureContent: false,
+        partition: isPrivate ? PRIVATE_PARTITION : undefined,
+        session: containerSession ?? undefined,
       },
     });
 
@@ -76,6 +111,8 @@ class TabWindowManager {
       title: '',
       favicon: '',
       isActive: false,
+      isPrivate,
+      containerId: containerSession ? (options.containerId ?? null) : null,
     };
 
     this.tabWindows.set(tabId, tab);
@@ -133,6 +170,19 @@ class TabWindowManager {
     }
   }
 
+  /**
+   * Decide whether a pop-up opens as a new tab. Sites the user allowed always
+   * may, blocked sites never may, and other sites only after a click
+   */
+  private shouldOpenPopup(openerUrl: string, userGesture: boolean, isPrivate: boolean): boolean {
+    const origin = this.getOrigin(openerUrl);
+    const decision = origin ? this.getSitePermission(origin, 'popups', isPrivate) : null;
+
+    if (decision === 'allow') return true;
+    if (decision === 'block') return false;
+    return userGesture;
+  }
+
   /**
    * Setup event listeners for a tab view
    */
@@ -203,10 +253,41 @@ class TabWindowManager {
       });
     });
 
+    // Record the visit once the page has loaded (title and content are available).
+    // Private tabs leave no history.
+    webContents.on('did-finish-load', () => {
+      if (!tab.isPrivate) {
+        historyIndexService.recordVisit(webContents);
+      }
+    });
+
+    // Remember the last user input so pop-ups can be told apart from page scripts
+    let lastActivation = 0;
+    webContents.on('input-event', (_event, input) => {
+      if (ACTIVATION_INPUTS.has(input.type)) {
+        lastActivation = Date.now();
+      }
+    });
+
     // New window handling (popups, target="_blank")
     webContents.setWindowOpenHandler(({ url }) => {
-      // Create a new tab for the new window
-      this.notifyMainWindow('tab-request-new', { url });
+      const userGesture = Date.now() - lastActivation < USER_ACTIVATION_MS;
+
+      if (this.shouldOpenPopup(webContents.getURL(), userGesture, tab.isPrivate)) {
+        // One pop-up per click, like Chromium consuming the activation
+        lastActivation = 0;
+        // Create a new tab for the new window, in the same session as the opener
+        this.requestNewTab(url, {
+          isPrivate: tab.isPrivate,
+          containerId: tab.containerId ?? undefined,
+        });
+      } else {
+        console.log(`[TabWindowManager] Blocked pop-up in tab ${tab.id}: ${url}`);
+        this.notifyMainWindow('tab-popup-blocked', {
+          tabId: tab.id,
+          url,
+        });
+      }
       return { action: 'deny' }; // Deny the default popup, we'll handle it
     });
 
@@ -411,6 +492,14 @@ class TabWindowManager {
     this.mainWindow.contentView.removeChildView(tab.view);
     this.tabWindows.delete(tabId);
 
+    // Wipe the private session once its last tab is gone
+    if (tab.isPrivate) {
+      tab.view?.webContents.close();
+      if (!this.getAllTabs().some((t) => t.isPrivate)) {
+        this.clearPrivateData();
+      }
+    }
+
     // If this was the active tab, activate another one
     if (wasActive && this.tabWindows.size > 0) {
       const nextTab = Array.from(this.tabWindows.values())[0];
@@ -433,6 +522,22 @@ class TabWindowManager {
     });
   }
 
+  /**
+   * Ask the renderer to open a URL in a new tab (it owns the tab list)
+   */
+  requestNewTab(url: string, options: CreateTabOptions = {}) {
+    this.notifyMainWindow('tab-request-new', { url, ...options });
+  }
+
+  /**
+   * Activate a tab on behalf of the main process (e.g. AI tools) and tell the
+   * renderer so its tab strip follows
+   */
+  activateTab(tabId: string) {
+    this.setActiveTab(tabId);
+    this.notifyMainWindow('tab-request-activate', { tabId });
+  }
+
   /**
    * Browser controls for active tab
    */
@@ -479,6 +584,16 @@ class TabWindowManager {
     return this.tabWindows.get(tabId) || null;
   }
 
+  /**
+   * Find the tab a WebContents belongs to (null for anything that isn't a tab)
+   */
+  getTabIdByWebContents(webContents: WebContents): string | null {
+    for (const tab of this.tabWindows.values()) {
+      if (tab.view?.webContents === webContents) return tab.id;
+    }
+    return null;
+  }
+
   /**
    * Get all tabs
    */
@@ -486,6 +601,55 @@ class TabWindowManager {
     return Array.from(this.tabWindows.values());
   }
 
+  /**
+   * Whether a tab uses the private session (unknown tabs count as not private)
+   */
+  isPrivateTab(tabId: string): boolean {
+    return this.tabWindows.get(tabId)?.isPrivate ?? false;
+  }
+
+  /**
+   * Whether a session is the one private tabs share
+   */
+  isPrivateSession(target: Session): boolean {
+    return target === session.fromPartition(PRIVATE_PARTITION);
+  }
+
+  /**
+   * Decision for a site. Private tabs start from the saved decisions, and what
+   * is decided in them only lasts until the last private tab closes.
+   */
+  getSitePermission(
+    origin: string,
+    permission: SitePermissionType,
+    isPrivate: boolean
+  ): SitePermissionDecision | null {
+    const decision = isPrivate
+      ? this.privateSitePermissions.get(`${origin} ${permission}`)
+      : undefined;
+    return decision || databaseService.getSitePermission(origin, permission);
+  }
+
+  setSitePermission(
+    origin: string,
+    permission: SitePermissionType,
+    decision: SitePermissionDecision,
+    isPrivate: boolean
+  ) {
+    if (isPrivate) {
+      this.privateSitePermissions.set(`${origin} ${permission}`, decision);
+    } else {
+      databaseService.setSitePermission(origin, permission, decision);
+    }
+  }
+
+  /**
+   * Whether any open tab uses a container's session
+   */
+  hasContainerTabs(containerId: number): boolean {
+    return this.getAllTabs().some((t) => t.containerId === containerId);
+  }
+
   /**
    * Get active tab ID
    */
@@ -508,6 +672,23 @@ class TabWindowManager {
     }
   }
 
+  /**
+   * Clear cookies, storage, caches and site decisions of the private session
+   */
+  private clearPrivateData() {
+    console.log('[TabWindowManager] Last private tab closed, clearing private data');
+    this.privateSitePermissions.clear();
+    const privateSession = session.fromPartition(PRIVATE_PARTITION);
+    Promise.all([
+      privateSession.clearStorageData(),
+      privateSession.clearCache(),
+      privateSession.clearAuthCache(),
+      privateSession.clearHostResolverCache(),
+    ]).catch((error) => {
+      console.error('[TabWindowManager] Failed to clear private data:', error);
+    });
+  }
+
   /**
    * Send notification to main window
    */
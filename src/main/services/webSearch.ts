@@ -0,0 +1,180 @@
+import { Session, WebContentsView, net, session } from 'electron';
+import { JSDOM } from 'jsdom';
+import { databaseService } from './database';
+import { parseSearchResults } from './searchParsers';
+import { buildSearchUrl, findSearchEngine } from '../../shared/searchEngines';
+import type { SearchEngine, WebSearchResult } from '../../shared/types';
+
+export interface WebSearchResponse {
+  query: string;
+  engine: string;
+  url: string;
+  results: WebSearchResult[];
+}
+
+const LOAD_TIMEOUT_MS = 20000;
+// Give script-rendered result pages a moment to fill in after load
+const RENDER_SETTLE_MS = 500;
+const SUGGEST_TIMEOUT_MS = 3000;
+const MAX_SUGGESTIONS = 6;
+// In-memory session so searches don't share cookies with the user's tabs
+const SEARCH_PARTITION = 'websearch';
+
+/**
+ * WebSearchService
+ * Loads search result pages in a hidden WebContentsView and parses them into
+ * structured results for the AI tools
+ */
+export class WebSearchService {
+  private searchSession: Session | null = null;
+
+  /**
+   * The session of the hidden views. Nobody sees these pages, so every
+   * permission (camera, location, notifications, ...) is denied without asking
+   */
+  private getSearchSession(): Session {
+    if (!this.searchSession) {
+      this.searchSession = session.fromPartition(SEARCH_PARTITION);
+      this.searchSession.setPermissionRequestHandler((_webContents, _permission, callback) =>
+        callback(false)
+      );
+      this.searchSession.setPermissionCheckHandler(() => false);
+    }
+    return this.searchSession;
+  }
+
+  /**
+   * Resolve a keyword or name from the search engine registry, falling back to the default
+   */
+  private getEngine(keywordOrName?: string): SearchEngine {
+    const engines = databaseService.getSearchEngines();
+
+    if (keywordOrName) {
+      const engine = findSearchEngine(engines, keywordOrName);
+      if (!engine) {
+        const available = engines.map((e) => e.keyword || e.name).join(', ');
+        throw new Error(`Unknown search engine: ${keywordOrName}. Available: ${available}`);
+      }
+      return engine;
+    }
+
+    const engine = engines.find((e) => e.isDefault) || engines[0];
+    if (!engine) {
+      throw new Error('No search engine is configured');
+    }
+    return engine;
+  }
+
+  /**
+   * Load a page in a hidden view and return its rendered HTML and final URL
+   */
+  private async fetchRenderedHtml(url: string): Promise<{ html: string; url: string }> {
+    const view = new WebContentsView({
+      webPreferences: {
+        session: this.getSearchSession(),
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true,
+        webSecurity: true,
+      },
+    });
+    const { webContents } = view;
+
+    // Some engines serve reduced pages to the default Electron user agent
+    webContents.setUserAgent(webContents.getUserAgent().replace(/\sElectron\/\S+/, ''));
+    webContents.setAudioMuted(true);
+    webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        webContents.loadURL(url),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Search page took too long to load')),
+            LOAD_TIMEOUT_MS
+          );
+        }),
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, RENDER_SETTLE_MS));
+
+      const html: string = await webContents.executeJavaScript(
+        'document.documentElement.outerHTML'
+      );
+      return { html, url: webContents.getURL() };
+    } finally {
+      clearTimeout(timer);
+      if (!webContents.isDestroyed()) {
+        webContents.close();
+      }
+    }
+  }
+
+  /**
+   * Search the web and return structured results
+   */
+  async search(
+    query: string,
+    options: { engine?: string; limit?: number } = {}
+  ): Promise<WebSearchResponse> {
+    const { limit = 8 } = options;
+    const engine = this.getEngine(options.engine);
+    const searchUrl = buildSearchUrl(engine.searchUrl, query);
+
+    console.log(`[WebSearch] Searching ${engine.name} for: ${query}`);
+    const page = await this.fetchRenderedHtml(searchUrl);
+
+    const dom = new JSDOM(page.html, { url: page.url });
+    const { parser, results } = parseSearchResults(dom.window.document, page.url, limit);
+    console.log(`[WebSearch] ${results.length} results parsed with the ${parser} parser`);
+
+    return {
+      query,
+      engine: engine.name,
+      url: searchUrl,
+      results,
+    };
+  }
+
+  /**
+   * Fetch query suggestions from an engine's OpenSearch suggestion endpoint
+   * (the default engine if none is given)
+   */
+  async getSuggestions(query: string, engineId?: number): Promise<string[]> {
+    const engines = databaseService.getSearchEngines();
+    const engine =
+      engineId !== undefined
+        ? engines.find((e) => e.id === engineId)
+        : engines.find((e) => e.isDefault);
+    if (!engine?.suggestUrl || !query.trim()) return [];
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const response = await Promise.race([
+        net.fetch(buildSearchUrl(engine.suggestUrl, query)),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Timed out')), SUGGEST_TIMEOUT_MS);
+        }),
+      ]);
+      if (!response.ok) return [];
+
+      // OpenSearch format: [query, [suggestion, ...], ...]
+      const data = await response.json();
+      const suggestions = Array.isArray(data) && Array.isArray(data[1]) ? data[1] : [];
+      return suggestions
+        .filter((s: unknown): s is string => typeof s === 'string')
+        .slice(0, MAX_SUGGESTIONS);
+    } catch (error) {
+      console.warn(
+        `[WebSearch] Suggestions from ${engine.name} failed:`,
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Export singleton instance
+export const webSearchService = new WebSearchService();
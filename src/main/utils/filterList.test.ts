@@ -0,0 +1,177 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { FilterEngine, type FilterRequestType } from './filterList';
+
+const FILTERS = readFileSync(new URL('./__fixtures__/filters.txt', import.meta.url), 'utf-8');
+
+describe('FilterEngine', () => {
+  let engine: FilterEngine;
+
+  beforeAll(() => {
+    engine = new FilterEngine();
+    engine.addList(FILTERS);
+  });
+
+  const match = (url: string, pageUrl = 'https://page.com/', type: FilterRequestType = 'script') =>
+    engine.match({ url, pageUrl, type });
+
+  describe('parser', () => {
+    it('counts the rules it supports and skips the rest', () => {
+      expect(new FilterEngine().addList(FILTERS)).toEqual({ networkRules: 23, cosmeticRules: 6 });
+    });
+
+    it('skips options it does not implement instead of applying them wrongly', () => {
+      expect(match('https://redirected.com/lib.js')).toBeNull();
+      expect(match('https://csp.com/')).toBeNull();
+      // Blocking a whole page is not supported, only the requests it makes
+      expect(match('https://blocked-page.com/app.js')).toBeNull();
+    });
+  });
+
+  describe('"||" anchors and "^" separators', () => {
+    it('matches the domain and its subdomains, on any scheme and port', () => {
+      expect(match('https://ads.example.com/banner.js')).toBe('||ads.example.com^');
+      expect(match('http://cdn.ads.example.com/a.js')).toBe('||ads.example.com^');
+      expect(match('https://ads.example.com:8080/a.js')).toBe('||ads.example.com^');
+      expect(match('wss://ads.example.com', undefined, 'websocket')).toBe('||ads.example.com^');
+    });
+
+    it('does not match inside another domain name', () => {
+      expect(match('https://notads.example.com/a.js')).toBeNull();
+      expect(match('https://ads.example.com.evil.net/a.js')).toBeNull();
+      expect(match('https://page.com/?next=ads.example.com')).toBeNull();
+    });
+
+    it('treats "^" as a separator or the end of the URL', () => {
+      expect(match('https://tracker.net/pixel', undefined, 'image')).not.toBeNull();
+      expect(match('https://tracker.net/pixel?id=1', undefined, 'image')).not.toBeNull();
+      expect(match('https://tracker.net/pixels', undefined, 'image')).toBeNull();
+    });
+
+    it('anchors "|" to the start or end of the URL', () => {
+      expect(match('https://start-anchor.com/a.js')).toBe('|https://start-anchor.com/');
+      expect(match('https://page.com/?u=https://start-anchor.com/')).toBeNull();
+      expect(match('https://cdn.com/js/tail-anchor.js')).toBe('tail-anchor.js|');
+      expect(match('https://cdn.com/js/tail-anchor.js?v=2')).toBeNull();
+    });
+
+    it('matches "*" wildcards, regular expressions and $match-case', () => {
+      expect(match('https://cdn.com/banner/300x250/ad_1.png', undefined, 'image')).toBe(
+        '/banner/*/ad_'
+      );
+      expect(match('https://cdn.com/img/ad42.gif', undefined, 'image')).toBe('/\\/ad[0-9]+\\.gif/');
+      expect(match('https://cdn.com/CaseSensitive/a.js')).toBe('/CaseSensitive/$match-case');
+      expect(match('https://cdn.com/casesensitive/a.js')).toBeNull();
+    });
+  });
+
+  describe('request types', () => {
+    it('applies a rule to the listed types only', () => {
+      expect(match('https://tracker.net/pixel', undefined, 'image')).toBe(
+        '||tracker.net/pixel^$image'
+      );
+      expect(match('https://tracker.net/pixel', undefined, 'script')).toBeNull();
+    });
+
+    it('applies a rule to every type but the negated ones', () => {
+      expect(match('https://fonts.example.org/a.woff2', undefined, 'font')).toBeNull();
+      expect(match('https://fonts.example.org/a.css', undefined, 'stylesheet')).not.toBeNull();
+    });
+  });
+
+  describe('$third-party', () => {
+    it('blocks only requests to another site', () => {
+      const url = 'https://cdn.widgets.com/embed.js';
+      expect(match(url, 'https://blog.com/')).toBe('||cdn.widgets.com^$script,third-party');
+      expect(match(url, 'https://www.widgets.com/')).toBeNull();
+      expect(match(url, 'https://blog.com/', 'image')).toBeNull();
+    });
+
+    it('blocks only first-party requests with $first-party', () => {
+      expect(match('https://social.example/like.js', 'https://social.example/')).not.toBeNull();
+      expect(match('https://social.example/like.js', 'https://blog.com/')).toBeNull();
+    });
+
+    it('uses the public suffix list to tell sites apart', () => {
+      // "abc.io" is a site, not a suffix
+      expect(match('https://cdn.abc.io/a.js', 'https://www.abc.io/')).toBeNull();
+      expect(match('https://cdn.abc.io/a.js', 'https://other.io/')).not.toBeNull();
+      // "co.uk" is a suffix
+      expect(match('https://assets.shop.co.uk/a.js', 'https://www.shop.co.uk/')).toBeNull();
+      expect(match('https://assets.shop.co.uk/a.js', 'https://other.co.uk/')).not.toBeNull();
+      // Sites on a shared host are third parties to each other
+      expect(match('https://user-a.github.io/a.js', 'https://user-b.github.io/')).not.toBeNull();
+      expect(match('https://user-a.github.io/a.js', 'https://user-a.github.io/')).toBeNull();
+    });
+  });
+
+  describe('$domain=', () => {
+    it('applies only on the listed sites and their subdomains', () => {
+      const url = 'https://video-ads.com/preroll.mp4';
+      expect(match(url, 'https://news.com/', 'media')).not.toBeNull();
+      expect(match(url, 'https://www.news.com/', 'media')).not.toBeNull();
+      expect(match(url, 'https://blog.com/', 'media')).toBeNull();
+    });
+
+    it('skips excluded sites', () => {
+      expect(match('https://video-ads.com/preroll.mp4', 'https://sports.news.com/')).toBeNull();
+      expect(match('https://popunder.com/pop.js', 'https://trusted.com/')).toBeNull();
+      expect(match('https://popunder.com/pop.js', 'https://blog.com/')).toBe(
+        '||popunder.com^$domain=~trusted.com'
+      );
+    });
+  });
+
+  describe('@@ exceptions and $important', () => {
+    it('lets an exception unblock a request', () => {
+      expect(match('https://ads.example.com/allowed/lib.js')).toBeNull();
+      expect(match('https://ads.example.com/lib.js', 'https://partner.com/')).toBeNull();
+    });
+
+    it('keeps blocking $important rules even when an exception matches', () => {
+      expect(match('https://metrics.com/collect')).toBe('||metrics.com^$important');
+    });
+
+    it('finds a $important rule even when a normal rule matches first', () => {
+      expect(match('https://ads.example.com/track', 'https://partner.com/')).toBe(
+        '||ads.example.com/track^$important'
+      );
+    });
+  });
+
+  describe('page exceptions', () => {
+    it('turns blocking or element hiding off for matching pages', () => {
+      expect(engine.getPageExceptions('https://sub.whitelisted.com/')).toEqual({
+        document: true,
+        elemhide: false,
+        generichide: false,
+      });
+      expect(engine.getPageExceptions('https://nohide.com/').elemhide).toBe(true);
+      expect(engine.getPageExceptions('https://somehide.com/').generichide).toBe(true);
+      expect(engine.getPageExceptions('https://blog.com/')).toEqual({
+        document: false,
+        elemhide: false,
+        generichide: false,
+      });
+    });
+  });
+
+  describe('element hiding', () => {
+    const hidden = (pageUrl: string, includeGeneric?: boolean) =>
+      engine.getHiddenSelectors(pageUrl, includeGeneric).sort();
+
+    it('combines generic and site rules, minus exceptions', () => {
+      expect(hidden('https://news.com/')).toEqual(['.promo', '.sponsored']);
+      expect(hidden('https://shop.news.com/')).toEqual(['.sponsored']);
+      expect(hidden('https://other.com/')).toEqual(['.ad-banner', '.promo']);
+    });
+
+    it('leaves out generic rules when asked', () => {
+      expect(hidden('https://news.com/', false)).toEqual(['.sponsored']);
+    });
+
+    it('skips selectors with braces, which could inject other CSS', () => {
+      expect(hidden('https://other.com/', false)).toEqual([]);
+    });
+  });
+});
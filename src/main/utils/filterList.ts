@@ -0,0 +1,496 @@
+/**
+ * Filter list engine for the content blocker
+ * Parses Adblock Plus / EasyList rules and matches requests and pages against them
+ */
+
+import { getDomain } from 'tldts';
+
+export type FilterRequestType =
+  | 'script'
+  | 'image'
+  | 'stylesheet'
+  | 'object'
+  | 'xmlhttprequest'
+  | 'subdocument'
+  | 'ping'
+  | 'media'
+  | 'font'
+  | 'websocket'
+  | 'other';
+
+export interface FilterRequest {
+  url: string;
+  type: FilterRequestType;
+  pageUrl: string; // Top-level page the request was made from
+}
+
+// Exceptions that apply to a whole page rather than to single requests
+export interface PageExceptions {
+  document: boolean; // No blocking at all
+  elemhide: boolean; // No element hiding
+  generichide: boolean; // Only element hiding rules written for this site
+}
+
+export interface FilterListStats {
+  networkRules: number;
+  cosmeticRules: number;
+}
+
+interface NetworkFilter {
+  rule: string; // Original text, for logging
+  exception: boolean;
+  pattern: string;
+  isRegex: boolean;
+  regex?: RegExp; // Compiled on first use, most rules never get that far
+  matchCase: boolean;
+  types: number; // Bit mask of FilterRequestType
+  thirdParty: boolean | null;
+  includeDomains: string[] | null;
+  excludeDomains: string[] | null;
+  important: boolean;
+  pageOptions: (keyof PageExceptions)[];
+}
+
+// A request or page as seen by the matcher
+interface RequestContext {
+  url: string;
+  type: number; // Bit of the request type
+  pageHostname: string | null;
+  thirdParty: boolean;
+}
+
+interface CosmeticFilter {
+  selector: string;
+  excludeDomains: string[] | null;
+}
+
+const REQUEST_TYPES: FilterRequestType[] = [
+  'script',
+  'image',
+  'stylesheet',
+  'object',
+  'xmlhttprequest',
+  'subdocument',
+  'ping',
+  'media',
+  'font',
+  'websocket',
+  'other',
+];
+const ALL_TYPES = (1 << REQUEST_TYPES.length) - 1;
+
+// Short names used by uBlock Origin lists
+const TYPE_ALIASES: Record<string, FilterRequestType> = {
+  css: 'stylesheet',
+  xhr: 'xmlhttprequest',
+  frame: 'subdocument',
+  'object-subrequest': 'object',
+};
+
+const PAGE_OPTIONS: Record<string, keyof PageExceptions> = {
+  document: 'document',
+  doc: 'document',
+  elemhide: 'elemhide',
+  ehide: 'elemhide',
+  generichide: 'generichide',
+  ghide: 'generichide',
+};
+
+// Element hiding rules with these need a script to apply (":has-text", ":xpath", ...)
+const PROCEDURAL_SELECTOR =
+  /:(?:-abp-[a-z-]+|has-text|matches-[a-z-]+|xpath|upward|style|remove|remove-attr|remove-class|min-text-length|watch-attr|others)\(/;
+
+// "example.com##.ad", "~example.com#@#.ad", and the "#?#", "#$#", "#%#" extended forms
+const COSMETIC_RULE = /^([^/*|@"!#]*)#(@?)([?$%]?)#(.+)$/;
+
+const typeBit = (type: FilterRequestType) => 1 << REQUEST_TYPES.indexOf(type);
+
+/**
+ * Base domain used to tell first- from third-party requests, from the public
+ * suffix list ("a.example.co.uk" -> "example.co.uk"). Private suffixes such as
+ * "github.io" count too, so two sites hosted there are third parties to each other.
+ * IP addresses and single-label hosts are their own base domain.
+ */
+function getBaseDomain(hostname: string): string {
+  return getDomain(hostname, { allowPrivateDomains: true }) || hostname;
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+// Whether hostname is domain or one of its subdomains
+function isSubdomainOf(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function parseDomains(list: string, separator: string) {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const entry of list.toLowerCase().split(separator)) {
+    const domain = entry.trim();
+    // Entity domains ("google.*") can't be matched without a suffix list
+    if (!domain || domain.includes('*')) continue;
+    if (domain.startsWith('~')) {
+      exclude.push(domain.slice(1));
+    } else {
+      include.push(domain);
+    }
+  }
+  return {
+    include: include.length > 0 ? include : null,
+    exclude: exclude.length > 0 ? exclude : null,
+  };
+}
+
+/**
+ * Parse a network rule such as "||ads.example.com^$script,third-party".
+ * Returns null for rules with options this blocker doesn't implement
+ * (redirects, CSP headers, ...), which are skipped rather than applied wrongly.
+ */
+function parseNetworkRule(rule: string): NetworkFilter | null {
+  let text = rule;
+  const exception = text.startsWith('@@');
+  if (exception) text = text.slice(2);
+
+  const filter: NetworkFilter = {
+    rule,
+    exception,
+    pattern: text,
+    isRegex: false,
+    matchCase: false,
+    types: ALL_TYPES,
+    thirdParty: null,
+    includeDomains: null,
+    excludeDomains: null,
+    important: false,
+    pageOptions: [],
+  };
+
+  // Options follow the last "$", unless the rule is a regular expression ending in "/"
+  const optionsStart = text.lastIndexOf('$');
+  if (optionsStart >= 0 && !(text.startsWith('/') && text.endsWith('/'))) {
+    filter.pattern = text.slice(0, optionsStart);
+
+    let includedTypes = 0;
+    let excludedTypes = 0;
+    for (const rawOption of text.slice(optionsStart + 1).split(',')) {
+      const option = rawOption.trim();
+      const negated = option.startsWith('~');
+      const name = (negated ? option.slice(1) : option).toLowerCase();
+      const type = TYPE_ALIASES[name] || REQUEST_TYPES.find((t) => t === name);
+
+      if (type) {
+        const bit = typeBit(type);
+        if (negated) excludedTypes |= bit;
+        else includedTypes |= bit;
+      } else if (name === 'all' && !negated) {
+        includedTypes = ALL_TYPES;
+      } else if (name === 'third-party' || name === '3p') {
+        filter.thirdParty = !negated;
+      } else if (name === 'first-party' || name === '1p') {
+        filter.thirdParty = negated;
+      } else if (name.startsWith('domain=')) {
+        const domains = parseDomains(option.slice('domain='.length), '|');
+        filter.includeDomains = domains.include;
+        filter.excludeDomains = domains.exclude;
+      } else if (name === 'match-case') {
+        filter.matchCase = true;
+      } else if (name === 'important') {
+        filter.important = true;
+      } else if (PAGE_OPTIONS[name] && !negated) {
+        filter.pageOptions.push(PAGE_OPTIONS[name]);
+      } else {
+        return null;
+      }
+    }
+
+    if (includedTypes) filter.types = includedTypes;
+    filter.types &= ~excludedTypes;
+    if (!filter.types) return null;
+  }
+
+  // Blocking whole pages isn't supported, only the requests they make
+  if (filter.pageOptions.length > 0 && !exception) return null;
+
+  if (filter.pattern.length > 2 && filter.pattern.startsWith('/') && filter.pattern.endsWith('/')) {
+    filter.isRegex = true;
+    filter.pattern = filter.pattern.slice(1, -1);
+  }
+
+  return filter;
+}
+
+/**
+ * Turn a rule pattern into a regular expression:
+ * "||" matches the start of a domain, "|" anchors, "*" is a wildcard and "^"
+ * a separator (anything but a letter, digit or one of "_-.%", or the end)
+ */
+function compilePattern(filter: NetworkFilter): RegExp {
+  const flags = filter.matchCase ? '' : 'i';
+  try {
+    if (filter.isRegex) return new RegExp(filter.pattern, flags);
+
+    let source = filter.pattern;
+    let prefix = '';
+    let suffix = '';
+    if (source.startsWith('||')) {
+      prefix = '^[a-z][a-z0-9+.-]*:\\/\\/(?:[^/?#]*\\.)?';
+      source = source.slice(2);
+    } else if (source.startsWith('|')) {
+      prefix = '^';
+      source = source.slice(1);
+    }
+    if (source.endsWith('|')) {
+      suffix = '$';
+      source = source.slice(0, -1);
+    }
+
+    const body = source
+      .replace(/[.+?${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\^/g, '(?:[^\\w\\-.%]|$)');
+    return new RegExp(prefix + body + suffix, flags);
+  } catch {
+    console.warn('[FilterList] Invalid rule:', filter.rule);
+    return /(?!)/; // Never matches
+  }
+}
+
+/**
+ * Pick the keyword a rule is indexed under: the longest run of letters and
+ * digits that a matching URL is certain to contain as a whole word. Runs
+ * touching a wildcard or an unanchored end may only be part of a word.
+ */
+function getRuleToken(filter: NetworkFilter): string {
+  if (filter.isRegex) return '';
+
+  const pattern = filter.pattern.toLowerCase();
+  let best = '';
+  for (const match of pattern.matchAll(/[a-z0-9%]+/g)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    const before = pattern[start - 1];
+    const after = pattern[end];
+    if (before === undefined || before === '*' || after === undefined || after === '*') continue;
+    if (match[0].length > best.length) best = match[0];
+  }
+  return best;
+}
+
+// Every rule keyword the URL could match, plus '' for rules without one
+function getUrlTokens(url: string): string[] {
+  return ['', ...new Set(url.toLowerCase().match(/[a-z0-9%]+/g))];
+}
+
+/**
+ * Holds the rules of all loaded filter lists. Network rules are indexed by
+ * keyword so a request is only tested against the few rules that could match.
+ */
+export class FilterEngine {
+  private blocking = new Map<string, NetworkFilter[]>();
+  // Blocking rules with $important, which exceptions can't override
+  private important = new Map<string, NetworkFilter[]>();
+  private exceptions = new Map<string, NetworkFilter[]>();
+  private pageExceptions: NetworkFilter[] = [];
+  private genericHiding: CosmeticFilter[] = [];
+  private domainHiding = new Map<string, CosmeticFilter[]>();
+  // Selectors not to hide, by domain; '' holds exceptions for every site
+  private hidingExceptions = new Map<string, Set<string>>();
+  // Page exceptions are looked up for every request of a page
+  private lastPage: { url: string; exceptions: PageExceptions } | null = null;
+
+  /**
+   * Add the rules of one filter list
+   */
+  addList(text: string): FilterListStats {
+    const stats: FilterListStats = { networkRules: 0, cosmeticRules: 0 };
+    this.lastPage = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      // Comments and the "[Adblock Plus 2.0]" header
+      if (!line || line.startsWith('!') || line.startsWith('[')) continue;
+
+      const cosmetic = COSMETIC_RULE.exec(line);
+      if (cosmetic) {
+        if (this.addCosmeticRule(cosmetic[1], cosmetic[2] === '@', cosmetic[3], cosmetic[4])) {
+          stats.cosmeticRules++;
+        }
+        continue;
+      }
+
+      const filter = parseNetworkRule(line);
+      if (!filter) continue;
+      stats.networkRules++;
+
+      if (filter.pageOptions.length > 0) {
+        this.pageExceptions.push(filter);
+        continue;
+      }
+      const index = filter.exception
+        ? this.exceptions
+        : filter.important
+          ? this.important
+          : this.blocking;
+      const token = getRuleToken(filter);
+      const bucket = index.get(token);
+      if (bucket) bucket.push(filter);
+      else index.set(token, [filter]);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Find the rule that blocks a request, or null when it may load.
+   * A $important rule blocks even when an exception matches, so those are
+   * looked up first and exceptions only when none applies.
+   */
+  match(request: FilterRequest): string | null {
+    const hostname = getHostname(request.url);
+    if (!hostname) return null;
+
+    const pageHostname = getHostname(request.pageUrl);
+    const context = {
+      url: request.url,
+      type: typeBit(request.type),
+      pageHostname,
+      thirdParty: pageHostname ? getBaseDomain(hostname) !== getBaseDomain(pageHostname) : false,
+    };
+
+    const tokens = getUrlTokens(request.url);
+    const important = this.findMatch(this.important, tokens, context);
+    if (important) return important.rule;
+
+    const blocking = this.findMatch(this.blocking, tokens, context);
+    if (!blocking || this.findMatch(this.exceptions, tokens, context)) return null;
+
+    return blocking.rule;
+  }
+
+  /**
+   * Exceptions that turn blocking off for a whole page
+   */
+  getPageExceptions(pageUrl: string): PageExceptions {
+    if (this.lastPage?.url === pageUrl) return this.lastPage.exceptions;
+
+    const exceptions: PageExceptions = { document: false, elemhide: false, generichide: false };
+    const pageHostname = getHostname(pageUrl);
+    if (pageHostname) {
+      const context = { url: pageUrl, type: ALL_TYPES, pageHostname, thirdParty: false };
+      for (const filter of this.pageExceptions) {
+        if (this.matchesFilter(filter, context)) {
+          filter.pageOptions.forEach((option) => (exceptions[option] = true));
+        }
+      }
+    }
+
+    this.lastPage = { url: pageUrl, exceptions };
+    return exceptions;
+  }
+
+  /**
+   * CSS selectors of the elements to hide on a page
+   */
+  getHiddenSelectors(pageUrl: string, includeGeneric = true): string[] {
+    const hostname = getHostname(pageUrl);
+    if (!hostname) return [];
+
+    // "a.b.example.com" -> ["a.b.example.com", "b.example.com", "example.com", "com"]
+    const labels = hostname.split('.');
+    const domains = labels.map((_label, i) => labels.slice(i).join('.'));
+
+    const excepted = new Set<string>(this.hidingExceptions.get('') || []);
+    for (const domain of domains) {
+      this.hidingExceptions.get(domain)?.forEach((selector) => excepted.add(selector));
+    }
+
+    const selectors = new Set<string>();
+    const add = (filter: CosmeticFilter) => {
+      if (excepted.has(filter.selector)) return;
+      if (filter.excludeDomains?.some((domain) => isSubdomainOf(hostname, domain))) return;
+      selectors.add(filter.selector);
+    };
+
+    for (const domain of domains) {
+      this.domainHiding.get(domain)?.forEach(add);
+    }
+    if (includeGeneric) {
+      this.genericHiding.forEach(add);
+    }
+
+    return Array.from(selectors);
+  }
+
+  private addCosmeticRule(
+    domainList: string,
+    exception: boolean,
+    extended: string,
+    selector: string
+  ): boolean {
+    // Extended CSS, snippets and scriptlets ("##+js(...)") need code injection
+    if (extended || selector.startsWith('+js(') || selector.startsWith('^')) return false;
+    if (PROCEDURAL_SELECTOR.test(selector)) return false;
+    // Selectors go into a "{ display: none }" rule; a brace would end it and add other CSS
+    if (/[{}]/.test(selector)) return false;
+
+    const domains = parseDomains(domainList, ',');
+    if (exception) {
+      for (const domain of domains.include || ['']) {
+        const selectors = this.hidingExceptions.get(domain);
+        if (selectors) selectors.add(selector);
+        else this.hidingExceptions.set(domain, new Set([selector]));
+      }
+      return true;
+    }
+
+    const filter: CosmeticFilter = { selector, excludeDomains: domains.exclude };
+    if (!domains.include) {
+      this.genericHiding.push(filter);
+      return true;
+    }
+    for (const domain of domains.include) {
+      const filters = this.domainHiding.get(domain);
+      if (filters) filters.push(filter);
+      else this.domainHiding.set(domain, [filter]);
+    }
+    return true;
+  }
+
+  private findMatch(
+    index: Map<string, NetworkFilter[]>,
+    tokens: string[],
+    context: RequestContext
+  ): NetworkFilter | null {
+    for (const token of tokens) {
+      const filters = index.get(token);
+      if (!filters) continue;
+      for (const filter of filters) {
+        if (this.matchesFilter(filter, context)) return filter;
+      }
+    }
+    return null;
+  }
+
+  private matchesFilter(filter: NetworkFilter, context: RequestContext): boolean {
+    if (!(filter.types & context.type)) return false;
+    if (filter.thirdParty !== null && filter.thirdParty !== context.thirdParty) return false;
+
+    if (filter.includeDomains || filter.excludeDomains) {
+      const page = context.pageHostname;
+      if (!page) return false;
+      if (filter.includeDomains && !filter.includeDomains.some((d) => isSubdomainOf(page, d))) {
+        return false;
+      }
+      if (filter.excludeDomains?.some((d) => isSubdomainOf(page, d))) return false;
+    }
+
+    if (!filter.regex) filter.regex = compilePattern(filter);
+    return filter.regex.test(context.url);
+  }
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JsonStreamDecoder } from './jsonStream';
+
+// An Ollama /api/chat stream, as it comes over the wire
+const OLLAMA_STREAM = [
+  '{"model":"llama3","message":{"role":"assistant","content":"Hel"},"done":false}',
+  '{"model":"llama3","message":{"role":"assistant","content":"lo"},"done":false}',
+  '{"model":"llama3","message":{"role":"assistant","content":""},"done":true,"eval_count":2}',
+]
+  .map((line) => `${line}\n`)
+  .join('');
+
+// Feed the text in chunks cut at the given byte offsets
+const decodeInChunks = (input: string | Buffer, cuts: number[]): unknown[] => {
+  const bytes = Buffer.isBuffer(input) ? input : Buffer.from(input, 'utf8');
+  const decoder = new JsonStreamDecoder();
+  const values: unknown[] = [];
+  let start = 0;
+  for (const cut of [...cuts, bytes.length]) {
+    values.push(...decoder.push(bytes.subarray(start, cut)));
+    start = cut;
+  }
+  values.push(...decoder.end());
+  return values;
+};
+
+describe('JsonStreamDecoder', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('decodes newline-delimited values', () => {
+    const values = decodeInChunks(OLLAMA_STREAM, []);
+
+    expect(values).toMatchObject([
+      { message: { content: 'Hel' } },
+      { message: { content: 'lo' } },
+      { message: { content: '' } },
+    ]);
+    expect(values[2]).toMatchObject({ done: true, eval_count: 2 });
+  });
+
+  it('decodes values split across partial chunks, wherever the cuts fall', () => {
+    const expected = decodeInChunks(OLLAMA_STREAM, []);
+
+    for (let cut = 1; cut < OLLAMA_STREAM.length; cut += 7) {
+      expect(decodeInChunks(OLLAMA_STREAM, [cut, cut + 3])).toEqual(expected);
+    }
+    // One byte at a time
+    const everyByte = Array.from({ length: OLLAMA_STREAM.length - 1 }, (_, i) => i + 1);
+    expect(decodeInChunks(OLLAMA_STREAM, everyByte)).toEqual(expected);
+  });
+
+  it('returns values as soon as their chunk completes them', () => {
+    const decoder = new JsonStreamDecoder();
+
+    expect(decoder.push('{"a":1}\n{"b":')).toEqual([{ a: 1 }]);
+    expect(decoder.push('2}')).toEqual([{ b: 2 }]);
+    expect(decoder.end()).toEqual([]);
+  });
+
+  it('decodes concatenated values with no separator', () => {
+    expect(decodeInChunks('{"a":1}{"b":2}{"c":[3]}', [])).toEqual([{ a: 1 }, { b: 2 }, { c: [3] }]);
+    expect(decodeInChunks('{"a":1}{"b":2}', [7])).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(decodeInChunks('[1,2] [3]', [])).toEqual([[1, 2], [3]]);
+  });
+
+  it('ignores braces and escaped quotes inside strings', () => {
+    const text = '{"text":"a } and a { and \\"quoted }\\"","path":"C:\\\\dir\\\\"}\n{"next":true}';
+
+    expect(decodeInChunks(text, [])).toEqual([
+      { text: 'a } and a { and "quoted }"', path: 'C:\\dir\\' },
+      { next: true },
+    ]);
+    // Split right after the escaping backslash
+    const cut = text.indexOf('\\"') + 1;
+    expect(decodeInChunks(text, [cut])).toEqual(decodeInChunks(text, []));
+  });
+
+  it('keeps a multi-byte UTF-8 character split across chunks', () => {
+    const text = '{"content":"café 🙂 日本"}\n';
+    const bytes = Buffer.from(text, 'utf8');
+    const emoji = bytes.indexOf(Buffer.from('🙂', 'utf8'));
+    const accent = bytes.indexOf(Buffer.from('é', 'utf8'));
+
+    expect(decodeInChunks(bytes, [accent + 1, emoji + 1, emoji + 2, emoji + 3])).toEqual([
+      { content: 'café 🙂 日本' },
+    ]);
+  });
+
+  it('returns a trailing value without a newline at the end', () => {
+    const decoder = new JsonStreamDecoder();
+
+    expect(decoder.push('{"a":1}\n{"done":true}')).toEqual([{ a: 1 }, { done: true }]);
+    expect(decoder.end()).toEqual([]);
+    expect(decodeInChunks('{"a":1}\n{"done":true}', [12])).toEqual([{ a: 1 }, { done: true }]);
+  });
+
+  it('warns about a value cut off by the end of the stream', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const decoder = new JsonStreamDecoder();
+
+    expect(decoder.push('{"a":1}\n{"b":')).toEqual([{ a: 1 }]);
+    expect(decoder.end()).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('[JsonStream] Stream ended inside a value:', '{"b":');
+  });
+
+  it('skips values that fail to parse and keeps going', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(decodeInChunks('{"a":1,}\nnot json\n{"b":2}', [])).toEqual([{ b: 2 }]);
+    expect(warn).toHaveBeenCalledWith('[JsonStream] Failed to parse value:', '{"a":1,}');
+  });
+});
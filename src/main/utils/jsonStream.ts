@@ -0,0 +1,106 @@
+/**
+ * Incremental decoder for streams of JSON values
+ */
+
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Decodes a stream of JSON objects as the chunks arrive.
+ * Values may be separated by newlines (NDJSON), by other whitespace or by
+ * nothing at all, and may be split anywhere, including inside a string or a
+ * multi-byte UTF-8 character. Values that fail to parse are logged and skipped.
+ * T is the shape the caller expects; values are not checked against it.
+ */
+export class JsonStreamDecoder<T = unknown> {
+  private text = new StringDecoder('utf8');
+  private buffer = '';
+  // Scan state, kept between chunks so text is only scanned once
+  private scanIndex = 0;
+  private valueStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  /**
+   * Add a chunk and return the values it completed
+   */
+  push(chunk: Buffer | string): T[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.text.write(chunk);
+    return this.drain();
+  }
+
+  /**
+   * Signal the end of the stream and return the last value, if it is complete
+   */
+  end(): T[] {
+    this.buffer += this.text.end();
+    const values = this.drain();
+
+    const rest = this.valueStart >= 0 ? this.buffer.slice(this.valueStart).trim() : '';
+    if (rest) {
+      console.warn('[JsonStream] Stream ended inside a value:', rest.substring(0, 50));
+    }
+    this.reset();
+    return values;
+  }
+
+  private reset(): void {
+    this.buffer = '';
+    this.scanIndex = 0;
+    this.valueStart = -1;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+  }
+
+  private drain(): T[] {
+    const values: T[] = [];
+
+    for (; this.scanIndex < this.buffer.length; this.scanIndex++) {
+      const char = this.buffer[this.scanIndex];
+
+      if (this.inString) {
+        // Braces inside strings don't count
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '{' || char === '[') {
+        if (this.depth === 0) {
+          this.valueStart = this.scanIndex;
+        }
+        this.depth++;
+      } else if ((char === '}' || char === ']') && this.depth > 0) {
+        this.depth--;
+        if (this.depth === 0) {
+          const json = this.buffer.slice(this.valueStart, this.scanIndex + 1);
+          try {
+            values.push(JSON.parse(json));
+          } catch (_e) {
+            console.warn('[JsonStream] Failed to parse value:', json.substring(0, 50));
+          }
+          this.valueStart = -1;
+        }
+      } else if (char === '"' && this.depth > 0) {
+        this.inString = true;
+      }
+      // Anything else between values (newlines, stray text) is skipped
+    }
+
+    // Drop what has been consumed so the buffer only holds the value in progress
+    const keepFrom = this.valueStart >= 0 ? this.valueStart : this.buffer.length;
+    this.buffer = this.buffer.slice(keepFrom);
+    this.scanIndex -= keepFrom;
+    if (this.valueStart >= 0) {
+      this.valueStart = 0;
+    }
+
+    return values;
+  }
+}
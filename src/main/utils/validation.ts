@@ -67,6 +67,16 @@ export function validateString(value: any, fieldName: string, maxLength?: number
   return value;
 }
 
+/**
+ * Validates that a value is a plain object, such as the arguments of a tool call
+ */
+export function validateObject(value: unknown, fieldName: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${fieldName} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
 /**
  * Validates that a value is a boolean
  */
@@ -76,3 +86,22 @@ export function validateBoolean(value: any, fieldName: string): boolean {
   }
   return value;
 }
+
+/**
+ * Validates that a value is a bare http(s) origin (e.g. https://example.com)
+ */
+export function validateOrigin(value: unknown, fieldName: string = 'Origin'): string {
+  const origin = validateString(value, fieldName, 512);
+
+  let parsed: URL;
+  try {
+    parsed = new URL(origin);
+  } catch {
+    throw new Error(`${fieldName} is not a valid origin`);
+  }
+
+  if (parsed.origin !== origin || !['http:', 'https:'].includes(parsed.protocol)) {
+    throw new Error(`${fieldName} is not a valid origin`);
+  }
+  return origin;
+}
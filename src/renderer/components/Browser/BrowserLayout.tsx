@@ -8,6 +8,7 @@ import { BookmarksSidebar } from './BookmarksSidebar';
 import { ModelManager } from '../Models/ModelManager';
 import { DownloadStatusBar } from '../Downloads/DownloadStatusBar';
 import { DownloadToast } from './DownloadToast';
+import { PermissionPrompt } from './PermissionPrompt';
 import { useBrowserStore } from '../../store/browser';
 import { useTabsStore } from '../../store/tabs';
 import { useModelStore } from '../../store/models';
@@ -67,7 +68,7 @@ export const BrowserLayout: React.FC = () => {
   // Global keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Prevent shortcuts when typing in input fields (except Ctrl+H, Ctrl+B, Ctrl+T, Ctrl+W, Ctrl+Tab)
+      // Prevent shortcuts when typing in input fields (except Ctrl+H, Ctrl+B, Ctrl+T, Ctrl+Shift+N, Ctrl+W, Ctrl+Tab)
       const target = e.target as HTMLElement;
       const isTyping = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
 
@@ -77,6 +78,12 @@ export const BrowserLayout: React.FC = () => {
         addTab();
         return;
       }
+      // Ctrl/Cmd + Shift + N - New Private Tab
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'n') {
+        e.preventDefault();
+        addTab('', { isPrivate: true });
+        return;
+      }
       // Ctrl/Cmd + W - Close Tab
       if ((e.ctrlKey || e.metaKey) && e.key === 'w') {
         e.preventDefault();
@@ -227,6 +234,11 @@ export const BrowserLayout: React.FC = () => {
         <DownloadStatusBar />
       </div>
 
+      {/* Site Permission Prompt - capture clicks */}
+      <div className="pointer-events-auto">
+        <PermissionPrompt />
+      </div>
+
       {/* Download Notification Toast - capture clicks */}
       {downloadNotification && (
         <div className="pointer-events-auto">
@@ -148,7 +148,10 @@ export const BrowserWindowContainer = forwardRef<BrowserWindowHandle>((props, re
     viewSource: () => {
       const activeTab = tabs.find((t) => t.id === activeTabId);
       if (activeTab?.url) {
-        addTab(`view-source:${activeTab.url}`);
+        addTab(`view-source:${activeTab.url}`, {
+          isPrivate: activeTab.isPrivate,
+          containerId: activeTab.containerId,
+        });
       }
     },
     zoomIn: async () => {
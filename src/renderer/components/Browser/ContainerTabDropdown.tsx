@@ -0,0 +1,89 @@
+import React, { useEffect, useRef } from 'react';
+import { useContainerStore } from '../../store/containers';
+import { useTabsStore } from '../../store/tabs';
+import { CONTAINER_COLORS } from '../../../shared/containers';
+
+interface ContainerTabDropdownProps {
+  isOpen: boolean;
+  onClose: () => void;
+  anchorRef: React.RefObject<React.ElementRef<'button'> | null>;
+}
+
+export const ContainerTabDropdown: React.FC<ContainerTabDropdownProps> = ({
+  isOpen,
+  onClose,
+  anchorRef,
+}) => {
+  const { containers } = useContainerStore();
+  const { addTab } = useTabsStore();
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Hide the active tab view so the dropdown isn't drawn behind it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen]);
+
+  // Handle click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node) &&
+        anchorRef.current &&
+        !anchorRef.current.contains(event.target as Node)
+      ) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen, onClose, anchorRef]);
+
+  const handleOpen = (containerId: number) => {
+    addTab('', { containerId });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      ref={dropdownRef}
+      className="absolute right-0 top-full mt-1 z-[1000] w-64 bg-card border border-border rounded-lg shadow-xl animate-in fade-in slide-in-from-top-2 duration-200"
+    >
+      <div className="px-4 py-2 border-b border-border">
+        <h3 className="font-semibold text-sm">New container tab</h3>
+      </div>
+
+      {containers.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-muted-foreground">
+          No containers yet. Add them under Containers in the menu.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto py-1">
+          {containers.map((container) => (
+            <button
+              key={container.id}
+              onClick={() => handleOpen(container.id)}
+              className="w-full flex items-center gap-2 px-4 py-1.5 text-left text-sm hover:bg-accent transition-colors"
+            >
+              <span
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: CONTAINER_COLORS[container.color] }}
+              />
+              <span className="truncate">{container.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useBrowserStore } from '../../store/browser';
+import { useModelStore } from '../../store/models';
 import { browserDataService } from '../../services/browserData';
-import type { HistoryEntry } from '../../../shared/types';
+import { supportsEmbedding } from '../../../shared/modelRegistry';
+import type {
+  HistoryEntry,
+  HistoryIndexStatus,
+  SemanticHistoryResult,
+} from '../../../shared/types';
 
 export const HistorySidebar: React.FC = () => {
   const { showHistory, setShowHistory, setCurrentUrl } = useBrowserStore();
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const { models } = useModelStore();
+  const [history, setHistory] = useState<Array<HistoryEntry | SemanticHistoryResult>>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
+  const [isSemantic, setIsSemantic] = useState(false);
+  const [indexStatus, setIndexStatus] = useState<HistoryIndexStatus | null>(null);
+  const [showIndexSettings, setShowIndexSettings] = useState(false);
+
+  const embeddingModels = models.filter((m) => supportsEmbedding(m.name));
 
   const loadHistory = useCallback(() => {
     setIsSearching(true);
@@ -25,9 +37,33 @@ export const HistorySidebar: React.FC = () => {
     }
   }, [showHistory, loadHistory]);
 
+  // Load semantic search status when sidebar opens
+  useEffect(() => {
+    if (showHistory) {
+      browserDataService
+        .getHistoryIndexStatus()
+        .then((status) => {
+          setIndexStatus(status);
+          if (!status.model) setIsSemantic(false);
+        })
+        .catch((err) => console.error('Failed to load history index status:', err));
+    }
+  }, [showHistory]);
+
   // Search when query changes
   useEffect(() => {
-    if (searchQuery.trim()) {
+    if (searchQuery.trim() && isSemantic) {
+      // Each search embeds the query, so wait for typing to pause
+      setIsSearching(true);
+      const timer = setTimeout(() => {
+        browserDataService
+          .semanticSearchHistory(searchQuery, 30)
+          .then(setHistory)
+          .catch((err) => console.error('Failed to search history:', err))
+          .finally(() => setIsSearching(false));
+      }, 400);
+      return () => clearTimeout(timer);
+    } else if (searchQuery.trim()) {
       setIsSearching(true);
       browserDataService
         .searchHistory(searchQuery, 100)
@@ -37,7 +73,18 @@ export const HistorySidebar: React.FC = () => {
     } else if (showHistory) {
       loadHistory();
     }
-  }, [searchQuery, showHistory, loadHistory]);
+  }, [searchQuery, isSemantic, showHistory, loadHistory]);
+
+  const handleSetEmbeddingModel = async (model: string | null) => {
+    try {
+      const status = await browserDataService.setHistoryEmbeddingModel(model);
+      setIndexStatus(status);
+      setIsSemantic(!!status.model);
+      setShowIndexSettings(false);
+    } catch (err) {
+      console.error('Failed to update semantic search:', err);
+    }
+  };
 
   const handleNavigate = (url: string) => {
     setCurrentUrl(url);
@@ -76,9 +123,15 @@ export const HistorySidebar: React.FC = () => {
 
   if (!showHistory) return null;
 
-  // Group history by date
-  const groupedHistory: Record<string, HistoryEntry[]> = {};
+  // Group history by date (semantic results keep their relevance order)
+  const groupedHistory: Record<string, Array<HistoryEntry | SemanticHistoryResult>> = {};
+  const showRelevance = isSemantic && !!searchQuery.trim();
+  if (showRelevance && history.length > 0) {
+    groupedHistory['Best matches'] = history;
+  }
   history.forEach((entry) => {
+    if (showRelevance) return;
+
     const date = new Date(entry.visitTime);
     const today = new Date();
     const yesterday = new Date(today);
@@ -144,7 +197,7 @@ export const HistorySidebar: React.FC = () => {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search history..."
+            placeholder={isSemantic ? 'Describe what you read...' : 'Search history...'}
             className="flex-1 bg-transparent outline-none text-sm"
           />
           {searchQuery && (
@@ -165,6 +218,60 @@ export const HistorySidebar: React.FC = () => {
         </div>
       </div>
 
+      {/* Semantic search */}
+      <div className="px-4 py-2 border-b border-border text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={() =>
+              indexStatus?.model ? setIsSemantic(!isSemantic) : setShowIndexSettings(true)
+            }
+            className={`px-2 py-1 rounded transition-colors ${
+              isSemantic ? 'bg-primary text-primary-foreground' : 'bg-secondary hover:bg-accent'
+            }`}
+            title="Search pages by what they were about, not just their title"
+          >
+            Semantic search
+          </button>
+          <button
+            onClick={() => setShowIndexSettings(!showIndexSettings)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {indexStatus?.model
+              ? `${indexStatus.indexedPages} pages indexed${
+                  indexStatus.pendingPages > 0 ? `, ${indexStatus.pendingPages} pending` : ''
+                }`
+              : 'Off'}
+          </button>
+        </div>
+
+        {showIndexSettings && (
+          <div className="mt-2 space-y-2">
+            <p className="text-muted-foreground">
+              Pages you visit are saved as text and embedded locally with the selected model.
+              Turning this off deletes the saved text.
+            </p>
+            {embeddingModels.length === 0 ? (
+              <p className="text-muted-foreground">
+                Install an embedding model such as nomic-embed-text from the Model Manager.
+              </p>
+            ) : (
+              <select
+                value={indexStatus?.model || ''}
+                onChange={(e) => handleSetEmbeddingModel(e.target.value || null)}
+                className="w-full px-2 py-1 bg-secondary border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Off</option>
+                {embeddingModels.map((m) => (
+                  <option key={m.name} value={m.name}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Actions */}
       <div className="flex gap-2 px-4 py-2 border-b border-border">
         <button
@@ -229,11 +336,21 @@ export const HistorySidebar: React.FC = () => {
                       <div className="flex-1 min-w-0">
                         <div className="text-sm font-medium truncate">{entry.title}</div>
                         <div className="text-xs text-muted-foreground truncate">{entry.url}</div>
+                        {'excerpt' in entry && entry.excerpt && (
+                          <div className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+                            {entry.excerpt}
+                          </div>
+                        )}
                         <div className="text-xs text-muted-foreground">
-                          {new Date(entry.visitTime).toLocaleTimeString('en-US', {
-                            hour: 'numeric',
-                            minute: '2-digit',
-                          })}
+                          {showRelevance
+                            ? new Date(entry.visitTime).toLocaleDateString('en-US', {
+                                month: 'short',
+                                day: 'numeric',
+                              })
+                            : new Date(entry.visitTime).toLocaleTimeString('en-US', {
+                                hour: 'numeric',
+                                minute: '2-digit',
+                              })}
                           {entry.visitCount &&
                             entry.visitCount > 1 &&
                             ` • ${entry.visitCount} visits`}
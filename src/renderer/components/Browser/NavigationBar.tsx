@@ -3,12 +3,36 @@ import { useBrowserStore } from '../../store/browser';
 import { useTabsStore } from '../../store/tabs';
 import { useModelStore } from '../../store/models';
 import { useChatStore } from '../../store/chat';
+import { useSearchEngineStore } from '../../store/searchEngines';
 import { BrowserWindowHandle } from './BrowserWindowContainer';
 import { browserDataService } from '../../services/browserData';
 import { ContextMenu, ContextMenuItem } from './ContextMenu';
 import { SystemPromptSettings } from '../Settings/SystemPromptSettings';
+import { SearchEngineSettings } from '../Settings/SearchEngineSettings';
+import { SiteSettings } from '../Settings/SiteSettings';
+import { ContentBlockerSettings } from '../Settings/ContentBlockerSettings';
+import { AIPrivacySettings } from '../Settings/AIPrivacySettings';
+import { ContainerSettings } from '../Settings/ContainerSettings';
+import { SavedSessions } from '../Settings/SavedSessions';
 import { DownloadDropdown } from './DownloadDropdown';
+import { PopupBlockedDropdown } from './PopupBlockedDropdown';
 import { supportsVision } from '../../../shared/modelRegistry';
+import { buildSearchUrl, parseKeywordQuery } from '../../../shared/searchEngines';
+import {
+  rankOmniboxSuggestions,
+  OmniboxSuggestion,
+  OmniboxSuggestionType,
+} from '../../../shared/omnibox';
+
+// Icon path per suggestion type
+const SUGGESTION_ICONS: Record<OmniboxSuggestionType, string> = {
+  history: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  bookmark: 'M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z',
+  tab: 'M4 6a2 2 0 012-2h12a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V6zm0 3h16',
+  search: 'M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z',
+  'ask-ai':
+    'M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z',
+};
 
 interface NavigationBarProps {
   browserWindowRef: RefObject<BrowserWindowHandle>;
@@ -32,22 +56,45 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
     toggleHistory,
     toggleBookmarks,
   } = useBrowserStore();
-  const { updateTab, activeTabId } = useTabsStore();
+  const { tabs, updateTab, activeTabId, setActiveTab, addTab } = useTabsStore();
   const { setIsModelManagerOpen, defaultModel } = useModelStore();
   const { sendChatMessage, setCurrentModel } = useChatStore();
+  const {
+    engines,
+    suggestionsEnabled,
+    isLoaded: enginesLoaded,
+    loadEngines,
+    getDefaultEngine,
+  } = useSearchEngineStore();
 
   const [inputValue, setInputValue] = useState('');
   const [isFocused, setIsFocused] = useState(false);
-  const [suggestions, setSuggestions] = useState<
-    Array<{ url: string; title: string; visitCount?: number }>
-  >([]);
+  const [suggestions, setSuggestions] = useState<OmniboxSuggestion[]>([]);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
   const [showMenu, setShowMenu] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ x: 0, y: 0 });
   const [showSystemPromptSettings, setShowSystemPromptSettings] = useState(false);
+  const [showSearchEngineSettings, setShowSearchEngineSettings] = useState(false);
+  const [showSiteSettings, setShowSiteSettings] = useState(false);
+  const [showContentBlockerSettings, setShowContentBlockerSettings] = useState(false);
+  const [showAIPrivacySettings, setShowAIPrivacySettings] = useState(false);
+  const [showContainerSettings, setShowContainerSettings] = useState(false);
+  const [showSavedSessions, setShowSavedSessions] = useState(false);
   const [showDownloadDropdown, setShowDownloadDropdown] = useState(false);
+  const [showPopupDropdown, setShowPopupDropdown] = useState(false);
   const [activeDownloadsCount, setActiveDownloadsCount] = useState(0);
   const downloadButtonRef = useRef<React.ElementRef<'button'>>(null);
+  const popupButtonRef = useRef<React.ElementRef<'button'>>(null);
+
+  const activeTab = tabs.find((t) => t.id === activeTabId);
+  const blockedPopupCount = activeTab?.blockedPopups?.length || 0;
+  const hasBlockedPopups = blockedPopupCount > 0;
+  const blockedRequestCount = activeTab?.blockedRequests || 0;
+
+  // Close the pop-up list once the page navigates away or the tab changes
+  useEffect(() => {
+    setShowPopupDropdown(false);
+  }, [activeTabId, hasBlockedPopups]);
 
   // Sync inputValue with currentUrl when not focused (for tab changes)
   useEffect(() => {
@@ -56,6 +103,13 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
     }
   }, [currentUrl, isFocused]);
 
+  // Load search engines for keyword triggers and suggestions
+  useEffect(() => {
+    if (!enginesLoaded) {
+      loadEngines();
+    }
+  }, [enginesLoaded, loadEngines]);
+
   // Check bookmark status when URL changes
   useEffect(() => {
     if (currentUrl) {
@@ -151,6 +205,20 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
     };
   }, [defaultModel, isChatOpen, toggleChat, sendChatMessage, setCurrentModel]);
 
+  // Turn content blocking off for the current site and reload without it
+  const handleAllowAds = async () => {
+    if (!activeTab) return;
+
+    try {
+      const origin = new URL(activeTab.url).origin;
+      await window.electron.invoke('sitePermissions:set', origin, 'ads', 'allow', activeTab.id);
+      updateTab(activeTab.id, { blockedRequests: 0 });
+      browserWindowRef.current?.reload();
+    } catch (err) {
+      console.error('Failed to allow ads on this site:', err);
+    }
+  };
+
   const handleToggleBookmark = async () => {
     if (!currentUrl) return;
 
@@ -179,54 +247,103 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
   // Fetch suggestions when input changes
   useEffect(() => {
     if (isFocused && inputValue.length > 1) {
-      browserDataService
-        .searchHistory(inputValue, 10)
-        .then((results) => {
+      let cancelled = false;
+
+      // Search suggestions come from the keyword's engine, or the default engine
+      const keywordQuery = parseKeywordQuery(inputValue, engines);
+      const engine = keywordQuery?.engine || getDefaultEngine();
+      const searchQuery = keywordQuery?.query || inputValue;
+      const fetchSearchSuggestions: Promise<string[]> =
+        suggestionsEnabled && engine?.suggestUrl
+          ? window.electron.invoke('searchEngine:suggest', searchQuery, engine.id)
+          : Promise.resolve([]);
+
+      Promise.all([
+        browserDataService.searchHistory(inputValue, 20),
+        browserDataService.searchBookmarks(inputValue, 10),
+        fetchSearchSuggestions.catch(() => []),
+      ])
+        .then(([history, bookmarks, searchSuggestions]) => {
+          if (cancelled) return;
           setSuggestions(
-            results.map((r) => ({
-              url: r.url,
-              title: r.title,
-              visitCount: r.visitCount,
-            }))
+            rankOmniboxSuggestions({
+              query: inputValue,
+              history,
+              bookmarks,
+              tabs,
+              activeTabId,
+              searchSuggestions: searchSuggestions.map((suggestion) => ({
+                title: suggestion,
+                url: buildSearchUrl(engine!.searchUrl, suggestion),
+                searchEngine: engine!.name,
+              })),
+              includeAskAI: !!defaultModel,
+            })
           );
           setSelectedSuggestionIndex(-1);
         })
         .catch((err) => console.error('Failed to fetch suggestions:', err));
+
+      return () => {
+        cancelled = true;
+      };
     } else {
       setSuggestions([]);
       setSelectedSuggestionIndex(-1);
     }
-  }, [inputValue, isFocused]);
+  }, [
+    inputValue,
+    isFocused,
+    engines,
+    suggestionsEnabled,
+    getDefaultEngine,
+    tabs,
+    activeTabId,
+    defaultModel,
+  ]);
+
+  // Send typed text to the AI chat with the default model
+  const askAI = async (text: string) => {
+    if (!defaultModel) return;
+
+    // Set the current model for the chat
+    setCurrentModel(defaultModel);
+
+    // Open chat if not already open
+    if (!isChatOpen) {
+      toggleChat();
+    }
+
+    // Send the query to AI
+    await sendChatMessage(text);
+    setInputValue('');
+    (document.activeElement as HTMLInputElement)?.blur();
+  };
 
   const handleNavigate = async () => {
     if (!inputValue.trim()) return;
 
     let url = inputValue.trim();
+    const keywordQuery = parseKeywordQuery(url, engines);
 
-    // Add protocol if missing
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      // Check if it looks like a URL
+    if (keywordQuery) {
+      // Keyword trigger, e.g. "gh react hooks"
+      url = buildSearchUrl(keywordQuery.engine.searchUrl, keywordQuery.query);
+    } else if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      // Add protocol if missing - check if it looks like a URL
       if (url.includes('.') && !url.includes(' ')) {
         url = 'https://' + url;
-      } else {
-        // Treat as AI prompt - send to chat
-        if (!defaultModel) {
+      } else if (!defaultModel) {
+        // No model to ask, so search with the default engine instead
+        const engine = getDefaultEngine();
+        if (!engine) {
           alert('Please select a default model first to use AI chat');
           return;
         }
-
-        // Set the current model for the chat
-        setCurrentModel(defaultModel);
-
-        // Open chat if not already open
-        if (!isChatOpen) {
-          toggleChat();
-        }
-
-        // Send the query to AI
-        await sendChatMessage(url);
-        setInputValue('');
-        (document.activeElement as HTMLInputElement)?.blur();
+        url = buildSearchUrl(engine.searchUrl, url);
+      } else {
+        // Treat as AI prompt - send to chat
+        await askAI(url);
         return;
       }
     }
@@ -244,15 +361,8 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       if (selectedSuggestionIndex >= 0 && suggestions[selectedSuggestionIndex]) {
-        // Navigate to selected suggestion
-        const url = suggestions[selectedSuggestionIndex].url;
-        setCurrentUrl(url);
-        // Also update the active tab's URL to trigger navigation
-        if (activeTabId) {
-          updateTab(activeTabId, { url });
-        }
-        setInputValue('');
-        setSuggestions([]);
+        // Open selected suggestion
+        handleSuggestionClick(suggestions[selectedSuggestionIndex]);
         (e.target as HTMLInputElement).blur();
       } else {
         handleNavigate();
@@ -298,15 +408,27 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
     }, 200);
   };
 
-  const handleSuggestionClick = (url: string) => {
+  const handleSuggestionClick = (suggestion: OmniboxSuggestion) => {
+    setSuggestions([]);
+    setIsFocused(false);
+
+    if (suggestion.type === 'ask-ai') {
+      askAI(suggestion.title);
+      return;
+    }
+
+    setInputValue('');
+    if (suggestion.type === 'tab' && suggestion.tabId) {
+      setActiveTab(suggestion.tabId);
+      return;
+    }
+
+    const url = suggestion.url!;
     setCurrentUrl(url);
     // Also update the active tab's URL to trigger navigation
     if (activeTabId) {
       updateTab(activeTabId, { url });
     }
-    setInputValue('');
-    setSuggestions([]);
-    setIsFocused(false);
   };
 
   const handleBack = () => {
@@ -418,6 +540,35 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
   const hasUrl = !!currentUrl;
 
   const menuItems: ContextMenuItem[] = [
+    {
+      label: 'New Private Tab',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+          />
+        </svg>
+      ),
+      onClick: () => addTab('', { isPrivate: true }),
+    },
+    {
+      label: 'Saved Sessions',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10"
+          />
+        </svg>
+      ),
+      onClick: () => setShowSavedSessions(true),
+    },
+    { label: '', separator: true, onClick: () => {} },
     {
       label: 'Ask AI about this page',
       icon: (
@@ -484,6 +635,76 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
       ),
       onClick: () => setShowSystemPromptSettings(true),
     },
+    {
+      label: 'Search Engines',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+          />
+        </svg>
+      ),
+      onClick: () => setShowSearchEngineSettings(true),
+    },
+    {
+      label: 'Site Settings',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+          />
+        </svg>
+      ),
+      onClick: () => setShowSiteSettings(true),
+    },
+    {
+      label: 'Content Blocking',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+      ),
+      onClick: () => setShowContentBlockerSettings(true),
+    },
+    {
+      label: 'AI Privacy',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+          />
+        </svg>
+      ),
+      onClick: () => setShowAIPrivacySettings(true),
+    },
+    {
+      label: 'Containers',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+          />
+        </svg>
+      ),
+      onClick: () => setShowContainerSettings(true),
+    },
     {
       label: 'Downloads',
       icon: (
@@ -754,8 +975,8 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
             <div className="absolute top-full left-0 right-0 mt-1 bg-card border border-border rounded-lg shadow-lg max-h-96 overflow-y-auto z-50">
               {suggestions.map((suggestion, index) => (
                 <div
-                  key={`${suggestion.url}-${index}`}
-                  onClick={() => handleSuggestionClick(suggestion.url)}
+                  key={`${suggestion.type}-${suggestion.url}-${index}`}
+                  onClick={() => handleSuggestionClick(suggestion)}
                   className={`px-4 py-2 cursor-pointer transition-colors ${
                     index === selectedSuggestionIndex ? 'bg-accent' : 'hover:bg-accent'
                   }`}
@@ -771,12 +992,24 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
                         strokeLinecap="round"
                         strokeLinejoin="round"
                         strokeWidth={2}
-                        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                        d={SUGGESTION_ICONS[suggestion.type]}
                       />
                     </svg>
                     <div className="flex-1 min-w-0">
-                      <div className="text-sm font-medium truncate">{suggestion.title}</div>
-                      <div className="text-xs text-muted-foreground truncate">{suggestion.url}</div>
+                      <div className="text-sm font-medium truncate">
+                        {suggestion.type === 'ask-ai'
+                          ? `Ask AI: ${suggestion.title}`
+                          : suggestion.title}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {suggestion.type === 'search'
+                          ? `Search ${suggestion.searchEngine}`
+                          : suggestion.type === 'tab'
+                            ? `Switch to tab · ${suggestion.url}`
+                            : suggestion.type === 'ask-ai'
+                              ? 'Open in chat'
+                              : suggestion.url}
+                      </div>
                       {suggestion.visitCount && suggestion.visitCount > 1 && (
                         <div className="text-xs text-muted-foreground">
                           Visited {suggestion.visitCount} times
@@ -790,6 +1023,53 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
           )}
         </div>
 
+        {/* Pop-up Blocked Indicator - only show when the page tried to open windows */}
+        {activeTab && hasBlockedPopups && (
+          <div className="relative">
+            <button
+              ref={popupButtonRef}
+              onClick={() => setShowPopupDropdown(!showPopupDropdown)}
+              className="flex items-center gap-1 px-2 py-1 bg-accent rounded text-xs font-medium text-foreground hover:bg-accent/80 transition-colors"
+              title="Pop-ups blocked on this page"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+                />
+              </svg>
+              <span>{blockedPopupCount}</span>
+            </button>
+            <PopupBlockedDropdown
+              isOpen={showPopupDropdown}
+              onClose={() => setShowPopupDropdown(false)}
+              anchorRef={popupButtonRef}
+              tab={activeTab}
+            />
+          </div>
+        )}
+
+        {/* Blocked Requests Indicator - only show when ads or trackers were blocked */}
+        {blockedRequestCount > 0 && (
+          <button
+            onClick={handleAllowAds}
+            className="flex items-center gap-1 px-2 py-1 bg-accent rounded text-xs font-medium text-foreground hover:bg-accent/80 transition-colors"
+            title={`${blockedRequestCount} ads and trackers blocked. Click to allow them on this site`}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+              />
+            </svg>
+            <span>{blockedRequestCount}</span>
+          </button>
+        )}
+
         {/* Zoom Indicator - only show when zoom is not 100% */}
         {zoomLevel !== 100 && (
           <div
@@ -966,6 +1246,36 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({ browserWindowRef }
         onClose={() => setShowSystemPromptSettings(false)}
       />
 
+      {/* Search Engine Settings Modal */}
+      <SearchEngineSettings
+        isOpen={showSearchEngineSettings}
+        onClose={() => setShowSearchEngineSettings(false)}
+      />
+
+      {/* Site Settings Modal */}
+      <SiteSettings isOpen={showSiteSettings} onClose={() => setShowSiteSettings(false)} />
+
+      {/* Content Blocker Settings Modal */}
+      <ContentBlockerSettings
+        isOpen={showContentBlockerSettings}
+        onClose={() => setShowContentBlockerSettings(false)}
+      />
+
+      {/* AI Privacy Settings Modal */}
+      <AIPrivacySettings
+        isOpen={showAIPrivacySettings}
+        onClose={() => setShowAIPrivacySettings(false)}
+      />
+
+      {/* Container Settings Modal */}
+      <ContainerSettings
+        isOpen={showContainerSettings}
+        onClose={() => setShowContainerSettings(false)}
+      />
+
+      {/* Saved Sessions Modal */}
+      <SavedSessions isOpen={showSavedSessions} onClose={() => setShowSavedSessions(false)} />
+
       {/* Download Dropdown */}
       <DownloadDropdown
         isOpen={showDownloadDropdown}
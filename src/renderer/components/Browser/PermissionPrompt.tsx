@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { useTabsStore } from '../../store/tabs';
+import { describePermissions } from '../../../shared/sitePermissions';
+import type { SitePermissionPrompt } from '../../../shared/types';
+
+/**
+ * Bar asking whether a site may use a permission it requested.
+ * Shown below the page while the tab that asked is active.
+ */
+export const PermissionPrompt: React.FC = () => {
+  const { activeTabId } = useTabsStore();
+  const [prompts, setPrompts] = useState<SitePermissionPrompt[]>([]);
+
+  useEffect(() => {
+    window.electron
+      .invoke('sitePermissions:getPending')
+      .then((pending: SitePermissionPrompt[]) => setPrompts(pending))
+      .catch(console.error);
+
+    const unsubscribePrompt = window.electron.on(
+      'sitePermissions:prompt',
+      (prompt: SitePermissionPrompt) => setPrompts((current) => [...current, prompt])
+    );
+    const unsubscribeClosed = window.electron.on(
+      'sitePermissions:promptClosed',
+      ({ id }: { id: string }) => setPrompts((current) => current.filter((p) => p.id !== id))
+    );
+
+    return () => {
+      unsubscribePrompt();
+      unsubscribeClosed();
+    };
+  }, []);
+
+  const prompt = prompts.find((p) => p.tabId === activeTabId);
+  if (!prompt) return null;
+
+  const respond = async (decision: 'allow' | 'block' | 'dismiss') => {
+    try {
+      await window.electron.invoke('sitePermissions:respond', prompt.id, decision);
+    } catch (error) {
+      console.error('Failed to answer permission request:', error);
+    }
+    setPrompts((current) => current.filter((p) => p.id !== prompt.id));
+  };
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-50 bg-card border-t border-border shadow-lg">
+      <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+        <svg
+          className="w-4 h-4 text-primary flex-shrink-0"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+          />
+        </svg>
+        <span className="flex-1 min-w-0 truncate">
+          <span className="font-medium">{new URL(prompt.origin).host}</span> wants to{' '}
+          {describePermissions(prompt.permissions)}
+        </span>
+        <button
+          onClick={() => respond('block')}
+          className="px-3 py-1 text-sm border border-border rounded hover:bg-accent transition-colors"
+        >
+          Block
+        </button>
+        <button
+          onClick={() => respond('allow')}
+          className="px-3 py-1 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+        >
+          Allow
+        </button>
+        <button
+          onClick={() => respond('dismiss')}
+          className="p-1 hover:bg-accent rounded transition-colors"
+          title="Ask again next time"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTabsStore } from '../../store/tabs';
+import type { Tab } from '../../../shared/types';
+
+interface PopupBlockedDropdownProps {
+  isOpen: boolean;
+  onClose: () => void;
+  anchorRef: React.RefObject<React.ElementRef<'button'> | null>;
+  tab: Tab;
+}
+
+export const PopupBlockedDropdown: React.FC<PopupBlockedDropdownProps> = ({
+  isOpen,
+  onClose,
+  anchorRef,
+  tab,
+}) => {
+  const { addTab, updateTab } = useTabsStore();
+  const [error, setError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const blockedPopups = tab.blockedPopups || [];
+  let origin: string | null = null;
+  try {
+    origin = new URL(tab.url).origin;
+  } catch {
+    // Blank or invalid URL, nothing to allow
+  }
+
+  // Hide the active tab view so the dropdown isn't drawn behind it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen]);
+
+  // Handle click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node) &&
+        anchorRef.current &&
+        !anchorRef.current.contains(event.target as Node)
+      ) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen, onClose, anchorRef]);
+
+  const handleOpen = (url: string) => {
+    const remaining = blockedPopups.filter((u) => u !== url);
+    updateTab(tab.id, { blockedPopups: remaining });
+    addTab(url, { isPrivate: tab.isPrivate, containerId: tab.containerId });
+    if (remaining.length === 0) {
+      onClose();
+    }
+  };
+
+  const handleAlwaysAllow = async () => {
+    if (!origin) return;
+
+    try {
+      await window.electron.invoke('sitePermissions:set', origin, 'popups', 'allow', tab.id);
+      updateTab(tab.id, { blockedPopups: [] });
+      blockedPopups.forEach((url) =>
+        addTab(url, { isPrivate: tab.isPrivate, containerId: tab.containerId })
+      );
+      onClose();
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) || 'Failed to allow pop-ups'
+      );
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      ref={dropdownRef}
+      className="absolute right-0 top-full mt-2 z-[1000] w-96 bg-card border border-border rounded-lg shadow-xl animate-in fade-in slide-in-from-top-2 duration-200"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-border">
+        <h3 className="font-semibold text-sm">Pop-ups blocked</h3>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          This page tried to open {blockedPopups.length === 1 ? 'a window' : 'windows'} without a
+          click.
+        </p>
+      </div>
+
+      {/* Blocked URLs */}
+      <div className="max-h-64 overflow-y-auto py-1">
+        {blockedPopups.map((url) => (
+          <button
+            key={url}
+            onClick={() => handleOpen(url)}
+            className="w-full px-4 py-1.5 text-left text-xs font-mono truncate hover:bg-accent transition-colors"
+            title={`Open ${url} in a new tab`}
+          >
+            {url}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="px-4 pb-2 text-xs text-destructive">{error}</p>}
+
+      {/* Footer */}
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-border">
+        <button
+          onClick={handleAlwaysAllow}
+          disabled={!origin}
+          className="px-2 py-1 text-xs bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50 truncate"
+          title={origin ? `Always allow pop-ups from ${origin}` : undefined}
+        >
+          Always allow on this site
+        </button>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-xs bg-secondary hover:bg-secondary/80 rounded transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,105 @@
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useTabsStore } from '../../store/tabs';
+import { useContainerStore } from '../../store/containers';
+import { ContainerTabDropdown } from './ContainerTabDropdown';
+import { ContextMenu, ContextMenuItem } from './ContextMenu';
+import { TabGroupEditor } from './TabGroupEditor';
+import { CONTAINER_COLORS } from '../../../shared/containers';
+import { TAB_GROUP_COLORS } from '../../../shared/tabGroups';
+import type { Tab, TabGroup } from '../../../shared/types';
+
+// Crossed-out eye shown for private tabs
+const PrivateIcon: React.FC<{ className: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+    />
+  </svg>
+);
+
+// Group label shown before the first tab of a group; collapsed groups show their tab count
+const TabGroupChip: React.FC<{
+  group: TabGroup;
+  tabCount: number;
+  onClick: () => void;
+  onContextMenu: (e: React.MouseEvent) => void;
+  onDrop: () => void;
+}> = ({ group, tabCount, onClick, onContextMenu, onDrop }) => (
+  <button
+    onClick={onClick}
+    onContextMenu={onContextMenu}
+    onDragOver={(e) => e.preventDefault()}
+    onDrop={onDrop}
+    className={`flex-shrink-0 flex items-center gap-1 mx-1 px-2 py-0.5 rounded text-xs font-medium text-white max-w-[160px] ${
+      group.name.trim() ? '' : 'min-w-[12px] min-h-[12px]'
+    }`}
+    style={{ backgroundColor: TAB_GROUP_COLORS[group.color] }}
+    title={`${group.name.trim() || 'Unnamed group'}: click to ${
+      group.collapsed ? 'expand' : 'collapse'
+    }, right-click to edit`}
+  >
+    <span className="truncate">{group.name.trim()}</span>
+    {group.collapsed && <span className="opacity-80">{tabCount}</span>}
+  </button>
+);
 
 export const TabBar: React.FC = () => {
-  const { tabs, activeTabId, setActiveTab, closeTab, addTab } = useTabsStore();
+  const {
+    tabs,
+    groups,
+    activeTabId,
+    selectedTabIds,
+    setActiveTab,
+    closeTab,
+    addTab,
+    moveTab,
+    selectTab,
+    clearSelection,
+    createGroup,
+    toggleGroupCollapsed,
+  } = useTabsStore();
+  const { isLoaded: containersLoaded, loadContainers, getContainer } = useContainerStore();
+  const [showContainerDropdown, setShowContainerDropdown] = useState(false);
+  const containerButtonRef = useRef<React.ElementRef<'button'>>(null);
+  const [tabMenu, setTabMenu] = useState<{ tabId: string; x: number; y: number } | null>(null);
+  const [groupEditor, setGroupEditor] = useState<{ groupId: string; x: number; y: number } | null>(
+    null
+  );
+  const [draggedTabId, setDraggedTabId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!containersLoaded) {
+      loadContainers();
+    }
+  }, [containersLoaded, loadContainers]);
+
+  // Hide the active tab view so menus opened from the tab strip aren't drawn behind it
+  const isOverlayOpen = tabMenu !== null || groupEditor !== null;
+  useEffect(() => {
+    if (!isOverlayOpen) return;
 
-  const handleTabClick = (tabId: string) => {
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOverlayOpen]);
+
+  const editedGroup = groups.find((g) => g.id === groupEditor?.groupId);
+
+  const handleTabClick = (tabId: string, e: React.MouseEvent) => {
+    // Ctrl/Cmd-click picks single tabs and Shift-click a range, e.g. to group them
+    if (e.ctrlKey || e.metaKey) {
+      selectTab(tabId, 'toggle');
+      return;
+    }
+    if (e.shiftKey) {
+      selectTab(tabId, 'range');
+      return;
+    }
+    clearSelection();
     setActiveTab(tabId);
   };
 
@@ -17,88 +112,300 @@ export const TabBar: React.FC = () => {
     addTab();
   };
 
+  const handleNewPrivateTab = () => {
+    addTab('', { isPrivate: true });
+  };
+
+  const openGroupEditor = (groupId: string, x: number, y: number) => {
+    setTabMenu(null);
+    setGroupEditor({ groupId, x, y });
+  };
+
+  const handleGroupContextMenu = (groupId: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    openGroupEditor(groupId, rect.left, rect.bottom + 4);
+  };
+
+  // Where a tab lands when dropped on a group label: in front of the group's first tab
+  const getGroupStartIndex = (groupId: string, fromIndex: number) => {
+    const firstIndex = tabs.findIndex((t) => t.groupId === groupId);
+    return fromIndex < firstIndex ? firstIndex - 1 : firstIndex;
+  };
+
+  const handleDropOnTab = (target: Tab) => {
+    const fromIndex = tabs.findIndex((t) => t.id === draggedTabId);
+    const toIndex = tabs.findIndex((t) => t.id === target.id);
+    setDraggedTabId(null);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+    // Dropped on a tab, the tab joins that tab's group (or leaves its own)
+    moveTab(fromIndex, toIndex, target.groupId ?? null);
+  };
+
+  const handleDropOnGroup = (groupId: string) => {
+    const fromIndex = tabs.findIndex((t) => t.id === draggedTabId);
+    setDraggedTabId(null);
+    if (fromIndex === -1) return;
+    moveTab(fromIndex, getGroupStartIndex(groupId, fromIndex), groupId);
+  };
+
+  // Dropped after the last tab, the tab moves to the end outside any group
+  const handleDropAtEnd = () => {
+    const fromIndex = tabs.findIndex((t) => t.id === draggedTabId);
+    setDraggedTabId(null);
+    if (fromIndex === -1) return;
+    moveTab(fromIndex, tabs.length - 1, null);
+  };
+
+  const getTabMenuItems = (tabId: string): ContextMenuItem[] => {
+    const index = tabs.findIndex((t) => t.id === tabId);
+    const tab = tabs[index];
+    if (!tab) return [];
+
+    // The menu acts on the selection when the tab is part of it
+    const targetIds =
+      selectedTabIds.length > 1 && selectedTabIds.includes(tabId) ? selectedTabIds : [tabId];
+    const items: ContextMenuItem[] = [
+      {
+        label:
+          targetIds.length > 1 ? `Add ${targetIds.length} tabs to new group` : 'Add to new group',
+        onClick: () => {
+          const groupId = createGroup(targetIds);
+          if (groupId) {
+            openGroupEditor(groupId, tabMenu?.x ?? 0, tabMenu?.y ?? 0);
+          }
+        },
+      },
+    ];
+
+    for (const group of groups) {
+      if (group.id === tab.groupId) continue;
+      items.push({
+        label: `Move to "${group.name.trim() || 'Unnamed group'}"`,
+        onClick: () => moveTab(index, getGroupStartIndex(group.id, index), group.id),
+      });
+    }
+
+    if (tab.groupId) {
+      // Out of the group, right after its last tab
+      const lastIndex = tabs.map((t) => t.groupId).lastIndexOf(tab.groupId);
+      items.push({
+        label: 'Remove from group',
+        onClick: () => moveTab(index, lastIndex, null),
+      });
+    }
+
+    items.push(
+      { label: '', separator: true, onClick: () => {} },
+      { label: 'Close tab', onClick: () => closeTab(tabId) }
+    );
+    return items;
+  };
+
+  // The whole bar is tinted while a private tab is in front
+  const isPrivateActive = tabs.some((tab) => tab.id === activeTabId && tab.isPrivate);
+
   return (
-    <div className="flex items-center bg-card border-b border-border overflow-x-auto">
-      {/* Tabs */}
-      <div className="flex items-center overflow-x-auto scrollbar-hide">
-        {tabs.map((tab) => (
-          <div
-            key={tab.id}
-            onClick={() => handleTabClick(tab.id)}
-            className={`group flex items-center gap-2 px-4 py-2 border-r border-border cursor-pointer transition-colors min-w-[200px] max-w-[250px] ${
-              tab.id === activeTabId ? 'bg-background' : 'hover:bg-accent/50'
-            } ${tab.isSuspended ? 'opacity-60' : ''}`}
-          >
-            {/* Favicon or icon */}
-            {tab.favicon ? (
-              <img src={tab.favicon} alt="" className="w-4 h-4 flex-shrink-0" />
-            ) : (
-              <svg
-                className="w-4 h-4 flex-shrink-0 text-muted-foreground"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
-            )}
-
-            {/* Title with suspended indicator */}
-            <span className="flex-1 text-sm truncate flex items-center gap-1">
-              {tab.isSuspended && (
-                <svg
-                  className="w-3 h-3 flex-shrink-0 text-muted-foreground"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z"
-                  />
-                </svg>
-              )}
-              {tab.title || tab.url || 'New Tab'}
-            </span>
-
-            {/* Close button - only show if there's more than one tab */}
-            {tabs.length > 1 && (
-              <button
-                onClick={(e) => handleCloseTab(tab.id, e)}
-                className="p-1 rounded hover:bg-destructive/10 hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
-                title="Close tab"
-              >
-                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M6 18L18 6M6 6l12 12"
+    // The dropdown sits outside the scrolling bar so it isn't clipped
+    <div className="relative">
+      <div
+        className={`flex items-center border-b overflow-x-auto ${
+          isPrivateActive ? 'bg-purple-950/40 border-purple-500/40' : 'bg-card border-border'
+        }`}
+      >
+        {/* Tabs */}
+        <div className="flex items-center overflow-x-auto scrollbar-hide">
+          {tabs.map((tab, index) => {
+            // Tabs of a deleted container are shown like any other tab
+            const container = tab.isPrivate ? undefined : getContainer(tab.containerId);
+            const group = groups.find((g) => g.id === tab.groupId);
+            const isGroupStart = group && tabs[index - 1]?.groupId !== group.id;
+            // The active tab stays visible in a collapsed group
+            const isHidden = group?.collapsed && tab.id !== activeTabId;
+            const isSelected = selectedTabIds.length > 1 && selectedTabIds.includes(tab.id);
+            return (
+              <React.Fragment key={tab.id}>
+                {group && isGroupStart && (
+                  <TabGroupChip
+                    group={group}
+                    tabCount={tabs.filter((t) => t.groupId === group.id).length}
+                    onClick={() => toggleGroupCollapsed(group.id)}
+                    onContextMenu={(e) => handleGroupContextMenu(group.id, e)}
+                    onDrop={() => handleDropOnGroup(group.id)}
                   />
-                </svg>
-              </button>
-            )}
-          </div>
-        ))}
+                )}
+                {!isHidden && (
+                  <div
+                    onClick={(e) => handleTabClick(tab.id, e)}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      setGroupEditor(null);
+                      setTabMenu({ tabId: tab.id, x: e.clientX, y: e.clientY });
+                    }}
+                    draggable
+                    onDragStart={() => setDraggedTabId(tab.id)}
+                    onDragEnd={() => setDraggedTabId(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDropOnTab(tab)}
+                    title={
+                      tab.isPrivate
+                        ? 'Private tab'
+                        : container
+                          ? `${container.name} container`
+                          : undefined
+                    }
+                    className={`group flex items-center gap-2 px-4 py-2 border-r border-border cursor-pointer transition-colors min-w-[200px] max-w-[250px] ${
+                      tab.id === activeTabId ? 'bg-background' : 'hover:bg-accent/50'
+                    } ${tab.isSuspended ? 'opacity-60' : ''} ${
+                      tab.isPrivate
+                        ? 'border-t-2 border-t-purple-500'
+                        : container
+                          ? 'border-t-2'
+                          : ''
+                    } ${group ? 'border-b-2' : ''} ${
+                      isSelected && tab.id !== activeTabId ? 'bg-accent' : ''
+                    } ${tab.id === draggedTabId ? 'opacity-40' : ''}`}
+                    style={{
+                      borderTopColor: container ? CONTAINER_COLORS[container.color] : undefined,
+                      borderBottomColor: group ? TAB_GROUP_COLORS[group.color] : undefined,
+                    }}
+                  >
+                    {/* Favicon or icon */}
+                    {tab.isPrivate && !tab.favicon ? (
+                      <PrivateIcon className="w-4 h-4 flex-shrink-0 text-purple-400" />
+                    ) : tab.favicon ? (
+                      <img src={tab.favicon} alt="" className="w-4 h-4 flex-shrink-0" />
+                    ) : (
+                      <svg
+                        className="w-4 h-4 flex-shrink-0 text-muted-foreground"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                        />
+                      </svg>
+                    )}
+
+                    {/* Title with suspended indicator */}
+                    <span className="flex-1 text-sm truncate flex items-center gap-1">
+                      {tab.isSuspended && (
+                        <svg
+                          className="w-3 h-3 flex-shrink-0 text-muted-foreground"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                          />
+                        </svg>
+                      )}
+                      {tab.title || tab.url || 'New Tab'}
+                    </span>
+
+                    {/* Close button - only show if there's more than one tab */}
+                    {tabs.length > 1 && (
+                      <button
+                        onClick={(e) => handleCloseTab(tab.id, e)}
+                        className="p-1 rounded hover:bg-destructive/10 hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
+                        title="Close tab"
+                      >
+                        <svg
+                          className="w-3 h-3"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        {/* Drop target after the last tab */}
+        <div
+          className="flex-1 self-stretch min-w-[24px]"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDropAtEnd}
+        />
+
+        {/* New Container Tab Button */}
+        <button
+          ref={containerButtonRef}
+          onClick={() => setShowContainerDropdown(!showContainerDropdown)}
+          className="flex-shrink-0 p-2 hover:bg-accent transition-colors border-l border-border"
+          title="New container tab"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+            />
+          </svg>
+        </button>
+
+        {/* New Private Tab Button */}
+        <button
+          onClick={handleNewPrivateTab}
+          className="flex-shrink-0 p-2 hover:bg-accent transition-colors border-l border-border text-purple-400"
+          title="New private tab (Ctrl+Shift+N)"
+        >
+          <PrivateIcon className="w-4 h-4" />
+        </button>
+
+        {/* New Tab Button */}
+        <button
+          onClick={handleNewTab}
+          className="flex-shrink-0 p-2 hover:bg-accent transition-colors border-l border-border"
+          title="New tab (Ctrl+T)"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
       </div>
 
-      {/* New Tab Button */}
-      <button
-        onClick={handleNewTab}
-        className="flex-shrink-0 p-2 hover:bg-accent transition-colors border-l border-border"
-        title="New tab (Ctrl+T)"
-      >
-        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-        </svg>
-      </button>
+      {tabMenu && (
+        <ContextMenu
+          items={getTabMenuItems(tabMenu.tabId)}
+          position={{ x: tabMenu.x, y: tabMenu.y }}
+          onClose={() => setTabMenu(null)}
+        />
+      )}
+
+      {editedGroup && groupEditor && (
+        <TabGroupEditor
+          group={editedGroup}
+          position={{ x: groupEditor.x, y: groupEditor.y }}
+          onClose={() => setGroupEditor(null)}
+        />
+      )}
+
+      <ContainerTabDropdown
+        isOpen={showContainerDropdown}
+        onClose={() => setShowContainerDropdown(false)}
+        anchorRef={containerButtonRef}
+      />
     </div>
   );
 };
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTabsStore } from '../../store/tabs';
+import { useTabSessionStore } from '../../store/tabSessions';
+import {
+  MAX_TAB_GROUP_NAME_LENGTH,
+  TAB_GROUP_COLORS,
+  TAB_GROUP_COLOR_NAMES,
+} from '../../../shared/tabGroups';
+import type { TabGroup } from '../../../shared/types';
+
+interface TabGroupEditorProps {
+  group: TabGroup;
+  position: { x: number; y: number };
+  onClose: () => void;
+}
+
+export const TabGroupEditor: React.FC<TabGroupEditorProps> = ({ group, position, onClose }) => {
+  const { updateGroup, ungroup, closeGroup } = useTabsStore();
+  const { sessions, isLoaded, loadSessions, saveSession } = useTabSessionStore();
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      loadSessions();
+    }
+  }, [isLoaded, loadSessions]);
+
+  // Handle click outside and Escape
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (editorRef.current && !editorRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  const handleSaveSession = async () => {
+    const sessionName = group.name.trim() || 'Untitled group';
+    const exists = sessions.some((s) => s.name.toLowerCase() === sessionName.toLowerCase());
+    if (exists && !confirm(`Replace the saved session "${sessionName}"?`)) return;
+
+    try {
+      setError(null);
+      await saveSession(sessionName, [group.id]);
+      setStatus(`Saved as "${sessionName}"`);
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) || 'Failed to save session'
+      );
+    }
+  };
+
+  return (
+    <div
+      ref={editorRef}
+      className="fixed z-[1000] w-72 bg-card border border-border rounded-lg shadow-xl p-3 space-y-3"
+      style={{ left: position.x, top: position.y }}
+    >
+      {/* The name is saved as it is typed */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      >
+        <input
+          type="text"
+          value={group.name}
+          onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+          placeholder="Name this group"
+          maxLength={MAX_TAB_GROUP_NAME_LENGTH}
+          autoFocus
+          className="w-full px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {TAB_GROUP_COLOR_NAMES.map((color) => (
+          <button
+            key={color}
+            onClick={() => updateGroup(group.id, { color })}
+            className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${
+              group.color === color ? 'ring-2 ring-offset-2 ring-offset-card ring-primary' : ''
+            }`}
+            style={{ backgroundColor: TAB_GROUP_COLORS[color] }}
+            title={color}
+          />
+        ))}
+      </div>
+
+      <div className="border-t border-border pt-2 flex flex-col">
+        <button
+          onClick={handleSaveSession}
+          className="px-2 py-1.5 text-left text-sm hover:bg-accent rounded transition-colors"
+        >
+          Save group as session
+        </button>
+        <button
+          onClick={() => {
+            ungroup(group.id);
+            onClose();
+          }}
+          className="px-2 py-1.5 text-left text-sm hover:bg-accent rounded transition-colors"
+        >
+          Ungroup
+        </button>
+        <button
+          onClick={() => {
+            onClose();
+            closeGroup(group.id);
+          }}
+          className="px-2 py-1.5 text-left text-sm text-destructive hover:bg-destructive/10 rounded transition-colors"
+        >
+          Close group
+        </button>
+      </div>
+
+      {status && <p className="text-xs text-muted-foreground">{status}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
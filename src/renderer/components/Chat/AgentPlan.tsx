@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useChatStore, AgentStep, AgentRun } from '../../store/chat';
+
+const RUN_STATUS_LABELS: Record<AgentRun['status'], string> = {
+  running: 'Working',
+  completed: 'Completed',
+  budget_exhausted: 'Step limit reached',
+  aborted: 'Stopped',
+  failed: 'Failed',
+};
+
+const StepIcon: React.FC<{ status: AgentStep['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return (
+        <svg className="w-3.5 h-3.5 text-primary animate-spin" fill="none" viewBox="0 0 24 24">
+          <circle
+            className="opacity-25"
+            cx="12"
+            cy="12"
+            r="10"
+            stroke="currentColor"
+            strokeWidth="4"
+          />
+          <path
+            className="opacity-75"
+            fill="currentColor"
+            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+          />
+        </svg>
+      );
+    case 'done':
+      return (
+        <svg
+          className="w-3.5 h-3.5 text-green-400"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+      );
+    case 'failed':
+      return (
+        <svg
+          className="w-3.5 h-3.5 text-destructive"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      );
+    case 'awaiting_approval':
+      return (
+        <svg
+          className="w-3.5 h-3.5 text-yellow-500"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+      );
+    default:
+      return <span className="w-3.5 h-3.5 rounded-full border-2 border-muted-foreground/50" />;
+  }
+};
+
+/**
+ * Plan view for the agent loop: lists tool steps with their status
+ */
+export const AgentPlan: React.FC = () => {
+  const { agentRun, cancelGeneration, clearAgentRun } = useChatStore();
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (!agentRun || agentRun.steps.length === 0) return null;
+
+  const isRunning = agentRun.status === 'running';
+  const executedSteps = agentRun.steps.filter(
+    (s) => s.status === 'done' || (s.status === 'failed' && s.startedAt)
+  ).length;
+  const failedSteps = agentRun.steps.filter((s) => s.status === 'failed').length;
+  const duration = ((agentRun.finishedAt ?? agentRun.startedAt) - agentRun.startedAt) / 1000;
+
+  return (
+    <div className="mx-3 mb-2 border border-border rounded-lg bg-secondary/40 text-xs">
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 font-medium hover:text-primary transition-colors"
+        >
+          <svg
+            className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span>Plan</span>
+          <span className="text-muted-foreground font-normal">
+            {RUN_STATUS_LABELS[agentRun.status]} · {executedSteps}/{agentRun.maxSteps} steps
+          </span>
+        </button>
+        {isRunning ? (
+          <button
+            onClick={cancelGeneration}
+            className="px-2 py-0.5 text-destructive hover:bg-destructive/10 rounded transition-colors"
+            title="Stop the agent"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={clearAgentRun}
+            className="p-0.5 text-muted-foreground hover:text-foreground transition-colors"
+            title="Dismiss"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <ol className="px-3 pb-2 space-y-1 max-h-40 overflow-y-auto">
+          {agentRun.steps.map((step, index) => (
+            <li key={step.id} className="flex items-start gap-2">
+              <span className="mt-0.5 flex-shrink-0 flex items-center">
+                <StepIcon status={step.status} />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1">
+                  <span className="text-muted-foreground">{index + 1}.</span>
+                  <span className="font-mono truncate">{step.toolName}</span>
+                  {step.startedAt && step.finishedAt && (
+                    <span className="text-muted-foreground ml-auto flex-shrink-0">
+                      {((step.finishedAt - step.startedAt) / 1000).toFixed(1)}s
+                    </span>
+                  )}
+                </div>
+                {Object.keys(step.arguments).length > 0 && (
+                  <div className="text-[10px] text-muted-foreground truncate">
+                    {JSON.stringify(step.arguments)}
+                  </div>
+                )}
+                {step.error && <div className="text-[10px] text-destructive">{step.error}</div>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {!isRunning && (
+        <div className="px-3 py-1.5 border-t border-border text-muted-foreground">
+          {executedSteps} step{executedSteps === 1 ? '' : 's'} executed
+          {failedSteps > 0 && `, ${failedSteps} failed`} in {duration.toFixed(1)}s
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useChatStore, Message } from '../../store/chat';
 import { useBrowserStore } from '../../store/browser';
+import { useTabsStore } from '../../store/tabs';
 import { useModelStore } from '../../store/models';
 import { supportsVision, supportsToolCalling } from '../../../shared/modelRegistry';
+import { ConversationList } from './ConversationList';
+import { AgentPlan } from './AgentPlan';
+import { ToolApprovalPrompt } from './ToolApprovalPrompt';
+import { WITHHELD_MESSAGE } from '../../../shared/aiPrivacy';
+import { summarizeRedactions } from '../../../shared/redaction';
+import type { Redaction, SourceCitation } from '../../../shared/types';
+
+// Tool results for pages excluded in AI Privacy settings, returned or thrown
+function isWithheldResult(result: unknown): boolean {
+  if (typeof result !== 'object' || result === null) return false;
+  const { withheld, error } = result as { withheld?: unknown; error?: unknown };
+  return !!withheld || (typeof error === 'string' && error.includes(WITHHELD_MESSAGE));
+}
 
 // Helper function to get emoji for icon names
 function getIconEmoji(iconName: string): string {
@@ -32,6 +46,16 @@ function getIconEmoji(iconName: string): string {
   return iconMap[iconName] || '🤖';
 }
 
+// Bookmark sources retrieved for the question an assistant message answers
+function getAnswerSources(messages: Message[], index: number): SourceCitation[] | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return messages[i].contextInfo?.sources;
+    }
+  }
+  return undefined;
+}
+
 export const ChatSidebar: React.FC = () => {
   const {
     messages,
@@ -39,10 +63,16 @@ export const ChatSidebar: React.FC = () => {
     currentModel,
     error,
     planningMode,
+    bookmarkChatMode,
     setCurrentModel,
     setError,
     setPlanningMode,
+    setBookmarkChatMode,
     sendChatMessage,
+    clearMessages,
+    highlightedMessageId,
+    clearHighlightedMessage,
+    cancelGeneration,
   } = useChatStore();
   const {
     models,
@@ -52,19 +82,32 @@ export const ChatSidebar: React.FC = () => {
     setIsOllamaRunning,
     setIsModelManagerOpen,
   } = useModelStore();
-  const { isChatOpen, toggleChat } = useBrowserStore();
+  const { isChatOpen, toggleChat, currentUrl } = useBrowserStore();
   const [input, setInput] = useState('');
   const [attachedImages, setAttachedImages] = useState<string[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
-  const [includeContext, setIncludeContext] = useState(true); // User toggle for page context - enabled by default
+  // User toggle for page context - enabled by default, except in private tabs.
+  // The choice is kept per kind of tab, so going private turns it off again.
+  const isPrivateTab = useTabsStore((state) =>
+    state.tabs.some((tab) => tab.id === state.activeTabId && tab.isPrivate)
+  );
+  const [contextToggle, setContextToggle] = useState({ isPrivate: false, include: true });
+  const includeContext =
+    contextToggle.isPrivate === isPrivateTab ? contextToggle.include : !isPrivateTab;
+  const setIncludeContext = (include: boolean) =>
+    setContextToggle({ isPrivate: isPrivateTab, include });
   const [contextSent, setContextSent] = useState(false); // Track if context has been sent
   const [currentPersonality, setCurrentPersonality] = useState<any>(null);
+  const [showConversations, setShowConversations] = useState(false);
+  // URL last checked against the AI privacy rules, and whether it is excluded
+  const [privacyCheck, setPrivacyCheck] = useState({ url: '', withheld: false });
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Get current model metadata
   const currentModelInfo = models.find((m) => m.name === currentModel);
   const hasVisionSupport = currentModel ? supportsVision(currentModel) : false;
   const hasToolCallingSupport = currentModel ? supportsToolCalling(currentModel) : false;
+  const pageWithheld = privacyCheck.url === currentUrl && privacyCheck.withheld;
 
   // Load models on mount
   useEffect(() => {
@@ -114,10 +157,32 @@ export const ChatSidebar: React.FC = () => {
     }
   }, [isChatOpen]);
 
-  // Auto-scroll to bottom on new messages
+  // Check whether the current page is excluded from AI context
   useEffect(() => {
+    if (!isChatOpen || !currentUrl) return;
+
+    window.electron
+      .invoke('aiPrivacy:isWithheld', currentUrl)
+      .then((withheld: boolean) => setPrivacyCheck({ url: currentUrl, withheld }))
+      .catch((error) => console.error('Failed to check AI privacy rules:', error));
+  }, [isChatOpen, currentUrl]);
+
+  // Auto-scroll to bottom on new messages (unless jumping to a search result)
+  useEffect(() => {
+    if (highlightedMessageId) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, highlightedMessageId]);
+
+  // Scroll to the message selected from search, then fade the highlight
+  useEffect(() => {
+    if (!highlightedMessageId || showConversations) return;
+
+    document
+      .getElementById(`message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(clearHighlightedMessage, 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, showConversations, clearHighlightedMessage]);
 
   // Reset context sent flag when conversation is cleared
   useEffect(() => {
@@ -204,20 +269,56 @@ export const ChatSidebar: React.FC = () => {
             </svg>
             <h2 className="font-semibold">AI Assistant</h2>
           </div>
-          <button
-            onClick={toggleChat}
-            className="p-1 hover:bg-accent rounded transition-colors"
-            title="Close chat"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => {
+                clearMessages();
+                setShowConversations(false);
+              }}
+              disabled={isStreaming}
+              className="p-1 hover:bg-accent rounded transition-colors disabled:opacity-50"
+              title="New chat"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowConversations(!showConversations)}
+              className={`p-1 rounded transition-colors ${
+                showConversations ? 'bg-accent text-primary' : 'hover:bg-accent'
+              }`}
+              title="Conversation history"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={toggleChat}
+              className="p-1 hover:bg-accent rounded transition-colors"
+              title="Close chat"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Current Personality Display */}
@@ -365,214 +466,373 @@ export const ChatSidebar: React.FC = () => {
         </div>
       )}
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-3 space-y-3">
-        {messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center space-y-3 px-4">
-            <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
-              <svg
-                className="w-6 h-6 text-primary"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
-                />
-              </svg>
-            </div>
-            <div className="space-y-2">
-              <p className="text-sm font-medium">Start a conversation</p>
-              <p className="text-xs text-muted-foreground">
-                Ask questions about the current page or anything else
-              </p>
-              {hasVisionSupport && (
-                <div className="mt-3 p-2 bg-primary/5 rounded border border-primary/20 text-xs text-muted-foreground">
-                  <p className="font-medium text-primary mb-1">Vision Model Active</p>
-                  <p>
-                    This model can analyze images! Try using the three-dot menu to ask about the
-                    current page with visual context.
-                  </p>
-                </div>
-              )}
-              {hasToolCallingSupport && (
-                <div className="mt-3 p-2 bg-accent rounded border border-border text-xs text-muted-foreground">
-                  <p className="font-medium text-primary mb-1">Tool Calling Supported</p>
-                  <p>
-                    Enable Planning Mode in the input area below to let the AI use tools for
-                    searching history, analyzing pages, and more.
-                  </p>
-                </div>
-              )}
-            </div>
-          </div>
-        ) : (
-          messages.map((message) => <MessageBubble key={message.id} message={message} />)
-        )}
-        {isStreaming && (
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <div className="flex gap-1">
-              <div
-                className="w-2 h-2 bg-primary rounded-full animate-bounce"
-                style={{ animationDelay: '0ms' }}
-              />
-              <div
-                className="w-2 h-2 bg-primary rounded-full animate-bounce"
-                style={{ animationDelay: '150ms' }}
-              />
-              <div
-                className="w-2 h-2 bg-primary rounded-full animate-bounce"
-                style={{ animationDelay: '300ms' }}
-              />
-            </div>
-            <span>AI is thinking...</span>
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
-
-      {/* Input */}
-      <div className="p-3 border-t border-border space-y-2">
-        {/* Image Attachments Preview */}
-        {attachedImages.length > 0 && (
-          <div className="flex flex-wrap gap-2">
-            {attachedImages.map((image, index) => (
-              <div key={index} className="relative group">
-                <img
-                  src={`data:image/jpeg;base64,${image}`}
-                  alt={`Attachment ${index + 1}`}
-                  className="w-20 h-20 object-cover rounded border border-border"
-                />
-                <button
-                  onClick={() => handleRemoveImage(index)}
-                  className="absolute -top-1 -right-1 w-5 h-5 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                  title="Remove image"
-                >
-                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      {showConversations ? (
+        <ConversationList onSelect={() => setShowConversations(false)} />
+      ) : (
+        <>
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-3 space-y-3">
+            {messages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-center space-y-3 px-4">
+                <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+                  <svg
+                    className="w-6 h-6 text-primary"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
                     <path
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M6 18L18 6M6 6l12 12"
+                      d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
                     />
                   </svg>
-                </button>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Start a conversation</p>
+                  <p className="text-xs text-muted-foreground">
+                    Ask questions about the current page or anything else
+                  </p>
+                  {hasVisionSupport && (
+                    <div className="mt-3 p-2 bg-primary/5 rounded border border-primary/20 text-xs text-muted-foreground">
+                      <p className="font-medium text-primary mb-1">Vision Model Active</p>
+                      <p>
+                        This model can analyze images! Try using the three-dot menu to ask about the
+                        current page with visual context.
+                      </p>
+                    </div>
+                  )}
+                  {hasToolCallingSupport && (
+                    <div className="mt-3 p-2 bg-accent rounded border border-border text-xs text-muted-foreground">
+                      <p className="font-medium text-primary mb-1">Tool Calling Supported</p>
+                      <p>
+                        Enable Planning Mode in the input area below to let the AI use tools for
+                        searching history, analyzing pages, and more.
+                      </p>
+                    </div>
+                  )}
+                </div>
               </div>
-            ))}
+            ) : (
+              messages.map((message, index) =>
+                message.isMemory ? (
+                  <MemoryCard
+                    key={message.id}
+                    message={message}
+                    condensedCount={messages.filter((m) => m.condensed).length}
+                  />
+                ) : (
+                  <div
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={`rounded-lg transition-shadow ${
+                      message.id === highlightedMessageId
+                        ? 'ring-2 ring-primary ring-offset-2 ring-offset-card'
+                        : ''
+                    } ${message.condensed ? 'opacity-60' : ''}`}
+                    title={message.condensed ? 'Condensed into the conversation memory' : undefined}
+                  >
+                    <MessageBubble
+                      message={message}
+                      sources={
+                        message.role === 'assistant' ? getAnswerSources(messages, index) : undefined
+                      }
+                    />
+                  </div>
+                )
+              )
+            )}
+            {isStreaming && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <div className="flex gap-1">
+                  <div
+                    className="w-2 h-2 bg-primary rounded-full animate-bounce"
+                    style={{ animationDelay: '0ms' }}
+                  />
+                  <div
+                    className="w-2 h-2 bg-primary rounded-full animate-bounce"
+                    style={{ animationDelay: '150ms' }}
+                  />
+                  <div
+                    className="w-2 h-2 bg-primary rounded-full animate-bounce"
+                    style={{ animationDelay: '300ms' }}
+                  />
+                </div>
+                <span>AI is thinking...</span>
+              </div>
+            )}
+            <div ref={messagesEndRef} />
           </div>
-        )}
 
-        {/* Input Area */}
-        <div className="flex gap-2">
-          <div className="flex-1 space-y-1">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Ask about this page..."
-              rows={2}
-              className="w-full px-3 py-2 bg-secondary border border-input rounded text-sm resize-none focus:outline-none focus:border-primary transition-colors"
-              disabled={isStreaming}
-            />
-            {/* Tool controls - different UI based on model capabilities */}
-            <div className="flex items-center gap-4 text-xs flex-wrap">
-              {/* Page Context Toggle - always available */}
-              <label className="flex items-center gap-1.5 cursor-pointer text-muted-foreground hover:text-foreground transition-colors">
-                <button
-                  onClick={() => setIncludeContext(!includeContext)}
-                  className={`relative inline-flex h-4 w-7 items-center rounded-full transition-colors ${
-                    includeContext ? 'bg-primary' : 'bg-muted'
-                  }`}
-                  disabled={isStreaming}
-                >
-                  <span
-                    className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                      includeContext ? 'translate-x-3.5' : 'translate-x-0.5'
-                    }`}
-                  />
-                </button>
-                <span>Include Page Context</span>
-              </label>
+          {/* Agent plan */}
+          <AgentPlan />
+
+          {/* Tool approval */}
+          <ToolApprovalPrompt />
 
-              {hasToolCallingSupport ? (
-                /* Planning Mode Toggle - AI decides when to use tools */
-                <>
+          {/* Input */}
+          <div className="p-3 border-t border-border space-y-2">
+            {/* Image Attachments Preview */}
+            {attachedImages.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {attachedImages.map((image, index) => (
+                  <div key={index} className="relative group">
+                    <img
+                      src={`data:image/jpeg;base64,${image}`}
+                      alt={`Attachment ${index + 1}`}
+                      className="w-20 h-20 object-cover rounded border border-border"
+                    />
+                    <button
+                      onClick={() => handleRemoveImage(index)}
+                      className="absolute -top-1 -right-1 w-5 h-5 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove image"
+                    >
+                      <svg
+                        className="w-3 h-3"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M6 18L18 6M6 6l12 12"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Input Area */}
+            <div className="flex gap-2">
+              <div className="flex-1 space-y-1">
+                <textarea
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Ask about this page..."
+                  rows={2}
+                  className="w-full px-3 py-2 bg-secondary border border-input rounded text-sm resize-none focus:outline-none focus:border-primary transition-colors"
+                  disabled={isStreaming}
+                />
+                {/* Tool controls - different UI based on model capabilities */}
+                <div className="flex items-center gap-4 text-xs flex-wrap">
+                  {/* Page Context Toggle - always available */}
                   <label className="flex items-center gap-1.5 cursor-pointer text-muted-foreground hover:text-foreground transition-colors">
                     <button
-                      onClick={() => setPlanningMode(!planningMode)}
+                      onClick={() => setIncludeContext(!includeContext)}
                       className={`relative inline-flex h-4 w-7 items-center rounded-full transition-colors ${
-                        planningMode ? 'bg-primary' : 'bg-muted'
+                        includeContext ? 'bg-primary' : 'bg-muted'
                       }`}
                       disabled={isStreaming}
                     >
                       <span
                         className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                          planningMode ? 'translate-x-3.5' : 'translate-x-0.5'
+                          includeContext ? 'translate-x-3.5' : 'translate-x-0.5'
                         }`}
                       />
                     </button>
-                    <span>Planning Mode</span>
+                    <span>Include Page Context</span>
+                    {includeContext && pageWithheld && (
+                      <span
+                        className="px-1.5 py-0.5 bg-yellow-500/10 text-yellow-500 rounded text-[10px]"
+                        title="This page matches a rule in AI Privacy settings, so its content isn't sent"
+                      >
+                        Withheld
+                      </span>
+                    )}
                   </label>
-                  {planningMode && (
-                    <span className="text-[10px] text-muted-foreground/70">
-                      AI can use tools to search history, analyze pages, etc.
-                    </span>
-                  )}
-                </>
-              ) : (
-                /* Manual tool buttons - user triggers tools explicitly */
-                hasVisionSupport && (
-                  <button
-                    onClick={handleCaptureScreenshot}
-                    disabled={isCapturing || isStreaming}
-                    className="text-xs text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1 disabled:opacity-50"
-                    title="Capture current page screenshot"
+
+                  {/* Bookmark Chat Toggle - answers cite retrieved bookmark passages */}
+                  <label
+                    className="flex items-center gap-1.5 cursor-pointer text-muted-foreground hover:text-foreground transition-colors"
+                    title="Answer from your bookmarked pages, with numbered sources. Uses the embedding model chosen in History."
                   >
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"
-                      />
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"
+                    <button
+                      onClick={() => setBookmarkChatMode(!bookmarkChatMode)}
+                      className={`relative inline-flex h-4 w-7 items-center rounded-full transition-colors ${
+                        bookmarkChatMode ? 'bg-primary' : 'bg-muted'
+                      }`}
+                      disabled={isStreaming}
+                    >
+                      <span
+                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                          bookmarkChatMode ? 'translate-x-3.5' : 'translate-x-0.5'
+                        }`}
                       />
-                    </svg>
-                    {isCapturing ? 'Capturing...' : 'Capture screenshot'}
-                  </button>
-                )
+                    </button>
+                    <span>Chat with Bookmarks</span>
+                  </label>
+
+                  {hasToolCallingSupport ? (
+                    /* Planning Mode Toggle - AI decides when to use tools */
+                    <>
+                      <label className="flex items-center gap-1.5 cursor-pointer text-muted-foreground hover:text-foreground transition-colors">
+                        <button
+                          onClick={() => setPlanningMode(!planningMode)}
+                          className={`relative inline-flex h-4 w-7 items-center rounded-full transition-colors ${
+                            planningMode ? 'bg-primary' : 'bg-muted'
+                          }`}
+                          disabled={isStreaming}
+                        >
+                          <span
+                            className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                              planningMode ? 'translate-x-3.5' : 'translate-x-0.5'
+                            }`}
+                          />
+                        </button>
+                        <span>Planning Mode</span>
+                      </label>
+                      {planningMode && (
+                        <span className="text-[10px] text-muted-foreground/70">
+                          AI can use tools to search history, analyze pages, etc.
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    /* Manual tool buttons - user triggers tools explicitly */
+                    hasVisionSupport && (
+                      <button
+                        onClick={handleCaptureScreenshot}
+                        disabled={isCapturing || isStreaming}
+                        className="text-xs text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1 disabled:opacity-50"
+                        title="Capture current page screenshot"
+                      >
+                        <svg
+                          className="w-3 h-3"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"
+                          />
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"
+                          />
+                        </svg>
+                        {isCapturing ? 'Capturing...' : 'Capture screenshot'}
+                      </button>
+                    )
+                  )}
+                </div>
+              </div>
+              {isStreaming ? (
+                <button
+                  onClick={cancelGeneration}
+                  className="px-3 py-2 bg-destructive text-destructive-foreground rounded hover:bg-destructive/90 transition-colors self-start"
+                  title="Stop generating"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="6" y="6" width="12" height="12" rx="1" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim() || !currentModel || !isOllamaRunning}
+                  className="px-3 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors self-start"
+                  title="Send message"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                    />
+                  </svg>
+                </button>
               )}
             </div>
           </div>
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isStreaming || !currentModel || !isOllamaRunning}
-            className="px-3 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors self-start"
-            title="Send message"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-              />
-            </svg>
-          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+// What was replaced in page content before it was sent, with the placeholders on hover
+const RedactionNote: React.FC<{ redactions: Redaction[] }> = ({ redactions }) => (
+  <div
+    className="flex items-center gap-1 text-[10px]"
+    title={redactions.map((r) => r.placeholder).join(', ')}
+  >
+    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+      />
+    </svg>
+    <span>Redacted: {summarizeRedactions(redactions)}</span>
+  </div>
+);
+
+// Summary of the condensed turns, kept at the top of the chat while scrolling
+const MemoryCard: React.FC<{ message: Message; condensedCount: number }> = ({
+  message,
+  condensedCount,
+}) => {
+  const [expanded, setExpanded] = React.useState(false);
+
+  return (
+    <div className="sticky top-0 z-10 rounded-lg border border-primary/30 bg-card shadow-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-left"
+      >
+        <svg
+          className="w-3.5 h-3.5 text-primary flex-shrink-0"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+          />
+        </svg>
+        <span className="font-medium">Memory</span>
+        <span className="flex-1 text-muted-foreground">
+          {condensedCount} earlier {condensedCount === 1 ? 'message' : 'messages'} condensed
+        </span>
+        <svg
+          className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 text-xs text-muted-foreground whitespace-pre-wrap max-h-60 overflow-y-auto">
+          {message.content}
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
+const MessageBubble: React.FC<{ message: Message; sources?: SourceCitation[] }> = ({
+  message,
+  sources,
+}) => {
+  const { setCurrentUrl } = useBrowserStore();
   const [showThinking, setShowThinking] = React.useState(false);
   const isUser = message.role === 'user';
   const isTool = message.role === 'tool';
@@ -641,7 +901,17 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
                   />
                 </svg>
                 <div className="flex-1">
-                  <div className="font-medium">Tool Result</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Tool Result</span>
+                    {isWithheldResult(message.toolResult) && (
+                      <span className="px-1.5 py-0.5 bg-yellow-500/10 text-yellow-500 rounded text-[10px]">
+                        Context withheld
+                      </span>
+                    )}
+                  </div>
+                  {message.toolResult?.redactions && (
+                    <RedactionNote redactions={message.toolResult.redactions} />
+                  )}
                   <div className="text-xs opacity-75 mt-1 max-h-20 overflow-y-auto">
                     <code className="text-[10px] whitespace-pre-wrap">{message.content}</code>
                   </div>
@@ -705,7 +975,23 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
                   Bookmarks
                 </span>
               )}
+              {message.contextInfo.sources && message.contextInfo.sources.length > 0 && (
+                <span className="px-1.5 py-0.5 bg-primary-foreground/10 rounded text-[10px]">
+                  {message.contextInfo.sources.length} bookmark sources
+                </span>
+              )}
+              {message.contextInfo.contextWithheld && (
+                <span
+                  className="px-1.5 py-0.5 bg-primary-foreground/20 rounded text-[10px] font-medium"
+                  title="The page matches a rule in AI Privacy settings, so its content wasn't sent"
+                >
+                  Context withheld
+                </span>
+              )}
             </div>
+            {message.contextInfo.redactions && (
+              <RedactionNote redactions={message.contextInfo.redactions} />
+            )}
           </div>
         )}
 
@@ -769,8 +1055,44 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
           </div>
         )}
 
-        {/* Message content */}
-        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+        {/* Message content, with [n] citations linking to their bookmark */}
+        <p className="whitespace-pre-wrap break-words">
+          {sources && sources.length > 0
+            ? message.content.split(/(\[\d+\])/).map((part, i) => {
+                const source = sources.find((s) => `[${s.index}]` === part);
+                return source ? (
+                  <button
+                    key={i}
+                    onClick={() => setCurrentUrl(source.url)}
+                    className="text-primary hover:underline align-super text-[10px] font-medium"
+                    title={source.title}
+                  >
+                    {part}
+                  </button>
+                ) : (
+                  part
+                );
+              })
+            : message.content}
+        </p>
+
+        {/* Cited bookmark sources */}
+        {sources && sources.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-border/50 space-y-0.5 text-xs">
+            <div className="font-medium opacity-70">Sources</div>
+            {sources.map((source) => (
+              <button
+                key={source.index}
+                onClick={() => setCurrentUrl(source.url)}
+                className="flex gap-1 w-full text-left hover:underline"
+                title={source.url}
+              >
+                <span className="opacity-70">[{source.index}]</span>
+                <span className="truncate">{source.title}</span>
+              </button>
+            ))}
+          </div>
+        )}
 
         {/* Timestamp and Timing Info */}
         <div className="flex items-center gap-2 text-xs opacity-70 mt-1 flex-wrap">
@@ -793,6 +1115,25 @@ const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
                   Total: {(message.timing.totalTime / 1000).toFixed(2)}s
                 </span>
               )}
+              {message.stats?.tokensPerSecond !== undefined && (
+                <span
+                  className="px-1.5 py-0.5 bg-foreground/10 rounded text-[10px] font-medium"
+                  title={[
+                    message.stats.promptTokens !== undefined &&
+                      `Prompt: ${message.stats.promptTokens} tokens`,
+                    message.stats.completionTokens !== undefined &&
+                      `Response: ${message.stats.completionTokens} tokens`,
+                    message.stats.promptEvalMs !== undefined &&
+                      `Prompt processing: ${(message.stats.promptEvalMs / 1000).toFixed(2)}s`,
+                    message.stats.loadMs !== undefined &&
+                      `Model load: ${(message.stats.loadMs / 1000).toFixed(2)}s`,
+                  ]
+                    .filter(Boolean)
+                    .join('\n')}
+                >
+                  {message.stats.tokensPerSecond.toFixed(1)} tok/s
+                </span>
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { useChatStore } from '../../store/chat';
+
+interface ConversationListProps {
+  onSelect: () => void;
+}
+
+function formatRelativeDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diffDays = Math.floor(
+    (new Date(now.toDateString()).getTime() - new Date(date.toDateString()).getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+
+  if (diffDays === 0) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays < 7) return date.toLocaleDateString([], { weekday: 'long' });
+  return date.toLocaleDateString();
+}
+
+// Highlight the search terms inside a snippet
+const HighlightedSnippet: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return <>{text}</>;
+
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/30 text-foreground rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export const ConversationList: React.FC<ConversationListProps> = ({ onSelect }) => {
+  const {
+    conversations,
+    messageSearchResults,
+    conversationId,
+    isStreaming,
+    loadConversations,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+  } = useChatStore();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  // Debounce search so we don't hit the database on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      loadConversations(searchQuery);
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [searchQuery, loadConversations]);
+
+  const handleOpen = async (id: string, messageId?: string) => {
+    if (editingId) return;
+    await openConversation(id, messageId);
+    onSelect();
+  };
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setEditingTitle(title);
+  };
+
+  const commitRename = async () => {
+    if (editingId) {
+      await renameConversation(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (confirm(`Delete conversation "${title}"? This cannot be undone.`)) {
+      await deleteConversation(id);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Search */}
+      <div className="p-3 border-b border-border">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full px-3 py-2 bg-secondary border border-input rounded text-sm focus:outline-none focus:border-primary transition-colors"
+        />
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto">
+        {/* Matching messages */}
+        {searchQuery.trim() && messageSearchResults.length > 0 && (
+          <div className="border-b border-border">
+            <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground uppercase">
+              Messages
+            </div>
+            {messageSearchResults.map((result) => (
+              <div
+                key={result.messageId}
+                onClick={() => !isStreaming && handleOpen(result.conversationId, result.messageId)}
+                className={`px-3 py-2 cursor-pointer transition-colors hover:bg-accent/50 ${
+                  isStreaming ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                <div className="text-xs text-muted-foreground flex items-center gap-2">
+                  <span className="truncate font-medium">{result.conversationTitle}</span>
+                  <span className="flex-shrink-0">{formatRelativeDate(result.createdAt)}</span>
+                </div>
+                <div className="text-sm line-clamp-2">
+                  <span className="text-muted-foreground">
+                    {result.role === 'user' ? 'You: ' : 'AI: '}
+                  </span>
+                  <HighlightedSnippet text={result.snippet} query={searchQuery} />
+                </div>
+              </div>
+            ))}
+            <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground uppercase">
+              Conversations
+            </div>
+          </div>
+        )}
+
+        {conversations.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            {searchQuery
+              ? messageSearchResults.length > 0
+                ? 'No conversation titles match'
+                : 'No conversations found'
+              : 'No saved conversations yet'}
+          </div>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              onClick={() => !isStreaming && handleOpen(conversation.id)}
+              className={`group px-3 py-2 border-b border-border cursor-pointer transition-colors ${
+                conversation.id === conversationId ? 'bg-accent' : 'hover:bg-accent/50'
+              } ${isStreaming ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  type="text"
+                  value={editingTitle}
+                  autoFocus
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 bg-secondary border border-input rounded text-sm focus:outline-none focus:border-primary"
+                />
+              ) : (
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{conversation.title}</div>
+                    <div className="text-xs text-muted-foreground flex items-center gap-2">
+                      <span>{formatRelativeDate(conversation.updatedAt)}</span>
+                      {conversation.messageCount !== undefined && (
+                        <span>{conversation.messageCount} messages</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(conversation.id, conversation.title);
+                      }}
+                      className="p-1 hover:bg-secondary rounded transition-colors"
+                      title="Rename"
+                    >
+                      <svg
+                        className="w-3.5 h-3.5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                        />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(conversation.id, conversation.title);
+                      }}
+                      className="p-1 hover:bg-destructive/20 text-destructive rounded transition-colors"
+                      title="Delete"
+                    >
+                      <svg
+                        className="w-3.5 h-3.5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
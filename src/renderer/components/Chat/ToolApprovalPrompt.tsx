@@ -0,0 +1,68 @@
+import React from 'react';
+import { useChatStore } from '../../store/chat';
+
+/**
+ * Inline prompt asking the user to approve a side-effecting tool call
+ */
+export const ToolApprovalPrompt: React.FC = () => {
+  const { pendingToolApproval, respondToToolApproval } = useChatStore();
+
+  if (!pendingToolApproval) return null;
+
+  const { toolName, arguments: toolArgs, origin } = pendingToolApproval;
+  const host = origin ? new URL(origin).host : null;
+
+  return (
+    <div className="mx-3 mb-2 border border-yellow-500/50 rounded-lg bg-yellow-500/10 text-xs">
+      <div className="px-3 pt-2 flex items-center gap-2 font-medium">
+        <svg
+          className="w-3.5 h-3.5 text-yellow-500 flex-shrink-0"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+          />
+        </svg>
+        <span>
+          Allow <span className="font-mono">{toolName}</span>
+          {host ? ` on ${host}` : ''}?
+        </span>
+      </div>
+
+      {Object.keys(toolArgs).length > 0 && (
+        <pre className="mx-3 mt-1.5 px-2 py-1 bg-secondary rounded text-[10px] max-h-24 overflow-auto whitespace-pre-wrap break-all">
+          {JSON.stringify(toolArgs, null, 2)}
+        </pre>
+      )}
+
+      <div className="px-3 py-2 flex items-center gap-2">
+        <button
+          onClick={() => respondToToolApproval('approve')}
+          className="px-2 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+        >
+          Allow once
+        </button>
+        {host && (
+          <button
+            onClick={() => respondToToolApproval('always_allow')}
+            className="px-2 py-1 bg-secondary rounded hover:bg-secondary/80 transition-colors"
+            title={`Always allow ${toolName} on ${host}`}
+          >
+            Always allow
+          </button>
+        )}
+        <button
+          onClick={() => respondToToolApproval('deny')}
+          className="ml-auto px-2 py-1 text-destructive hover:bg-destructive/10 rounded transition-colors"
+        >
+          Deny
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,9 @@ import { useModelStore } from '../../store/models';
 import { useDownloadStore } from '../../store/downloads';
 import { InstalledModels } from './InstalledModels';
 import { AvailableModels } from './AvailableModels';
+import { ProviderSettings } from './ProviderSettings';
+import { OllamaEndpointSettings } from './OllamaEndpointSettings';
+import { ModelPerformance } from './ModelPerformance';
 
 interface OllamaServiceStatus {
   isRunning: boolean;
@@ -18,13 +21,17 @@ interface OllamaServiceStatus {
     uptime: number;
   };
   error?: string;
+  remote: boolean;
+  baseURL: string;
 }
 
 export const ModelManager: React.FC = () => {
   const { isModelManagerOpen, setIsModelManagerOpen, refreshModels, isOllamaRunning } =
     useModelStore();
   const { modelsFolder, setModelsFolder } = useDownloadStore();
-  const [activeTab, setActiveTab] = useState<'installed' | 'available'>('installed');
+  const [activeTab, setActiveTab] = useState<'installed' | 'available' | 'performance'>(
+    'installed'
+  );
   const [serviceStatus, setServiceStatus] = useState<OllamaServiceStatus | null>(null);
   const [isLoadingStatus, setIsLoadingStatus] = useState(false);
   const [showServiceDetails, setShowServiceDetails] = useState(false);
@@ -128,6 +135,11 @@ export const ModelManager: React.FC = () => {
     }
   };
 
+  const handleEndpointSaved = () => {
+    loadServiceStatus();
+    refreshModels();
+  };
+
   const handleForceKill = async () => {
     if (
       !confirm('Are you sure you want to force kill the Ollama process? This may cause data loss.')
@@ -234,15 +246,32 @@ export const ModelManager: React.FC = () => {
               <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
             )}
           </button>
+          <button
+            onClick={() => setActiveTab('performance')}
+            className={`px-6 py-3 font-medium transition-colors relative ${
+              activeTab === 'performance'
+                ? 'text-primary'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            Performance
+            {activeTab === 'performance' && (
+              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
+            )}
+          </button>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-hidden">
-          {activeTab === 'installed' ? <InstalledModels /> : <AvailableModels />}
+          {activeTab === 'installed' && <InstalledModels />}
+          {activeTab === 'available' && <AvailableModels />}
+          {activeTab === 'performance' && <ModelPerformance />}
         </div>
 
         {/* Footer */}
         <div className="p-4 border-t border-border">
+          <ProviderSettings onSaved={refreshModels} />
+
           {/* Service Status Section */}
           <div className="mb-3 p-3 bg-accent/30 rounded-lg border border-border">
             <div className="flex items-center justify-between mb-2">
@@ -251,14 +280,21 @@ export const ModelManager: React.FC = () => {
                   className={`w-2 h-2 rounded-full ${serviceStatus?.isRunning ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}
                 />
                 <span className="text-sm font-medium">
-                  Ollama Service {serviceStatus?.isRunning ? 'Running' : 'Stopped'}
+                  {serviceStatus?.remote
+                    ? `Ollama Server ${serviceStatus.isRunning ? 'Connected' : 'Unreachable'}`
+                    : `Ollama Service ${serviceStatus?.isRunning ? 'Running' : 'Stopped'}`}
                 </span>
+                {serviceStatus?.remote && (
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {serviceStatus.baseURL}
+                  </span>
+                )}
                 {isLoadingStatus && (
                   <div className="w-3 h-3 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
                 )}
               </div>
               <div className="flex gap-1">
-                {serviceStatus?.isRunning ? (
+                {serviceStatus?.remote ? null : serviceStatus?.isRunning ? (
                   <>
                     <button
                       onClick={handleRestartService}
@@ -304,7 +340,11 @@ export const ModelManager: React.FC = () => {
             {/* Service Details */}
             {showServiceDetails && (
               <div className="mt-2 pt-2 border-t border-border/50">
-                {serviceStatus?.processStats ? (
+                {serviceStatus?.remote ? (
+                  <p className="text-xs text-muted-foreground">
+                    Using a remote server, so process details are not available
+                  </p>
+                ) : serviceStatus?.processStats ? (
                   <div className="grid grid-cols-2 gap-2 text-xs">
                     <div className="flex items-center gap-1">
                       <span className="text-muted-foreground">PID:</span>
@@ -340,6 +380,7 @@ export const ModelManager: React.FC = () => {
                 ) : (
                   <p className="text-xs text-muted-foreground">Service is not running</p>
                 )}
+                <OllamaEndpointSettings onSaved={handleEndpointSaved} />
               </div>
             )}
           </div>
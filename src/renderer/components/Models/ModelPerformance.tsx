@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import type { ModelPerformance as ModelPerformanceStats } from '../../../shared/types';
+
+const formatSeconds = (ms: number | null) => (ms === null ? '—' : `${(ms / 1000).toFixed(2)}s`);
+
+export const ModelPerformance: React.FC = () => {
+  const [stats, setStats] = useState<ModelPerformanceStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    window.electron
+      .invoke('models:getPerformance')
+      .then((rows: ModelPerformanceStats[]) => setStats(rows))
+      .catch((error) => console.error('Failed to load model performance:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (stats.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center max-w-md px-4">
+          <h3 className="font-semibold text-lg mb-1">No Measurements Yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Speed and token usage are recorded with each chat response.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Bars are scaled against the fastest model
+  const fastest = Math.max(...stats.map((s) => s.avgTokensPerSecond || 0), 1);
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <div className="max-w-5xl mx-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b border-border">
+              <th className="py-2 pr-4 font-medium">Model</th>
+              <th className="py-2 pr-4 font-medium">Generation speed</th>
+              <th className="py-2 pr-4 font-medium">Prompt processing</th>
+              <th className="py-2 pr-4 font-medium">First token</th>
+              <th className="py-2 pr-4 font-medium">Context fill</th>
+              <th className="py-2 font-medium text-right">Responses</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((row) => (
+              <tr key={row.model} className="border-b border-border/50">
+                <td className="py-3 pr-4 font-mono text-xs">{row.model}</td>
+                <td className="py-3 pr-4">
+                  {row.avgTokensPerSecond === null ? (
+                    '—'
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 h-1.5 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{ width: `${(row.avgTokensPerSecond / fastest) * 100}%` }}
+                        />
+                      </div>
+                      <span className="font-mono text-xs">
+                        {row.avgTokensPerSecond.toFixed(1)} tok/s
+                      </span>
+                    </div>
+                  )}
+                </td>
+                <td className="py-3 pr-4 font-mono text-xs">
+                  {formatSeconds(row.avgPromptEvalMs)}
+                  {row.avgPromptTokens !== null && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      ({Math.round(row.avgPromptTokens)} tokens)
+                    </span>
+                  )}
+                </td>
+                <td className="py-3 pr-4 font-mono text-xs">{formatSeconds(row.avgTtftMs)}</td>
+                <td className="py-3 pr-4 font-mono text-xs">
+                  {row.avgContextFill === null ? '—' : `${Math.round(row.avgContextFill * 100)}%`}
+                </td>
+                <td className="py-3 text-right font-mono text-xs">{row.responses}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-4 text-xs text-muted-foreground">
+          Averages over all recorded chat responses. Context fill is the share of the model&apos;s
+          context window used by the prompt and the response.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import type { OllamaEndpoint } from '../../../shared/types';
+
+interface OllamaEndpointSettingsProps {
+  onSaved: () => void;
+}
+
+export const OllamaEndpointSettings: React.FC<OllamaEndpointSettingsProps> = ({ onSaved }) => {
+  const [endpoint, setEndpoint] = useState<OllamaEndpoint | null>(null);
+  const [portText, setPortText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electron
+      .invoke('ollama:getEndpoint')
+      .then((saved: OllamaEndpoint) => {
+        setEndpoint(saved);
+        setPortText(String(saved.port));
+      })
+      .catch(console.error);
+  }, []);
+
+  if (!endpoint) return null;
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await window.electron.invoke('ollama:setEndpoint', {
+        ...endpoint,
+        port: parseInt(portText, 10),
+      });
+      onSaved();
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to save server address'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setEndpoint({ host: 'localhost', port: 11434, useTls: false, authHeader: '' });
+    setPortText('11434');
+    setError(null);
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-border/50 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Enter the address of another machine to use a shared Ollama server. The browser does not
+        start or stop a remote server.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={endpoint.host}
+          onChange={(e) => setEndpoint({ ...endpoint, host: e.target.value })}
+          placeholder="Host"
+          className="flex-1 px-2 py-1 bg-secondary border border-input rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <input
+          type="text"
+          value={portText}
+          onChange={(e) => setPortText(e.target.value.replace(/\D/g, ''))}
+          placeholder="Port"
+          className="w-20 px-2 py-1 bg-secondary border border-input rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <label className="flex items-center gap-1 text-xs">
+          <input
+            type="checkbox"
+            checked={endpoint.useTls}
+            onChange={(e) => setEndpoint({ ...endpoint, useTls: e.target.checked })}
+          />
+          HTTPS
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="password"
+          value={endpoint.authHeader}
+          onChange={(e) => setEndpoint({ ...endpoint, authHeader: e.target.value })}
+          placeholder="Authorization header (optional, e.g. Bearer ...)"
+          className="flex-1 px-2 py-1 bg-secondary border border-input rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          onClick={handleReset}
+          className="px-2 py-1 text-xs bg-secondary hover:bg-secondary/80 rounded transition-colors"
+          title="Use Ollama on this computer"
+        >
+          Reset
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !endpoint.host.trim() || !portText}
+          className="px-2 py-1 text-xs bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import type { LLMProviderId, LLMProviderSettings } from '../../../shared/types';
+
+interface ProviderSettingsProps {
+  onSaved: () => void;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onSaved }) => {
+  const [settings, setSettings] = useState<LLMProviderSettings>({
+    provider: 'ollama',
+    baseUrl: '',
+    apiKey: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    window.electron
+      .invoke('llm:getProviderSettings')
+      .then((saved: LLMProviderSettings) => setSettings(saved))
+      .catch(console.error);
+  }, []);
+
+  const save = async (next: LLMProviderSettings) => {
+    try {
+      setIsSaving(true);
+      setStatus(null);
+      await window.electron.invoke('llm:setProviderSettings', next);
+
+      const reachable = await window.electron.invoke('ollama:isRunning');
+      setStatus(
+        next.provider === 'ollama'
+          ? null
+          : reachable
+            ? { ok: true, message: 'Connected' }
+            : { ok: false, message: "Can't reach the server" }
+      );
+      onSaved();
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setStatus({
+        ok: false,
+        message:
+          (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to save settings',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleProviderChange = (provider: LLMProviderId) => {
+    const next = { ...settings, provider };
+    setSettings(next);
+    setStatus(null);
+    // Switching back to Ollama needs no address, so it applies right away
+    if (provider === 'ollama') {
+      save(next);
+    }
+  };
+
+  return (
+    <div className="mb-3 p-3 bg-accent/30 rounded-lg border border-border space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-medium">Chat Backend</span>
+        <select
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as LLMProviderId)}
+          className="px-2 py-1 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="ollama">Ollama on this computer</option>
+          <option value="openai-compatible">OpenAI-compatible server</option>
+        </select>
+      </div>
+
+      {settings.provider === 'openai-compatible' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Chat with models on a llama.cpp, vLLM or LM Studio server, for example on your local
+            network. Downloads and embeddings still use Ollama.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={settings.baseUrl}
+              onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+              placeholder="Server address (e.g. http://192.168.1.20:8080)"
+              className="flex-1 px-3 py-1.5 bg-secondary border border-input rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+              placeholder="API key (optional)"
+              className="w-48 px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              onClick={() => save(settings)}
+              disabled={isSaving || !settings.baseUrl.trim()}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Connecting...' : 'Connect'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.ok ? 'text-green-600' : 'text-destructive'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  MAX_CUSTOM_PATTERNS,
+  REDACTION_KIND_NAMES,
+  REDACTION_SETTING,
+  getCustomPatternError,
+  parseRedactionSettings,
+} from '../../../shared/redaction';
+import type { AIPrivacyRule, RedactionSettings } from '../../../shared/types';
+
+type RedactionKindSetting = keyof RedactionSettings['kinds'];
+
+const REDACTION_KINDS: RedactionKindSetting[] = ['email', 'phone', 'creditCard', 'iban', 'apiKey'];
+
+interface AIPrivacySettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const AIPrivacySettings: React.FC<AIPrivacySettingsProps> = ({ isOpen, onClose }) => {
+  const [rules, setRules] = useState<AIPrivacyRule[]>([]);
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [customName, setCustomName] = useState('');
+  const [customPattern, setCustomPattern] = useState('');
+  const [redactionError, setRedactionError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await window.electron.invoke('aiPrivacy:list'));
+    } catch (err) {
+      console.error('Failed to load AI privacy rules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadRules();
+    window.electron
+      .invoke('settings:get', REDACTION_SETTING)
+      .then((value: string | null) => setRedaction(parseRedactionSettings(value)))
+      .catch((err) => console.error('Failed to load redaction settings:', err));
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen, loadRules]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await loadRules();
+      return true;
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to update AI privacy rules'
+      );
+      return false;
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim()) return;
+
+    if (await runAction(() => window.electron.invoke('aiPrivacy:add', pattern))) {
+      setPattern('');
+    }
+  };
+
+  const handleRemove = (id: number) =>
+    runAction(() => window.electron.invoke('aiPrivacy:remove', id));
+
+  const saveRedaction = async (settings: RedactionSettings) => {
+    try {
+      setRedactionError(null);
+      await window.electron.invoke('settings:set', REDACTION_SETTING, settings);
+      setRedaction(settings);
+      return true;
+    } catch (err) {
+      setRedactionError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to save redaction'
+      );
+      return false;
+    }
+  };
+
+  const handleAddCustomPattern = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const custom = { name: customName.trim(), pattern: customPattern };
+    const patternError = getCustomPatternError(custom);
+    if (patternError) {
+      setRedactionError(patternError);
+      return;
+    }
+    if (redaction.customPatterns.length >= MAX_CUSTOM_PATTERNS) {
+      setRedactionError(`You can add up to ${MAX_CUSTOM_PATTERNS} patterns`);
+      return;
+    }
+
+    const saved = await saveRedaction({
+      ...redaction,
+      customPatterns: [...redaction.customPatterns, custom],
+    });
+    if (saved) {
+      setCustomName('');
+      setCustomPattern('');
+    }
+  };
+
+  const handleRemoveCustomPattern = (index: number) =>
+    saveRedaction({
+      ...redaction,
+      customPatterns: redaction.customPatterns.filter((_, i) => i !== index),
+    });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">AI Privacy</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Pages matching these rules are never sent to the AI: not as page context, not in history
+            or bookmarks, and not through tools. Add an origin such as https://bank.example.com, or
+            a pattern where * matches anything, such as *://hr.* or *payroll*.
+          </p>
+
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="https://bank.example.com"
+              className="flex-1 px-3 py-1.5 bg-secondary border border-input rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              type="submit"
+              disabled={!pattern.trim()}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Exclude
+            </button>
+          </form>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {rules.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No sites are excluded, so any page can be sent as context.
+            </p>
+          ) : (
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {rules.map((rule) => (
+                <div key={rule.id} className="group flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 font-mono truncate">{rule.pattern}</span>
+                  <button
+                    onClick={() => handleRemove(rule.id)}
+                    className="px-2 py-0.5 text-xs hover:bg-accent rounded transition-colors opacity-0 group-hover:opacity-100"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* PII redaction */}
+          <div className="border-t border-border pt-4 space-y-3">
+            <label className="flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium">Redact personal data</div>
+                <div className="text-xs text-muted-foreground">
+                  Page text is checked before it is sent, and matches are replaced with placeholders
+                  such as [EMAIL_1]. The chat shows what was redacted.
+                </div>
+              </div>
+              <input
+                type="checkbox"
+                checked={redaction.enabled}
+                onChange={(e) => saveRedaction({ ...redaction, enabled: e.target.checked })}
+              />
+            </label>
+
+            {redaction.enabled && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {REDACTION_KINDS.map((kind) => (
+                    <label key={kind} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={redaction.kinds[kind]}
+                        onChange={(e) =>
+                          saveRedaction({
+                            ...redaction,
+                            kinds: { ...redaction.kinds, [kind]: e.target.checked },
+                          })
+                        }
+                      />
+                      {REDACTION_KIND_NAMES[kind]}
+                    </label>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">{REDACTION_KIND_NAMES.custom}</div>
+                  <form onSubmit={handleAddCustomPattern} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={customName}
+                      onChange={(e) => setCustomName(e.target.value)}
+                      placeholder="Customer ID"
+                      className="w-36 px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <input
+                      type="text"
+                      value={customPattern}
+                      onChange={(e) => setCustomPattern(e.target.value)}
+                      placeholder="CUST-\d{6}"
+                      className="flex-1 px-3 py-1.5 bg-secondary border border-input rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!customName.trim() || !customPattern}
+                      className="px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 rounded transition-colors disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </form>
+                  {redaction.customPatterns.length > 0 && (
+                    <div className="border border-border rounded-lg divide-y divide-border">
+                      {redaction.customPatterns.map((custom, index) => (
+                        <div
+                          key={`${custom.name}-${index}`}
+                          className="group flex items-center gap-3 px-3 py-2 text-sm"
+                        >
+                          <span className="w-36 truncate">{custom.name}</span>
+                          <span className="flex-1 font-mono truncate">{custom.pattern}</span>
+                          <button
+                            onClick={() => handleRemoveCustomPattern(index)}
+                            className="px-2 py-0.5 text-xs hover:bg-accent rounded transition-colors opacity-0 group-hover:opacity-100"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {redactionError && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+                {redactionError}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { useContainerStore } from '../../store/containers';
+import {
+  CONTAINER_COLORS,
+  CONTAINER_COLOR_NAMES,
+  MAX_CONTAINER_NAME_LENGTH,
+} from '../../../shared/containers';
+import type { Container, ContainerColor } from '../../../shared/types';
+
+interface ContainerSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ContainerForm {
+  name: string;
+  color: ContainerColor;
+}
+
+const EMPTY_FORM: ContainerForm = { name: '', color: 'blue' };
+
+export const ContainerSettings: React.FC<ContainerSettingsProps> = ({ isOpen, onClose }) => {
+  const { containers, loadContainers, addContainer, updateContainer, deleteContainer } =
+    useContainerStore();
+  // null = no form, 'new' = adding, number = editing that container
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<ContainerForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadContainers();
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen, loadContainers]);
+
+  const startAdd = () => {
+    setEditingId('new');
+    // Suggest a color that isn't taken yet
+    const usedColors = new Set(containers.map((c) => c.color));
+    setForm({
+      name: '',
+      color: CONTAINER_COLOR_NAMES.find((color) => !usedColors.has(color)) || EMPTY_FORM.color,
+    });
+    setError(null);
+  };
+
+  const startEdit = (container: Container) => {
+    setEditingId(container.id);
+    setForm({ name: container.name, color: container.color });
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    try {
+      if (editingId === 'new') {
+        await addContainer(form.name, form.color);
+      } else if (editingId !== null) {
+        await updateContainer(editingId, form);
+      }
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to save container'
+      );
+    }
+  };
+
+  const handleDelete = async (container: Container) => {
+    if (!confirm(`Remove container "${container.name}"? Its cookies and site data are deleted.`)) {
+      return;
+    }
+    try {
+      await deleteContainer(container.id);
+    } catch (err) {
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to remove container'
+      );
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderForm = () => (
+    <div className="p-3 bg-accent/30 border border-border rounded-lg space-y-2">
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        placeholder="Name (e.g. Work)"
+        maxLength={MAX_CONTAINER_NAME_LENGTH}
+        className="w-full px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <div className="flex items-center gap-2">
+        {CONTAINER_COLOR_NAMES.map((color) => (
+          <button
+            key={color}
+            onClick={() => setForm({ ...form, color })}
+            className={`w-6 h-6 rounded-full transition-transform ${
+              form.color === color ? 'ring-2 ring-offset-2 ring-offset-card ring-primary' : ''
+            } hover:scale-110`}
+            style={{ backgroundColor: CONTAINER_COLORS[color] }}
+            title={color}
+          />
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={cancelEdit}
+          className="px-3 py-1.5 text-sm border border-border rounded hover:bg-accent transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+        >
+          {editingId === 'new' ? 'Add' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">Containers</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Each container keeps its own cookies and site storage, so you can be signed in to the
+            same site with different accounts, such as Work and Personal. Open a container tab from
+            the tab bar.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {containers.map((container) =>
+              editingId === container.id ? (
+                <React.Fragment key={container.id}>{renderForm()}</React.Fragment>
+              ) : (
+                <div
+                  key={container.id}
+                  className="group flex items-center gap-3 px-3 py-2 border border-border rounded-lg"
+                >
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: CONTAINER_COLORS[container.color] }}
+                  />
+                  <span className="flex-1 text-sm font-medium truncate">{container.name}</span>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startEdit(container)}
+                      className="px-2 py-1 text-xs hover:bg-accent rounded transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(container)}
+                      className="px-2 py-1 text-xs text-destructive hover:bg-destructive/10 rounded transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+
+            {editingId === 'new' ? (
+              renderForm()
+            ) : (
+              <button
+                onClick={startAdd}
+                className="w-full px-3 py-2 text-sm border border-dashed border-border rounded-lg hover:bg-accent transition-colors"
+              >
+                + Add container
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
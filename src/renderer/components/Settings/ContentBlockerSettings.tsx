@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import type { ContentBlockerStatus } from '../../../shared/types';
+
+interface ContentBlockerSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ContentBlockerSettings: React.FC<ContentBlockerSettingsProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [status, setStatus] = useState<ContentBlockerStatus | null>(null);
+  const [isReloading, setIsReloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    window.electron
+      .invoke('contentBlocker:getStatus')
+      .then((current: ContentBlockerStatus) => setStatus(current))
+      .catch((err) => console.error('Failed to load content blocker status:', err));
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to update content blocking'
+      );
+    }
+  };
+
+  const handleToggle = (enabled: boolean) =>
+    runAction(async () => {
+      await window.electron.invoke('contentBlocker:setEnabled', enabled);
+      setStatus((current) => (current ? { ...current, enabled } : current));
+    });
+
+  const handleReload = () =>
+    runAction(async () => {
+      setIsReloading(true);
+      try {
+        setStatus(await window.electron.invoke('contentBlocker:reloadLists'));
+      } finally {
+        setIsReloading(false);
+      }
+    });
+
+  const handleOpenFolder = () =>
+    runAction(() => window.electron.invoke('contentBlocker:openListsFolder'));
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">Content Blocking</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <label className="flex items-center justify-between gap-4">
+            <div>
+              <div className="text-sm font-medium">Block ads and trackers</div>
+              <div className="text-xs text-muted-foreground">
+                Sites you allow are listed in Site Settings under &quot;Ads and trackers&quot;.
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={status?.enabled ?? false}
+              disabled={!status}
+              onChange={(e) => handleToggle(e.target.checked)}
+            />
+          </label>
+
+          <div className="border-t border-border pt-4 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium">Filter Lists</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleOpenFolder}
+                  className="px-2 py-1 text-xs bg-secondary hover:bg-secondary/80 rounded transition-colors"
+                >
+                  Open Folder
+                </button>
+                <button
+                  onClick={handleReload}
+                  disabled={isReloading}
+                  className="px-2 py-1 text-xs bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  {isReloading ? 'Reloading...' : 'Reload Lists'}
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Save EasyList-format lists such as EasyList and EasyPrivacy as .txt files in the
+              folder, then reload.
+            </p>
+            {status && (
+              <p className="text-xs font-mono text-muted-foreground truncate" title={status.folder}>
+                {status.folder}
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {status?.lists.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No filter lists loaded, so nothing is blocked.
+            </p>
+          )}
+          {status && status.lists.length > 0 && (
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {status.lists.map((list) => (
+                <div key={list.name} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 font-mono truncate">{list.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {list.networkRules.toLocaleString()} blocking rules ·{' '}
+                    {list.cosmeticRules.toLocaleString()} hiding rules
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
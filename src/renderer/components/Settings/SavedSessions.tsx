@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { useTabSessionStore } from '../../store/tabSessions';
+import { useTabsStore } from '../../store/tabs';
+import { MAX_SESSION_NAME_LENGTH, TAB_GROUP_COLORS } from '../../../shared/tabGroups';
+import type { TabSessionSummary } from '../../../shared/types';
+
+interface SavedSessionsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SavedSessions: React.FC<SavedSessionsProps> = ({ isOpen, onClose }) => {
+  const { sessions, loadSessions, saveSession, restoreSession, deleteSession } =
+    useTabSessionStore();
+  const { groups } = useTabsStore();
+  const [name, setName] = useState('');
+  // Groups to save; none picked saves every open tab
+  const [pickedGroupIds, setPickedGroupIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadSessions();
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen, loadSessions]);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError((err instanceof Error && err.message.replace(/^.*Error: /, '')) || fallback);
+      return false;
+    }
+  };
+
+  const togglePickedGroup = (groupId: string) => {
+    setPickedGroupIds((ids) =>
+      ids.includes(groupId) ? ids.filter((id) => id !== groupId) : [...ids, groupId]
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sessionName = name.trim();
+    if (!sessionName) return;
+
+    const exists = sessions.some((s) => s.name.toLowerCase() === sessionName.toLowerCase());
+    if (exists && !confirm(`Replace the saved session "${sessionName}"?`)) return;
+
+    // Groups closed since they were picked are left out
+    const groupIds = pickedGroupIds.filter((id) => groups.some((g) => g.id === id));
+    const saved = await runAction(
+      () => saveSession(sessionName, groupIds.length ? groupIds : undefined),
+      'Failed to save session'
+    );
+    if (saved) {
+      setName('');
+      setPickedGroupIds([]);
+    }
+  };
+
+  const handleRestore = async (session: TabSessionSummary) => {
+    if (await runAction(() => restoreSession(session.id), 'Failed to open session')) {
+      onClose();
+    }
+  };
+
+  const handleDelete = (session: TabSessionSummary) => {
+    if (!confirm(`Remove saved session "${session.name}"?`)) return;
+    runAction(() => deleteSession(session.id), 'Failed to remove session');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">Saved Sessions</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Save your tabs and their groups under a name and reopen them later, for example one
+            session per investigation. Private tabs are not saved.
+          </p>
+
+          <form onSubmit={handleSave} className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Session name"
+                maxLength={MAX_SESSION_NAME_LENGTH}
+                className="flex-1 px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {pickedGroupIds.length ? 'Save groups' : 'Save all tabs'}
+              </button>
+            </div>
+
+            {groups.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {groups.map((group) => (
+                  <label
+                    key={group.id}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs border border-border rounded"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={pickedGroupIds.includes(group.id)}
+                      onChange={() => togglePickedGroup(group.id)}
+                    />
+                    <span
+                      className="w-2.5 h-2.5 rounded-full"
+                      style={{ backgroundColor: TAB_GROUP_COLORS[group.color] }}
+                    />
+                    {group.name.trim() || 'Unnamed group'}
+                  </label>
+                ))}
+              </div>
+            )}
+          </form>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {sessions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No saved sessions yet.</p>
+          ) : (
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {sessions.map((session) => (
+                <div key={session.id} className="group flex items-center gap-3 px-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{session.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {session.tabCount} {session.tabCount === 1 ? 'tab' : 'tabs'}
+                      {session.groupCount > 0 &&
+                        `, ${session.groupCount} ${session.groupCount === 1 ? 'group' : 'groups'}`}
+                      {' · '}
+                      {new Date(session.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(session)}
+                    className="px-2 py-1 text-xs bg-secondary hover:bg-secondary/80 rounded transition-colors"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    className="px-2 py-1 text-xs text-destructive hover:bg-destructive/10 rounded transition-colors opacity-0 group-hover:opacity-100"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
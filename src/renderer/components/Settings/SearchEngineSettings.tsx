@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchEngineStore } from '../../store/searchEngines';
+import { isValidSearchTemplate } from '../../../shared/searchEngines';
+import type { SearchEngine } from '../../../shared/types';
+
+interface SearchEngineSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface EngineForm {
+  name: string;
+  keyword: string;
+  searchUrl: string;
+  suggestUrl: string;
+}
+
+const EMPTY_FORM: EngineForm = { name: '', keyword: '', searchUrl: '', suggestUrl: '' };
+
+export const SearchEngineSettings: React.FC<SearchEngineSettingsProps> = ({ isOpen, onClose }) => {
+  const {
+    engines,
+    suggestionsEnabled,
+    loadEngines,
+    addEngine,
+    updateEngine,
+    deleteEngine,
+    setDefaultEngine,
+    setSuggestionsEnabled,
+  } = useSearchEngineStore();
+  // null = no form, 'new' = adding, number = editing that engine
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<EngineForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadEngines();
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen, loadEngines]);
+
+  const startAdd = () => {
+    setEditingId('new');
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const startEdit = (engine: SearchEngine) => {
+    setEditingId(engine.id);
+    setForm({
+      name: engine.name,
+      keyword: engine.keyword,
+      searchUrl: engine.searchUrl,
+      suggestUrl: engine.suggestUrl || '',
+    });
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (/\s/.test(form.keyword.trim())) {
+      setError('Keyword cannot contain spaces');
+      return;
+    }
+    if (!isValidSearchTemplate(form.searchUrl.trim())) {
+      setError('Search URL must be an http(s) URL with %s where the query goes');
+      return;
+    }
+    if (form.suggestUrl.trim() && !isValidSearchTemplate(form.suggestUrl.trim())) {
+      setError('Suggestion URL must be an http(s) URL with %s where the query goes');
+      return;
+    }
+
+    try {
+      if (editingId === 'new') {
+        await addEngine(form);
+      } else if (editingId !== null) {
+        await updateEngine(editingId, form);
+      }
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to save search engine'
+      );
+    }
+  };
+
+  const handleDelete = async (engine: SearchEngine) => {
+    if (!confirm(`Remove search engine "${engine.name}"?`)) return;
+    try {
+      await deleteEngine(engine.id);
+    } catch (err) {
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to remove search engine'
+      );
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderForm = () => (
+    <div className="p-3 bg-accent/30 border border-border rounded-lg space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name"
+          className="col-span-2 px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <input
+          type="text"
+          value={form.keyword}
+          onChange={(e) => setForm({ ...form, keyword: e.target.value })}
+          placeholder="Keyword (e.g. gh)"
+          className="px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+      <input
+        type="text"
+        value={form.searchUrl}
+        onChange={(e) => setForm({ ...form, searchUrl: e.target.value })}
+        placeholder="Search URL, %s = query (e.g. https://github.com/search?q=%s)"
+        className="w-full px-3 py-1.5 bg-secondary border border-input rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <input
+        type="text"
+        value={form.suggestUrl}
+        onChange={(e) => setForm({ ...form, suggestUrl: e.target.value })}
+        placeholder="Suggestion URL (optional, OpenSearch JSON)"
+        className="w-full px-3 py-1.5 bg-secondary border border-input rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={cancelEdit}
+          className="px-3 py-1.5 text-sm border border-border rounded hover:bg-accent transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+        >
+          {editingId === 'new' ? 'Add' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">Search Engines</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Type a keyword followed by your search in the address bar (for example{' '}
+            <span className="font-mono">gh react hooks</span>). The default engine is also used by
+            the AI web search tool.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {engines.map((engine) =>
+              editingId === engine.id ? (
+                <React.Fragment key={engine.id}>{renderForm()}</React.Fragment>
+              ) : (
+                <div
+                  key={engine.id}
+                  className="group flex items-center gap-3 px-3 py-2 border border-border rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <span className="truncate">{engine.name}</span>
+                      {engine.keyword && (
+                        <span className="px-1.5 py-0.5 text-xs font-mono bg-muted rounded">
+                          {engine.keyword}
+                        </span>
+                      )}
+                      {engine.isDefault && (
+                        <span className="px-1.5 py-0.5 text-xs bg-primary text-primary-foreground rounded">
+                          Default
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">
+                      {engine.searchUrl}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {!engine.isDefault && (
+                      <button
+                        onClick={() => setDefaultEngine(engine.id)}
+                        className="px-2 py-1 text-xs hover:bg-accent rounded transition-colors"
+                      >
+                        Make default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startEdit(engine)}
+                      className="px-2 py-1 text-xs hover:bg-accent rounded transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(engine)}
+                      disabled={engines.length === 1}
+                      className="px-2 py-1 text-xs text-destructive hover:bg-destructive/10 rounded transition-colors disabled:opacity-30"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+
+            {editingId === 'new' ? (
+              renderForm()
+            ) : (
+              <button
+                onClick={startAdd}
+                className="w-full px-3 py-2 text-sm border border-dashed border-border rounded-lg hover:bg-accent transition-colors"
+              >
+                + Add search engine
+              </button>
+            )}
+          </div>
+
+          {/* Suggestions */}
+          <div className="p-4 bg-accent/30 border border-border rounded-lg flex items-center justify-between gap-4">
+            <div>
+              <label className="block text-sm font-medium">Search Suggestions</label>
+              <p className="text-xs text-muted-foreground">
+                Show suggestions from the search engine while typing in the address bar. What you
+                type is sent to the engine.
+              </p>
+            </div>
+            <button
+              onClick={() => setSuggestionsEnabled(!suggestionsEnabled)}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                suggestionsEnabled ? 'bg-primary' : 'bg-muted'
+              }`}
+              role="switch"
+              aria-checked={suggestionsEnabled}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  suggestionsEnabled ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
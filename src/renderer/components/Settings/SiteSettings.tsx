@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SITE_PERMISSION_NAMES } from '../../../shared/sitePermissions';
+import type {
+  SitePermission,
+  SitePermissionDecision,
+  SitePermissionType,
+} from '../../../shared/types';
+
+interface SiteSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SiteSettings: React.FC<SiteSettingsProps> = ({ isOpen, onClose }) => {
+  const [permissions, setPermissions] = useState<SitePermission[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPermissions = useCallback(async () => {
+    try {
+      setPermissions(await window.electron.invoke('sitePermissions:list'));
+    } catch (err) {
+      console.error('Failed to load site permissions:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadPermissions();
+    // Hide the active tab view so modal is interactive
+    window.electron.invoke('tabWindow:setActiveVisible', false).catch(console.error);
+    return () => {
+      window.electron.invoke('tabWindow:setActiveVisible', true).catch(console.error);
+    };
+  }, [isOpen, loadPermissions]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await loadPermissions();
+    } catch (err) {
+      // IPC errors arrive as "Error invoking remote method '...': Error: <message>"
+      setError(
+        (err instanceof Error && err.message.replace(/^.*Error: /, '')) ||
+          'Failed to update site permissions'
+      );
+    }
+  };
+
+  const handleChange = (
+    origin: string,
+    permission: SitePermissionType,
+    decision: SitePermissionDecision
+  ) => runAction(() => window.electron.invoke('sitePermissions:set', origin, permission, decision));
+
+  const handleRevoke = (origin: string, permission?: SitePermissionType) =>
+    runAction(() => window.electron.invoke('sitePermissions:revoke', origin, permission));
+
+  if (!isOpen) return null;
+
+  const origins = Array.from(new Set(permissions.map((p) => p.origin)));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-xl font-semibold">Site Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Sites ask before using your camera, microphone, location and similar features, and
+            pop-ups only open after a click. Remove a decision to go back to the default.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {origins.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No site has asked for a permission yet.
+            </p>
+          ) : (
+            origins.map((origin) => (
+              <div key={origin} className="border border-border rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+                  <span className="text-sm font-medium font-mono truncate">{origin}</span>
+                  <button
+                    onClick={() => handleRevoke(origin)}
+                    className="px-2 py-1 text-xs text-destructive hover:bg-destructive/10 rounded transition-colors"
+                  >
+                    Reset all
+                  </button>
+                </div>
+                {permissions
+                  .filter((p) => p.origin === origin)
+                  .map((p) => (
+                    <div
+                      key={p.permission}
+                      className="group flex items-center gap-3 px-3 py-1.5 text-sm"
+                    >
+                      <span className="flex-1">{SITE_PERMISSION_NAMES[p.permission]}</span>
+                      <select
+                        value={p.decision}
+                        onChange={(e) =>
+                          handleChange(
+                            origin,
+                            p.permission,
+                            e.target.value as SitePermissionDecision
+                          )
+                        }
+                        className="px-2 py-0.5 bg-secondary border border-input rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <option value="allow">Allow</option>
+                        <option value="block">Block</option>
+                      </select>
+                      <button
+                        onClick={() => handleRevoke(origin, p.permission)}
+                        className="px-2 py-0.5 text-xs hover:bg-accent rounded transition-colors opacity-0 group-hover:opacity-100"
+                        title="Ask again next time"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
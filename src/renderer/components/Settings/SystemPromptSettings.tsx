@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { PersonalitySelector } from './PersonalitySelector';
-import type { Personality } from '../../../shared/types';
-import { refreshThinkingMode } from '../../store/chat';
+import type { Personality, ToolPolicy } from '../../../shared/types';
+import { refreshThinkingMode, DEFAULT_AGENT_MAX_STEPS } from '../../store/chat';
 
 interface SystemPromptSettingsProps {
   isOpen: boolean;
@@ -13,6 +13,8 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
   const [userInfo, setUserInfo] = useState('');
   const [customInstructions, setCustomInstructions] = useState('');
   const [thinkingMode, setThinkingMode] = useState(true);
+  const [maxAgentSteps, setMaxAgentSteps] = useState(DEFAULT_AGENT_MAX_STEPS);
+  const [toolPolicies, setToolPolicies] = useState<ToolPolicy[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isPersonalitySelectorOpen, setIsPersonalitySelectorOpen] = useState(false);
   const [currentPersonality, setCurrentPersonality] = useState<Personality | null>(null);
@@ -25,12 +27,13 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
 
   const loadSettings = async () => {
     try {
-      const [prompt, info, instructions, personality, thinking] = await Promise.all([
+      const [prompt, info, instructions, personality, thinking, agentSteps] = await Promise.all([
         window.electron.invoke('settings:get', 'system-prompt'),
         window.electron.invoke('settings:get', 'user-info'),
         window.electron.invoke('settings:get', 'custom-instructions'),
         window.electron.invoke('personalities:getCurrent'),
         window.electron.invoke('settings:get', 'thinking-mode'),
+        window.electron.invoke('settings:get', 'agent-max-steps'),
       ]);
 
       setSystemPrompt(prompt || '');
@@ -46,11 +49,26 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
       } else {
         setThinkingMode(thinking !== false);
       }
+
+      const parsedSteps = parseInt(agentSteps, 10);
+      setMaxAgentSteps(parsedSteps > 0 ? parsedSteps : DEFAULT_AGENT_MAX_STEPS);
+
+      setToolPolicies(await window.electron.invoke('toolPolicy:list'));
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
   };
 
+  // Revoking takes effect immediately, independent of Save
+  const handleRevokeTool = async (origin: string, toolName: string) => {
+    try {
+      await window.electron.invoke('toolPolicy:revoke', origin, toolName);
+      setToolPolicies(await window.electron.invoke('toolPolicy:list'));
+    } catch (error) {
+      console.error('Failed to revoke tool permission:', error);
+    }
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -59,6 +77,7 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
         window.electron.invoke('settings:set', 'user-info', userInfo),
         window.electron.invoke('settings:set', 'custom-instructions', customInstructions),
         window.electron.invoke('settings:set', 'thinking-mode', thinkingMode),
+        window.electron.invoke('settings:set', 'agent-max-steps', maxAgentSteps),
       ]);
       // Refresh thinking mode in chat store
       await refreshThinkingMode();
@@ -81,6 +100,7 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
       setUserInfo('');
       setCustomInstructions('');
       setThinkingMode(true); // Reset to default (enabled)
+      setMaxAgentSteps(DEFAULT_AGENT_MAX_STEPS);
     }
   };
 
@@ -202,6 +222,63 @@ export const SystemPromptSettings: React.FC<SystemPromptSettingsProps> = ({ isOp
                   )}
                 </p>
               </div>
+              {thinkingMode && (
+                <div className="mt-3 pt-3 border-t border-border flex items-center justify-between gap-4">
+                  <div>
+                    <label className="block text-sm font-medium">Max Agent Steps</label>
+                    <p className="text-xs text-muted-foreground">
+                      Maximum number of tool calls the AI can make for a single request before it
+                      has to answer with what it found.
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={maxAgentSteps}
+                    onChange={(e) =>
+                      setMaxAgentSteps(Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)))
+                    }
+                    className="w-20 px-3 py-1.5 bg-secondary border border-input rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              )}
+              {thinkingMode && (
+                <div className="mt-3 pt-3 border-t border-border">
+                  <label className="block text-sm font-medium">Always-Allowed Actions</label>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Actions that change pages (opening URLs, clicking, typing, switching tabs) ask
+                    for your approval unless you always allowed them on a site.
+                  </p>
+                  {toolPolicies.length === 0 ? (
+                    <p className="text-xs text-muted-foreground italic">
+                      No always-allowed actions
+                    </p>
+                  ) : (
+                    <div className="space-y-1">
+                      {toolPolicies.flatMap((policy) =>
+                        policy.allowedTools.map((toolName) => (
+                          <div
+                            key={`${policy.origin}-${toolName}`}
+                            className="flex items-center justify-between gap-2 px-2 py-1 bg-secondary rounded text-xs"
+                          >
+                            <span className="truncate">
+                              <span className="font-mono">{toolName}</span>
+                              <span className="text-muted-foreground"> on {policy.origin}</span>
+                            </span>
+                            <button
+                              onClick={() => handleRevokeTool(policy.origin, toolName)}
+                              className="px-2 py-0.5 text-destructive hover:bg-destructive/10 rounded transition-colors flex-shrink-0"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* System Prompt */}
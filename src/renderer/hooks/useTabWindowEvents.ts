@@ -1,7 +1,11 @@
 import { useEffect } from 'react';
 import { useTabsStore } from '../store/tabs';
+import type { NewTabOptions } from '../store/tabs';
 import { useBrowserStore } from '../store/browser';
 
+// Blocked pop-ups remembered per page, oldest dropped first
+const MAX_BLOCKED_POPUPS = 10;
+
 /**
  * Hook to listen for tab window events from the main process
  * This replaces the webview event listeners we had before
@@ -91,7 +95,8 @@ export function useTabWindowEvents() {
         canGoBack: boolean;
         canGoForward: boolean;
       }) => {
-        updateTab(tabId, { url });
+        // Blocked pop-ups and requests belong to the page that made them
+        updateTab(tabId, { url, blockedPopups: [], blockedRequests: 0 });
         const activeTabId = useTabsStore.getState().activeTabId;
         if (tabId === activeTabId) {
           setCurrentUrl(url);
@@ -114,10 +119,44 @@ export function useTabWindowEvents() {
     );
 
     // Request new tab (from popups/target="_blank")
-    const unsubRequestNew = window.electron.on('tab-request-new', ({ url }: { url: string }) => {
-      const { addTab } = useTabsStore.getState();
-      addTab(url);
-    });
+    const unsubRequestNew = window.electron.on(
+      'tab-request-new',
+      ({ url, isPrivate, containerId }: { url: string } & NewTabOptions) => {
+        const { addTab } = useTabsStore.getState();
+        addTab(url, { isPrivate, containerId });
+      }
+    );
+
+    // Pop-up blocked (opened without a click)
+    const unsubPopupBlocked = window.electron.on(
+      'tab-popup-blocked',
+      ({ tabId, url }: { tabId: string; url: string }) => {
+        const tab = useTabsStore.getState().tabs.find((t) => t.id === tabId);
+        if (!tab) return;
+
+        const blockedPopups = (tab.blockedPopups || []).filter((u) => u !== url);
+        updateTab(tabId, { blockedPopups: [...blockedPopups, url].slice(-MAX_BLOCKED_POPUPS) });
+      }
+    );
+
+    // Ads and trackers blocked on the current page
+    const unsubBlockedCount = window.electron.on(
+      'tab-blocked-count',
+      ({ tabId, count }: { tabId: string; count: number }) => {
+        updateTab(tabId, { blockedRequests: count });
+      }
+    );
+
+    // Request tab activation (tab switched from the main process)
+    const unsubRequestActivate = window.electron.on(
+      'tab-request-activate',
+      ({ tabId }: { tabId: string }) => {
+        const { activeTabId, setActiveTab } = useTabsStore.getState();
+        if (tabId !== activeTabId) {
+          setActiveTab(tabId);
+        }
+      }
+    );
 
     // Load error
     const unsubLoadError = window.electron.on(
@@ -171,6 +210,9 @@ export function useTabWindowEvents() {
       unsubDidNavigate();
       unsubDidNavigateInPage();
       unsubRequestNew();
+      unsubPopupBlocked();
+      unsubBlockedCount();
+      unsubRequestActivate();
       unsubLoadError();
       unsubActivated();
       unsubZoomChanged();
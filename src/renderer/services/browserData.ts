@@ -1,4 +1,10 @@
-import type { HistoryEntry, Bookmark, BrowsingContext } from '../../shared/types';
+import type {
+  HistoryEntry,
+  Bookmark,
+  BrowsingContext,
+  HistoryIndexStatus,
+  SemanticHistoryResult,
+} from '../../shared/types';
 
 declare global {
   interface Window {
@@ -32,6 +38,18 @@ export const browserDataService = {
     return window.electron.invoke('history:clear', olderThan);
   },
 
+  async semanticSearchHistory(query: string, limit?: number): Promise<SemanticHistoryResult[]> {
+    return window.electron.invoke('history:semanticSearch', query, limit);
+  },
+
+  async getHistoryIndexStatus(): Promise<HistoryIndexStatus> {
+    return window.electron.invoke('history:getIndexStatus');
+  },
+
+  async setHistoryEmbeddingModel(model: string | null): Promise<HistoryIndexStatus> {
+    return window.electron.invoke('history:setEmbeddingModel', model);
+  },
+
   // Bookmarks
   async addBookmark(bookmark: Bookmark): Promise<number> {
     return window.electron.invoke('bookmark:add', bookmark);
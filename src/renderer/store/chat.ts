@@ -1,35 +1,113 @@
 import { create } from 'zustand';
-import type { ChatMessage } from '../../shared/types';
-import { buildOptimizedContext, getRecommendedLimits } from '../../shared/contextManager';
+import type {
+  BookmarkSource,
+  ChatMessage,
+  Conversation,
+  MessageContextInfo,
+  MessageSearchResult,
+  MessageTiming,
+  ModelToolCall,
+  Redaction,
+  RedactionSettings,
+  StoredMessage,
+  ResponseStats,
+  StreamReasoningEvent,
+  StreamStatsEvent,
+  StreamTokenEvent,
+  StreamToolCallsEvent,
+  ToolCallInfo,
+} from '../../shared/types';
+import {
+  RECENT_MESSAGES,
+  buildOptimizedContext,
+  estimateMessageTokens,
+  estimateTokens,
+  fitConversation,
+  getBrowsingContextBudget,
+  getContextBudget,
+  getRecommendedLimits,
+  truncateToTokens,
+} from '../../shared/contextManager';
 import { supportsVision, supportsToolCalling } from '../../shared/modelRegistry';
-import { AVAILABLE_TOOLS, toolsToOllamaFormat, executeTool } from '../../shared/tools';
+import {
+  DEFAULT_REDACTION_SETTINGS,
+  REDACTION_SETTING,
+  parseRedactionSettings,
+  redactPageCapture,
+} from '../../shared/redaction';
+import {
+  AVAILABLE_TOOLS,
+  toolsToOllamaFormat,
+  executeTool,
+  isReadOnlyTool,
+  getToolCallOrigin,
+} from '../../shared/tools';
+import { useTabsStore } from './tabs';
 
 export interface Message extends ChatMessage {
   id: string;
   timestamp: Date;
-  contextInfo?: {
-    pageUrl?: string;
-    pageTitle?: string;
-    hasContent?: boolean;
-    hasScreenshot?: boolean;
-    hasHistory?: boolean;
-    hasBookmarks?: boolean;
-    tokenEstimate?: number;
-  };
-  toolCall?: {
-    name: string;
-    arguments: Record<string, any>;
-  };
+  contextInfo?: MessageContextInfo;
+  toolCall?: ToolCallInfo;
   toolResult?: any;
   isToolExecution?: boolean;
   thinking?: string; // Chain-of-thought reasoning from Qwen models
-  timing?: {
-    startTime: number;
-    firstTokenTime?: number;
-    endTime?: number;
-    ttft?: number; // Time to first token in ms
-    totalTime?: number; // Total response time in ms
-  };
+  timing?: MessageTiming;
+  stats?: ResponseStats; // Token counts and speed reported by the model server
+  isMemory?: boolean; // Pinned summary of the condensed turns
+  condensed?: boolean; // Summarized into the memory and no longer sent to the model
+}
+
+export type AgentStepStatus = 'pending' | 'awaiting_approval' | 'running' | 'done' | 'failed';
+
+export interface AgentStep {
+  id: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  status: AgentStepStatus;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface AgentRun {
+  id: string;
+  status: 'running' | 'completed' | 'budget_exhausted' | 'aborted' | 'failed';
+  steps: AgentStep[];
+  maxSteps: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export const DEFAULT_AGENT_MAX_STEPS = 8;
+
+// Passages retrieved from bookmarks per question in bookmark chat mode
+const BOOKMARK_SOURCE_LIMIT = 5;
+
+// Share of its token budget the conversation may fill before older turns are summarized
+const MEMORY_THRESHOLD = 0.75;
+
+export type ToolApprovalDecision = 'approve' | 'deny' | 'always_allow';
+
+// A side-effecting tool call waiting for the user in the chat sidebar
+export interface PendingToolApproval {
+  stepId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  origin: string | null; // null when the call has no web origin (always-allow unavailable)
+}
+
+// Page capture sent along with a message; pages excluded in AI Privacy settings
+// come back with only the withheld flag set
+interface CapturedPage {
+  url?: string;
+  title?: string;
+  content?: string;
+  selectedText?: string;
+  screenshot?: string;
+  html?: string;
+  readable?: { textContent?: string; excerpt?: string; content?: string } | null;
+  withheld?: boolean;
 }
 
 interface ChatState {
@@ -39,6 +117,11 @@ interface ChatState {
   streamingContent: string;
   error: string | null;
   planningMode: boolean; // Enable tool calling and agentic behavior
+  bookmarkChatMode: boolean; // Answer from retrieved bookmark passages with numbered citations
+  agentRun: AgentRun | null; // Plan of the current/last agent request
+  maxAgentSteps: number;
+  pendingToolApproval: PendingToolApproval | null;
+  respondToToolApproval: (decision: ToolApprovalDecision) => void;
   addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
   appendToLastMessage: (content: string) => void;
   setStreamingContent: (content: string) => void;
@@ -46,23 +129,334 @@ interface ChatState {
   setCurrentModel: (model: string) => void;
   setError: (error: string | null) => void;
   setPlanningMode: (enabled: boolean) => void;
+  setBookmarkChatMode: (enabled: boolean) => void;
   clearMessages: () => void;
+  clearAgentRun: () => void;
+  conversationId: string | null;
+  conversations: Conversation[];
+  messageSearchResults: MessageSearchResult[];
+  highlightedMessageId: string | null;
+  loadConversations: (query?: string) => Promise<void>;
+  openConversation: (id: string, messageId?: string) => Promise<void>;
+  clearHighlightedMessage: () => void;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
   startNewMessage: (role: 'user' | 'assistant') => string;
   cancelGeneration: () => Promise<void>;
   sendChatMessage: (
     prompt: string,
     images?: string[],
-    pageContext?: {
-      url?: string;
-      title?: string;
-      content?: string;
-      selectedText?: string;
-      screenshot?: string;
-      readable?: any;
-    }
+    pageContext?: CapturedPage
   ) => Promise<{ tokenEstimate?: number }>;
 }
 
+const toStoredMessage = (message: Message): StoredMessage => ({
+  ...message,
+  timestamp: message.timestamp.getTime(),
+});
+
+const fromStoredMessage = (message: StoredMessage): Message => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+});
+
+// Use the first user prompt as the conversation title
+const buildConversationTitle = (messages: Message[]): string => {
+  const firstPrompt = messages.find((m) => m.role === 'user')?.content.trim() || 'New chat';
+  const singleLine = firstPrompt.replace(/\s+/g, ' ');
+  return singleLine.length > 80 ? singleLine.substring(0, 77) + '...' : singleLine;
+};
+
+// Save the current conversation to the database, creating it on first save
+const persistConversation = async () => {
+  const { messages, conversationId, currentModel } = useChatStore.getState();
+  if (messages.length === 0) return;
+
+  try {
+    let id = conversationId;
+    if (!id) {
+      id = crypto.randomUUID();
+      const now = Date.now();
+      await window.electron.invoke('conversation:create', {
+        id,
+        title: buildConversationTitle(messages),
+        model: currentModel || undefined,
+        createdAt: now,
+        updatedAt: now,
+      });
+      useChatStore.setState({ conversationId: id });
+    }
+
+    await window.electron.invoke('conversation:saveMessages', id, messages.map(toStoredMessage));
+  } catch (error) {
+    console.error('Failed to save conversation:', error);
+  }
+};
+
+// Set by cancelGeneration and checked by the agent loop between steps
+let generationCancelled = false;
+
+// Request ID of the model round being streamed; events for other requests are ignored
+let activeRequestId: string | null = null;
+
+// Resolves the approval prompt currently shown to the user
+let resolveToolApproval: ((decision: ToolApprovalDecision) => void) | null = null;
+
+// Messages sent to the model: skip placeholders, errors and tool call display messages
+const buildModelMessages = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter((m) => {
+      // The memory goes into the system prompt and replaces the turns it condensed
+      if (m.isMemory || m.condensed) return false;
+      // Filter out empty assistant messages
+      if (m.role === 'assistant' && !m.content) return false;
+      // Filter out error and status messages
+      if (m.role === 'assistant' && (m.content.startsWith('❌') || m.content.startsWith('⏹️')))
+        return false;
+      // Filter out tool execution display messages (keep tool results though)
+      if (m.isToolExecution) return false;
+      return true;
+    })
+    .map((m) => ({
+      role: m.role,
+      content: m.content,
+      images: m.images,
+    }));
+
+// Summarize older turns into the pinned memory message once the conversation
+// nears its token budget. The condensed turns stay in the chat and in storage
+// but are no longer sent to the model.
+const condenseHistory = async (model: string, tokenBudget: number): Promise<void> => {
+  const { messages } = useChatStore.getState();
+  const memory = messages.find((m) => m.isMemory);
+  const active = messages.filter((m) => !m.isMemory && !m.condensed);
+
+  const used =
+    buildModelMessages(active).reduce((total, m) => total + estimateMessageTokens(m), 0) +
+    (memory ? estimateTokens(memory.content) : 0);
+  if (used <= tokenBudget * MEMORY_THRESHOLD) return;
+
+  // Keep the latest turns, starting at a user message so no answer loses its question
+  let keepFrom = Math.max(0, active.length - RECENT_MESSAGES);
+  while (keepFrom > 0 && active[keepFrom].role !== 'user') keepFrom--;
+  const older = active.slice(0, keepFrom);
+  const turns = buildModelMessages(older);
+  if (turns.length < 2) return;
+
+  // The transcript has to fit the model's window too
+  const perTurn = Math.floor(tokenBudget / turns.length);
+  const requestId = crypto.randomUUID();
+  activeRequestId = requestId;
+  try {
+    console.log(`[Memory] Condensing ${turns.length} older messages (${used} tokens in use)`);
+    const summary: string = await window.electron.invoke('llm:summarize', {
+      model,
+      messages: turns.map((m) => ({ role: m.role, content: truncateToTokens(m.content, perTurn) })),
+      previousSummary: memory?.content,
+      requestId,
+    });
+    if (!summary || generationCancelled) return;
+
+    const condensedIds = new Set(older.map((m) => m.id));
+    useChatStore.setState((state) => {
+      const updated = state.messages.map((m) =>
+        condensedIds.has(m.id) ? { ...m, condensed: true } : m
+      );
+      return {
+        messages: memory
+          ? updated.map((m) =>
+              m.id === memory.id ? { ...m, content: summary, timestamp: new Date() } : m
+            )
+          : [
+              {
+                id: crypto.randomUUID(),
+                role: 'system',
+                content: summary,
+                isMemory: true,
+                timestamp: new Date(),
+              },
+              ...updated,
+            ],
+      };
+    });
+    await persistConversation();
+  } catch (error) {
+    // The request still goes out; older turns are compressed to fit instead
+    if (!generationCancelled) {
+      console.warn('Failed to summarize conversation:', error);
+    }
+  }
+};
+
+const updateAgentRun = (updater: (run: AgentRun) => AgentRun) =>
+  useChatStore.setState((state) => (state.agentRun ? { agentRun: updater(state.agentRun) } : {}));
+
+const updateAgentStep = (stepId: string, updates: Partial<AgentStep>) =>
+  updateAgentRun((run) => ({
+    ...run,
+    steps: run.steps.map((step) => (step.id === stepId ? { ...step, ...updates } : step)),
+  }));
+
+// Close a run; steps that never got to finish are marked failed with the reason
+const finishAgentRun = (run: AgentRun, status: AgentRun['status']): AgentRun => {
+  if (run.status !== 'running') return run;
+
+  const reason =
+    status === 'aborted'
+      ? 'Cancelled by user'
+      : status === 'budget_exhausted'
+        ? 'Step budget exhausted'
+        : 'Request failed';
+  const finishedAt = Date.now();
+
+  return {
+    ...run,
+    status,
+    finishedAt,
+    steps: run.steps.map((step) =>
+      step.status === 'pending' || step.status === 'awaiting_approval' || step.status === 'running'
+        ? { ...step, status: 'failed', error: reason, finishedAt }
+        : step
+    ),
+  };
+};
+
+const finishCancelledGeneration = () => {
+  updateAgentRun((run) => finishAgentRun(run, 'aborted'));
+  useChatStore.getState().addMessage({
+    role: 'assistant',
+    content: '⏹️ Generation stopped by user.',
+  });
+};
+
+// Ask the user before running a side-effecting tool, unless it is always allowed for the origin
+const requestToolApproval = async (step: AgentStep): Promise<boolean> => {
+  const activeUrl = useTabsStore.getState().getActiveTab()?.url;
+  const origin = getToolCallOrigin(step.toolName, step.arguments, activeUrl);
+
+  if (origin) {
+    try {
+      const allowedTools: string[] = await window.electron.invoke('toolPolicy:getAllowed', origin);
+      if (allowedTools.includes(step.toolName)) return true;
+    } catch (error) {
+      console.error('Failed to load tool policy:', error);
+    }
+  }
+
+  updateAgentStep(step.id, { status: 'awaiting_approval' });
+  const decision = await new Promise<ToolApprovalDecision>((resolve) => {
+    resolveToolApproval = resolve;
+    useChatStore.setState({
+      pendingToolApproval: {
+        stepId: step.id,
+        toolName: step.toolName,
+        arguments: step.arguments,
+        origin,
+      },
+    });
+  });
+  resolveToolApproval = null;
+  useChatStore.setState({ pendingToolApproval: null });
+
+  if (decision === 'always_allow' && origin) {
+    try {
+      await window.electron.invoke('toolPolicy:allow', origin, step.toolName);
+    } catch (error) {
+      console.error('Failed to save tool policy:', error);
+    }
+  }
+
+  return decision !== 'deny';
+};
+
+// Execute a single plan step and record the tool call and its result as messages
+const executeAgentStep = async (step: AgentStep) => {
+  const { addMessage } = useChatStore.getState();
+  const { toolName, arguments: toolArgs } = step;
+
+  if (!isReadOnlyTool(toolName)) {
+    const approved = await requestToolApproval(step);
+    // Cancelling while the prompt is open denies it; the loop closes the run
+    if (generationCancelled) return;
+    if (!approved) {
+      console.log(`[Tool] ${toolName} denied by user`);
+      addMessage({
+        role: 'tool',
+        content: `The user denied permission to run ${toolName}. Do not retry it; continue without it or ask the user how to proceed.`,
+        toolResult: { error: 'Denied by user' },
+      });
+      updateAgentStep(step.id, {
+        status: 'failed',
+        error: 'Denied by user',
+        finishedAt: Date.now(),
+      });
+      return;
+    }
+  }
+
+  updateAgentStep(step.id, { status: 'running', startedAt: Date.now() });
+
+  // Add tool execution message to show user which tool is being used
+  addMessage({
+    role: 'assistant',
+    content: `🔧 Using tool: **${toolName}**\n\`\`\`json\n${JSON.stringify(toolArgs, null, 2)}\n\`\`\``,
+    isToolExecution: true,
+    toolCall: {
+      name: toolName,
+      arguments: toolArgs,
+    },
+  });
+
+  try {
+    console.log(`[Tool] Executing ${toolName} with args:`, toolArgs);
+    const result = await executeTool(toolName, toolArgs);
+
+    // Check if tool execution had an error
+    if (result.error) {
+      console.error(`[Tool] ${toolName} returned error:`, result.error);
+      addMessage({
+        role: 'tool',
+        content: `Tool execution failed: ${result.error}`,
+        toolResult: { error: result.error },
+      });
+      updateAgentStep(step.id, { status: 'failed', error: result.error, finishedAt: Date.now() });
+      return;
+    }
+
+    const resultContent =
+      result.result !== null && result.result !== undefined
+        ? JSON.stringify(result.result, null, 2)
+        : 'Tool executed successfully but returned no data';
+
+    addMessage({
+      role: 'tool',
+      content: resultContent,
+      toolResult: result.result,
+    });
+    updateAgentStep(step.id, { status: 'done', finishedAt: Date.now() });
+    console.log(`[Tool] ${toolName} result:`, result);
+  } catch (error) {
+    console.error(`[Tool] ${toolName} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    addMessage({
+      role: 'tool',
+      content: `Tool execution error: ${message}`,
+      toolResult: { error: message },
+    });
+    updateAgentStep(step.id, { status: 'failed', error: message, finishedAt: Date.now() });
+  }
+};
+
+// Read the PII redaction settings, redacting with the defaults if they can't be read
+const loadRedactionSettings = async (): Promise<RedactionSettings> => {
+  try {
+    return parseRedactionSettings(await window.electron.invoke('settings:get', REDACTION_SETTING));
+  } catch (error) {
+    console.warn('Failed to load redaction settings, using the defaults:', error);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
 // Initialize thinking mode from database
 const initializeThinkingMode = async (): Promise<boolean> => {
   try {
@@ -89,6 +483,14 @@ export const useChatStore = create<ChatState>((set, get) => ({
   streamingContent: '',
   error: null,
   planningMode: true, // Will be initialized from database
+  bookmarkChatMode: false,
+  agentRun: null,
+  maxAgentSteps: DEFAULT_AGENT_MAX_STEPS,
+  pendingToolApproval: null,
+  conversationId: null,
+  conversations: [],
+  messageSearchResults: [],
+  highlightedMessageId: null,
 
   addMessage: (message) =>
     set((state) => ({
@@ -122,7 +524,96 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   setPlanningMode: (enabled: boolean) => set({ planningMode: enabled }),
 
-  clearMessages: () => set({ messages: [], error: null, streamingContent: '' }),
+  setBookmarkChatMode: (enabled: boolean) => set({ bookmarkChatMode: enabled }),
+
+  // Start a new chat; the previous conversation stays in the database
+  clearMessages: () =>
+    set({
+      messages: [],
+      conversationId: null,
+      agentRun: null,
+      error: null,
+      streamingContent: '',
+    }),
+
+  clearAgentRun: () => set({ agentRun: null }),
+
+  respondToToolApproval: (decision: ToolApprovalDecision) => {
+    resolveToolApproval?.(decision);
+  },
+
+  loadConversations: async (query?: string) => {
+    try {
+      if (!query?.trim()) {
+        const conversations: Conversation[] = await window.electron.invoke('conversation:list');
+        set({ conversations, messageSearchResults: [] });
+        return;
+      }
+
+      const [conversations, messageSearchResults] = await Promise.all([
+        window.electron.invoke('conversation:search', query.trim()),
+        window.electron.invoke('conversation:searchMessages', query.trim(), 20),
+      ]);
+      set({ conversations, messageSearchResults });
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  },
+
+  openConversation: async (id: string, messageId?: string) => {
+    if (get().isStreaming) return;
+
+    try {
+      const conversation: Conversation | null = await window.electron.invoke(
+        'conversation:get',
+        id
+      );
+      if (!conversation) return;
+
+      set({
+        conversationId: conversation.id,
+        messages: (conversation.messages || []).map(fromStoredMessage),
+        highlightedMessageId: messageId || null,
+        agentRun: null,
+        error: null,
+        streamingContent: '',
+      });
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    }
+  },
+
+  clearHighlightedMessage: () => set({ highlightedMessageId: null }),
+
+  renameConversation: async (id: string, title: string) => {
+    if (!title.trim()) return;
+
+    try {
+      await window.electron.invoke('conversation:rename', id, title.trim());
+      set((state) => ({
+        conversations: state.conversations.map((c) =>
+          c.id === id ? { ...c, title: title.trim() } : c
+        ),
+      }));
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  },
+
+  deleteConversation: async (id: string) => {
+    try {
+      await window.electron.invoke('conversation:delete', id);
+      set((state) => ({
+        conversations: state.conversations.filter((c) => c.id !== id),
+      }));
+      // Deleting the open conversation starts a fresh chat
+      if (get().conversationId === id) {
+        get().clearMessages();
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  },
 
   startNewMessage: (role: 'user' | 'assistant') => {
     const id = crypto.randomUUID();
@@ -141,35 +632,77 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   cancelGeneration: async () => {
-    try {
-      await window.electron.invoke('ollama:cancelChat');
-      set({ isStreaming: false, streamingContent: '' });
+    if (!get().isStreaming) return;
 
-      // Add a message indicating the generation was stopped
-      const state = get();
-      state.addMessage({
-        role: 'assistant',
-        content: '⏹️ Generation stopped by user.',
-      });
+    // The running sendChatMessage loop notices the flag and stops after the current step
+    generationCancelled = true;
+    resolveToolApproval?.('deny');
+    try {
+      if (activeRequestId) {
+        await window.electron.invoke('ollama:cancelChat', activeRequestId);
+      }
     } catch (error) {
       console.error('Failed to cancel generation:', error);
     }
   },
 
-  sendChatMessage: async (prompt: string, images?: string[], pageContext?: any) => {
+  sendChatMessage: async (prompt: string, images?: string[], capturedPage?: CapturedPage) => {
     const state = get();
-    const { currentModel, planningMode } = state;
+
+    // Pages excluded in AI Privacy settings come back without content, so
+    // nothing about them is sent and the message shows the context was withheld
+    const contextWithheld = !!capturedPage?.withheld;
+    let pageContext = contextWithheld ? undefined : capturedPage;
+
+    const { currentModel, planningMode, bookmarkChatMode, maxAgentSteps } = state;
 
     if (!currentModel) {
       set({ error: 'No model selected' });
       return {};
     }
 
+    generationCancelled = false;
+
+    // Check if we should use tool calling
+    const shouldUseTools = planningMode && supportsToolCalling(currentModel);
+    const tools = shouldUseTools ? toolsToOllamaFormat(AVAILABLE_TOOLS) : undefined;
+
+    // Budget the request against the context window the model actually runs with
+    let contextLength: number | null = null;
+    try {
+      contextLength = await window.electron.invoke('ollama:getContextLength', currentModel);
+    } catch (error) {
+      console.warn('Failed to read context length, using the default:', error);
+    }
+    const budget = getContextBudget(
+      contextLength,
+      tools ? estimateTokens(JSON.stringify(tools)) : 0
+    );
+
+    // Retrieve the bookmark passages that best match the question
+    let sources: BookmarkSource[] = [];
+    if (bookmarkChatMode) {
+      try {
+        sources = await window.electron.invoke('bookmark:retrieve', prompt, BOOKMARK_SOURCE_LIMIT);
+      } catch (error) {
+        console.warn('Failed to retrieve bookmark sources:', error);
+      }
+    }
+
+    // Replace personal data in the page text before it goes into the context
+    let redactions: Redaction[] = [];
+    if (pageContext) {
+      ({ capture: pageContext, redactions } = redactPageCapture(
+        pageContext,
+        await loadRedactionSettings()
+      ));
+    }
+
     // Build optimized context first to get token estimate
-    let context = undefined;
+    let context: Omit<ReturnType<typeof buildOptimizedContext>, 'tokenEstimate'> | undefined;
     let tokenEstimate = 0;
 
-    if (pageContext) {
+    if (pageContext || sources.length > 0) {
       try {
         // Check if model supports vision
         const isVisionModel = currentModel ? supportsVision(currentModel) : false;
@@ -179,23 +712,25 @@ export const useChatStore = create<ChatState>((set, get) => ({
         const limits = getRecommendedLimits(isVisionModel, hasScreenshot, 'normal');
 
         // Get browsing context (will be limited by contextManager)
-        const browsingContext = await window.electron.invoke(
-          'browsing:getContext',
-          limits.maxHistoryItems || 5
-        );
+        const browsingContext = pageContext
+          ? await window.electron.invoke('browsing:getContext', limits.maxHistoryItems || 5)
+          : null;
 
-        // Build optimized context
+        // Build optimized context within what is left after the question
         const optimized = buildOptimizedContext(
-          pageContext,
+          pageContext || null,
           browsingContext,
           isVisionModel,
-          limits
+          limits,
+          sources,
+          getBrowsingContextBudget(budget, { role: 'user', content: prompt, images })
         );
 
         context = {
           page: optimized.page,
           browsingHistory: optimized.browsingHistory,
           bookmarks: optimized.bookmarks,
+          sources: optimized.sources,
         };
 
         tokenEstimate = optimized.tokenEstimate;
@@ -204,6 +739,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
           hasScreenshot,
           isVisionModel,
           limits,
+          budget,
         });
       } catch (error) {
         console.warn('Failed to build context:', error);
@@ -215,293 +751,249 @@ export const useChatStore = create<ChatState>((set, get) => ({
       role: 'user',
       content: prompt,
       images,
-      contextInfo: pageContext
-        ? {
-            pageUrl: pageContext.url,
-            pageTitle: pageContext.title,
-            hasContent: !!pageContext.readable?.textContent || !!pageContext.html,
-            hasScreenshot: !!images && images.length > 0,
-            hasHistory: !!(context as any)?.browsingHistory?.length,
-            hasBookmarks: !!(context as any)?.bookmarks?.length,
-            tokenEstimate,
-          }
-        : undefined,
+      contextInfo:
+        pageContext || sources.length > 0 || contextWithheld
+          ? {
+              pageUrl: pageContext?.url,
+              pageTitle: pageContext?.title,
+              hasContent: !!pageContext?.readable?.textContent || !!pageContext?.html,
+              hasScreenshot: !!images && images.length > 0,
+              hasHistory: !!context?.browsingHistory?.length,
+              hasBookmarks: !!context?.bookmarks?.length,
+              sources: sources.length
+                ? sources
+                    .filter((source, i) => sources.findIndex((s) => s.index === source.index) === i)
+                    .map(({ index, bookmarkId, title, url }) => ({ index, bookmarkId, title, url }))
+                : undefined,
+              tokenEstimate,
+              contextWithheld: contextWithheld || undefined,
+              redactions: redactions.length ? redactions : undefined,
+            }
+          : undefined,
     });
+    await persistConversation();
 
-    // Check if we should use tool calling
-    const shouldUseTools = planningMode && supportsToolCalling(currentModel);
-    const tools = shouldUseTools ? toolsToOllamaFormat(AVAILABLE_TOOLS) : undefined;
+    // Only send context with the first message of a conversation
+    // This prevents context from being duplicated in every request
+    // Retrieved sources belong to this question, so they are always sent
+    const isFirstMessage = get().messages.filter((m) => m.role === 'user').length === 1;
+    const contextToSend = isFirstMessage
+      ? context
+      : sources.length > 0
+        ? { sources: context?.sources }
+        : undefined;
+
+    // The conversation gets what the browsing context leaves; older turns are compressed to fit
+    const conversationBudget = budget.available - (contextToSend ? tokenEstimate : 0);
+    const getMemory = () => get().messages.find((m) => m.isMemory)?.content;
+    const fitToBudget = (messages: ChatMessage[]): ChatMessage[] => {
+      const fitted = fitConversation(
+        messages,
+        conversationBudget - estimateTokens(getMemory() || '')
+      );
+      if (fitted.compressed > 0 || fitted.dropped > 0) {
+        console.log(
+          `[Context] Conversation over budget (${conversationBudget} tokens): compressed ${fitted.compressed}, dropped ${fitted.dropped} older messages`
+        );
+      }
+      return fitted.messages;
+    };
 
     let unsubscribeToken: (() => void) | undefined;
     let unsubscribeToolCalls: (() => void) | undefined;
     let unsubscribeThinking: (() => void) | undefined;
+    let unsubscribeStats: (() => void) | undefined;
 
-    // Track timing
-    const startTime = Date.now();
+    // State of the current model round; listeners always target the current assistant message
+    let currentMessageId = '';
+    let roundStartTime = 0;
     let firstTokenTime: number | undefined;
+    let roundToolCalls: ModelToolCall[] = [];
+
+    const updateCurrentMessage = (updater: (message: Message) => Message) =>
+      set((state) => ({
+        messages: state.messages.map((m) => (m.id === currentMessageId ? updater(m) : m)),
+      }));
 
-    // Track current message ID for listeners (will be updated for follow-up messages)
-    let currentMessageId: string;
+    // Stream one model response into a new assistant message and return its content
+    const runModelRound = async (
+      messagesForModel: ChatMessage[],
+      withTools: boolean
+    ): Promise<string> => {
+      const requestId = crypto.randomUUID();
+      activeRequestId = requestId;
+      roundToolCalls = [];
+      firstTokenTime = undefined;
+      roundStartTime = Date.now();
+      currentMessageId = get().startNewMessage('assistant');
+      updateCurrentMessage((m) => ({ ...m, timing: { startTime: roundStartTime } }));
+      set({ streamingContent: '' });
 
-    try {
-      set({ isStreaming: true, error: null, streamingContent: '' });
+      console.log('[Chat] Sending request:', {
+        messageCount: messagesForModel.length,
+        hasContext: !!contextToSend,
+        contextTokens: contextToSend ? tokenEstimate : 0,
+        hasPlanningMode: withTools,
+        toolCount: withTools ? tools?.length || 0 : 0,
+      });
 
-      // Start a new assistant message with timing
-      currentMessageId = state.startNewMessage('assistant');
+      await window.electron.invoke('ollama:chat', {
+        requestId,
+        model: currentModel,
+        messages: messagesForModel,
+        context: contextToSend,
+        memory: getMemory(),
+        stream: true,
+        planningMode: withTools,
+        tools: withTools ? tools : undefined,
+        think: planningMode, // Enable thinking mode for reasoning models
+      });
 
-      // Initialize timing for the message
-      set((state) => ({
-        messages: state.messages.map((m) =>
-          m.id === currentMessageId
-            ? {
-                ...m,
-                timing: {
-                  startTime,
-                },
-              }
-            : m
-        ),
+      const endTime = Date.now();
+      updateCurrentMessage((m) => ({
+        ...m,
+        timing: { ...m.timing!, endTime, totalTime: endTime - roundStartTime },
       }));
 
+      // Drop the placeholder when the model only answered with tool calls
+      const message = get().messages.find((m) => m.id === currentMessageId);
+      if (message && !message.content && !message.thinking) {
+        set((state) => ({ messages: state.messages.filter((m) => m.id !== currentMessageId) }));
+      }
+      return message?.content || '';
+    };
+
+    try {
+      set({ isStreaming: true, error: null, streamingContent: '' });
+
+      if (shouldUseTools) {
+        set({
+          agentRun: {
+            id: crypto.randomUUID(),
+            status: 'running',
+            steps: [],
+            maxSteps: maxAgentSteps,
+            startedAt: Date.now(),
+          },
+        });
+      }
+
       // Set up thinking listener (for Qwen chain-of-thought reasoning)
-      unsubscribeThinking = window.electron.on('ollama:reasoning', (thinkingToken: string) => {
-        set((state) => ({
-          messages: state.messages.map((m) =>
-            m.id === currentMessageId
-              ? {
-                  ...m,
-                  thinking: (m.thinking || '') + thinkingToken,
-                }
-              : m
-          ),
-        }));
-      });
+      unsubscribeThinking = window.electron.on(
+        'ollama:reasoning',
+        ({ requestId, content }: StreamReasoningEvent) => {
+          if (requestId !== activeRequestId) return;
+          updateCurrentMessage((m) => ({ ...m, thinking: (m.thinking || '') + content }));
+        }
+      );
 
       // Set up token listener
-      unsubscribeToken = window.electron.on('ollama:chatToken', (token: string) => {
+      unsubscribeToken = window.electron.on('ollama:chatToken', (payload: StreamTokenEvent) => {
+        if (payload.requestId !== activeRequestId) return;
+        const { token } = payload;
         // Track first token time
         if (!firstTokenTime) {
           firstTokenTime = Date.now();
-          const ttft = firstTokenTime - startTime;
+          const ttft = firstTokenTime - roundStartTime;
           console.log(`[Chat] First token received, TTFT: ${ttft}ms`);
-
-          // Update message with TTFT
-          set((state) => ({
-            streamingContent: state.streamingContent + token,
-            messages: state.messages.map((m) =>
-              m.id === currentMessageId
-                ? {
-                    ...m,
-                    timing: {
-                      ...m.timing!,
-                      firstTokenTime,
-                      ttft,
-                    },
-                  }
-                : m
-            ),
-          }));
-        } else {
-          set((state) => ({
-            streamingContent: state.streamingContent + token,
+          updateCurrentMessage((m) => ({
+            ...m,
+            timing: { ...m.timing!, firstTokenTime, ttft },
           }));
         }
-        state.appendToLastMessage(token);
+        set((state) => ({ streamingContent: state.streamingContent + token }));
+        updateCurrentMessage((m) => ({ ...m, content: m.content + token }));
       });
 
-      // Set up tool calls listener
-      unsubscribeToolCalls = window.electron.on('ollama:toolCalls', async (toolCalls: any[]) => {
-        console.log('[Tool Calls] Received:', toolCalls);
-
-        // Process each tool call
-        for (const toolCall of toolCalls) {
-          const toolName = toolCall.function?.name || toolCall.name;
-          const toolArgs = toolCall.function?.arguments || toolCall.arguments || {};
+      // Tool calls are collected during the round and executed by the agent loop below
+      unsubscribeToolCalls = window.electron.on(
+        'ollama:toolCalls',
+        ({ requestId, toolCalls }: StreamToolCallsEvent) => {
+          if (requestId !== activeRequestId) return;
+          console.log('[Tool Calls] Received:', toolCalls);
+          roundToolCalls.push(...toolCalls);
+        }
+      );
 
-          // Add tool execution message to show user which tool is being used
-          state.addMessage({
-            role: 'assistant',
-            content: `🔧 Using tool: **${toolName}**\n\`\`\`json\n${JSON.stringify(toolArgs, null, 2)}\n\`\`\``,
-            isToolExecution: true,
-            toolCall: {
-              name: toolName,
-              arguments: toolArgs,
-            },
-          });
-
-          try {
-            // Execute the tool
-            console.log(`[Tool] Executing ${toolName} with args:`, toolArgs);
-            const result = await executeTool(toolName, toolArgs);
-
-            // Check if tool execution had an error
-            if (result.error) {
-              console.error(`[Tool] ${toolName} returned error:`, result.error);
-              state.addMessage({
-                role: 'tool',
-                content: `Tool execution failed: ${result.error}`,
-                toolResult: { error: result.error },
-              });
-            } else {
-              // Add tool result message
-              const resultContent =
-                result.result !== null && result.result !== undefined
-                  ? JSON.stringify(result.result, null, 2)
-                  : 'Tool executed successfully but returned no data';
-
-              state.addMessage({
-                role: 'tool',
-                content: resultContent,
-                toolResult: result.result,
-              });
-
-              console.log(`[Tool] ${toolName} result:`, result);
-            }
-          } catch (error: any) {
-            console.error(`[Tool] ${toolName} failed:`, error);
-            state.addMessage({
-              role: 'tool',
-              content: `Tool execution error: ${error.message}`,
-              toolResult: { error: error.message },
-            });
-          }
+      unsubscribeStats = window.electron.on(
+        'ollama:stats',
+        ({ requestId, stats }: StreamStatsEvent) => {
+          if (requestId !== activeRequestId) return;
+          updateCurrentMessage((m) => ({ ...m, stats }));
         }
+      );
 
-        // After executing all tools, we need to send the results back to the AI
-        // Get fresh state to include tool results
-        const updatedState = get();
-
-        // Filter and prepare messages for next round
-        const messagesForAI = updatedState.messages
-          .filter((m) => {
-            // Filter out empty assistant messages
-            if (m.role === 'assistant' && !m.content) return false;
-            // Filter out error messages
-            if (m.role === 'assistant' && m.content.startsWith('❌')) return false;
-            // Filter out tool execution display messages (keep tool results though)
-            if (m.isToolExecution) return false;
-            return true;
-          })
-          .map((m) => ({
-            role: m.role,
-            content: m.content,
-            images: m.images,
-          }));
+      await condenseHistory(currentModel, conversationBudget);
+      if (generationCancelled) {
+        finishCancelledGeneration();
+        return { tokenEstimate };
+      }
 
-        // Continue the conversation with tool results
-        // Don't send context again - it's already in the conversation history
-        try {
-          // Start a new assistant message for the response after tools
-          const followUpMessageId = state.startNewMessage('assistant');
-
-          // Update the current message ID so listeners target the new message
-          currentMessageId = followUpMessageId;
-
-          // Reset streaming state for the follow-up request
-          set({ isStreaming: true, streamingContent: '' });
-
-          // The existing token listener will handle the follow-up response
-          // because appendToLastMessage always appends to the last message
-          console.log('[Tool] Continuing conversation with follow-up request');
-
-          await window.electron.invoke('ollama:chat', {
-            model: currentModel,
-            messages: messagesForAI,
-            context: undefined, // Don't send context again
-            stream: true,
-            planningMode: shouldUseTools,
-            tools: tools,
-            think: planningMode, // Enable thinking mode for reasoning models
-          });
-
-          // After follow-up completes, reset streaming state
-          set({ isStreaming: false, streamingContent: '' });
-        } catch (error) {
-          console.error('[Tool] Failed to continue conversation:', error);
-          // Reset streaming state on error
-          set({ isStreaming: false, streamingContent: '' });
-          // Add error message to UI
-          state.addMessage({
-            role: 'assistant',
-            content: `❌ **Error continuing after tool use:** ${error instanceof Error ? error.message : 'Unknown error'}`,
-          });
-        }
-      });
+      await runModelRound(fitToBudget(buildModelMessages(get().messages)), shouldUseTools);
 
-      // Get fresh state to include the user message we just added
-      const currentState = get();
-
-      // Send chat request with context and tools
-      const messages = currentState.messages
-        .filter((m) => {
-          // Filter out empty assistant messages
-          if (m.role === 'assistant' && !m.content) return false;
-          // Filter out error messages
-          if (m.role === 'assistant' && m.content.startsWith('❌')) return false;
-          // Filter out tool execution display messages
-          if (m.isToolExecution) return false;
-          return true;
-        })
-        .map((m) => ({
-          role: m.role,
-          content: m.content,
-          images: m.images,
+      // Agent loop: execute requested tools and continue until the model stops calling tools,
+      // the step budget is used up or the user cancels
+      let budgetExhausted = false;
+      while (shouldUseTools && roundToolCalls.length > 0 && !generationCancelled) {
+        const run = get().agentRun!;
+        const remainingSteps = run.maxSteps - run.steps.length;
+        const newSteps: AgentStep[] = roundToolCalls.map((toolCall) => ({
+          id: crypto.randomUUID(),
+          toolName: toolCall.function.name,
+          arguments: toolCall.function.arguments || {},
+          status: 'pending',
         }));
+        updateAgentRun((run) => ({ ...run, steps: [...run.steps, ...newSteps] }));
 
-      // Only send context on the first message or when explicitly provided
-      // This prevents context from being duplicated in every request
-      const isFirstMessage = currentState.messages.filter((m) => m.role === 'user').length === 1;
-      const contextToSend = isFirstMessage ? context : undefined;
+        for (const step of newSteps.slice(0, remainingSteps)) {
+          if (generationCancelled) break;
+          await executeAgentStep(step);
+        }
 
-      console.log('[Chat] Sending request:', {
-        messageCount: messages.length,
-        isFirstMessage,
-        hasContext: !!contextToSend,
-        contextTokens: contextToSend ? tokenEstimate : 0,
-        hasPlanningMode: shouldUseTools,
-        toolCount: tools?.length || 0,
-      });
+        if (generationCancelled) break;
+        if (newSteps.length >= remainingSteps) {
+          budgetExhausted = true;
+          break;
+        }
 
-      await window.electron.invoke('ollama:chat', {
-        model: currentModel,
-        messages,
-        context: contextToSend,
-        stream: true,
-        planningMode: shouldUseTools,
-        tools: tools,
-        think: planningMode, // Enable thinking mode for reasoning models
-      });
+        console.log('[Agent] Continuing conversation with tool results');
+        await runModelRound(fitToBudget(buildModelMessages(get().messages)), true);
+      }
 
-      // Track end time and calculate total time
-      const endTime = Date.now();
-      const totalTime = endTime - startTime;
+      // Out of steps: ask for a final answer based on what was gathered so far
+      if (budgetExhausted && !generationCancelled) {
+        console.log(`[Agent] Step budget of ${maxAgentSteps} exhausted, requesting summary`);
+        await runModelRound(
+          fitToBudget([
+            ...buildModelMessages(get().messages),
+            {
+              role: 'user',
+              content:
+                'You have reached the maximum number of tool steps for this request. Do not call any more tools. Summarize what you found so far and answer the original request as well as you can.',
+            },
+          ]),
+          false
+        );
+      }
 
-      // Update message with end timing
-      set((state) => ({
-        messages: state.messages.map((m) =>
-          m.id === currentMessageId
-            ? {
-                ...m,
-                timing: {
-                  ...m.timing!,
-                  endTime,
-                  totalTime,
-                },
-              }
-            : m
-        ),
-      }));
+      if (generationCancelled) {
+        finishCancelledGeneration();
+      } else {
+        updateAgentRun((run) =>
+          finishAgentRun(run, budgetExhausted ? 'budget_exhausted' : 'completed')
+        );
+      }
 
-      unsubscribeToken?.();
-      unsubscribeToolCalls?.();
-      unsubscribeThinking?.();
-      set({ isStreaming: false, streamingContent: '' });
       return { tokenEstimate };
     } catch (error) {
+      // Cancelling destroys the request, which surfaces here as an error
+      if (generationCancelled) {
+        finishCancelledGeneration();
+        return { tokenEstimate };
+      }
+
       console.error('Chat error:', error);
-      unsubscribeToken?.();
-      unsubscribeToolCalls?.();
-      unsubscribeThinking?.();
+      updateAgentRun((run) => finishAgentRun(run, 'failed'));
 
       // Create user-friendly error message
       let errorMessage = 'Failed to get response from AI';
@@ -530,22 +1022,42 @@ export const useChatStore = create<ChatState>((set, get) => ({
           },
         ],
         error: errorMessage,
-        isStreaming: false,
-        streamingContent: '',
       }));
       return {};
+    } finally {
+      unsubscribeToken?.();
+      unsubscribeToolCalls?.();
+      unsubscribeThinking?.();
+      unsubscribeStats?.();
+      activeRequestId = null;
+      set({ isStreaming: false, streamingContent: '' });
+      await persistConversation();
     }
   },
 }));
 
-// Initialize thinking mode from database on app load
+// Load the agent step budget from database
+const loadAgentMaxSteps = async (): Promise<number> => {
+  try {
+    const value = await window.electron.invoke('settings:get', 'agent-max-steps');
+    const parsed = parseInt(value, 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_AGENT_MAX_STEPS;
+  } catch (error) {
+    console.error('Failed to load agent step budget:', error);
+    return DEFAULT_AGENT_MAX_STEPS;
+  }
+};
+
+// Initialize thinking mode and agent settings from database on app load
 export const initializeChatSettings = async () => {
-  const thinkingMode = await initializeThinkingMode();
-  useChatStore.setState({ planningMode: thinkingMode });
+  const [thinkingMode, maxAgentSteps] = await Promise.all([
+    initializeThinkingMode(),
+    loadAgentMaxSteps(),
+  ]);
+  useChatStore.setState({ planningMode: thinkingMode, maxAgentSteps });
 };
 
-// Refresh thinking mode from database (call this when settings are changed)
+// Refresh thinking mode and agent settings from database (call this when settings are changed)
 export const refreshThinkingMode = async () => {
-  const thinkingMode = await initializeThinkingMode();
-  useChatStore.setState({ planningMode: thinkingMode });
+  await initializeChatSettings();
 };
@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import type { Container, ContainerColor } from '../../shared/types';
+
+interface ContainerState {
+  containers: Container[];
+  isLoaded: boolean;
+  loadContainers: () => Promise<void>;
+  addContainer: (name: string, color: ContainerColor) => Promise<void>;
+  updateContainer: (
+    id: number,
+    updates: { name?: string; color?: ContainerColor }
+  ) => Promise<void>;
+  deleteContainer: (id: number) => Promise<void>;
+  getContainer: (id: number | undefined) => Container | undefined;
+}
+
+// Mutations throw so the settings UI can show validation errors (e.g. duplicate names)
+export const useContainerStore = create<ContainerState>((set, get) => ({
+  containers: [],
+  isLoaded: false,
+
+  loadContainers: async () => {
+    try {
+      const containers = await window.electron.invoke('containers:list');
+      set({ containers, isLoaded: true });
+    } catch (error) {
+      console.error('Failed to load containers:', error);
+    }
+  },
+
+  addContainer: async (name, color) => {
+    await window.electron.invoke('containers:add', name, color);
+    await get().loadContainers();
+  },
+
+  updateContainer: async (id, updates) => {
+    await window.electron.invoke('containers:update', id, updates);
+    await get().loadContainers();
+  },
+
+  deleteContainer: async (id) => {
+    await window.electron.invoke('containers:delete', id);
+    await get().loadContainers();
+  },
+
+  getContainer: (id) => {
+    if (id === undefined) return undefined;
+    return get().containers.find((c) => c.id === id);
+  },
+}));
@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import type { SearchEngine } from '../../shared/types';
+
+type SearchEngineInput = Pick<SearchEngine, 'name' | 'keyword' | 'searchUrl' | 'suggestUrl'>;
+
+interface SearchEngineState {
+  engines: SearchEngine[];
+  suggestionsEnabled: boolean; // Sends address bar input to the engine's suggestion endpoint
+  isLoaded: boolean;
+  loadEngines: () => Promise<void>;
+  addEngine: (engine: SearchEngineInput) => Promise<void>;
+  updateEngine: (id: number, updates: Partial<SearchEngineInput>) => Promise<void>;
+  deleteEngine: (id: number) => Promise<void>;
+  setDefaultEngine: (id: number) => Promise<void>;
+  setSuggestionsEnabled: (enabled: boolean) => Promise<void>;
+  getDefaultEngine: () => SearchEngine | undefined;
+}
+
+// Mutations throw so the settings UI can show validation errors (e.g. duplicate keywords)
+export const useSearchEngineStore = create<SearchEngineState>((set, get) => ({
+  engines: [],
+  suggestionsEnabled: false,
+  isLoaded: false,
+
+  loadEngines: async () => {
+    try {
+      const [engines, suggestions] = await Promise.all([
+        window.electron.invoke('searchEngine:list'),
+        window.electron.invoke('settings:get', 'search-suggestions'),
+      ]);
+      set({ engines, suggestionsEnabled: suggestions === 'true', isLoaded: true });
+    } catch (error) {
+      console.error('Failed to load search engines:', error);
+    }
+  },
+
+  addEngine: async (engine) => {
+    await window.electron.invoke('searchEngine:add', engine);
+    await get().loadEngines();
+  },
+
+  updateEngine: async (id, updates) => {
+    await window.electron.invoke('searchEngine:update', id, updates);
+    await get().loadEngines();
+  },
+
+  deleteEngine: async (id) => {
+    await window.electron.invoke('searchEngine:delete', id);
+    await get().loadEngines();
+  },
+
+  setDefaultEngine: async (id) => {
+    await window.electron.invoke('searchEngine:setDefault', id);
+    await get().loadEngines();
+  },
+
+  setSuggestionsEnabled: async (enabled) => {
+    set({ suggestionsEnabled: enabled });
+    try {
+      await window.electron.invoke('settings:set', 'search-suggestions', enabled);
+    } catch (error) {
+      console.error('Failed to save search suggestions setting:', error);
+    }
+  },
+
+  getDefaultEngine: () => {
+    const { engines } = get();
+    return engines.find((e) => e.isDefault) || engines[0];
+  },
+}));
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { useTabsStore } from './tabs';
+import type { SavedSessionTab, TabSession, TabSessionSummary } from '../../shared/types';
+
+interface TabSessionState {
+  sessions: TabSessionSummary[];
+  isLoaded: boolean;
+  loadSessions: () => Promise<void>;
+  // Saves the open tabs, or only the tabs of the given groups
+  saveSession: (name: string, groupIds?: string[]) => Promise<void>;
+  restoreSession: (id: number) => Promise<void>;
+  deleteSession: (id: number) => Promise<void>;
+}
+
+// Mutations throw so the UI can show errors (e.g. nothing to save)
+export const useTabSessionStore = create<TabSessionState>((set, get) => ({
+  sessions: [],
+  isLoaded: false,
+
+  loadSessions: async () => {
+    try {
+      const sessions = await window.electron.invoke('tabSessions:list');
+      set({ sessions, isLoaded: true });
+    } catch (error) {
+      console.error('Failed to load saved sessions:', error);
+    }
+  },
+
+  saveSession: async (name, groupIds) => {
+    const { tabs, groups } = useTabsStore.getState();
+
+    // Private tabs and empty new tabs aren't worth reopening
+    const savedTabs: SavedSessionTab[] = tabs
+      .filter((tab) => !tab.isPrivate && tab.url)
+      .filter((tab) => !groupIds || (tab.groupId && groupIds.includes(tab.groupId)))
+      .map((tab) => ({
+        url: tab.url,
+        title: tab.title,
+        favicon: tab.favicon || undefined,
+        containerId: tab.containerId,
+        groupId: tab.groupId,
+      }));
+    const savedGroups = groups.filter((group) => savedTabs.some((tab) => tab.groupId === group.id));
+
+    await window.electron.invoke('tabSessions:save', name, savedGroups, savedTabs);
+    await get().loadSessions();
+  },
+
+  restoreSession: async (id) => {
+    const session: TabSession = await window.electron.invoke('tabSessions:get', id);
+    await useTabsStore.getState().openTabs(session.tabs, session.groups);
+  },
+
+  deleteSession: async (id) => {
+    await window.electron.invoke('tabSessions:delete', id);
+    await get().loadSessions();
+  },
+}));
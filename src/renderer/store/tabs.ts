@@ -1,14 +1,33 @@
 import { create } from 'zustand';
-import type { Tab } from '../../shared/types';
+import type { SavedSessionTab, Tab, TabGroup } from '../../shared/types';
+import { TAB_GROUP_COLOR_NAMES } from '../../shared/tabGroups';
+
+export interface NewTabOptions {
+  isPrivate?: boolean;
+  containerId?: number; // Ignored for private tabs
+}
+
+type TabGroupUpdates = Partial<Pick<TabGroup, 'name' | 'color' | 'collapsed'>>;
 
 interface TabsState {
   tabs: Tab[];
+  groups: TabGroup[];
   activeTabId: string | null;
-  addTab: (url?: string) => void;
-  closeTab: (tabId: string) => void;
+  selectedTabIds: string[]; // Picked with Ctrl/Shift-click, e.g. to group them
+  addTab: (url?: string, options?: NewTabOptions) => void;
+  closeTab: (tabId: string) => Promise<void>;
   setActiveTab: (tabId: string) => void;
   updateTab: (tabId: string, updates: Partial<Tab>) => void;
-  moveTab: (fromIndex: number, toIndex: number) => void;
+  // Without a group the tab stays in its own group if it is still next to it
+  moveTab: (fromIndex: number, toIndex: number, groupId?: string | null) => void;
+  selectTab: (tabId: string, mode: 'toggle' | 'range') => void;
+  clearSelection: () => void;
+  createGroup: (tabIds: string[]) => string | null;
+  updateGroup: (groupId: string, updates: TabGroupUpdates) => void;
+  toggleGroupCollapsed: (groupId: string) => void;
+  ungroup: (groupId: string) => void;
+  closeGroup: (groupId: string) => Promise<void>;
+  openTabs: (tabs: SavedSessionTab[], groups: TabGroup[]) => Promise<void>;
   getActiveTab: () => Tab | undefined;
   loadTabs: () => Promise<void>;
   saveTabs: () => Promise<void>;
@@ -19,13 +38,27 @@ interface TabsState {
 // Counter to ensure unique tab IDs even when created simultaneously
 let tabCounter = 0;
 
+// Generate a unique ID combining UUID, timestamp, and counter
+const createTabId = () => `${crypto.randomUUID()}-${Date.now()}-${++tabCounter}`;
+
+const withPositions = (tabs: Tab[]): Tab[] =>
+  tabs.map((tab, index) => ({ ...tab, position: index }));
+
+// Groups disappear with their last tab
+const withoutEmptyGroups = (groups: TabGroup[], tabs: Tab[]): TabGroup[] =>
+  groups.filter((group) => tabs.some((tab) => tab.groupId === group.id));
+
 export const useTabsStore = create<TabsState>((set, get) => ({
   tabs: [],
+  groups: [],
   activeTabId: null,
+  selectedTabIds: [],
 
-  addTab: async (url = '') => {
-    // Generate a unique ID combining UUID, timestamp, and counter
-    const uniqueId = `${crypto.randomUUID()}-${Date.now()}-${++tabCounter}`;
+  addTab: async (url = '', options: NewTabOptions = {}) => {
+    const isPrivate = options.isPrivate ?? false;
+    const containerId = isPrivate ? undefined : options.containerId;
+
+    const uniqueId = createTabId();
 
     const newTab: Tab = {
       id: uniqueId,
@@ -36,6 +69,8 @@ export const useTabsStore = create<TabsState>((set, get) => ({
       position: get().tabs.length,
       isSuspended: false,
       lastActiveTime: Date.now(),
+      isPrivate,
+      containerId,
     };
 
     set((state) => ({
@@ -51,7 +86,10 @@ export const useTabsStore = create<TabsState>((set, get) => ({
 
     // Create the BrowserWindow tab in the main process
     try {
-      await window.electron.invoke('tabWindow:create', uniqueId, url);
+      await window.electron.invoke('tabWindow:create', uniqueId, url, {
+        isPrivate,
+        containerId,
+      });
       await window.electron.invoke('tabWindow:setActive', uniqueId);
     } catch (error) {
       console.error('Failed to create tab window:', error);
@@ -77,7 +115,7 @@ export const useTabsStore = create<TabsState>((set, get) => ({
 
     // If closing the last tab, remove it first then create a new empty tab
     if (newTabs.length === 0) {
-      set({ tabs: [] }); // Clear tabs array first
+      set({ tabs: [], groups: [], selectedTabIds: [] }); // Clear tabs array first
       get().addTab(''); // Create new empty tab
       return;
     }
@@ -92,12 +130,14 @@ export const useTabsStore = create<TabsState>((set, get) => ({
     }
 
     // Update positions
-    const updatedTabs = newTabs.map((tab, index) => ({
-      ...tab,
-      position: index,
-    }));
+    const updatedTabs = withPositions(newTabs);
 
-    set({ tabs: updatedTabs, activeTabId: newActiveId });
+    set({
+      tabs: updatedTabs,
+      groups: withoutEmptyGroups(state.groups, updatedTabs),
+      activeTabId: newActiveId,
+      selectedTabIds: state.selectedTabIds.filter((id) => id !== tabId),
+    });
 
     // Auto-save after closing tab
     get().saveTabs();
@@ -145,18 +185,191 @@ export const useTabsStore = create<TabsState>((set, get) => ({
     setTimeout(() => get().saveTabs(), 1000);
   },
 
-  moveTab: (fromIndex: number, toIndex: number) => {
+  moveTab: (fromIndex: number, toIndex: number, groupId?: string | null) => {
     const tabs = [...get().tabs];
     const [movedTab] = tabs.splice(fromIndex, 1);
-    tabs.splice(toIndex, 0, movedTab);
+    if (!movedTab) return;
+
+    // Keep the tabs of each group together: dropped between two tabs of a group
+    // the tab joins it, and away from its own group it leaves it
+    let newGroupId = groupId;
+    if (newGroupId === undefined) {
+      const before = tabs[toIndex - 1]?.groupId;
+      const after = tabs[toIndex]?.groupId;
+      if (before && before === after) {
+        newGroupId = before;
+      } else if (movedTab.groupId && (before === movedTab.groupId || after === movedTab.groupId)) {
+        newGroupId = movedTab.groupId;
+      } else {
+        newGroupId = null;
+      }
+    }
+    tabs.splice(toIndex, 0, { ...movedTab, groupId: newGroupId ?? undefined });
+
+    const movedTabs = withPositions(tabs);
+    set((state) => ({
+      tabs: movedTabs,
+      groups: withoutEmptyGroups(state.groups, movedTabs),
+    }));
+
+    get().saveTabs();
+  },
+
+  selectTab: (tabId: string, mode: 'toggle' | 'range') => {
+    const { tabs, activeTabId, selectedTabIds } = get();
+    // The active tab is part of a selection started from it, like in Chrome
+    const current = selectedTabIds.length ? selectedTabIds : activeTabId ? [activeTabId] : [];
+
+    if (mode === 'toggle') {
+      set({
+        selectedTabIds: current.includes(tabId)
+          ? current.filter((id) => id !== tabId)
+          : [...current, tabId],
+      });
+      return;
+    }
+
+    // Range from the last picked tab
+    const anchorIndex = tabs.findIndex((t) => t.id === current[current.length - 1]);
+    const targetIndex = tabs.findIndex((t) => t.id === tabId);
+    if (targetIndex === -1) return;
+    const start = Math.min(anchorIndex === -1 ? targetIndex : anchorIndex, targetIndex);
+    const end = Math.max(anchorIndex, targetIndex);
+    const range = tabs.slice(start, end + 1).map((t) => t.id);
+    set({ selectedTabIds: Array.from(new Set([...current, ...range])) });
+  },
+
+  clearSelection: () => {
+    if (get().selectedTabIds.length) {
+      set({ selectedTabIds: [] });
+    }
+  },
+
+  createGroup: (tabIds: string[]) => {
+    const { tabs, groups } = get();
+    const ids = new Set(tabIds);
+    const firstIndex = tabs.findIndex((t) => ids.has(t.id));
+    if (firstIndex === -1) return null;
+
+    const usedColors = new Set(groups.map((g) => g.color));
+    const group: TabGroup = {
+      id: crypto.randomUUID(),
+      name: '',
+      color: TAB_GROUP_COLOR_NAMES.find((color) => !usedColors.has(color)) || 'grey',
+      collapsed: false,
+    };
+
+    // Gather the tabs where the first of them is, but not inside another group
+    const rest = tabs.filter((t) => !ids.has(t.id));
+    let insertAt = tabs.slice(0, firstIndex).filter((t) => !ids.has(t.id)).length;
+    while (
+      insertAt > 0 &&
+      insertAt < rest.length &&
+      rest[insertAt].groupId &&
+      rest[insertAt].groupId === rest[insertAt - 1].groupId
+    ) {
+      insertAt++;
+    }
+    const grouped = tabs.filter((t) => ids.has(t.id)).map((t) => ({ ...t, groupId: group.id }));
+    const newTabs = withPositions([
+      ...rest.slice(0, insertAt),
+      ...grouped,
+      ...rest.slice(insertAt),
+    ]);
 
     set({
-      tabs: tabs.map((tab, index) => ({ ...tab, position: index })),
+      tabs: newTabs,
+      groups: withoutEmptyGroups([...groups, group], newTabs),
+      selectedTabIds: [],
     });
+    get().saveTabs();
+    return group.id;
+  },
 
+  updateGroup: (groupId: string, updates: TabGroupUpdates) => {
+    set((state) => ({
+      groups: state.groups.map((g) => (g.id === groupId ? { ...g, ...updates } : g)),
+    }));
     get().saveTabs();
   },
 
+  toggleGroupCollapsed: (groupId: string) => {
+    const { tabs, groups, activeTabId } = get();
+    const group = groups.find((g) => g.id === groupId);
+    if (!group) return;
+
+    // Switch to the closest tab outside the group instead of hiding the active one
+    const activeIndex = tabs.findIndex((t) => t.id === activeTabId);
+    if (!group.collapsed && tabs[activeIndex]?.groupId === groupId) {
+      const outside = tabs
+        .map((tab, index) => ({ tab, distance: Math.abs(index - activeIndex) }))
+        .filter(({ tab }) => tab.groupId !== groupId)
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (outside) {
+        get().setActiveTab(outside.tab.id);
+      }
+    }
+
+    get().updateGroup(groupId, { collapsed: !group.collapsed });
+  },
+
+  ungroup: (groupId: string) => {
+    set((state) => ({
+      tabs: state.tabs.map((t) => (t.groupId === groupId ? { ...t, groupId: undefined } : t)),
+      groups: state.groups.filter((g) => g.id !== groupId),
+    }));
+    get().saveTabs();
+  },
+
+  closeGroup: async (groupId: string) => {
+    const tabIds = get()
+      .tabs.filter((t) => t.groupId === groupId)
+      .map((t) => t.id);
+    for (const tabId of tabIds) {
+      await get().closeTab(tabId);
+    }
+  },
+
+  openTabs: async (savedTabs: SavedSessionTab[], savedGroups: TabGroup[]) => {
+    if (savedTabs.length === 0) return;
+
+    // New group IDs, so reopening a session twice gives two separate groups
+    const groupIds = new Map(savedGroups.map((g) => [g.id, crypto.randomUUID()]));
+    const newGroups = savedGroups.map((g) => ({ ...g, id: groupIds.get(g.id)! }));
+    const newTabs: Tab[] = savedTabs.map((saved) => ({
+      id: createTabId(),
+      url: saved.url,
+      title: saved.title || saved.url || 'New Tab',
+      favicon: saved.favicon || '',
+      isActive: false,
+      position: 0,
+      isSuspended: false,
+      lastActiveTime: Date.now(),
+      containerId: saved.containerId,
+      groupId: saved.groupId ? groupIds.get(saved.groupId) : undefined,
+    }));
+
+    set((state) => {
+      const tabs = withPositions([...state.tabs, ...newTabs]);
+      return {
+        tabs,
+        groups: withoutEmptyGroups([...state.groups, ...newGroups], tabs),
+      };
+    });
+
+    for (const tab of newTabs) {
+      try {
+        await window.electron.invoke('tabWindow:create', tab.id, tab.url, {
+          containerId: tab.containerId,
+        });
+      } catch (error) {
+        console.error('Failed to create tab window:', error);
+      }
+    }
+
+    get().setActiveTab(newTabs[0].id);
+  },
+
   getActiveTab: () => {
     const state = get();
     return state.tabs.find((t) => t.id === state.activeTabId);
@@ -171,11 +384,26 @@ export const useTabsStore = create<TabsState>((set, get) => ({
         // App crashed - restore previous session
         const savedTabs = await window.electron.invoke('tabs:load');
         if (savedTabs && savedTabs.length > 0) {
+          const savedGroups = await window.electron.invoke('tabs:loadGroups');
           const activeTab = savedTabs.find((t: Tab) => t.isActive);
+          const activeTabId = activeTab?.id || savedTabs[0].id;
           set({
             tabs: savedTabs,
-            activeTabId: activeTab?.id || savedTabs[0].id,
+            groups: withoutEmptyGroups(savedGroups, savedTabs),
+            activeTabId,
           });
+
+          // Recreate the tab views, each in the container it was saved with
+          for (const tab of savedTabs as Tab[]) {
+            try {
+              await window.electron.invoke('tabWindow:create', tab.id, tab.url, {
+                containerId: tab.containerId,
+              });
+            } catch (error) {
+              console.error('Failed to restore tab window:', error);
+            }
+          }
+          await window.electron.invoke('tabWindow:setActive', activeTabId);
           return;
         }
       }
@@ -192,8 +420,10 @@ export const useTabsStore = create<TabsState>((set, get) => ({
 
   saveTabs: async () => {
     try {
-      const { tabs } = get();
-      await window.electron.invoke('tabs:save', tabs);
+      // Private tabs are never restored, so they aren't saved
+      const tabs = get().tabs.filter((tab) => !tab.isPrivate);
+      const groups = withoutEmptyGroups(get().groups, tabs);
+      await window.electron.invoke('tabs:save', tabs, groups);
     } catch {
       // Silently fail - IPC handlers may not be ready yet
     }
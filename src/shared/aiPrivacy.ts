@@ -0,0 +1,74 @@
+/**
+ * AI Privacy Rule Helpers
+ * Decide which pages are kept out of page captures, browsing context and tool results
+ */
+
+import type { AIPrivacyRule } from './types';
+
+// Sent to the model in place of a withheld page
+export const WITHHELD_MESSAGE =
+  'The user has excluded this page from AI context in their privacy settings. Do not ask for its content.';
+
+const MAX_PATTERN_LENGTH = 512;
+
+/**
+ * The origin a pattern names, e.g. "https://bank.example.com" or
+ * "https://bank.example.com/", or null for URL patterns
+ */
+function toOrigin(pattern: string): string | null {
+  if (pattern.includes('*')) return null;
+  try {
+    const url = new URL(pattern);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return pattern.replace(/\/$/, '').toLowerCase() === url.origin ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clean up a pattern typed by the user: origins are stored in their canonical
+ * form, anything else as written
+ */
+export function normalizePrivacyPattern(pattern: string): string {
+  const trimmed = pattern.trim();
+  return toOrigin(trimmed) || trimmed;
+}
+
+export function isValidPrivacyPattern(pattern: string): boolean {
+  const trimmed = pattern.trim();
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= MAX_PATTERN_LENGTH &&
+    // A pattern of only wildcards would withhold every page
+    trimmed.replace(/\*/g, '').length > 0
+  );
+}
+
+/**
+ * Whether a URL matches a rule. Origins match every page on that origin; other
+ * patterns match the whole URL with "*" as a wildcard ("*://hr.*", "*bank*"),
+ * and without a wildcard match URLs that contain them ("intranet")
+ */
+export function matchesPrivacyRule(url: string, pattern: string): boolean {
+  const origin = toOrigin(pattern);
+  if (origin) {
+    try {
+      return new URL(url).origin === origin;
+    } catch {
+      return false;
+    }
+  }
+
+  const glob = pattern.includes('*') ? pattern : `*${pattern}*`;
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+export function isWithheldFromAI(url: string | undefined, rules: AIPrivacyRule[]): boolean {
+  if (!url) return false;
+  return rules.some((rule) => matchesPrivacyRule(url, rule.pattern));
+}
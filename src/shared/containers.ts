@@ -0,0 +1,22 @@
+/**
+ * Container Helpers
+ * Shared by the tab strip, the container settings and the IPC validation
+ */
+
+import type { ContainerColor } from './types';
+
+// Stripe colors shown on the tabs of each container
+export const CONTAINER_COLORS: Record<ContainerColor, string> = {
+  blue: '#37adff',
+  turquoise: '#00c79a',
+  green: '#51cd00',
+  yellow: '#ffcb00',
+  orange: '#ff9f00',
+  red: '#ff613d',
+  pink: '#ff4bda',
+  purple: '#af51f5',
+};
+
+export const CONTAINER_COLOR_NAMES = Object.keys(CONTAINER_COLORS) as ContainerColor[];
+
+export const MAX_CONTAINER_NAME_LENGTH = 64;
@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LIMITS,
+  FULL_LIMITS,
+  IMAGE_TOKENS,
+  RECENT_MESSAGES,
+  buildOptimizedContext,
+  estimateMessageTokens,
+  estimateTokens,
+  fitConversation,
+  truncateToTokens,
+} from './contextManager';
+import type { BookmarkSource, ChatMessage } from './types';
+
+const LONG_TEXT = 'The quick brown fox jumps over the lazy dog. '.repeat(200);
+
+const message = (role: ChatMessage['role'], content: string): ChatMessage => ({ role, content });
+
+const totalTokens = (messages: ChatMessage[]) =>
+  messages.reduce((total, m) => total + estimateMessageTokens(m), 0);
+
+describe('estimateTokens', () => {
+  it('counts common words and punctuation as one token each', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello, world!')).toBe(4);
+    expect(estimateTokens('  spaced   out  ')).toBe(2);
+  });
+
+  it('splits long words into pieces', () => {
+    expect(estimateTokens('internationalization')).toBe(3);
+  });
+
+  it('groups digit runs in threes', () => {
+    expect(estimateTokens('7')).toBe(1);
+    expect(estimateTokens('123456')).toBe(2);
+    expect(estimateTokens('1234567')).toBe(3);
+    expect(estimateTokens('2024-01-15')).toBe(6);
+  });
+
+  it('counts CJK characters as a token each', () => {
+    expect(estimateTokens('日本語')).toBe(3);
+    expect(estimateTokens('こんにちは世界')).toBe(7);
+    expect(estimateTokens('안녕하세요')).toBe(5);
+    // Far more than the character count divided by four would give
+    expect(estimateTokens('東京は日本の首都です。')).toBe(11);
+  });
+
+  it('counts images and template overhead in messages', () => {
+    const text = estimateMessageTokens(message('user', 'Hello'));
+
+    expect(estimateMessageTokens({ role: 'user', content: 'Hello', images: ['a', 'b'] })).toBe(
+      text + 2 * IMAGE_TOKENS
+    );
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns nothing for an empty text or a budget of zero or less', () => {
+    expect(truncateToTokens('', 10)).toBe('');
+    expect(truncateToTokens('Some text', 0)).toBe('');
+    expect(truncateToTokens('Some text', -5)).toBe('');
+  });
+
+  it('leaves text that fits', () => {
+    expect(truncateToTokens('Short enough', 2)).toBe('Short enough');
+  });
+
+  it('cuts at a word boundary and stays within the budget, ellipsis included', () => {
+    const result = truncateToTokens(LONG_TEXT, 50);
+
+    expect(result).toMatch(/\w\.\.\.$/);
+    expect(LONG_TEXT.startsWith(result.slice(0, -3))).toBe(true);
+    expect(LONG_TEXT[result.length - 3]).toMatch(/[ .]/);
+    expect(estimateTokens(result)).toBeLessThanOrEqual(50);
+    expect(estimateTokens(result)).toBeGreaterThan(40);
+  });
+
+  it('stays within the budget for CJK text and digits', () => {
+    for (const text of ['日本語のテキスト'.repeat(100), '1234567890'.repeat(100)]) {
+      const result = truncateToTokens(text, 20);
+
+      expect(result.endsWith('...')).toBe(true);
+      expect(estimateTokens(result)).toBeLessThanOrEqual(20);
+    }
+  });
+});
+
+describe('fitConversation', () => {
+  const system = message('system', 'You are a helpful assistant.');
+  const older = [
+    message('user', `First question: ${LONG_TEXT}`),
+    message('assistant', `First answer: ${LONG_TEXT}`),
+    message('user', `Second question: ${LONG_TEXT}`),
+  ];
+  const recent = [
+    message('assistant', 'Second answer.'),
+    message('user', 'Third question?'),
+    message('assistant', 'Third answer.'),
+    message('user', `Last question: ${LONG_TEXT}`),
+  ];
+  const conversation = [system, ...older, ...recent];
+
+  it('leaves a conversation that fits', () => {
+    const budget = totalTokens(conversation);
+
+    expect(fitConversation(conversation, budget)).toEqual({
+      messages: conversation,
+      tokenEstimate: budget,
+      compressed: 0,
+      dropped: 0,
+    });
+  });
+
+  it('compresses older messages, oldest first, until the conversation fits', () => {
+    const budget = totalTokens(conversation) - estimateMessageTokens(older[0]);
+    const result = fitConversation(conversation, budget);
+
+    expect(result.compressed).toBe(2);
+    expect(result.dropped).toBe(0);
+    expect(result.messages[1].content).toMatch(/^First question: .*\.\.\.$/);
+    expect(result.messages[2].content).toMatch(/^First answer: .*\.\.\.$/);
+    expect(result.messages[3]).toBe(older[2]);
+    expect(result.tokenEstimate).toBe(totalTokens(result.messages));
+    expect(result.tokenEstimate).toBeLessThanOrEqual(budget);
+  });
+
+  it('drops attached images when compressing a message', () => {
+    const withImage = { ...older[0], images: ['base64'] };
+    const result = fitConversation([withImage, ...recent], totalTokens(recent) + 100);
+
+    expect(result.compressed).toBe(1);
+    expect(result.messages[0].images).toBeUndefined();
+  });
+
+  it('always keeps system messages and the most recent messages as they are', () => {
+    const budget = totalTokens([system, ...recent]);
+    const result = fitConversation(conversation, budget);
+
+    expect(result.dropped).toBe(older.length);
+    expect(result.messages).toEqual([system, ...recent]);
+    expect(result.messages.slice(-RECENT_MESSAGES)).toEqual(recent);
+    expect(result.tokenEstimate).toBe(budget);
+  });
+
+  it('keeps the recent messages even when they alone exceed the budget', () => {
+    const result = fitConversation(conversation, 10);
+
+    expect(result.messages).toEqual([system, ...recent]);
+    expect(result.messages[result.messages.length - 1].content).toBe(recent[3].content);
+    expect(result.tokenEstimate).toBe(totalTokens([system, ...recent]));
+    expect(result.tokenEstimate).toBeGreaterThan(10);
+  });
+
+  it('does not touch a conversation with only recent messages', () => {
+    expect(fitConversation(recent, 0).messages).toEqual(recent);
+  });
+});
+
+describe('buildOptimizedContext', () => {
+  const capture = {
+    url: 'https://example.com/article',
+    title: 'An article',
+    selectedText: `Selected: ${LONG_TEXT}`,
+    readable: { textContent: `Content: ${LONG_TEXT}`, excerpt: 'A short excerpt.' },
+  };
+  const browsingContext = {
+    history: Array.from({ length: 20 }, (_, i) => ({
+      title: `Page ${i}`,
+      url: `https://example.com/${i}`,
+    })),
+    bookmarks: [{ title: 'Docs', url: 'https://docs.example.com/' }],
+  };
+
+  it('stays within the token budget', () => {
+    for (const budget of [50, 200, 1000, 5000]) {
+      const result = buildOptimizedContext(
+        capture,
+        browsingContext,
+        false,
+        FULL_LIMITS,
+        [],
+        budget
+      );
+
+      expect(result.tokenEstimate).toBeLessThanOrEqual(budget);
+    }
+  });
+
+  it('gives selected text priority over page content', () => {
+    const result = buildOptimizedContext(capture, null, false, FULL_LIMITS, [], 200);
+
+    expect(result.page?.selectedText).toMatch(/^Selected: .*\.\.\.$/);
+    expect(estimateTokens(result.page?.selectedText ?? '')).toBeGreaterThanOrEqual(
+      estimateTokens(result.page?.content ?? '')
+    );
+  });
+
+  it('fills a large budget with page content and the history lists', () => {
+    const result = buildOptimizedContext(
+      { ...capture, selectedText: undefined },
+      browsingContext,
+      false,
+      FULL_LIMITS,
+      [],
+      100000
+    );
+
+    expect(result.page?.content).toBe(capture.readable.textContent);
+    expect(result.browsingHistory).toHaveLength(FULL_LIMITS.maxHistoryItems);
+    expect(result.bookmarks).toEqual(browsingContext.bookmarks);
+  });
+
+  it('uses the excerpt when summarizing and leaves out what the limits turn off', () => {
+    const result = buildOptimizedContext(capture, browsingContext, false, DEFAULT_LIMITS);
+
+    expect(result.page?.content).toBe('A short excerpt.');
+    expect(result.browsingHistory).toHaveLength(DEFAULT_LIMITS.maxHistoryItems);
+    expect(result.bookmarks).toBeUndefined();
+  });
+
+  it('sends only the title next to a screenshot for vision models', () => {
+    const result = buildOptimizedContext(
+      { ...capture, selectedText: undefined, screenshot: 'data:image/png;base64,' },
+      null,
+      true,
+      DEFAULT_LIMITS
+    );
+
+    expect(result.page).toEqual({ url: capture.url, title: capture.title });
+  });
+
+  it('shares the budget between retrieved sources without a page', () => {
+    const sources: BookmarkSource[] = [1, 2].map((index) => ({
+      index,
+      bookmarkId: index,
+      title: `Source ${index}`,
+      url: `https://example.com/${index}`,
+      text: LONG_TEXT,
+      score: 0.9,
+    }));
+    const result = buildOptimizedContext(null, null, false, DEFAULT_LIMITS, sources, 300);
+
+    expect(result.page).toBeUndefined();
+    expect(result.sources).toHaveLength(2);
+    for (const source of result.sources!) {
+      expect(source.text.endsWith('...')).toBe(true);
+      expect(estimateTokens(source.title + source.text) + 10).toBeLessThanOrEqual(150);
+    }
+    expect(result.tokenEstimate).toBeLessThanOrEqual(300);
+  });
+});
@@ -3,9 +3,10 @@
  * Optimizes what context gets sent to AI to reduce tokens and improve response time
  */
 
+import type { BookmarkSource, ChatMessage, PageContext } from './types';
+
 export interface ContextLimits {
-  // Text limits (in characters)
-  maxPageContentLength: number;
+  maxPageContentTokens?: number; // Extra cap for models that fail on long prompts
   maxHistoryItems: number;
   maxBookmarkItems: number;
 
@@ -19,7 +20,6 @@ export interface ContextLimits {
 }
 
 export const DEFAULT_LIMITS: ContextLimits = {
-  maxPageContentLength: 2000, // ~500 tokens
   maxHistoryItems: 5,
   maxBookmarkItems: 3,
   includeHistory: true,
@@ -29,7 +29,7 @@ export const DEFAULT_LIMITS: ContextLimits = {
 };
 
 export const MINIMAL_LIMITS: ContextLimits = {
-  maxPageContentLength: 500,
+  maxPageContentTokens: 125,
   maxHistoryItems: 0,
   maxBookmarkItems: 0,
   includeHistory: false,
@@ -39,7 +39,6 @@ export const MINIMAL_LIMITS: ContextLimits = {
 };
 
 export const FULL_LIMITS: ContextLimits = {
-  maxPageContentLength: 5000,
   maxHistoryItems: 10,
   maxBookmarkItems: 10,
   includeHistory: true,
@@ -48,6 +47,110 @@ export const FULL_LIMITS: ContextLimits = {
   summarizeContent: false,
 };
 
+// Ollama's context window when the model's Modelfile doesn't set num_ctx
+export const DEFAULT_CONTEXT_LENGTH = 4096;
+
+// Tokens per attached image; vision encoders turn an image into a fixed number of patches
+export const IMAGE_TOKENS = 768;
+
+// The default system prompt the main process puts in front of every chat
+const SYSTEM_PROMPT_TOKENS = 1000;
+
+// Role markers and separators the chat template adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Part of the window kept free for the response
+const RESPONSE_SHARE = 0.25;
+const MIN_RESPONSE_TOKENS = 256;
+const MAX_RESPONSE_TOKENS = 4096;
+
+// Part of the budget browsing context may take, so the conversation keeps the rest
+const BROWSING_CONTEXT_SHARE = 0.6;
+
+// Messages at the end of the conversation that are never compressed
+export const RECENT_MESSAGES = 4;
+
+// Older messages are cut to this length when the conversation overflows
+const COMPRESSED_MESSAGE_TOKENS = 60;
+
+/**
+ * Token budget for one chat request, derived from the model's context window
+ */
+export interface ContextBudget {
+  contextLength: number; // Context window of the model
+  responseTokens: number; // Kept free for the answer
+  available: number; // Left for browsing context and conversation history
+}
+
+/**
+ * Work out how much of the context window a request can fill.
+ * reservedTokens covers fixed parts of the request such as tool definitions.
+ */
+export function getContextBudget(
+  contextLength: number | null,
+  reservedTokens: number = 0
+): ContextBudget {
+  const length = contextLength && contextLength > 0 ? contextLength : DEFAULT_CONTEXT_LENGTH;
+  const responseTokens = Math.min(
+    MAX_RESPONSE_TOKENS,
+    Math.max(MIN_RESPONSE_TOKENS, Math.floor(length * RESPONSE_SHARE))
+  );
+
+  return {
+    contextLength: length,
+    responseTokens,
+    available: Math.max(0, length - responseTokens - SYSTEM_PROMPT_TOKENS - reservedTokens),
+  };
+}
+
+/**
+ * Tokens the browsing context of a question may use; the question itself comes first
+ */
+export function getBrowsingContextBudget(budget: ContextBudget, question: ChatMessage): number {
+  const remaining = budget.available - estimateMessageTokens(question);
+  return Math.max(0, Math.floor(remaining * BROWSING_CONTEXT_SHARE));
+}
+
+// Words, digit runs and single other characters; whitespace merges into the next word
+const TOKEN_PIECES = /[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Estimate how many tokens a model's tokenizer produces for a text.
+ * Follows how BPE tokenizers split text instead of dividing by a fixed
+ * character count: common words are one token and long words split into
+ * pieces, digits are grouped in threes, punctuation and symbols are mostly
+ * tokens of their own, and CJK characters are about one token each.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECES)) {
+    if (CJK_PATTERN.test(piece)) {
+      tokens += piece.length;
+    } else if (/^\p{N}/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^[\p{L}\p{M}]/u.test(piece)) {
+      tokens += 1 + Math.floor(piece.length / 8);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Tokens a chat message takes, including attached images and template overhead
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return (
+    estimateTokens(message.content) +
+    (message.images?.length || 0) * IMAGE_TOKENS +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
 /**
  * Truncate text to max length with ellipsis
  */
@@ -57,22 +160,48 @@ export function truncateText(text: string, maxLength: number): string {
   return text.substring(0, maxLength) + '...';
 }
 
+const ELLIPSIS_TOKENS = estimateTokens('...');
+
+/**
+ * Truncate text to about maxTokens tokens, cutting at a word boundary when possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (!text) return '';
+  if (maxTokens <= 0) return '';
+
+  let tokens = estimateTokens(text);
+  if (tokens <= maxTokens) return text;
+
+  // Cut proportionally until it fits with the ellipsis; the ratio is refined on every pass
+  const target = Math.max(1, maxTokens - ELLIPSIS_TOKENS);
+  let result = text;
+  while (tokens > target && result.length > 0) {
+    let cut = Math.floor((result.length * target) / tokens);
+    const space = result.lastIndexOf(' ', cut);
+    if (space > cut * 0.8) cut = space;
+    result = result.substring(0, Math.min(cut, result.length - 1));
+    tokens = estimateTokens(result);
+  }
+  return result.trimEnd() + '...';
+}
+
 /**
  * Extract just the most relevant content
  */
 export function extractRelevantContent(
   readable: any,
   html: string | undefined,
-  limits: ContextLimits
+  limits: ContextLimits,
+  maxTokens: number
 ): string {
   // Prefer readability excerpt if available and summarizing
   if (limits.summarizeContent && readable?.excerpt) {
-    return truncateText(readable.excerpt, limits.maxPageContentLength);
+    return truncateToTokens(readable.excerpt, maxTokens);
   }
 
   // Use readability text content
   if (readable?.textContent) {
-    return truncateText(readable.textContent, limits.maxPageContentLength);
+    return truncateToTokens(readable.textContent, maxTokens);
   }
 
   // Fallback to html (strip tags roughly)
@@ -81,78 +210,193 @@ export function extractRelevantContent(
       .replace(/<[^>]*>/g, ' ')
       .replace(/\s+/g, ' ')
       .trim();
-    return truncateText(textOnly, limits.maxPageContentLength);
+    return truncateToTokens(textOnly, maxTokens);
   }
 
   return '';
 }
 
+// Add list items in order until the budget runs out
+function takeWithinBudget<T>(items: T[], budget: number, cost: (item: T) => number): T[] {
+  const taken: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    used += cost(item);
+    if (used > budget) break;
+    taken.push(item);
+  }
+  return taken;
+}
+
+// A history entry or bookmark, as far as the context needs it
+interface ContextListItem {
+  title: string;
+  url: string;
+}
+
+const listItemTokens = (item: ContextListItem) =>
+  estimateTokens(`- ${item.title} (${item.url})`) + 1;
+
 /**
  * Build optimized context for AI
+ * pageCapture may be null when only retrieved bookmark sources are sent.
+ * Parts are added in priority order until tokenBudget is used up: selected
+ * text, retrieved sources, page content, browsing history, then bookmarks.
  */
 export function buildOptimizedContext(
   pageCapture: any,
-  browsingContext: any,
+  browsingContext: { history?: ContextListItem[]; bookmarks?: ContextListItem[] } | null,
   isVisionModel: boolean,
-  limits: ContextLimits = DEFAULT_LIMITS
+  limits: ContextLimits = DEFAULT_LIMITS,
+  sources: BookmarkSource[] = [],
+  tokenBudget: number = Math.floor(getContextBudget(null).available * BROWSING_CONTEXT_SHARE)
 ): {
-  page: any;
-  browsingHistory?: any[];
-  bookmarks?: any[];
+  page?: PageContext;
+  browsingHistory?: ContextListItem[];
+  bookmarks?: ContextListItem[];
+  sources?: BookmarkSource[];
   tokenEstimate: number;
 } {
-  // For vision models with screenshot, minimize text
-  const shouldMinimizeText =
-    isVisionModel && limits.preferScreenshotForVision && pageCapture.screenshot;
-
-  // Build page context
-  const pageContent = shouldMinimizeText
-    ? truncateText(pageCapture.title || '', 200) // Just title for vision
-    : extractRelevantContent(pageCapture.readable, pageCapture.html, limits);
-
-  const page = {
-    url: pageCapture.url,
-    title: pageCapture.title,
-    content: pageContent,
-    selectedText: pageCapture.selectedText
-      ? truncateText(pageCapture.selectedText, 500)
-      : undefined,
-  };
+  let remaining = tokenBudget;
+  let page: PageContext | undefined;
 
-  // Estimate tokens (rough: 1 token ≈ 4 characters)
-  let tokenEstimate = Math.ceil(
-    ((page.url?.length || 0) +
-      (page.title?.length || 0) +
-      (page.content?.length || 0) +
-      (page.selectedText?.length || 0)) /
-      4
-  );
+  if (pageCapture) {
+    page = {
+      url: truncateText(pageCapture.url || '', 500),
+      title: truncateText(pageCapture.title || '', 200),
+    };
+    remaining -= estimateTokens(`URL: ${page.url}\nPage Title: ${page.title}`) + 10;
 
-  // Add history if enabled
-  let history: any[] | undefined;
-  if (limits.includeHistory && limits.maxHistoryItems > 0 && browsingContext?.history) {
-    history = browsingContext.history.slice(0, limits.maxHistoryItems).map((h: any) => ({
-      title: truncateText(h.title, 100),
-      url: truncateText(h.url, 200), // Truncate URLs to prevent massive query params
+    if (pageCapture.selectedText) {
+      page.selectedText = truncateToTokens(pageCapture.selectedText, Math.floor(remaining / 2));
+      remaining -= estimateTokens(page.selectedText);
+    }
+  }
+
+  // Retrieved bookmark passages answer the question, so they come before the page
+  let trimmedSources: BookmarkSource[] | undefined;
+  if (sources.length > 0) {
+    const perSource = Math.floor(Math.max(0, remaining) / sources.length);
+    trimmedSources = sources.map((source) => ({
+      ...source,
+      text: truncateToTokens(source.text, perSource - estimateTokens(source.title) - 10),
     }));
-    tokenEstimate += history.length * 60; // ~60 tokens per history item (more conservative)
+    remaining -= trimmedSources.reduce(
+      (total, source) => total + estimateTokens(source.title + source.text) + 10,
+      0
+    );
+  }
+
+  const historyItems: ContextListItem[] =
+    limits.includeHistory && limits.maxHistoryItems > 0 && browsingContext?.history
+      ? browsingContext.history.slice(0, limits.maxHistoryItems).map((h) => ({
+          title: truncateText(h.title, 100),
+          url: truncateText(h.url, 200), // Truncate URLs to prevent massive query params
+        }))
+      : [];
+  const bookmarkItems: ContextListItem[] =
+    limits.includeBookmarks && limits.maxBookmarkItems > 0 && browsingContext?.bookmarks
+      ? browsingContext.bookmarks.slice(0, limits.maxBookmarkItems).map((b) => ({
+          title: truncateText(b.title, 100),
+          url: truncateText(b.url, 200), // Truncate URLs to prevent massive query params
+        }))
+      : [];
+
+  if (page) {
+    // For vision models with screenshot, minimize text
+    const shouldMinimizeText =
+      isVisionModel && limits.preferScreenshotForVision && pageCapture.screenshot;
+
+    // The title is enough next to a screenshot
+    if (!shouldMinimizeText) {
+      // Page content fills what is left, but leaves room for the short lists after it
+      // unless they would take more than a quarter of it
+      const listTokens =
+        historyItems.reduce((total, item) => total + listItemTokens(item), 0) +
+        bookmarkItems.reduce((total, item) => total + listItemTokens(item), 0);
+      let pageBudget = Math.max(remaining - listTokens, Math.floor(remaining * 0.75));
+      if (limits.maxPageContentTokens !== undefined) {
+        pageBudget = Math.min(pageBudget, limits.maxPageContentTokens);
+      }
+
+      page.content = extractRelevantContent(
+        pageCapture.readable,
+        pageCapture.html,
+        limits,
+        pageBudget
+      );
+      remaining -= estimateTokens(page.content);
+    }
+  }
+
+  // Add history if enabled
+  let history: ContextListItem[] | undefined;
+  if (historyItems.length > 0) {
+    history = takeWithinBudget(historyItems, remaining, listItemTokens);
+    remaining -= history.reduce((total, item) => total + listItemTokens(item), 0);
   }
 
   // Add bookmarks if enabled
-  let bookmarks: any[] | undefined;
-  if (limits.includeBookmarks && limits.maxBookmarkItems > 0 && browsingContext?.bookmarks) {
-    bookmarks = browsingContext.bookmarks.slice(0, limits.maxBookmarkItems).map((b: any) => ({
-      title: truncateText(b.title, 100),
-      url: truncateText(b.url, 200), // Truncate URLs to prevent massive query params
-    }));
-    tokenEstimate += bookmarks.length * 60; // ~60 tokens per bookmark (more conservative)
+  let bookmarks: ContextListItem[] | undefined;
+  if (bookmarkItems.length > 0) {
+    bookmarks = takeWithinBudget(bookmarkItems, remaining, listItemTokens);
+    remaining -= bookmarks.reduce((total, item) => total + listItemTokens(item), 0);
   }
 
   return {
     page,
-    browsingHistory: history,
-    bookmarks,
-    tokenEstimate,
+    browsingHistory: history?.length ? history : undefined,
+    bookmarks: bookmarks?.length ? bookmarks : undefined,
+    sources: trimmedSources,
+    tokenEstimate: Math.max(0, tokenBudget - remaining),
+  };
+}
+
+/**
+ * Fit the conversation into the token budget.
+ * System messages and the most recent messages are kept as they are. When the
+ * whole conversation doesn't fit, older messages are compressed, oldest first,
+ * to a short excerpt without images, and dropped if that still isn't enough.
+ */
+export function fitConversation(
+  messages: ChatMessage[],
+  tokenBudget: number
+): { messages: ChatMessage[]; tokenEstimate: number; compressed: number; dropped: number } {
+  const fitted = [...messages];
+  const costs = fitted.map(estimateMessageTokens);
+  let total = costs.reduce((sum, cost) => sum + cost, 0);
+  let compressed = 0;
+  let dropped = 0;
+
+  const recentStart = Math.max(0, fitted.length - RECENT_MESSAGES);
+  const isOlder = (i: number) => i < recentStart && fitted[i].role !== 'system';
+
+  for (let i = 0; i < recentStart && total > tokenBudget; i++) {
+    if (!isOlder(i) || costs[i] <= COMPRESSED_MESSAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS) continue;
+    fitted[i] = {
+      role: fitted[i].role,
+      content: truncateToTokens(fitted[i].content, COMPRESSED_MESSAGE_TOKENS),
+    };
+    total -= costs[i];
+    costs[i] = estimateMessageTokens(fitted[i]);
+    total += costs[i];
+    compressed++;
+  }
+
+  // Still too long: drop compressed turns, oldest first
+  const kept = fitted.map(() => true);
+  for (let i = 0; i < recentStart && total > tokenBudget; i++) {
+    if (!isOlder(i)) continue;
+    kept[i] = false;
+    total -= costs[i];
+    dropped++;
+  }
+
+  return {
+    messages: fitted.filter((_, i) => kept[i]),
+    tokenEstimate: total,
+    compressed,
+    dropped,
   };
 }
 
@@ -169,7 +413,7 @@ export function getRecommendedLimits(
   if (isVisionModel && hasScreenshot) {
     return {
       ...MINIMAL_LIMITS,
-      maxPageContentLength: 100, // Just page title
+      maxPageContentTokens: 25, // Just page title
       maxHistoryItems: 0, // No history - causes 500 errors with streaming
       includeHistory: false,
       includeBookmarks: false,
@@ -181,7 +425,7 @@ export function getRecommendedLimits(
   if (isVisionModel) {
     return {
       ...MINIMAL_LIMITS,
-      maxPageContentLength: 300, // Small excerpt
+      maxPageContentTokens: 75, // Small excerpt
       maxHistoryItems: 0,
       includeHistory: false,
       includeBookmarks: false,
@@ -195,10 +439,7 @@ export function getRecommendedLimits(
 
   // Deep analysis - more context
   if (useCase === 'deep-analysis') {
-    return {
-      ...FULL_LIMITS,
-      maxPageContentLength: 3000,
-    };
+    return FULL_LIMITS;
   }
 
   // Normal - balanced
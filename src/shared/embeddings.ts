@@ -0,0 +1,73 @@
+/**
+ * Embedding helpers
+ * Vector math for semantic search over locally stored embeddings
+ */
+
+/**
+ * Cosine similarity between two vectors, from -1 to 1 (0 if either is empty or the sizes differ)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Rank items by similarity to a query vector, keeping the best matches above minScore
+ */
+export function rankBySimilarity<T extends { embedding: ArrayLike<number> }>(
+  query: ArrayLike<number>,
+  items: T[],
+  limit: number,
+  minScore = 0
+): Array<{ item: T; score: number }> {
+  return items
+    .map((item) => ({ item, score: cosineSimilarity(query, item.embedding) }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Split text into overlapping chunks for retrieval, preferring sentence or word boundaries
+ */
+export function chunkText(text: string, chunkSize = 1000, overlap = 150): string[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= chunkSize) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + chunkSize, clean.length);
+
+    if (end < clean.length) {
+      // Break at the last sentence end, or failing that the last space, in the back of the chunk
+      const window = clean.slice(start + Math.floor(chunkSize * 0.6), end);
+      const sentenceEnd = window.lastIndexOf('. ');
+      const breakAt = sentenceEnd >= 0 ? sentenceEnd + 1 : window.lastIndexOf(' ');
+      if (breakAt >= 0) {
+        end = start + Math.floor(chunkSize * 0.6) + breakAt;
+      }
+    }
+
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+
+    // Step back for overlap, starting on a word
+    const next = end - overlap;
+    const wordStart = clean.indexOf(' ', next);
+    start = wordStart > start && wordStart < end ? wordStart + 1 : end;
+  }
+
+  return chunks;
+}
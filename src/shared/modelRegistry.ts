@@ -19,7 +19,7 @@ export function getRecommendedModels(): ModelMetadata[] {
  * Get models by capability
  */
 export function getModelsByCapability(
-  capability: 'vision' | 'chat' | 'completion'
+  capability: 'vision' | 'chat' | 'completion' | 'embedding'
 ): ModelMetadata[] {
   return getAllModelsFromRegistry().filter((model) => model.capabilities[capability]);
 }
@@ -79,6 +79,14 @@ export function supportsToolCalling(modelName: string): boolean {
   return metadata?.capabilities.toolCalling ?? false;
 }
 
+/**
+ * Check if a model creates embeddings
+ */
+export function supportsEmbedding(modelName: string): boolean {
+  const metadata = findModelMetadata(modelName);
+  return metadata?.capabilities.embedding ?? false;
+}
+
 /**
  * Enrich installed models with metadata from registry
  */
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { rankOmniboxSuggestions, type OmniboxInput } from './omnibox';
+import type { Bookmark, HistoryEntry, Tab } from './types';
+
+const NOW = Date.UTC(2025, 5, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const visit = (url: string, title: string, visitCount: number, daysAgo: number): HistoryEntry => ({
+  url,
+  title,
+  visitCount,
+  visitTime: NOW - daysAgo * DAY_MS,
+});
+
+const bookmark = (url: string, title: string): Bookmark => ({
+  url,
+  title,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const tab = (id: string, url: string, title: string): Tab => ({
+  id,
+  url,
+  title,
+  isActive: false,
+  position: 0,
+});
+
+const rank = (input: Partial<OmniboxInput> & { query: string }) =>
+  rankOmniboxSuggestions({ history: [], bookmarks: [], tabs: [], now: NOW, ...input });
+
+describe('rankOmniboxSuggestions', () => {
+  it('returns nothing for an empty query', () => {
+    expect(rank({ query: '  ', history: [visit('https://a.com', 'A', 1, 0)] })).toEqual([]);
+  });
+
+  describe('frecency', () => {
+    it('ranks a recent visit above an old one with the same count', () => {
+      const results = rank({
+        query: 'docs',
+        history: [
+          visit('https://old.example.com/docs', 'Old docs', 3, 120),
+          visit('https://new.example.com/docs', 'New docs', 3, 1),
+        ],
+      });
+
+      expect(results.map((r) => r.url)).toEqual([
+        'https://new.example.com/docs',
+        'https://old.example.com/docs',
+      ]);
+    });
+
+    it('lets a page visited often a while ago beat a one-off visit from today', () => {
+      const results = rank({
+        query: 'recipes',
+        history: [
+          visit('https://once.example.com/recipes', 'Recipes once', 1, 0),
+          visit('https://often.example.com/recipes', 'Recipes often', 50, 20),
+        ],
+      });
+
+      expect(results[0].url).toBe('https://often.example.com/recipes');
+    });
+
+    it('merges visits to the same page, ignoring protocol, www and trailing slash', () => {
+      const results = rank({
+        query: 'example',
+        history: [
+          visit('https://www.example.com/', 'Example', 2, 10),
+          visit('http://example.com', 'Example', 7, 1),
+        ],
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].visitCount).toBe(7);
+    });
+  });
+
+  describe('prefix matches', () => {
+    it('ranks a typed URL prefix above a title prefix and a match elsewhere', () => {
+      // Same visits, so only the match quality differs
+      const results = rank({
+        query: 'git',
+        history: [
+          visit('https://blog.example.com/tools', 'Tools I use: a review of git clients', 5, 2),
+          visit('https://docs.example.com/vcs', 'Git basics', 5, 2),
+          visit('https://github.com/', 'GitHub', 5, 2),
+        ],
+      });
+
+      expect(results.map((r) => r.url)).toEqual([
+        'https://github.com/',
+        'https://docs.example.com/vcs',
+        'https://blog.example.com/tools',
+      ]);
+    });
+
+    it('matches a URL prefix that runs into the path, ignoring www', () => {
+      const history = [visit('https://www.wikipedia.org/wiki/Cat', 'Cat', 1, 0)];
+
+      expect(rank({ query: 'wikipedia.org/wiki/c', history })).toHaveLength(1);
+    });
+  });
+
+  describe('keyword matches', () => {
+    it('requires every word of the query, in any order', () => {
+      const history = [
+        visit('https://news.example.com/a', 'Rust release notes', 1, 0),
+        visit('https://news.example.com/b', 'Go release notes', 1, 0),
+      ];
+
+      expect(rank({ query: 'notes rust', history }).map((r) => r.url)).toEqual([
+        'https://news.example.com/a',
+      ]);
+      expect(rank({ query: 'python notes', history })).toEqual([]);
+    });
+
+    it('ranks a word start in the title above a match inside a word', () => {
+      const results = rank({
+        query: 'script',
+        history: [
+          visit('https://a.example.com', 'Learning TypeScript', 3, 1),
+          visit('https://b.example.com', 'Script writing tips', 3, 1),
+          visit('https://c.example.com', 'Shell script guide', 3, 1),
+        ],
+      });
+
+      expect(results.map((r) => r.url)).toEqual([
+        'https://b.example.com',
+        'https://c.example.com',
+        'https://a.example.com',
+      ]);
+    });
+
+    it('matches words in the URL when the title does not have them', () => {
+      const results = rank({
+        query: 'changelog',
+        history: [visit('https://example.com/changelog', 'Release history', 1, 0)],
+      });
+
+      expect(results).toHaveLength(1);
+    });
+  });
+
+  describe('bookmarks and open tabs', () => {
+    it('boosts bookmarks and uses the bookmark title', () => {
+      const results = rank({
+        query: 'example',
+        history: [
+          visit('https://example.com/a', 'Page A', 1, 0),
+          visit('https://example.com/b', 'Page B', 1, 0),
+        ],
+        bookmarks: [bookmark('https://example.com/b', 'Example B (saved)')],
+      });
+
+      expect(results[0]).toMatchObject({ type: 'bookmark', title: 'Example B (saved)' });
+    });
+
+    it('turns an open tab into a switch-to-tab suggestion, except the active tab', () => {
+      const results = rank({
+        query: 'mail',
+        history: [visit('https://mail.example.com', 'Mail', 1, 0)],
+        tabs: [
+          tab('t1', 'https://mail.example.com/', 'Inbox'),
+          tab('t2', 'https://mail.other.com', 'Other mail'),
+        ],
+        activeTabId: 't2',
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ type: 'tab', tabId: 't1' });
+    });
+  });
+
+  it('keeps engine suggestions and Ask AI after the ranked entries', () => {
+    const results = rank({
+      query: 'weather',
+      history: [visit('https://weather.example.com', 'Weather', 1, 0)],
+      searchSuggestions: [
+        {
+          title: 'weather tomorrow',
+          url: 'https://duckduckgo.com/?q=weather+tomorrow',
+          searchEngine: 'DuckDuckGo',
+        },
+      ],
+      includeAskAI: true,
+    });
+
+    expect(results.map((r) => r.type)).toEqual(['history', 'search', 'ask-ai']);
+  });
+
+  it('leaves out Ask AI when the text looks like an address', () => {
+    const results = rank({ query: 'example.com', includeAskAI: true });
+
+    expect(results).toEqual([]);
+  });
+
+  it('limits history, bookmark and tab entries', () => {
+    const history = Array.from({ length: 12 }, (_, i) =>
+      visit(`https://example.com/${i}`, `Example ${i}`, 1, 0)
+    );
+
+    expect(rank({ query: 'example', history, limit: 5 })).toHaveLength(5);
+  });
+});
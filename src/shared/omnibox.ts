@@ -0,0 +1,195 @@
+/**
+ * Omnibox Ranking
+ * Scores address bar suggestions from history, bookmarks and open tabs.
+ * Pure functions only, so ranking can be tested without the database or the UI.
+ */
+
+import type { HistoryEntry, Bookmark, Tab } from './types';
+
+export type OmniboxSuggestionType = 'history' | 'bookmark' | 'tab' | 'search' | 'ask-ai';
+
+export interface OmniboxSuggestion {
+  type: OmniboxSuggestionType;
+  title: string;
+  url?: string; // Navigation target (unset for 'ask-ai')
+  tabId?: string; // Tab to switch to for 'tab' suggestions
+  visitCount?: number;
+  searchEngine?: string; // Engine name for 'search' suggestions
+  score: number;
+}
+
+export interface OmniboxInput {
+  query: string;
+  history: HistoryEntry[];
+  bookmarks: Bookmark[];
+  tabs: Tab[];
+  activeTabId?: string | null;
+  // Engine suggestions, already turned into search URLs
+  searchSuggestions?: Array<{ title: string; url: string; searchEngine: string }>;
+  includeAskAI?: boolean;
+  limit?: number; // Max history/bookmark/tab entries
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weight of a visit by age, similar to Firefox's frecency buckets
+const RECENCY_BUCKETS = [
+  { maxAgeDays: 4, weight: 100 },
+  { maxAgeDays: 14, weight: 70 },
+  { maxAgeDays: 31, weight: 50 },
+  { maxAgeDays: 90, weight: 30 },
+];
+const OLD_VISIT_WEIGHT = 10;
+
+export const BOOKMARK_BOOST = 150;
+export const OPEN_TAB_BOOST = 200;
+
+/**
+ * Recency weight for a visit made ageMs ago
+ */
+export function recencyWeight(ageMs: number): number {
+  const ageDays = Math.max(0, ageMs) / DAY_MS;
+  const bucket = RECENCY_BUCKETS.find((b) => ageDays <= b.maxAgeDays);
+  return bucket ? bucket.weight : OLD_VISIT_WEIGHT;
+}
+
+/**
+ * Frecency: recency weight scaled by the log of the visit count, so a page
+ * visited often a while ago can still beat a one-off visit from today
+ */
+export function frecency(visitCount: number, lastVisitTime: number, now = Date.now()): number {
+  return recencyWeight(now - lastVisitTime) * Math.log2(1 + Math.max(1, visitCount));
+}
+
+// Compare URLs without protocol, "www." or a trailing slash
+const stripUrl = (url: string): string =>
+  url
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/#.*$/, '')
+    .replace(/\/$/, '');
+
+/**
+ * How well an entry matches the typed text, from 0 (no match) to 1.
+ * Every word of the query must appear in the title or URL; typing the start
+ * of the URL ranks highest, then the start of a word in the title.
+ */
+export function matchQuality(query: string, title: string, url: string): number {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+
+  const strippedUrl = stripUrl(url);
+  const lowerTitle = (title || '').toLowerCase();
+  const haystack = `${lowerTitle} ${strippedUrl}`;
+  const words = q.split(/\s+/);
+  if (!words.every((word) => haystack.includes(word))) return 0;
+
+  if (strippedUrl.startsWith(stripUrl(q))) return 1;
+  if (lowerTitle.startsWith(q)) return 0.8;
+  if (lowerTitle.split(/[^\p{L}\p{N}]+/u).some((w) => w.startsWith(words[0]))) return 0.65;
+  return 0.4;
+}
+
+/**
+ * Whether typed text should be treated as an address rather than a query
+ */
+export function looksLikeUrl(input: string): boolean {
+  const text = input.trim();
+  if (/^https?:\/\//i.test(text)) return true;
+  return text.includes('.') && !/\s/.test(text);
+}
+
+/**
+ * Rank suggestions for the typed text.
+ * History, bookmarks and open tabs are merged by URL and sorted by score; an open
+ * tab turns its entry into "switch to tab". Engine suggestions follow, and the
+ * "Ask AI" entry comes last so it is always reachable.
+ */
+export function rankOmniboxSuggestions(input: OmniboxInput): OmniboxSuggestion[] {
+  const { query, history, bookmarks, tabs, activeTabId, limit = 8, now = Date.now() } = input;
+  const text = query.trim();
+  if (!text) return [];
+
+  const entries = new Map<
+    string,
+    { title: string; url: string; visitCount?: number; base: number; type: OmniboxSuggestionType }
+  >();
+
+  for (const entry of history) {
+    const key = stripUrl(entry.url);
+    const existing = entries.get(key);
+    const score = frecency(entry.visitCount || 1, entry.visitTime, now);
+    if (existing) {
+      existing.base = Math.max(existing.base, score);
+      existing.visitCount = Math.max(existing.visitCount || 0, entry.visitCount || 0);
+    } else {
+      entries.set(key, {
+        title: entry.title,
+        url: entry.url,
+        visitCount: entry.visitCount,
+        base: score,
+        type: 'history',
+      });
+    }
+  }
+
+  for (const bookmark of bookmarks) {
+    const key = stripUrl(bookmark.url);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.base += BOOKMARK_BOOST;
+      existing.title = bookmark.title || existing.title;
+      existing.type = 'bookmark';
+    } else {
+      entries.set(key, {
+        title: bookmark.title,
+        url: bookmark.url,
+        base: BOOKMARK_BOOST,
+        type: 'bookmark',
+      });
+    }
+  }
+
+  const tabIds = new Map<string, string>();
+  for (const tab of tabs) {
+    if (tab.id === activeTabId || !tab.url) continue;
+    const key = stripUrl(tab.url);
+    tabIds.set(key, tab.id);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.base += OPEN_TAB_BOOST;
+      existing.type = 'tab';
+    } else {
+      entries.set(key, { title: tab.title, url: tab.url, base: OPEN_TAB_BOOST, type: 'tab' });
+    }
+  }
+
+  const ranked: OmniboxSuggestion[] = [];
+  entries.forEach((entry, key) => {
+    const quality = matchQuality(text, entry.title, entry.url);
+    if (quality === 0) return;
+    ranked.push({
+      type: entry.type,
+      title: entry.title || entry.url,
+      url: entry.url,
+      tabId: entry.type === 'tab' ? tabIds.get(key) : undefined,
+      visitCount: entry.visitCount,
+      score: quality * entry.base,
+    });
+  });
+  ranked.sort((a, b) => b.score - a.score);
+
+  const suggestions = ranked.slice(0, limit);
+
+  for (const search of input.searchSuggestions || []) {
+    suggestions.push({ type: 'search', ...search, score: 0 });
+  }
+
+  if (input.includeAskAI && !looksLikeUrl(text)) {
+    suggestions.push({ type: 'ask-ai', title: text, score: 0 });
+  }
+
+  return suggestions;
+}
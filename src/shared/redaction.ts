@@ -0,0 +1,316 @@
+/**
+ * PII Redaction
+ * Replaces emails, phone numbers, card numbers, IBANs, API keys and custom
+ * patterns in page content with placeholders before it is sent to the model
+ */
+
+import type { CustomRedactionPattern, Redaction, RedactionKind, RedactionSettings } from './types';
+
+export const REDACTION_SETTING = 'pii-redaction';
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  kinds: {
+    email: true,
+    phone: true,
+    creditCard: true,
+    iban: true,
+    apiKey: true,
+  },
+  customPatterns: [],
+};
+
+export const MAX_CUSTOM_PATTERNS = 20;
+const MAX_CUSTOM_PATTERN_LENGTH = 300;
+
+// How each kind is named in the chat and the settings
+export const REDACTION_KIND_NAMES: Record<RedactionKind, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  creditCard: 'Card numbers',
+  iban: 'IBANs',
+  apiKey: 'API keys and tokens',
+  custom: 'Custom patterns',
+};
+
+const PLACEHOLDER_PREFIXES: Record<Exclude<RedactionKind, 'custom'>, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  creditCard: 'CARD',
+  iban: 'IBAN',
+  apiKey: 'API_KEY',
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+// 13 to 19 digits, optionally grouped with spaces or dashes
+const CARD_PATTERN = /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g;
+// Written without spaces or in groups of four
+const IBAN_PATTERN =
+  /\b[A-Z]{2}\d{2}(?:[A-Z0-9]{11,30}|(?: [A-Z0-9]{4}){2,7}(?: [A-Z0-9]{1,4})?)\b/g;
+// Digit groups with an optional country code and area code in parentheses
+const PHONE_PATTERN =
+  /(?<![\w+:-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w:-])/g;
+const API_KEY_PATTERNS = [
+  /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{30,}\b/g, // GitHub
+  /\bgithub_pat_[A-Za-z0-9_]{30,}\b/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, // AWS access key IDs
+  /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g, // Slack
+  /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g, // Stripe
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, // JWTs
+];
+// Anything else long and random-looking; needs upper and lower case letters and
+// digits so words, hex hashes and UUIDs are left alone
+const GENERIC_API_KEY_PATTERN =
+  /\b(?=[A-Za-z0-9_-]*[a-z])(?=[A-Za-z0-9_-]*[A-Z])(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{32,}\b/g;
+// The start of a URL up to the text before a match, when the match is in its host or path
+const URL_PATH_BEFORE = /[a-z][a-z0-9+.-]*:\/\/[^\s"'<>?#]*$/i;
+const MAX_URL_LOOKBEHIND = 1000;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 check: move the country code and check digits to the end, then mod 97
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/ /g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// The last group matched may be the next word, e.g. "... 3000 BIC"
+function findIban(value: string): string | null {
+  if (isValidIban(value)) return value;
+  const withoutLastGroup = value.replace(/ [A-Z0-9]{1,4}$/, '');
+  return withoutLastGroup !== value && isValidIban(withoutLastGroup) ? withoutLastGroup : null;
+}
+
+// IDs in URL paths look random too, but redacting them breaks the link. Query
+// strings are still redacted, since tokens are often passed there.
+function isInUrlPath(text: string, offset: number): boolean {
+  return URL_PATH_BEFORE.test(text.slice(Math.max(0, offset - MAX_URL_LOOKBEHIND), offset));
+}
+
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  if (value.startsWith('+')) return digits >= 7 && digits <= 15;
+  // Without a country code, plain digit runs are more often IDs and short
+  // groups more often dates or prices
+  return /[ .()-]/.test(value) && digits >= 9 && digits <= 15;
+}
+
+/**
+ * The error in a custom pattern, or null when it can be used
+ */
+export function getCustomPatternError(pattern: CustomRedactionPattern): string | null {
+  if (!pattern.name.trim()) return 'Give the pattern a name';
+  if (!pattern.pattern) return 'Enter a regular expression';
+  if (pattern.pattern.length > MAX_CUSTOM_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_CUSTOM_PATTERN_LENGTH} characters`;
+  }
+  try {
+    if (new RegExp(pattern.pattern).test('')) return 'The pattern must not match empty text';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+  return null;
+}
+
+function isCustomPattern(value: unknown): value is CustomRedactionPattern {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, pattern } = value as { name?: unknown; pattern?: unknown };
+  return typeof name === 'string' && typeof pattern === 'string';
+}
+
+/**
+ * Read the saved settings, falling back to the defaults for anything missing or invalid
+ */
+export function parseRedactionSettings(value: string | null): RedactionSettings {
+  if (!value) return DEFAULT_REDACTION_SETTINGS;
+
+  try {
+    const saved = JSON.parse(value);
+    return {
+      enabled: typeof saved.enabled === 'boolean' ? saved.enabled : true,
+      kinds: { ...DEFAULT_REDACTION_SETTINGS.kinds, ...saved.kinds },
+      customPatterns: Array.isArray(saved.customPatterns)
+        ? saved.customPatterns.filter(
+            (p: unknown) => isCustomPattern(p) && getCustomPatternError(p) === null
+          )
+        : [],
+    };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+/**
+ * Redacts one or more texts with shared placeholders, so a value that appears
+ * in both the selection and the page content becomes the same placeholder
+ */
+export class Redactor {
+  private placeholders = new Map<string, Redaction>();
+  private counters = new Map<string, number>();
+
+  constructor(private settings: RedactionSettings) {}
+
+  redact(text: string): string;
+  redact(text: string | undefined): string | undefined;
+  redact(text: string | undefined): string | undefined {
+    if (!text || !this.settings.enabled) return text;
+
+    const { kinds, customPatterns } = this.settings;
+    let result = text;
+
+    // Keys first, since their random characters can look like phone or card numbers
+    if (kinds.apiKey) {
+      for (const pattern of API_KEY_PATTERNS) {
+        result = this.replace(result, pattern, 'apiKey', PLACEHOLDER_PREFIXES.apiKey);
+      }
+      result = this.replace(
+        result,
+        GENERIC_API_KEY_PATTERN,
+        'apiKey',
+        PLACEHOLDER_PREFIXES.apiKey,
+        (value, offset, source) => (isInUrlPath(source, offset) ? null : value)
+      );
+    }
+    if (kinds.email) {
+      result = this.replace(result, EMAIL_PATTERN, 'email', PLACEHOLDER_PREFIXES.email);
+    }
+    if (kinds.iban) {
+      result = this.replace(result, IBAN_PATTERN, 'iban', PLACEHOLDER_PREFIXES.iban, findIban);
+    }
+    if (kinds.creditCard) {
+      result = this.replace(
+        result,
+        CARD_PATTERN,
+        'creditCard',
+        PLACEHOLDER_PREFIXES.creditCard,
+        (value) => (passesLuhn(value.replace(/\D/g, '')) ? value : null)
+      );
+    }
+    if (kinds.phone) {
+      result = this.replace(result, PHONE_PATTERN, 'phone', PLACEHOLDER_PREFIXES.phone, (value) =>
+        isPhoneNumber(value) ? value : null
+      );
+    }
+
+    for (const custom of customPatterns) {
+      const prefix = custom.name
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_|_$/g, '');
+      try {
+        result = this.replace(
+          result,
+          new RegExp(custom.pattern, 'g'),
+          'custom',
+          prefix || 'CUSTOM'
+        );
+      } catch (error) {
+        console.warn(`Skipping invalid redaction pattern "${custom.name}":`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Every value replaced so far, one entry per placeholder
+   */
+  getRedactions(): Redaction[] {
+    return Array.from(this.placeholders.values());
+  }
+
+  private replace(
+    text: string,
+    pattern: RegExp,
+    kind: RedactionKind,
+    prefix: string,
+    // The part of a match to redact, or null to leave it
+    select: (match: string, offset: number, text: string) => string | null = (match) => match
+  ): string {
+    return text.replace(pattern, (match: string, ...args: unknown[]) => {
+      // Placeholders from earlier passes are left as they are
+      if (!match || /^\[[A-Z0-9_]+_\d+\]$/.test(match)) return match;
+      // Offset of the match, after any capture groups of custom patterns
+      const offset = args.find((arg): arg is number => typeof arg === 'number') ?? 0;
+      const value = select(match, offset, text);
+      if (!value) return match;
+
+      const key = `${kind}:${prefix}:${value}`;
+      let redaction = this.placeholders.get(key);
+      if (!redaction) {
+        const count = (this.counters.get(prefix) || 0) + 1;
+        this.counters.set(prefix, count);
+        redaction = { kind, placeholder: `[${prefix}_${count}]` };
+        this.placeholders.set(key, redaction);
+      }
+      return redaction.placeholder + match.slice(value.length);
+    });
+  }
+}
+
+/**
+ * Redact the text of a page capture before it goes into the chat context.
+ * Returns a copy; the capture itself is not changed.
+ */
+export function redactPageCapture<
+  T extends {
+    selectedText?: string;
+    html?: string;
+    readable?: { textContent?: string; excerpt?: string; content?: string } | null;
+  },
+>(capture: T, settings: RedactionSettings): { capture: T; redactions: Redaction[] } {
+  if (!settings.enabled) return { capture, redactions: [] };
+
+  const redactor = new Redactor(settings);
+  const redacted: T = {
+    ...capture,
+    selectedText: redactor.redact(capture.selectedText),
+    html: redactor.redact(capture.html),
+  };
+  if (capture.readable) {
+    redacted.readable = {
+      ...capture.readable,
+      textContent: redactor.redact(capture.readable.textContent),
+      excerpt: redactor.redact(capture.readable.excerpt),
+      content: redactor.redact(capture.readable.content),
+    };
+  }
+
+  return { capture: redacted, redactions: redactor.getRedactions() };
+}
+
+/**
+ * Describe the redactions for the chat, e.g. "Email addresses (2), Card numbers (1)"
+ */
+export function summarizeRedactions(redactions: Redaction[]): string {
+  const counts = new Map<RedactionKind, number>();
+  for (const { kind } of redactions) {
+    counts.set(kind, (counts.get(kind) || 0) + 1);
+  }
+  return Array.from(counts, ([kind, count]) => `${REDACTION_KIND_NAMES[kind]} (${count})`).join(
+    ', '
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Search Engine Helpers
+ * Shared by the address bar (keyword triggers) and the web_search tool
+ */
+
+import type { SearchEngine } from './types';
+
+export const SEARCH_QUERY_PLACEHOLDER = '%s';
+
+/**
+ * Engines created on first run; DuckDuckGo is the default
+ */
+export const DEFAULT_SEARCH_ENGINES: Omit<SearchEngine, 'id' | 'createdAt'>[] = [
+  {
+    name: 'DuckDuckGo',
+    keyword: 'ddg',
+    searchUrl: 'https://duckduckgo.com/?q=%s',
+    suggestUrl: 'https://duckduckgo.com/ac/?q=%s&type=list',
+    isDefault: true,
+  },
+  {
+    name: 'Google',
+    keyword: 'g',
+    searchUrl: 'https://www.google.com/search?q=%s',
+    suggestUrl: 'https://suggestqueries.google.com/complete/search?client=firefox&q=%s',
+    isDefault: false,
+  },
+  {
+    name: 'Bing',
+    keyword: 'b',
+    searchUrl: 'https://www.bing.com/search?q=%s',
+    suggestUrl: 'https://api.bing.com/osjson.aspx?query=%s',
+    isDefault: false,
+  },
+  {
+    name: 'Wikipedia',
+    keyword: 'w',
+    searchUrl: 'https://en.wikipedia.org/wiki/Special:Search?search=%s',
+    suggestUrl: 'https://en.wikipedia.org/w/api.php?action=opensearch&search=%s',
+    isDefault: false,
+  },
+  {
+    name: 'GitHub',
+    keyword: 'gh',
+    searchUrl: 'https://github.com/search?q=%s',
+    isDefault: false,
+  },
+];
+
+/**
+ * Fill a URL template with the encoded query
+ */
+export function buildSearchUrl(template: string, query: string): string {
+  return template.split(SEARCH_QUERY_PLACEHOLDER).join(encodeURIComponent(query.trim()));
+}
+
+/**
+ * Check that a template is an http(s) URL containing the query placeholder
+ */
+export function isValidSearchTemplate(template: string): boolean {
+  if (!template.includes(SEARCH_QUERY_PLACEHOLDER)) return false;
+  try {
+    const url = new URL(buildSearchUrl(template, 'test'));
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Match address bar input like "gh react hooks" to an engine keyword.
+ * Returns null when the first word is not a keyword or there is no query after it.
+ */
+export function parseKeywordQuery(
+  input: string,
+  engines: SearchEngine[]
+): { engine: SearchEngine; query: string } | null {
+  const match = input.trim().match(/^(\S+)\s+(.+)$/);
+  if (!match) return null;
+
+  const keyword = match[1].toLowerCase();
+  const engine = engines.find((e) => e.keyword && e.keyword.toLowerCase() === keyword);
+  return engine ? { engine, query: match[2].trim() } : null;
+}
+
+/**
+ * Find an engine by keyword or name (case-insensitive)
+ */
+export function findSearchEngine(
+  engines: SearchEngine[],
+  keywordOrName: string
+): SearchEngine | undefined {
+  const needle = keywordOrName.trim().toLowerCase();
+  return engines.find((e) => e.keyword.toLowerCase() === needle || e.name.toLowerCase() === needle);
+}
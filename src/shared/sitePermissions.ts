@@ -0,0 +1,52 @@
+/**
+ * Site Permission Helpers
+ * Shared by the permission prompt, the site settings page and the IPC validation
+ */
+
+import type { SitePermissionType } from './types';
+
+/**
+ * How each permission is described to the user, e.g. "example.com wants to use your camera"
+ */
+export const SITE_PERMISSION_LABELS: Record<SitePermissionType, string> = {
+  camera: 'use your camera',
+  microphone: 'use your microphone',
+  geolocation: 'know your location',
+  notifications: 'show notifications',
+  midi: 'use your MIDI devices',
+  'clipboard-read': 'see text and images copied to the clipboard',
+  'display-capture': 'share your screen',
+  'idle-detection': 'know when you are actively using this device',
+  'window-management': 'manage windows on all your displays',
+  'open-external': 'open links in other applications',
+  popups: 'open pop-up windows',
+  ads: 'show ads and trackers',
+};
+
+// Short names for the site settings page
+export const SITE_PERMISSION_NAMES: Record<SitePermissionType, string> = {
+  camera: 'Camera',
+  microphone: 'Microphone',
+  geolocation: 'Location',
+  notifications: 'Notifications',
+  midi: 'MIDI devices',
+  'clipboard-read': 'Clipboard',
+  'display-capture': 'Screen sharing',
+  'idle-detection': 'Idle detection',
+  'window-management': 'Window management',
+  'open-external': 'External applications',
+  popups: 'Pop-ups',
+  ads: 'Ads and trackers',
+};
+
+export const SITE_PERMISSION_TYPES = Object.keys(SITE_PERMISSION_NAMES) as SitePermissionType[];
+
+/**
+ * Join permission descriptions into one sentence fragment:
+ * "use your camera and use your microphone"
+ */
+export function describePermissions(permissions: SitePermissionType[]): string {
+  const labels = permissions.map((permission) => SITE_PERMISSION_LABELS[permission]);
+  if (labels.length <= 1) return labels[0] || '';
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Tab Group Helpers
+ * Shared by the tab strip, the saved sessions and the IPC validation
+ */
+
+import type { TabGroupColor } from './types';
+
+// Colors of the group label and of the line under its tabs
+export const TAB_GROUP_COLORS: Record<TabGroupColor, string> = {
+  grey: '#9aa0a6',
+  blue: '#4c8bf5',
+  red: '#e8453c',
+  yellow: '#f9ab00',
+  green: '#1e8e3e',
+  pink: '#e52592',
+  purple: '#a142f4',
+  cyan: '#12b5cb',
+  orange: '#fa903e',
+};
+
+export const TAB_GROUP_COLOR_NAMES = Object.keys(TAB_GROUP_COLORS) as TabGroupColor[];
+
+export const MAX_TAB_GROUP_NAME_LENGTH = 64;
+export const MAX_SESSION_NAME_LENGTH = 128;
+export const MAX_SESSION_TABS = 500;
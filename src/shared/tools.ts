@@ -14,6 +14,11 @@ export interface ToolParameter {
 export interface Tool {
   name: string;
   description: string;
+  /**
+   * Read-only tools run right away; side-effecting tools (navigation, clicks, typing)
+   * need the user's approval unless they are always allowed for the origin
+   */
+  readOnly: boolean;
   parameters: ToolParameter[];
   execute: (args: Record<string, any>) => Promise<any>;
 }
@@ -38,12 +43,13 @@ export const AVAILABLE_TOOLS: Tool[] = [
   {
     name: 'search_history',
     description:
-      'Search the browsing history for pages matching a query. Returns recent pages visited.',
+      'Search the browsing history for pages matching a query. Matches titles and URLs, and also page content by meaning when semantic history search is enabled (e.g. "that article about Postgres vacuum tuning"). Returns recent pages visited.',
+    readOnly: true,
     parameters: [
       {
         name: 'query',
         type: 'string',
-        description: 'Search query to match against page titles and URLs',
+        description: 'Search query to match against page titles, URLs and content',
         required: false,
       },
       {
@@ -65,6 +71,7 @@ export const AVAILABLE_TOOLS: Tool[] = [
   {
     name: 'get_bookmarks',
     description: 'Get saved bookmarks, optionally filtered by search query.',
+    readOnly: true,
     parameters: [
       {
         name: 'query',
@@ -84,6 +91,7 @@ export const AVAILABLE_TOOLS: Tool[] = [
     name: 'analyze_page_content',
     description:
       'Get detailed content from the current page including full text, structure, and metadata.',
+    readOnly: true,
     parameters: [],
     execute: async (args) => {
       if (typeof window !== 'undefined' && window.electron) {
@@ -95,6 +103,7 @@ export const AVAILABLE_TOOLS: Tool[] = [
   {
     name: 'capture_screenshot',
     description: 'Capture a screenshot of the current page (only for vision models).',
+    readOnly: true,
     parameters: [],
     execute: async (args) => {
       if (typeof window !== 'undefined' && window.electron) {
@@ -107,6 +116,7 @@ export const AVAILABLE_TOOLS: Tool[] = [
     name: 'get_page_metadata',
     description:
       'Get metadata about the current page (title, URL, description, canonical URL, etc.)',
+    readOnly: true,
     parameters: [],
     execute: async (args) => {
       if (typeof window !== 'undefined' && window.electron) {
@@ -118,18 +128,27 @@ export const AVAILABLE_TOOLS: Tool[] = [
   {
     name: 'web_search',
     description:
-      'Perform a web search by opening a new tab with the search query, navigating to Google, and capturing the results. This is a multi-step process that returns search results with screenshots.',
+      'Search the web and return a list of results with title, URL and snippet. Open a result with open_url or analyze_page_content to read it in full.',
+    // Sends the query to a search engine and loads its results page
+    readOnly: false,
     parameters: [
       {
         name: 'query',
         type: 'string',
-        description: 'The search query to look up on Google',
+        description: 'The search query',
         required: true,
       },
       {
-        name: 'capture_screenshot',
-        type: 'boolean',
-        description: 'Whether to capture a screenshot of the search results (default: true)',
+        name: 'engine',
+        type: 'string',
+        description:
+          "Keyword or name of one of the user's search engines, e.g. 'w' for Wikipedia (default: the default engine)",
+        required: false,
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of results to return (default: 8, max: 20)',
         required: false,
       },
     ],
@@ -140,8 +159,227 @@ export const AVAILABLE_TOOLS: Tool[] = [
       return { tool: 'web_search', args };
     },
   },
+  {
+    name: 'open_url',
+    description:
+      'Open a URL in the current tab (or a new tab). Waits for the page to load and returns its final URL and title.',
+    readOnly: false,
+    parameters: [
+      {
+        name: 'url',
+        type: 'string',
+        description: 'The URL to open',
+        required: true,
+      },
+      {
+        name: 'new_tab',
+        type: 'boolean',
+        description: 'Open the URL in a new tab instead of the current one (default: false)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:open_url', args);
+      }
+      return { tool: 'open_url', args };
+    },
+  },
+  {
+    name: 'click_element',
+    description:
+      'Click an element on the current page, found by CSS selector or by its visible text (links, buttons, tabs, menu items).',
+    readOnly: false,
+    parameters: [
+      {
+        name: 'selector',
+        type: 'string',
+        description: 'CSS selector of the element to click',
+        required: false,
+      },
+      {
+        name: 'text',
+        type: 'string',
+        description:
+          'Visible text or label of the element to click (used when no selector is given)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:click_element', args);
+      }
+      return { tool: 'click_element', args };
+    },
+  },
+  {
+    name: 'fill_input',
+    description:
+      'Type a value into a form field on the current page. Fires input and change events so the page sees the new value.',
+    readOnly: false,
+    parameters: [
+      {
+        name: 'selector',
+        type: 'string',
+        description: 'CSS selector of the input, textarea, select or editable element',
+        required: true,
+      },
+      {
+        name: 'value',
+        type: 'string',
+        description: 'The value to enter',
+        required: true,
+      },
+      {
+        name: 'submit',
+        type: 'boolean',
+        description: 'Submit the form (or press Enter) after filling the field (default: false)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:fill_input', args);
+      }
+      return { tool: 'fill_input', args };
+    },
+  },
+  {
+    name: 'scroll',
+    description: 'Scroll the current page and return the new scroll position.',
+    readOnly: true,
+    parameters: [
+      {
+        name: 'direction',
+        type: 'string',
+        description: 'Where to scroll',
+        required: true,
+        enum: ['up', 'down', 'top', 'bottom'],
+      },
+      {
+        name: 'amount',
+        type: 'number',
+        description: 'Pixels to scroll for up/down (default: most of the viewport)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:scroll', args);
+      }
+      return { tool: 'scroll', args };
+    },
+  },
+  {
+    name: 'wait_for_selector',
+    description:
+      'Wait until an element matching a CSS selector appears on the current page. Use after navigation or clicks that load content.',
+    readOnly: true,
+    parameters: [
+      {
+        name: 'selector',
+        type: 'string',
+        description: 'CSS selector to wait for',
+        required: true,
+      },
+      {
+        name: 'timeout_ms',
+        type: 'number',
+        description: 'Maximum time to wait in milliseconds (default: 5000, max: 30000)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:wait_for_selector', args);
+      }
+      return { tool: 'wait_for_selector', args };
+    },
+  },
+  {
+    name: 'extract_links',
+    description: 'List the links on the current page with their text and absolute URL.',
+    readOnly: true,
+    parameters: [
+      {
+        name: 'filter',
+        type: 'string',
+        description: 'Only return links whose text or URL contains this text',
+        required: false,
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: 'Maximum number of links to return (default: 50, max: 200)',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:extract_links', args);
+      }
+      return { tool: 'extract_links', args };
+    },
+  },
+  {
+    name: 'switch_tab',
+    description:
+      'Switch to another open tab by ID, or to the first tab whose title or URL contains a query. Fails with the list of open tabs when nothing matches.',
+    readOnly: false,
+    parameters: [
+      {
+        name: 'tab_id',
+        type: 'string',
+        description: 'ID of the tab to switch to',
+        required: false,
+      },
+      {
+        name: 'query',
+        type: 'string',
+        description: 'Text to match against tab titles and URLs',
+        required: false,
+      },
+    ],
+    execute: async (args) => {
+      if (typeof window !== 'undefined' && window.electron) {
+        return await window.electron.invoke('tool:switch_tab', args);
+      }
+      return { tool: 'switch_tab', args };
+    },
+  },
 ];
 
+/**
+ * Check whether a tool only reads data (unknown tools are treated as side-effecting)
+ */
+export function isReadOnlyTool(toolName: string): boolean {
+  return AVAILABLE_TOOLS.find((t) => t.name === toolName)?.readOnly ?? false;
+}
+
+/**
+ * Get the origin a tool call acts on, used to look up per-origin permission policies.
+ * open_url acts on its target URL, every other tool on the page in the active tab.
+ */
+export function getToolCallOrigin(
+  toolName: string,
+  args: Record<string, unknown>,
+  activeUrl?: string
+): string | null {
+  let url = activeUrl;
+  if (toolName === 'open_url' && typeof args.url === 'string') {
+    const target = args.url.trim();
+    url = /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : `https://${target}`;
+  }
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Convert tools to OpenAI function calling format
  */
@@ -18,6 +18,42 @@ export interface Bookmark {
   updatedAt: number;
 }
 
+/**
+ * Readable text of a visited page, kept for semantic history search
+ */
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  textContent: string;
+  embeddingModel?: string | null; // Model that produced the stored embedding, if any
+  capturedAt: number;
+}
+
+export interface SemanticHistoryResult extends HistoryEntry {
+  excerpt: string;
+  score: number; // Cosine similarity to the query
+}
+
+export interface HistoryIndexStatus {
+  model: string | null; // Embedding model, null when semantic search is off
+  indexedPages: number;
+  pendingPages: number;
+}
+
+// A bookmark cited in an answer, numbered as it appears in the text ([1], [2], ...)
+export interface SourceCitation {
+  index: number;
+  bookmarkId: number;
+  title: string;
+  url: string;
+}
+
+// A passage retrieved from a bookmarked page for bookmark chat
+export interface BookmarkSource extends SourceCitation {
+  text: string;
+  score: number; // Cosine similarity to the question
+}
+
 export interface BrowsingContext {
   history: HistoryEntry[];
   bookmarks: Bookmark[];
@@ -32,6 +68,48 @@ export interface Tab {
   position: number;
   isSuspended?: boolean;
   lastActiveTime?: number;
+  blockedPopups?: string[]; // Pop-ups the current page tried to open without a click
+  blockedRequests?: number; // Ads and trackers blocked on the current page
+  isPrivate?: boolean; // In-memory session, no history, never saved with the tab session
+  containerId?: number; // Container whose cookies and storage the tab uses
+  groupId?: string; // Tabs of a group are always next to each other
+}
+
+export type TabGroupColor =
+  'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+
+export interface TabGroup {
+  id: string;
+  name: string; // May be empty, the group then shows only its color
+  color: TabGroupColor;
+  collapsed: boolean;
+}
+
+// A tab as kept in a saved session
+export interface SavedSessionTab {
+  url: string;
+  title: string;
+  favicon?: string;
+  containerId?: number;
+  groupId?: string;
+}
+
+// Tabs and groups saved under a name to be reopened later
+export interface TabSession {
+  id: number;
+  name: string;
+  groups: TabGroup[];
+  tabs: SavedSessionTab[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TabSessionSummary {
+  id: number;
+  name: string;
+  tabCount: number;
+  groupCount: number;
+  updatedAt: number;
 }
 
 // LLM/Ollama related types
@@ -97,12 +175,201 @@ export interface ChatMessage {
   timestamp?: number;
 }
 
+export interface MessageContextInfo {
+  pageUrl?: string;
+  pageTitle?: string;
+  hasContent?: boolean;
+  hasScreenshot?: boolean;
+  hasHistory?: boolean;
+  hasBookmarks?: boolean;
+  sources?: SourceCitation[]; // Bookmarks retrieved for this question
+  tokenEstimate?: number;
+  contextWithheld?: boolean; // The page matched an AI privacy rule and was left out
+  redactions?: Redaction[]; // Personal data replaced in the page content
+}
+
+export interface MessageTiming {
+  startTime: number;
+  firstTokenTime?: number;
+  endTime?: number;
+  ttft?: number; // Time to first token in ms
+  totalTime?: number; // Total response time in ms
+}
+
+// Token counts and speeds reported by the model server for one response
+export interface ResponseStats {
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  promptEvalMs?: number; // Time spent processing the prompt
+  evalMs?: number; // Time spent generating the response
+  loadMs?: number; // Time spent loading the model into memory
+  totalMs?: number;
+  tokensPerSecond?: number;
+  contextLength?: number; // Context window of the model, when the server reports it
+}
+
+// Averages over the stored responses of one model
+export interface ModelPerformance {
+  model: string;
+  responses: number;
+  avgTokensPerSecond: number | null;
+  avgPromptEvalMs: number | null;
+  avgPromptTokens: number | null;
+  avgTtftMs: number | null;
+  avgContextFill: number | null; // Share of the context window used, from 0 to 1
+  lastUsed: number;
+}
+
+// A tool call requested by the model, in Ollama's format
+export interface ModelToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+export interface ToolCallInfo {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Chat message as persisted in the conversations database
+export interface StoredMessage extends ChatMessage {
+  id: string;
+  timestamp: number;
+  contextInfo?: MessageContextInfo;
+  toolCall?: ToolCallInfo;
+  toolResult?: unknown;
+  isToolExecution?: boolean;
+  thinking?: string;
+  timing?: MessageTiming;
+  stats?: ResponseStats;
+  isMemory?: boolean; // Rolling summary of the condensed turns, pinned to the top of the chat
+  condensed?: boolean; // Covered by the memory summary and no longer sent to the model
+}
+
 export interface Conversation {
   id: string;
-  messages: ChatMessage[];
-  model: string;
+  title: string;
+  model?: string;
   createdAt: number;
   updatedAt: number;
+  messageCount?: number;
+  messages?: StoredMessage[];
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: ChatMessage['role'];
+  snippet: string;
+  createdAt: number;
+}
+
+export interface SearchEngine {
+  id: number;
+  name: string;
+  keyword: string; // Address bar trigger, e.g. "gh" in "gh react hooks"
+  searchUrl: string; // Template with %s for the query
+  suggestUrl?: string; // OpenSearch suggestions endpoint with %s for the query
+  isDefault: boolean;
+  createdAt: number;
+}
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+// Tools the user chose to always allow on an origin
+export interface ToolPolicy {
+  origin: string;
+  allowedTools: string[];
+}
+
+// Capabilities a site has to ask the user for
+export type SitePermissionType =
+  | 'camera'
+  | 'microphone'
+  | 'geolocation'
+  | 'notifications'
+  | 'midi'
+  | 'clipboard-read'
+  | 'display-capture'
+  | 'idle-detection'
+  | 'window-management'
+  | 'open-external'
+  | 'popups'
+  | 'ads';
+
+export type SitePermissionDecision = 'allow' | 'block';
+
+// A decision the user saved for an origin
+export interface SitePermission {
+  origin: string;
+  permission: SitePermissionType;
+  decision: SitePermissionDecision;
+  updatedAt: number;
+}
+
+// A permission request waiting for the user, shown while its tab is active
+export interface SitePermissionPrompt {
+  id: string;
+  tabId: string;
+  origin: string;
+  permissions: SitePermissionType[];
+}
+
+// An origin ("https://bank.example.com") or URL pattern ("*://hr.*") whose
+// pages are never sent to the AI
+export interface AIPrivacyRule {
+  id: number;
+  pattern: string;
+  createdAt: number;
+}
+
+export type RedactionKind = 'email' | 'phone' | 'creditCard' | 'iban' | 'apiKey' | 'custom';
+
+// A regex the user added to redact values of their own, e.g. customer IDs
+export interface CustomRedactionPattern {
+  name: string; // Used for the placeholder, e.g. "Customer ID" -> [CUSTOMER_ID_1]
+  pattern: string;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  kinds: Record<Exclude<RedactionKind, 'custom'>, boolean>;
+  customPatterns: CustomRedactionPattern[];
+}
+
+// A value replaced before page content was sent to the model
+export interface Redaction {
+  kind: RedactionKind;
+  placeholder: string; // e.g. [EMAIL_1], the same for every occurrence of the value
+}
+
+export type ContainerColor =
+  'blue' | 'turquoise' | 'green' | 'yellow' | 'orange' | 'red' | 'pink' | 'purple';
+
+// An identity (e.g. "Work", "Personal") with its own cookies and site storage
+export interface Container {
+  id: number;
+  name: string;
+  color: ContainerColor;
+  createdAt: number;
+}
+
+// A filter list file loaded by the content blocker
+export interface FilterListInfo {
+  name: string;
+  networkRules: number;
+  cosmeticRules: number; // Element hiding rules
+}
+
+export interface ContentBlockerStatus {
+  enabled: boolean;
+  folder: string; // Where EasyList-format list files are read from
+  lists: FilterListInfo[];
 }
 
 export interface PageContext {
@@ -125,12 +392,61 @@ export interface GenerateOptions {
   images?: string[];
   system?: string;
   context?: AIContext;
+  requestId?: string; // Tags streamed events and targets cancellation; generated when missing
 }
 
 export interface ChatOptions {
   model: string;
   messages: ChatMessage[];
   context?: AIContext;
+  memory?: string; // Summary of earlier turns that are no longer sent
+  requestId?: string; // Tags streamed events and targets cancellation; generated when missing
+}
+
+export interface SummarizeOptions {
+  model: string;
+  messages: ChatMessage[]; // Turns to condense
+  previousSummary?: string; // Memory the new summary builds on
+  requestId?: string;
+}
+
+// Streamed events carry the ID of the request they belong to, so concurrent
+// requests don't mix their output
+export interface StreamTokenEvent {
+  requestId: string;
+  token: string;
+}
+
+export interface StreamToolCallsEvent {
+  requestId: string;
+  toolCalls: ModelToolCall[];
+}
+
+export interface StreamReasoningEvent {
+  requestId: string;
+  content: string;
+}
+
+export interface StreamStatsEvent {
+  requestId: string;
+  stats: ResponseStats;
+}
+
+// Backend that chat and generation requests are sent to
+export type LLMProviderId = 'ollama' | 'openai-compatible';
+
+export interface LLMProviderSettings {
+  provider: LLMProviderId;
+  baseUrl: string; // Server address for OpenAI-compatible servers, e.g. http://10.0.0.5:8080
+  apiKey: string; // Sent as a bearer token when set
+}
+
+// Where the Ollama server is reached; any host other than this computer is "remote"
+export interface OllamaEndpoint {
+  host: string;
+  port: number;
+  useTls: boolean;
+  authHeader: string; // Authorization header value for servers behind a proxy, e.g. "Bearer ..."
 }
 
 // Personality types